@@ -3,10 +3,19 @@ import { NavigationContainer } from '@react-navigation/native';
 import { StatusBar } from 'expo-status-bar';
 import { SafeAreaProvider } from 'react-native-safe-area-context';
 import { View, ActivityIndicator, StyleSheet } from 'react-native';
-import TabNavigator from './navigation/TabNavigator';
+import MainNavigator, { linking } from './navigation/MainNavigator';
 import AuthProvider, { useAuth } from './contexts/AuthContext';
 import AuthNavigator from './components/AuthNavigator';
 import PendingApprovalScreen from './screens/PendingApprovalScreen';
+import { startRealtime, stopRealtime } from './services/realtimeService';
+import { startAlertMonitoring, stopAlertMonitoring } from './services/alertService';
+import { startHeartbeatMonitoring, stopHeartbeatMonitoring } from './services/heartbeatService';
+import { startAnomalyMonitoring, stopAnomalyMonitoring } from './services/anomalyService';
+import { configureBackgroundSync } from './services/backgroundSyncService';
+import { registerForPushNotifications } from './services/pushService';
+import { setupNotificationActions } from './services/notificationActions';
+import { setAlertActorName } from './services/alertHistoryService';
+import { settingsService } from './services/settingsService';
 
 const AppContent: React.FC = () => {
   const { user, loading } = useAuth();
@@ -18,6 +27,41 @@ const AppContent: React.FC = () => {
     }
   }, [loading]);
 
+  // Live reading updates, alerts and offline detection only for approved users who can see the data
+  const canViewData = !!user?.profile && user.profile.role !== 2;
+  const userId = user?.id;
+  useEffect(() => {
+    if (!canViewData || !userId) return;
+    registerForPushNotifications(userId);
+    setupNotificationActions();
+  }, [canViewData, userId]);
+
+  // Acknowledgements made from a notification's button are signed with this name
+  const actorName = user?.profile?.fullname || user?.email;
+  useEffect(() => {
+    if (actorName) setAlertActorName(actorName);
+  }, [actorName]);
+
+  useEffect(() => {
+    if (!canViewData) return;
+    startRealtime();
+    startAlertMonitoring();
+    startHeartbeatMonitoring();
+    startAnomalyMonitoring();
+    // Keeps the background task registered (or not) to match the setting
+    settingsService.loadSettings().then(() => configureBackgroundSync());
+    const unsubscribeSettings = settingsService.subscribe(() => {
+      configureBackgroundSync();
+    });
+    return () => {
+      unsubscribeSettings();
+      stopRealtime();
+      stopAlertMonitoring();
+      stopHeartbeatMonitoring();
+      stopAnomalyMonitoring();
+    };
+  }, [canViewData]);
+
   if (loading || !showApp) {
     return (
       <View style={styles.loadingContainer}>
@@ -47,9 +91,9 @@ const AppContent: React.FC = () => {
 
   // User is approved (role 0 = admin, role 1 = researcher, role 3 = approved user)
   return (
-    <NavigationContainer>
+    <NavigationContainer linking={linking}>
       <StatusBar style="dark" backgroundColor="#ffffff" />
-      <TabNavigator />
+      <MainNavigator />
     </NavigationContainer>
   );
 };
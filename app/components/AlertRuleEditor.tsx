@@ -0,0 +1,340 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  TextInput,
+  ScrollView,
+  Modal,
+  SafeAreaView,
+  Switch,
+  Alert,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import {
+  AlertRule,
+  NewAlertRule,
+  AlertParameter,
+  AlertCondition,
+  AlertSeverity,
+  ALERT_PARAMETER_LABELS,
+  ALERT_CONDITION_LABELS,
+  ALERT_SEVERITY_LABELS,
+  ALERT_SEVERITY_COLORS,
+  describeAlertRule,
+} from '../services/alertService';
+import { QC_THRESHOLDS } from '../services/qualityControl';
+
+interface AlertRuleEditorProps {
+  visible: boolean;
+  rule: AlertRule | null; // null = creating a new rule
+  buoyNumbers: number[];
+  onSave: (rule: NewAlertRule | AlertRule) => void;
+  onClose: () => void;
+}
+
+const PARAMETERS: AlertParameter[] = ['pH', 'temperature', 'tds'];
+const CONDITIONS: AlertCondition[] = ['above', 'below', 'rate'];
+const SEVERITIES: AlertSeverity[] = ['info', 'warning', 'critical'];
+const SUSTAINED_OPTIONS = [1, 2, 3, 5, 10];
+
+const NEW_RULE: NewAlertRule = {
+  buoyId: null,
+  parameter: 'pH',
+  condition: 'below',
+  threshold: 7,
+  sustainedReadings: 2,
+  hysteresis: 0.2,
+  severity: 'warning',
+  enabled: true,
+};
+
+const AlertRuleEditor: React.FC<AlertRuleEditorProps> = ({ visible, rule, buoyNumbers, onSave, onClose }) => {
+  const [draft, setDraft] = useState<NewAlertRule>(NEW_RULE);
+  // Kept as text so partially typed numbers ("7.", "-") survive editing
+  const [thresholdText, setThresholdText] = useState('');
+  const [hysteresisText, setHysteresisText] = useState('');
+
+  useEffect(() => {
+    if (!visible) return;
+    const initial = rule ?? NEW_RULE;
+    setDraft(initial);
+    setThresholdText(String(initial.threshold));
+    setHysteresisText(String(initial.hysteresis));
+  }, [visible, rule]);
+
+  const update = <K extends keyof NewAlertRule>(key: K, value: NewAlertRule[K]) => {
+    setDraft(prev => ({ ...prev, [key]: value }));
+  };
+
+  const unit = QC_THRESHOLDS.sensors[draft.parameter].unit.trim();
+  const thresholdUnit = draft.condition === 'rate' ? `${unit || 'units'}/h` : unit;
+
+  const handleSave = () => {
+    const threshold = parseFloat(thresholdText);
+    const hysteresis = parseFloat(hysteresisText || '0');
+    if (isNaN(threshold)) {
+      Alert.alert('Invalid Threshold', 'Enter a number for the threshold.');
+      return;
+    }
+    if (draft.condition === 'rate' && threshold <= 0) {
+      Alert.alert('Invalid Threshold', 'A rate of change threshold must be greater than zero.');
+      return;
+    }
+    if (isNaN(hysteresis) || hysteresis < 0) {
+      Alert.alert('Invalid Hysteresis', 'Hysteresis must be zero or a positive number.');
+      return;
+    }
+    if (draft.condition === 'rate' && hysteresis >= threshold) {
+      Alert.alert('Invalid Hysteresis', 'Hysteresis must be smaller than the rate threshold, or the alert can never clear.');
+      return;
+    }
+
+    const saved = { ...draft, threshold, hysteresis };
+    onSave(rule ? { ...saved, id: rule.id } : saved);
+  };
+
+  const renderChips = <T extends string | number | null>(
+    options: T[],
+    selected: T,
+    label: (option: T) => string,
+    onSelect: (option: T) => void
+  ) => (
+    <View style={styles.chipRow}>
+      {options.map(option => (
+        <TouchableOpacity
+          key={String(option)}
+          style={[styles.chip, selected === option && styles.chipSelected]}
+          onPress={() => onSelect(option)}
+        >
+          <Text style={[styles.chipText, selected === option && styles.chipTextSelected]}>
+            {label(option)}
+          </Text>
+        </TouchableOpacity>
+      ))}
+    </View>
+  );
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onClose}
+    >
+      <SafeAreaView style={styles.container}>
+        {/* Header */}
+        <View style={styles.header}>
+          <TouchableOpacity onPress={onClose} style={styles.headerButton}>
+            <Ionicons name="close" size={24} color="#64748b" />
+          </TouchableOpacity>
+          <Text style={styles.headerTitle}>{rule ? 'Edit Alert Rule' : 'New Alert Rule'}</Text>
+          <TouchableOpacity onPress={handleSave} style={styles.headerButton}>
+            <Text style={styles.saveText}>Save</Text>
+          </TouchableOpacity>
+        </View>
+
+        <ScrollView style={styles.content} contentContainerStyle={styles.contentInner} showsVerticalScrollIndicator={false}>
+          <Text style={styles.label}>Buoy</Text>
+          {renderChips<number | null>(
+            [null, ...buoyNumbers],
+            draft.buoyId,
+            option => (option === null ? 'All Buoys' : `Buoy ${option}`),
+            option => update('buoyId', option)
+          )}
+
+          <Text style={styles.label}>Parameter</Text>
+          {renderChips(PARAMETERS, draft.parameter, option => ALERT_PARAMETER_LABELS[option], option => update('parameter', option))}
+
+          <Text style={styles.label}>Condition</Text>
+          {renderChips(CONDITIONS, draft.condition, option => ALERT_CONDITION_LABELS[option], option => update('condition', option))}
+
+          <Text style={styles.label}>
+            {draft.condition === 'rate' ? 'Change per hour' : 'Threshold'}{thresholdUnit ? ` (${thresholdUnit})` : ''}
+          </Text>
+          <TextInput
+            style={styles.input}
+            value={thresholdText}
+            onChangeText={setThresholdText}
+            keyboardType="numbers-and-punctuation"
+            placeholder="e.g. 7.0"
+          />
+
+          <Text style={styles.label}>Sustained for</Text>
+          {renderChips(
+            SUSTAINED_OPTIONS,
+            draft.sustainedReadings,
+            option => (option === 1 ? '1 reading' : `${option} readings`),
+            option => update('sustainedReadings', option)
+          )}
+
+          <Text style={styles.label}>Hysteresis{unit ? ` (${unit})` : ''}</Text>
+          <TextInput
+            style={styles.input}
+            value={hysteresisText}
+            onChangeText={setHysteresisText}
+            keyboardType="decimal-pad"
+            placeholder="e.g. 0.2"
+          />
+          <Text style={styles.hint}>
+            Once fired, the alert clears only after the value moves this far back past the threshold.
+          </Text>
+
+          <Text style={styles.label}>Severity</Text>
+          <View style={styles.chipRow}>
+            {SEVERITIES.map(severity => (
+              <TouchableOpacity
+                key={severity}
+                style={[
+                  styles.chip,
+                  draft.severity === severity && { backgroundColor: ALERT_SEVERITY_COLORS[severity], borderColor: ALERT_SEVERITY_COLORS[severity] },
+                ]}
+                onPress={() => update('severity', severity)}
+              >
+                <Text style={[styles.chipText, draft.severity === severity && styles.chipTextOnColor]}>
+                  {ALERT_SEVERITY_LABELS[severity]}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          <View style={styles.switchRow}>
+            <Text style={styles.switchLabel}>Enabled</Text>
+            <Switch
+              value={draft.enabled}
+              onValueChange={value => update('enabled', value)}
+              trackColor={{ false: '#e2e8f0', true: '#7dd3fc' }}
+              thumbColor={draft.enabled ? '#0ea5e9' : '#f1f5f9'}
+            />
+          </View>
+
+          <View style={styles.preview}>
+            <Ionicons name="notifications" size={18} color={ALERT_SEVERITY_COLORS[draft.severity]} />
+            <Text style={styles.previewText}>
+              {draft.buoyId === null ? 'Any buoy' : `Buoy ${draft.buoyId}`}:{' '}
+              {describeAlertRule({ ...draft, id: '', threshold: parseFloat(thresholdText) || 0 })}
+            </Text>
+          </View>
+        </ScrollView>
+      </SafeAreaView>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8fafc',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    backgroundColor: '#ffffff',
+    borderBottomWidth: 1,
+    borderBottomColor: '#e2e8f0',
+  },
+  headerButton: {
+    padding: 4,
+    minWidth: 40,
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#1e293b',
+  },
+  saveText: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: '#0ea5e9',
+    textAlign: 'right',
+  },
+  content: {
+    flex: 1,
+  },
+  contentInner: {
+    padding: 20,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#1e293b',
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingVertical: 8,
+    paddingHorizontal: 14,
+    borderRadius: 20,
+    backgroundColor: '#f1f5f9',
+    borderWidth: 2,
+    borderColor: 'transparent',
+  },
+  chipSelected: {
+    backgroundColor: '#e0f2fe',
+    borderColor: '#0ea5e9',
+  },
+  chipText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#475569',
+  },
+  chipTextSelected: {
+    color: '#0ea5e9',
+  },
+  chipTextOnColor: {
+    color: '#ffffff',
+  },
+  input: {
+    backgroundColor: '#ffffff',
+    borderWidth: 1,
+    borderColor: '#e2e8f0',
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    fontSize: 16,
+    color: '#1e293b',
+  },
+  hint: {
+    fontSize: 12,
+    color: '#64748b',
+    marginTop: 6,
+  },
+  switchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginTop: 20,
+  },
+  switchLabel: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1e293b',
+  },
+  preview: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginTop: 24,
+    padding: 16,
+    backgroundColor: '#ffffff',
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#e2e8f0',
+  },
+  previewText: {
+    flex: 1,
+    fontSize: 14,
+    color: '#475569',
+  },
+});
+
+export default AlertRuleEditor;
@@ -0,0 +1,144 @@
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { Anomaly, ANOMALY_COLOR, ANOMALY_KIND_LABELS, anomalyKey, describeAnomaly } from '../services/anomalyDetection';
+
+interface AnomalyPanelProps {
+  anomalies: Anomaly[];
+}
+
+const COLLAPSED_COUNT = 5;
+
+const formatTime = (timestamp: number): string =>
+  new Date(timestamp).toLocaleString('en-US', { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+// Anomalies shown on the chart, newest first
+const AnomalyPanel: React.FC<AnomalyPanelProps> = ({ anomalies }) => {
+  const [expanded, setExpanded] = useState(false);
+  const sorted = [...anomalies].sort((a, b) => b.timestamp - a.timestamp);
+  const visible = expanded ? sorted : sorted.slice(0, COLLAPSED_COUNT);
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <Ionicons name="pulse" size={18} color={ANOMALY_COLOR} />
+        <Text style={styles.title}>Anomalies</Text>
+        <Text style={styles.count}>{anomalies.length}</Text>
+      </View>
+
+      {sorted.length === 0 ? (
+        <Text style={styles.emptyText}>No unusual readings in this period.</Text>
+      ) : (
+        visible.map(anomaly => (
+          <View key={anomalyKey(anomaly)} style={styles.row}>
+            <View style={[styles.kindBadge, anomaly.kind === 'drift' && styles.driftBadge]}>
+              <Text style={[styles.kindText, anomaly.kind === 'drift' && styles.driftText]}>
+                {ANOMALY_KIND_LABELS[anomaly.kind]}
+              </Text>
+            </View>
+            <View style={styles.rowBody}>
+              <Text style={styles.description}>{describeAnomaly(anomaly)}</Text>
+              <Text style={styles.meta}>
+                {formatTime(anomaly.timestamp)} · score {anomaly.score.toFixed(1)}
+              </Text>
+            </View>
+          </View>
+        ))
+      )}
+
+      {sorted.length > COLLAPSED_COUNT && (
+        <TouchableOpacity style={styles.toggle} onPress={() => setExpanded(!expanded)}>
+          <Text style={styles.toggleText}>{expanded ? 'Show fewer' : `Show all ${sorted.length}`}</Text>
+          <Ionicons name={expanded ? 'chevron-up' : 'chevron-down'} size={14} color="#0ea5e9" />
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: '#ffffff',
+    marginHorizontal: 12,
+    marginVertical: 8,
+    padding: 12,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#e2e8f0',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  title: {
+    flex: 1,
+    fontSize: 15,
+    fontWeight: '700',
+    color: '#1e293b',
+    marginLeft: 6,
+  },
+  count: {
+    fontSize: 13,
+    fontWeight: '700',
+    color: ANOMALY_COLOR,
+  },
+  emptyText: {
+    fontSize: 13,
+    color: '#64748b',
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    paddingVertical: 8,
+    borderTopWidth: 1,
+    borderTopColor: '#f1f5f9',
+  },
+  kindBadge: {
+    paddingVertical: 2,
+    paddingHorizontal: 6,
+    borderRadius: 8,
+    backgroundColor: ANOMALY_COLOR,
+    marginRight: 8,
+    marginTop: 1,
+  },
+  driftBadge: {
+    backgroundColor: '#ffffff',
+    borderWidth: 1,
+    borderColor: ANOMALY_COLOR,
+  },
+  kindText: {
+    fontSize: 10,
+    fontWeight: '700',
+    color: '#ffffff',
+  },
+  driftText: {
+    color: ANOMALY_COLOR,
+  },
+  rowBody: {
+    flex: 1,
+  },
+  description: {
+    fontSize: 13,
+    color: '#1e293b',
+  },
+  meta: {
+    fontSize: 11,
+    color: '#64748b',
+    marginTop: 2,
+  },
+  toggle: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 4,
+    paddingTop: 8,
+  },
+  toggleText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#0ea5e9',
+  },
+});
+
+export default AnomalyPanel;
@@ -0,0 +1,183 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, ActivityIndicator } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import {
+  BackgroundRun,
+  BackgroundRunResult,
+  BackgroundSyncDiagnostics as Diagnostics,
+  BACKGROUND_RESULT_LABELS,
+  getBackgroundSyncDiagnostics,
+  runBackgroundSync,
+} from '../services/backgroundSyncService';
+import { formatDuration } from '../services/heartbeatService';
+
+const RESULT_COLORS: Record<BackgroundRunResult, string> = {
+  'new-data': '#10b981',
+  'no-data': '#64748b',
+  skipped: '#f59e0b',
+  failed: '#ef4444',
+};
+
+const STATUS_LABELS: Record<Diagnostics['status'], string> = {
+  available: 'Allowed',
+  denied: 'Turned off in system settings',
+  restricted: 'Restricted by the system',
+  unavailable: 'Not supported on this device',
+};
+
+const RECENT_RUNS_SHOWN = 5;
+
+const formatRunTime = (timestamp: number): string =>
+  `${new Date(timestamp).toLocaleString()} (${formatDuration(Date.now() - timestamp)} ago)`;
+
+const describeRun = (run: BackgroundRun): string => {
+  if (run.detail) return run.detail;
+  const parts = [`${run.newReadings} new reading${run.newReadings === 1 ? '' : 's'}`];
+  if (run.alertsFired > 0) parts.push(`${run.alertsFired} alert${run.alertsFired === 1 ? '' : 's'}`);
+  return parts.join(', ');
+};
+
+// When the background task last ran and what it did, for checking it is alive
+const BackgroundSyncDiagnostics: React.FC = () => {
+  const [diagnostics, setDiagnostics] = useState<Diagnostics | null>(null);
+  const [running, setRunning] = useState(false);
+
+  const load = useCallback(async () => {
+    setDiagnostics(await getBackgroundSyncDiagnostics());
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const runNow = async () => {
+    setRunning(true);
+    try {
+      await runBackgroundSync();
+    } finally {
+      setRunning(false);
+      load();
+    }
+  };
+
+  if (!diagnostics) {
+    return <ActivityIndicator size="small" color="#0ea5e9" style={styles.loading} />;
+  }
+
+  const { lastRun, lastSuccess } = diagnostics;
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <Ionicons name="moon" size={18} color="#0ea5e9" />
+        <Text style={styles.title}>Diagnostics</Text>
+        <TouchableOpacity onPress={load} style={styles.iconButton}>
+          <Ionicons name="refresh" size={18} color="#64748b" />
+        </TouchableOpacity>
+      </View>
+
+      <Text style={styles.line}>
+        Task: {diagnostics.registered ? 'Registered' : 'Not registered'} · {STATUS_LABELS[diagnostics.status]}
+      </Text>
+      <Text style={styles.line}>
+        Last run: {lastRun ? formatRunTime(lastRun.startedAt) : 'Never'}
+      </Text>
+      <Text style={styles.line}>
+        Last successful sync: {lastSuccess ? formatRunTime(lastSuccess.startedAt) : 'Never'}
+      </Text>
+
+      {diagnostics.runs.slice(0, RECENT_RUNS_SHOWN).map(run => (
+        <View key={run.startedAt} style={styles.runRow}>
+          <View style={[styles.dot, { backgroundColor: RESULT_COLORS[run.result] }]} />
+          <Text style={styles.runTime}>{new Date(run.startedAt).toLocaleTimeString()}</Text>
+          <Text style={[styles.runResult, { color: RESULT_COLORS[run.result] }]}>
+            {BACKGROUND_RESULT_LABELS[run.result]}
+          </Text>
+          <Text style={styles.runDetail} numberOfLines={1}>{describeRun(run)}</Text>
+        </View>
+      ))}
+
+      <TouchableOpacity style={styles.runButton} onPress={runNow} disabled={running}>
+        {running ? (
+          <ActivityIndicator size="small" color="#ffffff" />
+        ) : (
+          <Text style={styles.runButtonText}>Run Now</Text>
+        )}
+      </TouchableOpacity>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  loading: {
+    marginTop: 12,
+  },
+  container: {
+    marginTop: 12,
+    padding: 12,
+    backgroundColor: '#f8fafc',
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#e2e8f0',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  title: {
+    flex: 1,
+    marginLeft: 8,
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#1e293b',
+  },
+  iconButton: {
+    padding: 4,
+  },
+  line: {
+    fontSize: 13,
+    color: '#475569',
+    marginBottom: 4,
+  },
+  runRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 4,
+  },
+  dot: {
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+    marginRight: 8,
+  },
+  runTime: {
+    fontSize: 12,
+    color: '#64748b',
+    width: 80,
+  },
+  runResult: {
+    fontSize: 12,
+    fontWeight: '600',
+    width: 80,
+  },
+  runDetail: {
+    flex: 1,
+    fontSize: 12,
+    color: '#64748b',
+  },
+  runButton: {
+    marginTop: 10,
+    paddingVertical: 10,
+    borderRadius: 8,
+    backgroundColor: '#0ea5e9',
+    alignItems: 'center',
+  },
+  runButtonText: {
+    color: '#ffffff',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+});
+
+export default BackgroundSyncDiagnostics;
@@ -1,13 +1,23 @@
-import React, { useState } from 'react';
-import { View, Text, StyleSheet, Image, TouchableOpacity } from 'react-native';
+import React, { useState, useMemo, useEffect } from 'react';
+import { View, Text, StyleSheet, Image, TouchableOpacity, Alert } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
 import { useFocusEffect, useNavigation } from '@react-navigation/native';
 import { BuoyData } from '../services/buoyService';
 import BuoyEchoAnimation from './BuoyEchoAnimation';
+import { toBuoyReading, parseBuoyId } from '../services/buoyReading';
+import { QcParameter, QC_FLAG_COLORS, QC_FLAG_LABELS, assessReadingQuality, describeQuality } from '../services/qualityControl';
+import { BUOY_STATUS_COLORS, BUOY_STATUS_LABELS, formatDuration } from '../services/heartbeatService';
+import { useBuoyHeartbeat } from '../hooks/useBuoyHeartbeats';
+import { useWaterQualityStandard } from '../hooks/useWaterQualityStandard';
+import { ParameterStatistics, StatisticsParameter, formatStatistic, getParameterSummary } from '../services/statistics';
+import { WQI_CATEGORY_COLORS, WQI_CATEGORY_LABELS, WQI_PARAMETER_LABELS, WqiParameter, computeWqi, formatWqi } from '../services/waterQuality';
 
 interface BuoyCardProps {
   data: BuoyData;
 }
 
+const DAY_MS = 24 * 60 * 60 * 1000;
+
 const BuoyCard: React.FC<BuoyCardProps> = ({ data }) => {
   const [isScreenFocused, setIsScreenFocused] = useState(true);
   const navigation = useNavigation();
@@ -81,6 +91,58 @@ const BuoyCard: React.FC<BuoyCardProps> = ({ data }) => {
 
   const { date, time } = formatDateTime(data.Date, data.Time);
 
+  // Only the single-reading checks apply here (range, GPS, timestamp)
+  const quality = useMemo(() => assessReadingQuality([toBuoyReading(data)])[0], [data]);
+  const isFlagged = quality.flag === 'suspect' || quality.flag === 'bad';
+
+  const standard = useWaterQualityStandard();
+  const wqi = useMemo(() => computeWqi({ ...toBuoyReading(data), qc: quality }, standard), [data, quality, standard]);
+
+  const showWqiDetails = () => {
+    if (!wqi) return;
+    const lines = (Object.keys(wqi.subIndices) as WqiParameter[])
+      .map(parameter => `${WQI_PARAMETER_LABELS[parameter]}: ${formatWqi(wqi.subIndices[parameter]!)}`);
+    Alert.alert(
+      `Water Quality Index: ${formatWqi(wqi.score)}`,
+      `${WQI_CATEGORY_LABELS[wqi.category]} against ${standard.label}.\n\n${lines.join('\n')}`
+    );
+  };
+
+  const buoyId = parseBuoyId(data.Buoy);
+  const heartbeat = useBuoyHeartbeat(buoyId);
+
+  // Range over the last 24 hours from the on-device history, refreshed with each new reading
+  const [dayStats, setDayStats] = useState<Record<StatisticsParameter, ParameterStatistics> | null>(null);
+  useEffect(() => {
+    if (buoyId === null) return;
+    let cancelled = false;
+    getParameterSummary({ buoyIds: [buoyId], from: Date.now() - DAY_MS })
+      .then(summary => {
+        if (!cancelled) setDayStats(summary);
+      })
+      .catch(error => console.error('Error loading 24h statistics:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [buoyId, data]);
+
+  const dayRange = (parameter: StatisticsParameter, decimals: number) => {
+    const stats = dayStats?.[parameter];
+    if (!stats || stats.count < 2) return null;
+    return `24h: ${formatStatistic(stats.min!.value, decimals)}–${formatStatistic(stats.max!.value, decimals)}`;
+  };
+  const statusColor = heartbeat ? BUOY_STATUS_COLORS[heartbeat.status] : BUOY_STATUS_COLORS.online;
+  const statusLabel = !heartbeat
+    ? 'Live Data'
+    : heartbeat.status === 'online'
+      ? BUOY_STATUS_LABELS.online
+      : `${BUOY_STATUS_LABELS[heartbeat.status]} · ${formatDuration(heartbeat.silentForMs)} ago`;
+
+  const valueStyle = (parameter: QcParameter) => {
+    const flag = quality.parameters[parameter];
+    return flag === 'suspect' || flag === 'bad' ? { color: QC_FLAG_COLORS[flag] } : null;
+  };
+
   // Format TDS to remove .00
   const formatTDS = (tds: string | number) => {
     const tdsValue = typeof tds === 'string' ? parseFloat(tds) : tds;
@@ -100,9 +162,11 @@ const BuoyCard: React.FC<BuoyCardProps> = ({ data }) => {
     <View style={styles.container}>
       {/* Header Section */}
       <View style={styles.headerSection}>
-        <View style={styles.statusIndicator}>
-          <View style={styles.statusDot} />
-          <Text style={styles.statusText}>Live Data</Text>
+        <View style={[styles.statusIndicator, heartbeat && heartbeat.status !== 'online' && { backgroundColor: `${statusColor}1a` }]}>
+          <View style={[styles.statusDot, { backgroundColor: statusColor }]} />
+          <Text style={[styles.statusText, heartbeat && heartbeat.status !== 'online' && { color: statusColor }]}>
+            {statusLabel}
+          </Text>
         </View>
         <View style={styles.dateTimeContainer}>
           <Text style={styles.dateText}>{date}</Text>
@@ -110,6 +174,18 @@ const BuoyCard: React.FC<BuoyCardProps> = ({ data }) => {
         </View>
       </View>
 
+      {isFlagged && (
+        <TouchableOpacity
+          style={[styles.qcBanner, { borderColor: QC_FLAG_COLORS[quality.flag] }]}
+          onPress={() => Alert.alert(`${QC_FLAG_LABELS[quality.flag]} reading`, describeQuality(quality))}
+        >
+          <Ionicons name="warning" size={14} color={QC_FLAG_COLORS[quality.flag]} />
+          <Text style={[styles.qcBannerText, { color: QC_FLAG_COLORS[quality.flag] }]}>
+            {QC_FLAG_LABELS[quality.flag]} data: {quality.issues[0]?.message}
+          </Text>
+        </TouchableOpacity>
+      )}
+
       {/* Main Buoy Section */}
       <View style={styles.buoySection}>
         <View style={styles.buoyContainer}>
@@ -123,7 +199,7 @@ const BuoyCard: React.FC<BuoyCardProps> = ({ data }) => {
               color="#0ea5e9"
               duration={2000}
               delay={0}
-              isActive={isScreenFocused}
+              isActive={isScreenFocused && heartbeat?.status !== 'offline'}
             />
             <Image
               source={getBuoyImage(data.Buoy)}
@@ -132,7 +208,9 @@ const BuoyCard: React.FC<BuoyCardProps> = ({ data }) => {
             />
           </TouchableOpacity>
           <Text style={styles.buoyLabel}>{data.Buoy}</Text>
-          <Text style={styles.buoySubtitle}>Active Sensor</Text>
+          <Text style={styles.buoySubtitle}>
+            {heartbeat?.status === 'offline' ? 'No recent data' : 'Active Sensor'}
+          </Text>
           {/* Location below image */}
           <View style={styles.locationInfo}>
             <Text style={styles.locationText}>
@@ -142,6 +220,22 @@ const BuoyCard: React.FC<BuoyCardProps> = ({ data }) => {
         </View>
       </View>
 
+      {/* Water Quality Index */}
+      {wqi && (
+        <TouchableOpacity
+          style={[styles.wqiBadge, { borderColor: WQI_CATEGORY_COLORS[wqi.category] }]}
+          onPress={showWqiDetails}
+        >
+          <Text style={[styles.wqiScore, { color: WQI_CATEGORY_COLORS[wqi.category] }]}>{formatWqi(wqi.score)}</Text>
+          <View>
+            <Text style={[styles.wqiCategory, { color: WQI_CATEGORY_COLORS[wqi.category] }]}>
+              {WQI_CATEGORY_LABELS[wqi.category]} Water Quality
+            </Text>
+            <Text style={styles.wqiStandard}>WQI · {standard.label}</Text>
+          </View>
+        </TouchableOpacity>
+      )}
+
       {/* Sensor Data Grid */}
       <View style={styles.sensorGrid}>
         <View style={styles.sensorCard}>
@@ -150,9 +244,10 @@ const BuoyCard: React.FC<BuoyCardProps> = ({ data }) => {
               <Text style={styles.sensorIconText}>pH</Text>
             </View>
           </View>
-          <Text style={styles.sensorValue}>{formatValue(data.pH)}</Text>
+          <Text style={[styles.sensorValue, valueStyle('pH')]}>{formatValue(data.pH)}</Text>
           <Text style={styles.sensorLabel}>pH Level</Text>
           <Text style={styles.sensorUnit}>pH Scale</Text>
+          {dayRange('pH', 2) && <Text style={styles.sensorRange}>{dayRange('pH', 2)}</Text>}
         </View>
 
         <View style={styles.sensorCard}>
@@ -161,9 +256,10 @@ const BuoyCard: React.FC<BuoyCardProps> = ({ data }) => {
               <Text style={styles.sensorIconText}>°C</Text>
             </View>
           </View>
-          <Text style={styles.sensorValue}>{formatValue(data['Temp (°C)'])}</Text>
+          <Text style={[styles.sensorValue, valueStyle('temperature')]}>{formatValue(data['Temp (°C)'])}</Text>
           <Text style={styles.sensorLabel}>Temperature</Text>
           <Text style={styles.sensorUnit}>Celsius</Text>
+          {dayRange('temperature', 1) && <Text style={styles.sensorRange}>{dayRange('temperature', 1)}</Text>}
         </View>
 
         <View style={styles.sensorCard}>
@@ -172,9 +268,10 @@ const BuoyCard: React.FC<BuoyCardProps> = ({ data }) => {
               <Text style={styles.sensorIconText}>TDS</Text>
             </View>
           </View>
-          <Text style={styles.sensorValue}>{formatTDS(data['TDS (ppm)'])}</Text>
+          <Text style={[styles.sensorValue, valueStyle('tds')]}>{formatTDS(data['TDS (ppm)'])}</Text>
           <Text style={styles.sensorLabel}>TDS</Text>
           <Text style={styles.sensorUnit}>ppm</Text>
+          {dayRange('tds', 0) && <Text style={styles.sensorRange}>{dayRange('tds', 0)}</Text>}
         </View>
       </View>
     </View>
@@ -191,6 +288,22 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     marginBottom: 16,
   },
+  qcBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderWidth: 1,
+    borderRadius: 12,
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    marginBottom: 12,
+    backgroundColor: '#fffbeb',
+  },
+  qcBannerText: {
+    flex: 1,
+    fontSize: 12,
+    fontWeight: '600',
+    marginLeft: 6,
+  },
   statusIndicator: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -274,6 +387,30 @@ const styles = StyleSheet.create({
     color: '#94a3b8',
     textAlign: 'center',
   },
+  wqiBadge: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'center',
+    borderWidth: 1,
+    borderRadius: 16,
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    marginBottom: 16,
+    gap: 10,
+  },
+  wqiScore: {
+    fontSize: 24,
+    fontWeight: '800',
+  },
+  wqiCategory: {
+    fontSize: 13,
+    fontWeight: '700',
+  },
+  wqiStandard: {
+    fontSize: 11,
+    fontWeight: '500',
+    color: '#64748b',
+  },
   sensorGrid: {
     flexDirection: 'row',
     justifyContent: 'space-between',
@@ -326,6 +463,13 @@ const styles = StyleSheet.create({
     color: '#94a3b8',
     textAlign: 'center',
   },
+  sensorRange: {
+    fontSize: 10,
+    fontWeight: '600',
+    color: '#64748b',
+    textAlign: 'center',
+    marginTop: 4,
+  },
 });
 
 export default BuoyCard;
@@ -1,17 +1,186 @@
-import React, { useState, useMemo } from 'react';
+import React, { useState, useMemo, useEffect } from 'react';
 import { View, Text, StyleSheet, Dimensions, ScrollView, TouchableOpacity, Modal, Animated, PixelRatio } from 'react-native';
-import Svg, { Path, Line, Circle, Text as SvgText, G, Defs, LinearGradient, Stop, Path as SvgPath } from 'react-native-svg';
+import Svg, { Path, Line, Circle, Text as SvgText, G, Defs, LinearGradient, Stop, Path as SvgPath, ClipPath, Rect } from 'react-native-svg';
 import { Ionicons } from '@expo/vector-icons';
-import { BuoyData } from '../services/buoyService';
+import { BuoyReading } from '../services/buoyReading';
+import { QcFlag, QcParameter, QC_FLAG_COLORS, SensorParameter, getParameterFlag, isFlaggedValue } from '../services/qualityControl';
+import { WQI_CATEGORY_COLORS, WQI_CATEGORY_LABELS, WQI_UNRATED_COLOR, WqiCategory, WqiParameter, computeWqiSeries, rateParameter, summarizeWqi, formatWqi } from '../services/waterQuality';
+import { useWaterQualityStandard } from '../hooks/useWaterQualityStandard';
+import { ParameterStatistics, computeStatistics, formatStatistic, summarizeByPeriod } from '../services/statistics';
+import { Anomaly, AnomalyParameter, ANOMALY_COLOR, anomalyKey, detectAnomalies } from '../services/anomalyDetection';
+import { useAnomalyConfig } from '../hooks/useAnomalyConfig';
+import { ChartViewport, FULL_VIEWPORT, useChartGestures } from '../hooks/useChartGestures';
+import { useChartReadings } from '../hooks/useChartReadings';
+import { SENSOR_PARAMETERS, downsampleReadings, lowerBound, sliceTimeWindow } from '../services/downsampling';
+import { COMPARISON_COLORS, COMPARISON_MODE_LABELS, ComparisonMode, alignToBuckets, compareSeries } from '../services/buoyComparison';
+import { formatDuration } from '../services/heartbeatService';
+import { DateRange, describeDateRange, formatRangeLabel, resolveDateRange } from '../services/dateRangeService';
+import { useDateRange } from '../hooks/useDateRange';
+import AnomalyPanel from './AnomalyPanel';
+import DateRangePicker from './DateRangePicker';
+
+// What a deep link asks the graph to show (see services/deepLinks.ts)
+export interface GraphFocus {
+  buoyId?: number;
+  parameter?: 'pH' | 'temperature' | 'tds';
+  from?: number; // Timestamps in ms
+  to?: number;
+}
 
 interface BuoyGraphProps {
-  data: BuoyData[];
+  data: BuoyReading[];
+  focus?: GraphFocus;
+}
+
+type ChartType = 'pH' | 'Temperature' | 'TDS' | 'WQI' | 'Combined' | 'Compare';
+
+const STAT_DECIMALS: Record<ParameterStatistics['parameter'], number> = {
+  pH: 2,
+  temperature: 1,
+  tds: 0,
+};
+
+const FOCUS_CHARTS: Record<NonNullable<GraphFocus['parameter']>, ChartType> = {
+  pH: 'pH',
+  temperature: 'Temperature',
+  tds: 'TDS',
+};
+
+const FOCUS_PARAMETERS: Record<NonNullable<GraphFocus['parameter']>, 'pH' | 'temp' | 'tds'> = {
+  pH: 'pH',
+  temperature: 'temp',
+  tds: 'tds',
+};
+
+// Parameter plotted by each single-series chart; the anomalies panel lists only that one
+const CHART_PARAMETERS: Partial<Record<ChartType, AnomalyParameter>> = {
+  pH: 'pH',
+  Temperature: 'temperature',
+  TDS: 'tds',
+};
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+const MIN_VIEW_MS = 2 * HOUR_MS; // Narrowest zoom
+const POINT_SPACING = 2; // px per plotted reading; more than one per pixel or two can't be seen
+const DOT_LIMIT = 80; // Above this many points only flagged ones get a dot
+const AXIS_LABEL_SPACING = 55; // Minimum px between x-axis labels
+const AXIS_DATE_LABEL_MS = 2 * DAY_MS; // Wider views label dates instead of times
+// Tick intervals for the x-axis, the smallest that fits is used
+const AXIS_STEPS_MS = [
+  15 * 60 * 1000, 30 * 60 * 1000, HOUR_MS, 2 * HOUR_MS, 3 * HOUR_MS, 6 * HOUR_MS, 12 * HOUR_MS,
+  DAY_MS, 2 * DAY_MS, 7 * DAY_MS, 14 * DAY_MS, 30 * DAY_MS, 90 * DAY_MS, 365 * DAY_MS,
+];
+const INSPECTOR_WIDTH = 170;
+const AXIS_LABEL_COLOR = '#9ca3af';
+const DERIVED_COLOR = '#475569'; // Difference or ratio between two buoys
+
+const COMPARE_PARAMETER_DISPLAY: Record<SensorParameter, { label: string; unit: string }> = {
+  pH: { label: 'pH', unit: '' },
+  temperature: { label: 'Temperature', unit: '°C' },
+  tds: { label: 'TDS', unit: ' ppm' },
+};
+
+// How the combined chart puts parameters with very different ranges on one plot
+type CombinedScale = 'axes' | 'zscore';
+
+const COMBINED_SCALE_LABELS: Record<CombinedScale, string> = {
+  axes: 'Separate axes',
+  zscore: 'Normalized (σ)',
+};
+
+// Value labels along one side of a line chart
+interface ValueAxis {
+  min: number;
+  range: number;
+  color: string;
+  side: 'left' | 'right';
+  row: number; // A second axis on the same side is stacked under the first
+  format: (value: number) => string;
+}
+
+// Short enough for the axis gutter, e.g. 8.2, 29, 1.5k, 45k
+const formatAxisValue = (value: number, range: number): string => {
+  const magnitude = Math.abs(value);
+  if (magnitude >= 10000) return `${Math.round(value / 1000)}k`;
+  if (magnitude >= 1000) return `${Number((value / 1000).toFixed(1))}k`;
+  return range < 10 ? value.toFixed(1) : value.toFixed(0);
+};
+
+// Range of the values with a little headroom, so a flat series doesn't sit on the edge
+const paddedScale = (values: number[]): { min: number; range: number } => {
+  if (values.length === 0) return { min: 0, range: 1 };
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  const margin = max > min ? (max - min) * 0.05 : Math.max(Math.abs(max) * 0.05, 0.5);
+  return { min: min - margin, range: max - min + margin * 2 };
+};
+
+const meanAndDeviation = (values: number[]): { mean: number; sd: number } => {
+  if (values.length === 0) return { mean: 0, sd: 0 };
+  const mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+  const variance = values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / values.length;
+  return { mean, sd: Math.sqrt(variance) };
+};
+
+const zScore = (value: number, mean: number, sd: number): number => (sd > 0 ? (value - mean) / sd : 0);
+
+const DATE_RANGE_ICONS: Record<DateRange['kind'], string> = {
+  all: 'infinite',
+  preset: 'time',
+  month: 'calendar',
+  year: 'calendar-outline',
+  custom: 'create-outline',
+};
+
+// Readings by id, later lists winning, sorted oldest first
+const mergeReadings = (...lists: BuoyReading[][]): BuoyReading[] => {
+  const byId = new Map<number, BuoyReading>();
+  lists.forEach(list => list.forEach(reading => byId.set(reading.id, reading)));
+  return Array.from(byId.values()).sort((a, b) => (a.timestamp ?? 0) - (b.timestamp ?? 0) || a.id - b.id);
+};
+
+interface ChartPoint {
+  x: number;
+  y: number;
+  value: number;
+  flag: QcFlag;
 }
 
-type ChartType = 'pH' | 'Temperature' | 'TDS' | 'Combined';
-type TimePeriod = 'Today' | 'This Week' | 'This Month' | 'Last 7 Days' | 'Last 30 Days' | 'August 2025' | 'June 2025' | 'All Time';
+// Split points into runs without gaps so hidden or missing values break the line
+const toSegments = (points: (ChartPoint | null)[]): ChartPoint[][] => {
+  const segments: ChartPoint[][] = [];
+  let current: ChartPoint[] = [];
+  points.forEach(point => {
+    if (point) {
+      current.push(point);
+    } else if (current.length > 0) {
+      segments.push(current);
+      current = [];
+    }
+  });
+  if (current.length > 0) segments.push(current);
+  return segments;
+};
+
+const toLinePath = (points: (ChartPoint | null)[]): string => {
+  return toSegments(points)
+    .map(segment => segment.map((point, index) => `${index === 0 ? 'M' : 'L'} ${point.x} ${point.y}`).join(' '))
+    .join(' ');
+};
 
-const BuoyGraph: React.FC<BuoyGraphProps> = ({ data }) => {
+const toAreaPath = (points: (ChartPoint | null)[], baseline: number): string => {
+  return toSegments(points)
+    .map(segment => {
+      const line = segment.map((point, index) => `${index === 0 ? 'M' : 'L'} ${point.x} ${point.y}`).join(' ');
+      return `${line} L ${segment[segment.length - 1].x} ${baseline} L ${segment[0].x} ${baseline} Z`;
+    })
+    .join(' ');
+};
+
+const presentValues = (data: (number | null)[]): number[] => data.filter((value): value is number => value !== null);
+
+const BuoyGraph: React.FC<BuoyGraphProps> = ({ data, focus }) => {
   console.log('📊 BuoyGraph: Received data:', data?.length || 0, 'records');
   console.log('📊 BuoyGraph: Sample data:', data?.slice(0, 2));
   
@@ -30,31 +199,48 @@ const BuoyGraph: React.FC<BuoyGraphProps> = ({ data }) => {
   };
   
   const [selectedChart, setSelectedChart] = useState<ChartType>('Combined');
-  const [selectedTimePeriod, setSelectedTimePeriod] = useState<TimePeriod>('All Time');
+  const [dateRange, setDateRange] = useDateRange(); // Shared with the Data tab
   const [showChartDropdown, setShowChartDropdown] = useState(false);
   const [showTimeDropdown, setShowTimeDropdown] = useState(false);
   const [showParameterDropdown, setShowParameterDropdown] = useState(false);
   const [showBuoyDropdown, setShowBuoyDropdown] = useState(false);
   const [selectedParameter, setSelectedParameter] = useState<'pH' | 'temp' | 'tds'>('pH');
   const [selectedBuoy, setSelectedBuoy] = useState<string>('All Buoys');
+  const [hideFlagged, setHideFlagged] = useState(false); // Otherwise suspect/bad points are marked
+  const standard = useWaterQualityStandard();
+  const anomalyConfig = useAnomalyConfig();
+  const [viewport, setViewport] = useState<ChartViewport>(FULL_VIEWPORT);
+  const [inspectedTime, setInspectedTime] = useState<number | null>(null);
+  const [combinedScale, setCombinedScale] = useState<CombinedScale>('axes');
+  const [hiddenSeries, setHiddenSeries] = useState<SensorParameter[]>([]);
+  const [compareParameter, setCompareParameter] = useState<SensorParameter>('pH');
+  const [compareSelection, setCompareSelection] = useState<string[] | null>(null); // null until the user picks
+  const [comparisonMode, setComparisonMode] = useState<ComparisonMode>('none');
   const fadeAnim = useState(new Animated.Value(0))[0];
 
+  // Apply a deep link's buoy, parameter and time window; the user can change them afterwards
+  useEffect(() => {
+    if (!focus) return;
+    if (focus.buoyId !== undefined) {
+      const reading = data.find(item => item.buoyId === focus.buoyId);
+      setSelectedBuoy(reading?.buoy ?? `Buoy ${focus.buoyId}`);
+    }
+    if (focus.parameter) {
+      setSelectedChart(FOCUS_CHARTS[focus.parameter]);
+      setSelectedParameter(FOCUS_PARAMETERS[focus.parameter]);
+    }
+    if (focus.from !== undefined || focus.to !== undefined) {
+      setDateRange({ kind: 'custom', from: focus.from, to: focus.to });
+    }
+  }, [focus]);
+
   const chartOptions: { label: string; value: ChartType; icon: string; color: string }[] = [
     { label: 'All Data (Combined)', value: 'Combined', icon: 'layers', color: '#0ea5e9' },
     { label: 'pH Levels', value: 'pH', icon: 'water', color: '#0ea5e9' },
     { label: 'Temperature (°C)', value: 'Temperature', icon: 'thermometer', color: '#ef4444' },
     { label: 'TDS (ppm)', value: 'TDS', icon: 'analytics', color: '#22c55e' },
-  ];
-
-  const timePeriodOptions: { label: string; value: TimePeriod; icon: string }[] = [
-    { label: 'All Time', value: 'All Time', icon: 'infinite' },
-    { label: 'August 2025', value: 'August 2025', icon: 'calendar' },
-    { label: 'June 2025', value: 'June 2025', icon: 'calendar' },
-    { label: 'Last 7 Days', value: 'Last 7 Days', icon: 'time' },
-    { label: 'Last 30 Days', value: 'Last 30 Days', icon: 'time-outline' },
-    { label: 'Today', value: 'Today', icon: 'today' },
-    { label: 'This Week', value: 'This Week', icon: 'calendar' },
-    { label: 'This Month', value: 'This Month', icon: 'calendar-outline' },
+    { label: 'Water Quality Index', value: 'WQI', icon: 'shield-checkmark', color: '#8b5cf6' },
+    { label: 'Compare Buoys', value: 'Compare', icon: 'git-compare', color: '#f59e0b' },
   ];
 
   const parameterOptions: { label: string; value: 'pH' | 'temp' | 'tds'; icon: string; color: string }[] = [
@@ -67,24 +253,19 @@ const BuoyGraph: React.FC<BuoyGraphProps> = ({ data }) => {
     return chartOptions.find(option => option.value === selectedChart);
   };
 
+  const periodLabel = describeDateRange(dateRange);
+
   const getSelectedTimeOption = () => {
-    return timePeriodOptions.find(option => option.value === selectedTimePeriod);
+    return { label: periodLabel, icon: DATE_RANGE_ICONS[dateRange.kind] };
   };
 
   const getSelectedParameterOption = () => {
     return parameterOptions.find(option => option.value === selectedParameter);
   };
 
-  // Helper function to check if a date is valid (not like 2065)
-  const isValidDate = (dateStr: string, timeStr: string): boolean => {
-    try {
-      const date = new Date(`${dateStr} ${timeStr}`);
-      const year = date.getFullYear();
-      // Only accept dates between 2020 and 2030 (reasonable range)
-      return year >= 2020 && year <= 2030 && !isNaN(date.getTime());
-    } catch {
-      return false;
-    }
+  // Readings whose date could not be parsed (or is out of range, like 2065) have a null timestamp
+  const hasValidTimestamp = (item: BuoyReading): item is BuoyReading & { timestamp: number } => {
+    return item.timestamp !== null;
   };
 
   // Get unique buoys from valid data only
@@ -93,92 +274,158 @@ const BuoyGraph: React.FC<BuoyGraphProps> = ({ data }) => {
     
     const validBuoys = new Set<string>();
     data.forEach(item => {
-      if (isValidDate(item.Date, item.Time) && item.Buoy) {
-        validBuoys.add(item.Buoy);
+      if (hasValidTimestamp(item) && item.buoy) {
+        validBuoys.add(item.buoy);
       }
     });
     
     return Array.from(validBuoys).sort();
   }, [data]);
 
-  // Filter data based on selected time period and buoy
-  const filterDataByTimePeriod = (data: BuoyData[], period: TimePeriod, buoyFilter: string = 'All Buoys'): BuoyData[] => {
+  // Filter data based on selected time range and buoy
+  const filterDataByTimeRange = (data: BuoyReading[], range: { from?: number; to?: number }, buoyFilter: string = 'All Buoys'): BuoyReading[] => {
     if (!data || data.length === 0) return [];
     
-    console.log('🔍 Filtering data for period:', period, 'and buoy:', buoyFilter);
+    console.log('🔍 Filtering data for period:', periodLabel, 'and buoy:', buoyFilter);
     
-    // First filter by valid dates and selected buoy
-    let filteredData = data.filter(item => {
+    const { from, to } = range;
+    const filteredData = data.filter(item => {
       // Filter out invalid dates
-      if (!isValidDate(item.Date, item.Time)) {
+      if (!hasValidTimestamp(item)) {
         return false;
       }
       
       // Filter by buoy if not "All Buoys"
-      if (buoyFilter !== 'All Buoys' && item.Buoy !== buoyFilter) {
+      if (buoyFilter !== 'All Buoys' && item.buoy !== buoyFilter) {
         return false;
       }
       
-      return true;
-    });
-    
-    const now = new Date();
-    filteredData = filteredData.filter(item => {
-      const itemDate = new Date(`${item.Date} ${item.Time}`);
-      
-      switch (period) {
-        case 'Today':
-          return itemDate.toDateString() === now.toDateString();
-        case 'This Week':
-          const weekStart = new Date(now);
-          weekStart.setDate(now.getDate() - now.getDay());
-          weekStart.setHours(0, 0, 0, 0);
-          return itemDate >= weekStart;
-        case 'This Month':
-          return itemDate.getMonth() === now.getMonth() && itemDate.getFullYear() === now.getFullYear();
-        case 'Last 7 Days':
-          const sevenDaysAgo = new Date(now);
-          sevenDaysAgo.setDate(now.getDate() - 7);
-          return itemDate >= sevenDaysAgo;
-        case 'Last 30 Days':
-          const thirtyDaysAgo = new Date(now);
-          thirtyDaysAgo.setDate(now.getDate() - 30);
-          return itemDate >= thirtyDaysAgo;
-        case 'August 2025':
-          return itemDate.getMonth() === 7 && itemDate.getFullYear() === 2025; // August is month 7 (0-indexed)
-        case 'June 2025':
-          return itemDate.getMonth() === 5 && itemDate.getFullYear() === 2025; // June is month 5 (0-indexed)
-        case 'All Time':
-        default:
-          return true;
-      }
+      return (from === undefined || item.timestamp >= from) && (to === undefined || item.timestamp <= to);
     });
     
     console.log('📊 Filtered data count:', filteredData.length);
     
-    return filteredData.sort((a, b) => {
-      const dateA = new Date(`${a.Date} ${a.Time}`);
-      const dateB = new Date(`${b.Date} ${b.Time}`);
-      return dateA.getTime() - dateB.getTime();
-    });
+    return filteredData.sort((a, b) => a.timestamp! - b.timestamp!);
   };
 
-  // Memoize processed data to prevent unnecessary recalculations
-  const processedData = useMemo(() => {
-    console.log('🔄 BuoyGraph: Processing data for time period:', selectedTimePeriod, 'buoy:', selectedBuoy);
-    if (!data || data.length === 0) {
-      console.log('⚠️ BuoyGraph: No data to process');
-      return [];
-    }
-    const filteredData = filterDataByTimePeriod(data, selectedTimePeriod, selectedBuoy);
+  // Long ranges come from the reading store, bounded however many readings they hold;
+  // the readings passed in are merged on top so the newest ones show before they are stored
+  const periodRange = useMemo(() => resolveDateRange(dateRange), [dateRange]);
+  // Comparing needs every buoy, whatever the filter says
+  const buoyFilter = selectedChart === 'Compare' ? 'All Buoys' : selectedBuoy;
+  const selectedBuoyId = buoyFilter === 'All Buoys'
+    ? undefined
+    : data.find(item => item.buoy === buoyFilter)?.buoyId ?? undefined;
+  const [zoomWindow, setZoomWindow] = useState<{ from: number; to: number } | null>(null);
+  const stored = useChartReadings({ buoyId: selectedBuoyId, ...periodRange, viewFrom: zoomWindow?.from, viewTo: zoomWindow?.to });
+
+  const rangeData = useMemo(() => {
+    console.log('🔄 BuoyGraph: Processing data for time period:', periodLabel, 'buoy:', buoyFilter);
+    const filteredData = filterDataByTimeRange(mergeReadings(stored.readings, data ?? []), periodRange, buoyFilter);
     console.log('📅 BuoyGraph: Filtered data:', filteredData.length, 'records');
-    const result = filteredData.slice(-50); // Limit to last 50 data points for performance
-    console.log('✂️ BuoyGraph: Final processed data:', result.length, 'records');
+    return filteredData;
+  }, [data, stored.readings, periodRange, buoyFilter]);
+
+  // A new selection starts zoomed out; live updates keep the current zoom
+  useEffect(() => {
+    setViewport(FULL_VIEWPORT);
+    setInspectedTime(null);
+  }, [periodRange, buoyFilter]);
+
+  // Line charts fill the width; padding leaves room for the axis labels
+  const chartPadding = Math.max(30, screenWidth * 0.08);
+  const chartWidth = screenWidth - Math.max(8, screenWidth * 0.02) * 2;
+  const plotWidth = chartWidth - (chartPadding * 2);
+
+  // The viewport is a fraction of the range's time extent
+  const rangeStart = rangeData.length > 0 ? rangeData[0].timestamp! : 0;
+  const rangeSpan = rangeData.length > 0 ? Math.max(rangeData[rangeData.length - 1].timestamp! - rangeStart, 1) : 1;
+  const viewFrom = rangeStart + viewport.start * rangeSpan;
+  const viewTo = rangeStart + viewport.end * rangeSpan;
+  const isZoomed = viewport.end - viewport.start < 1;
+
+  // Ask for full detail once the view settles; the hook debounces
+  useEffect(() => {
+    setZoomWindow(isZoomed ? { from: Math.floor(viewFrom), to: Math.ceil(viewTo) } : null);
+  }, [isZoomed, viewFrom, viewTo]);
+
+  const chartGestures = useChartGestures({
+    viewport,
+    minSpan: MIN_VIEW_MS / rangeSpan,
+    plotInset: chartPadding,
+    onViewportChange: setViewport,
+    onInspect: position => setInspectedTime(position === null ? null : rangeStart + position * rangeSpan),
+    onReset: () => {
+      setViewport(FULL_VIEWPORT);
+      setInspectedTime(null);
+    },
+  });
+
+  // Detection needs consecutive readings, so it never runs on an overview
+  const anomalies = useMemo(
+    () => (anomalyConfig ? detectAnomalies(mergeReadings(stored.detail, data ?? []), anomalyConfig) : []),
+    [data, stored.detail, anomalyConfig]
+  );
+  const anomalyIds = useMemo(() => new Set(anomalies.map(anomaly => anomaly.readingId)), [anomalies]);
+
+  // Every reading in view, and the one closest to the long-press
+  const visibleData = useMemo(() => sliceTimeWindow(rangeData, viewFrom, viewTo), [rangeData, viewFrom, viewTo]);
+  const inspectedReading = useMemo(() => {
+    if (inspectedTime === null || visibleData.length === 0) return null;
+    const index = lowerBound(visibleData, inspectedTime);
+    const candidates = [visibleData[index - 1], visibleData[index]].filter(Boolean);
+    return candidates.reduce((closest, reading) =>
+      Math.abs(reading.timestamp! - inspectedTime) < Math.abs(closest.timestamp! - inspectedTime) ? reading : closest
+    );
+  }, [visibleData, inspectedTime]);
+
+  // At most one reading per POINT_SPACING px, keeping peaks, anomalies and the inspected reading
+  const chartParameter = CHART_PARAMETERS[selectedChart];
+  const sampledParameters = useMemo(() => {
+    if (chartParameter) return [chartParameter];
+    if (selectedChart === 'Compare') return [compareParameter];
+    const shown = SENSOR_PARAMETERS.filter(parameter => !hiddenSeries.includes(parameter));
+    return selectedChart === 'Combined' && shown.length > 0 ? shown : SENSOR_PARAMETERS;
+  }, [chartParameter, selectedChart, hiddenSeries, compareParameter]);
+  const processedData = useMemo(() => {
+    const result = downsampleReadings(
+      visibleData,
+      Math.max(Math.floor(plotWidth / POINT_SPACING), 3),
+      sampledParameters,
+      reading => anomalyIds.has(reading.id) || reading === inspectedReading
+    );
+    console.log('✂️ BuoyGraph: Final processed data:', result.length, 'of', visibleData.length, 'records');
     return result;
-  }, [data, selectedTimePeriod, selectedBuoy]);
+  }, [visibleData, plotWidth, sampledParameters, anomalyIds, inspectedReading]);
+
+  // Buoys to compare, two by default; colours follow the buoy, not its place in the selection
+  const compareChoices = useMemo(() => Array.from(new Set(rangeData.map(item => item.buoy))).sort(), [rangeData]);
+  const comparedBuoys = useMemo(
+    () => (compareSelection ?? compareChoices.slice(0, 2)).filter(buoy => compareChoices.includes(buoy)),
+    [compareSelection, compareChoices]
+  );
+  const buoyColor = (buoy: string) => COMPARISON_COLORS[Math.max(compareChoices.indexOf(buoy), 0) % COMPARISON_COLORS.length];
+  const comparison = useMemo(
+    () => selectedChart === 'Compare' && comparedBuoys.length > 0
+      ? alignToBuckets(visibleData, comparedBuoys, compareParameter, viewFrom, viewTo, Math.floor(plotWidth / POINT_SPACING))
+      : null,
+    [selectedChart, visibleData, comparedBuoys, compareParameter, viewFrom, viewTo, plotWidth]
+  );
+
+  // Summary numbers for the whole period, not just the zoomed part; values that failed QC are left out, as in the report
+  const pHStats = useMemo(() => computeStatistics(rangeData, { parameter: 'pH' }), [rangeData]);
+  const tempStats = useMemo(() => computeStatistics(rangeData, { parameter: 'temperature' }), [rangeData]);
+  const tdsStats = useMemo(() => computeStatistics(rangeData, { parameter: 'tds' }), [rangeData]);
+  const wqiSummary = useMemo(() => summarizeWqi(rangeData, standard), [rangeData, standard]);
+  // An overview holds only some of the readings in the range
+  const totalReadings = Math.max(stored.total, rangeData.length);
+  const flaggedCount = useMemo(
+    () => rangeData.filter(item => item.qc && (item.qc.flag === 'suspect' || item.qc.flag === 'bad')).length,
+    [rangeData]
+  );
   
   // Safety check - if no data, show empty state with helpful message
-  if (!processedData || processedData.length === 0) {
+  if (!rangeData || rangeData.length === 0) {
     return (
       <View style={styles.fullscreenContainer}>
         <View style={styles.controlPanel}>
@@ -228,7 +475,9 @@ const BuoyGraph: React.FC<BuoyGraphProps> = ({ data }) => {
                     size={getResponsiveIconSize(18)} 
                     color="#22c55e" 
                   />
-                  <Text style={styles.dropdownText}>{selectedBuoy}</Text>
+                  <Text style={styles.dropdownText}>
+                    {selectedChart === 'Compare' ? `Comparing ${comparedBuoys.length}` : selectedBuoy}
+                  </Text>
                 </View>
                 <Ionicons name="chevron-down" size={getResponsiveIconSize(16)} color="#64748b" />
               </TouchableOpacity>
@@ -238,10 +487,14 @@ const BuoyGraph: React.FC<BuoyGraphProps> = ({ data }) => {
 
         <View style={styles.noDataContainer}>
           <Ionicons name="bar-chart-outline" size={getResponsiveIconSize(64)} color="#94a3b8" style={styles.noDataIcon} />
-          <Text style={styles.noDataText}>No data available for {selectedTimePeriod}</Text>
-          <Text style={styles.noDataSubtext}>
-            Try selecting "All Time", "August 2025", or "June 2025" from the time period dropdown above.
+          <Text style={styles.noDataText}>
+            {stored.loading ? 'Loading readings…' : `No data available for ${periodLabel}`}
           </Text>
+          {!stored.loading && (
+            <Text style={styles.noDataSubtext}>
+              Try "All Time" or one of the months with data from the time period picker above.
+            </Text>
+          )}
         </View>
 
         {/* Dropdown Modals */}
@@ -275,35 +528,7 @@ const BuoyGraph: React.FC<BuoyGraphProps> = ({ data }) => {
           </TouchableOpacity>
         </Modal>
 
-        <Modal
-          visible={showTimeDropdown}
-          transparent={true}
-          animationType="fade"
-          onRequestClose={() => setShowTimeDropdown(false)}
-        >
-          <TouchableOpacity 
-            style={styles.modalOverlay} 
-            activeOpacity={1} 
-            onPress={() => setShowTimeDropdown(false)}
-          >
-            <View style={styles.dropdownModal}>
-              <Text style={styles.modalTitle}>Select Time Period</Text>
-              {timePeriodOptions.map((option) => (
-                <TouchableOpacity
-                  key={option.value}
-                  style={styles.dropdownOption}
-                  onPress={() => {
-                    setSelectedTimePeriod(option.value);
-                    setShowTimeDropdown(false);
-                  }}
-                >
-                  <Ionicons name={option.icon as any} size={20} color="#0ea5e9" />
-                  <Text style={styles.dropdownOptionText}>{option.label}</Text>
-                </TouchableOpacity>
-              ))}
-            </View>
-          </TouchableOpacity>
-        </Modal>
+        <DateRangePicker visible={showTimeDropdown} onClose={() => setShowTimeDropdown(false)} />
 
         <Modal
           visible={showBuoyDropdown}
@@ -383,67 +608,265 @@ const BuoyGraph: React.FC<BuoyGraphProps> = ({ data }) => {
     );
   }
 
-  // Extract values for each chart with proper error handling
-  const pHData = processedData.map(item => {
-    const value = parseFloat(item.pH);
-    return isNaN(value) ? 0 : value;
-  });
-  const tempData = processedData.map(item => {
-    const value = parseFloat(item['Temp (°C)']);
-    return isNaN(value) ? 0 : value;
-  });
-  const tdsData = processedData.map(item => {
-    const value = parseFloat(item['TDS (ppm)']);
-    return isNaN(value) ? 0 : value;
+  // Extract values for each chart; missing values (and flagged ones when hidden) become gaps
+  const seriesFor = (parameter: 'pH' | 'temperature' | 'tds') => processedData.map(item => {
+    const flag = getParameterFlag(item, parameter);
+    if (flag === 'missing' || (hideFlagged && isFlaggedValue(item, parameter))) return null;
+    return item[parameter];
   });
+  const flagsFor = (parameter: QcParameter) => processedData.map(item => getParameterFlag(item, parameter));
+  const pHData = seriesFor('pH');
+  const tempData = seriesFor('temperature');
+  const tdsData = seriesFor('tds');
+  const pHFlags = flagsFor('pH');
+  const tempFlags = flagsFor('temperature');
+  const tdsFlags = flagsFor('tds');
+  const formatChartStats = (stats: ParameterStatistics) => {
+    const decimals = STAT_DECIMALS[stats.parameter];
+    return `Mean: ${formatStatistic(stats.mean, decimals)} | Min: ${formatStatistic(stats.min?.value ?? null, decimals)} | ` +
+      `Max: ${formatStatistic(stats.max?.value ?? null, decimals)} | SD: ${formatStatistic(stats.stdDev, decimals)}`;
+  };
 
-  // Create labels for x-axis (time)
-  const labels = processedData.map(item => {
-    const time = item.Time.split(':');
-    return `${time[0]}:${time[1]}`;
-  });
+  // WQI against the selected standard; values that failed QC are already left out of it
+  const wqiFlags = processedData.map((item): QcFlag =>
+    (['pH', 'temperature', 'tds'] as const).some(parameter => getParameterFlag(item, parameter) === 'suspect') ? 'suspect' : 'good'
+  );
+  const wqiData = computeWqiSeries(processedData, standard).map((score, index) =>
+    hideFlagged && wqiFlags[index] === 'suspect' ? null : score
+  );
+
+  // Anomalies among the plotted readings, and per series which points to ring
+  const plottedIds = new Set(processedData.map(item => item.id));
+  const plottedAnomalies = anomalies.filter(anomaly => plottedIds.has(anomaly.readingId));
+  const anomalyKeys = new Set(plottedAnomalies.map(anomalyKey));
+  const anomaliesFor = (parameter: AnomalyParameter) =>
+    processedData.map(item => anomalyKeys.has(anomalyKey({ readingId: item.id, parameter })));
+  const pHAnomalies = anomaliesFor('pH');
+  const tempAnomalies = anomaliesFor('temperature');
+  const tdsAnomalies = anomaliesFor('tds');
+  const panelParameter = selectedChart === 'Compare' ? compareParameter : chartParameter;
+  const panelAnomalies: Anomaly[] = panelParameter
+    ? plottedAnomalies.filter(anomaly => anomaly.parameter === panelParameter)
+    : plottedAnomalies;
+
+  // Flagged points get a ring in the QC colour so they stand out from the series colour
+  const renderPoint = (point: ChartPoint, key: string, color: string, radius: number) => {
+    const flagged = point.flag === 'suspect' || point.flag === 'bad';
+    return (
+      <Circle
+        key={key}
+        cx={point.x}
+        cy={point.y}
+        r={flagged ? radius * 1.6 : radius}
+        fill={color}
+        stroke={flagged ? QC_FLAG_COLORS[point.flag] : '#ffffff'}
+        strokeWidth={flagged ? Math.max(2, screenWidth * 0.005) : Math.max(1, screenWidth * 0.003)}
+      />
+    );
+  };
+
+  // Anomalies get a dashed halo, drawn under the point so the QC ring stays visible
+  const renderAnomalyMarker = (point: ChartPoint, key: string, radius: number) => (
+    <Circle
+      key={key}
+      cx={point.x}
+      cy={point.y}
+      r={radius * 2.4}
+      fill={ANOMALY_COLOR}
+      fillOpacity={0.15}
+      stroke={ANOMALY_COLOR}
+      strokeWidth={Math.max(1.5, screenWidth * 0.004)}
+      strokeDasharray="3,2"
+    />
+  );
+
+  // Time-axis geometry shared by the line charts. processedData holds one reading either
+  // side of the view so lines run on to the edges; the clip path hides the overhang
+  const viewSpan = Math.max(viewTo - viewFrom, 1);
+  const xForTime = (timestamp: number) => chartPadding + ((timestamp - viewFrom) / viewSpan) * plotWidth;
+  const xForIndex = (index: number) => xForTime(processedData[index].timestamp!);
+  const visibleValues = (series: (number | null)[]) => presentValues(series);
+  const showDots = processedData.length <= DOT_LIMIT;
+
+  // X-axis labels on round times, as many as fit, showing dates once the view spans a few days
+  const maxLabels = Math.max(2, Math.floor(plotWidth / AXIS_LABEL_SPACING));
+  const labelStep = AXIS_STEPS_MS.find(step => viewSpan / step <= maxLabels) ?? AXIS_STEPS_MS[AXIS_STEPS_MS.length - 1];
+  const timezoneOffset = new Date(viewFrom).getTimezoneOffset() * 60 * 1000;
+  const axisLabels: { x: number; text: string }[] = [];
+  for (let time = Math.ceil((viewFrom - timezoneOffset) / labelStep) * labelStep + timezoneOffset; time <= viewTo; time += labelStep) {
+    const date = new Date(time);
+    axisLabels.push({
+      x: xForTime(time),
+      text: viewSpan > AXIS_DATE_LABEL_MS
+        ? date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' })
+        : `${String(date.getHours()).padStart(2, '0')}:${String(date.getMinutes()).padStart(2, '0')}`,
+    });
+  }
+
+  const chartHint = isZoomed
+    ? `${formatRangeLabel(viewFrom, viewTo)} · double-tap to reset`
+    : 'Pinch to zoom · drag to pan · long-press to inspect';
+
+  // Crosshair on the long-pressed reading, with all of its values in a box beside it
+  const inspectedIndex = inspectedReading ? processedData.indexOf(inspectedReading) : -1;
+  const inspected = inspectedIndex >= 0 ? processedData[inspectedIndex] : null;
+
+  const renderCrosshair = (chartHeight: number, x: number | null = inspected ? xForIndex(inspectedIndex) : null) => x !== null && (
+    <Line
+      x1={x}
+      y1={chartPadding}
+      x2={x}
+      y2={chartHeight - chartPadding}
+      stroke="#334155"
+      strokeWidth={1}
+      strokeDasharray="4,3"
+    />
+  );
+
+  const renderInspectedPoint = (points: (ChartPoint | null)[], key: string, color: string, radius: number) => {
+    const point = inspected ? points[inspectedIndex] : null;
+    return point && (
+      <Circle key={key} cx={point.x} cy={point.y} r={radius * 2} fill="none" stroke={color} strokeWidth={2} />
+    );
+  };
+
+  const renderInspector = () => {
+    const reading = inspected;
+    if (!reading) return null;
+    const left = Math.min(Math.max(xForIndex(inspectedIndex) - INSPECTOR_WIDTH / 2, 0), chartWidth - INSPECTOR_WIDTH);
+    const row = (label: string, parameter: SensorParameter, unit: string, decimals: number) => {
+      const flag = getParameterFlag(reading, parameter);
+      const value = reading[parameter];
+      const flagged = flag === 'suspect' || flag === 'bad';
+      return (
+        <View style={styles.inspectorRow}>
+          <Text style={styles.inspectorLabel}>{label}</Text>
+          <Text style={[styles.inspectorValue, flagged && { color: QC_FLAG_COLORS[flag] }]}>
+            {flag === 'missing' || value === null ? '—' : `${value.toFixed(decimals)}${unit}`}{flagged ? ` (${flag})` : ''}
+          </Text>
+        </View>
+      );
+    };
+    const wqi = wqiData[inspectedIndex];
+    return (
+      <View pointerEvents="none" style={[styles.inspector, { left }]}>
+        <Text style={styles.inspectorTime}>
+          {new Date(reading.timestamp!).toLocaleString('en-US', { month: 'short', day: 'numeric', year: 'numeric', hour: '2-digit', minute: '2-digit' })}
+        </Text>
+        <Text style={styles.inspectorBuoy}>{reading.buoy}</Text>
+        {row('pH', 'pH', '', 2)}
+        {row('Temp', 'temperature', '°C', 1)}
+        {row('TDS', 'tds', ' ppm', 0)}
+        <View style={styles.inspectorRow}>
+          <Text style={styles.inspectorLabel}>WQI</Text>
+          <Text style={styles.inspectorValue}>{wqi === null ? '—' : formatWqi(wqi)}</Text>
+        </View>
+      </View>
+    );
+  };
+
+  // Grid lines, value labels for each axis and x-axis labels, the same for every line chart.
+  // Two axes on one side are stacked, the first above each grid line and the second below it
+  const renderAxes = (chartHeight: number, axes: ValueAxis[]) => (
+    <>
+      {/* Grid lines */}
+      {[0, 0.25, 0.5, 0.75, 1].map((ratio, index) => {
+        const y = chartPadding + ratio * (chartHeight - chartPadding * 2);
+        return (
+          <Line
+            key={index}
+            x1={chartPadding}
+            y1={y}
+            x2={chartWidth - chartPadding}
+            y2={y}
+            stroke="#f3f4f6"
+            strokeWidth="0.5"
+            strokeDasharray={index === 0 || index === 4 ? "0" : "3,3"}
+          />
+        );
+      })}
+
+      {/* Value labels */}
+      {axes.map((axis, axisIndex) => {
+        const stacked = axes.some(other => other !== axis && other.side === axis.side);
+        const fontSize = Math.max(8, screenWidth * 0.02);
+        return [0, 0.25, 0.5, 0.75, 1].map((ratio, index) => {
+          const y = chartPadding + ratio * (chartHeight - chartPadding * 2);
+          const value = axis.min + (1 - ratio) * axis.range;
+          return (
+            <SvgText
+              key={`${axisIndex}-${index}`}
+              x={axis.side === 'left' ? chartPadding - 10 : chartWidth - chartPadding + 10}
+              y={!stacked ? y + 3 : axis.row === 0 ? y - 1 : y + fontSize}
+              fontSize={fontSize}
+              fill={axis.color}
+              textAnchor={axis.side === 'left' ? 'end' : 'start'}
+              fontWeight="400"
+            >
+              {axis.format(value)}
+            </SvgText>
+          );
+        });
+      })}
+
+      {/* X-axis labels */}
+      {axisLabels.map((label, index) => (
+        <SvgText
+          key={index}
+          x={label.x}
+          y={chartHeight - 10}
+          fontSize={Math.max(8, screenWidth * 0.02)}
+          fill="#9ca3af"
+          textAnchor="middle"
+          fontWeight="400"
+        >
+          {label.text}
+        </SvgText>
+      ))}
+    </>
+  );
 
   // Enhanced Custom Line Chart Component with gradients and animations
-  const CustomLineChart = ({ 
-    data, 
-    labels, 
-    color, 
-    title, 
+  const CustomLineChart = ({
+    data,
+    flags,
+    color,
+    title,
     height,
-    showGradient = true
-  }: { 
-    data: number[], 
-    labels: string[], 
-    color: string, 
+    showGradient = true,
+    stats,
+    anomalies
+  }: {
+    data: (number | null)[],
+    flags: QcFlag[],
+    color: string,
     title: string,
     height?: number,
-    showGradient?: boolean
+    showGradient?: boolean,
+    stats?: ParameterStatistics,
+    anomalies?: boolean[]
   }) => {
-    const responsiveHeight = height || Math.max(180, screenHeight * 0.25);
-    const chartWidth = Math.max(screenWidth, labels.length * Math.max(50, screenWidth * 0.12));
-    const chartHeight = responsiveHeight;
-    const padding = Math.max(30, screenWidth * 0.08);
-    const graphWidth = chartWidth - (padding * 2);
-    const graphHeight = chartHeight - (padding * 2);
-
-    const maxValue = Math.max(...data, 1);
-    const minValue = Math.min(...data, 0);
+    const chartHeight = height || Math.max(180, screenHeight * 0.25);
+    const graphHeight = chartHeight - (chartPadding * 2);
+
+    // Scaled to the readings in view
+    const values = visibleValues(data);
+    const maxValue = Math.max(...values, 1);
+    const minValue = Math.min(...values, 0);
     const valueRange = maxValue - minValue;
 
-    const points = data.map((value, index) => {
-      const x = padding + (index / Math.max(data.length - 1, 1)) * graphWidth;
-      const y = padding + graphHeight - ((value - minValue) / Math.max(valueRange, 1)) * graphHeight;
-      return { x, y, value };
+    const points = data.map((value, index): ChartPoint | null => {
+      if (value === null) return null;
+      const x = xForIndex(index);
+      const y = chartPadding + graphHeight - ((value - minValue) / Math.max(valueRange, 1)) * graphHeight;
+      return { x, y, value, flag: flags[index] };
     });
 
     // Create path for line
-    const pathData = points.map((point, index) => {
-      if (index === 0) return `M ${point.x} ${point.y}`;
-      return `L ${point.x} ${point.y}`;
-    }).join(' ');
+    const pathData = toLinePath(points);
 
     // Create area path for gradient
-    const areaPath = pathData + ` L ${points[points.length - 1].x} ${padding + graphHeight} L ${points[0].x} ${padding + graphHeight} Z`;
+    const areaPath = toAreaPath(points, chartPadding + graphHeight);
 
     return (
       <View style={styles.chartContainer}>
@@ -451,359 +874,501 @@ const BuoyGraph: React.FC<BuoyGraphProps> = ({ data }) => {
         <Text style={styles.chartTitle}>{title}</Text>
           <View style={styles.chartStats}>
             <Text style={styles.chartStatText}>
-              Max: {maxValue.toFixed(1)} | Min: {minValue.toFixed(1)}
+              {stats ? formatChartStats(stats) : `Max: ${maxValue.toFixed(1)} | Min: ${minValue.toFixed(1)}`}
             </Text>
+            <Text style={styles.chartHintText}>{chartHint}</Text>
           </View>
         </View>
-        <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+        <View ref={chartGestures.ref} onLayout={chartGestures.onLayout} {...chartGestures.panHandlers}>
           <Svg width={chartWidth} height={chartHeight}>
             <Defs>
               <LinearGradient id={`gradient-${color}`} x1="0%" y1="0%" x2="0%" y2="100%">
                 <Stop offset="0%" stopColor={color} stopOpacity="0.3" />
                 <Stop offset="100%" stopColor={color} stopOpacity="0.05" />
               </LinearGradient>
+              <ClipPath id="plot-area">
+                <Rect x={chartPadding} y={0} width={plotWidth} height={chartHeight} />
+              </ClipPath>
             </Defs>
-            
-            {/* Grid lines */}
-            {[0, 0.25, 0.5, 0.75, 1].map((ratio, index) => {
-              const y = padding + ratio * graphHeight;
-              const value = minValue + (1 - ratio) * valueRange;
-              return (
-                <G key={index}>
-                  <Line
-                    x1={padding}
-                    y1={y}
-                    x2={chartWidth - padding}
-                    y2={y}
-                    stroke="#f3f4f6"
-                    strokeWidth="0.5"
-                    strokeDasharray={index === 0 || index === 4 ? "0" : "3,3"}
-                  />
-                  <SvgText
-                    x={padding - 10}
-                    y={y + 3}
-                    fontSize={Math.max(8, screenWidth * 0.02)}
-                    fill="#9ca3af"
-                    textAnchor="end"
-                    fontWeight="400"
-                  >
-                    {value.toFixed(1)}
-                  </SvgText>
-                </G>
-              );
-            })}
 
-            {/* X-axis labels */}
-            {labels.map((label, index) => {
-              const x = padding + (index / Math.max(labels.length - 1, 1)) * graphWidth;
-              return (
-                <SvgText
-                  key={index}
-                  x={x}
-                  y={chartHeight - 10}
-                  fontSize={Math.max(8, screenWidth * 0.02)}
-                  fill="#9ca3af"
-                  textAnchor="middle"
-                  fontWeight="400"
-                >
-                  {label}
-                </SvgText>
-              );
-            })}
+            {renderAxes(chartHeight, [{
+              min: minValue,
+              range: valueRange,
+              color: AXIS_LABEL_COLOR,
+              side: 'left',
+              row: 0,
+              format: value => value.toFixed(1),
+            }])}
+
+            <G clipPath="url(#plot-area)">
+              {/* Area gradient */}
+              {showGradient && (
+                <Path
+                  d={areaPath}
+                  fill={`url(#gradient-${color})`}
+                />
+              )}
 
-            {/* Area gradient */}
-            {showGradient && (
+              {/* Line path */}
               <Path
-                d={areaPath}
-                fill={`url(#gradient-${color})`}
+                d={pathData}
+                stroke={color}
+                strokeWidth={Math.max(2, screenWidth * 0.005)}
+                fill="none"
+                strokeLinecap="round"
+                strokeLinejoin="round"
               />
-            )}
 
-            {/* Line path */}
-            <Path
-              d={pathData}
-              stroke={color}
-              strokeWidth={Math.max(2, screenWidth * 0.005)}
-              fill="none"
-              strokeLinecap="round"
-              strokeLinejoin="round"
-            />
+              {renderCrosshair(chartHeight)}
 
-            {/* Data points */}
-            {points.map((point, index) => (
-              <Circle
-                key={index}
-                cx={point.x}
-                cy={point.y}
-                r={Math.max(3, screenWidth * 0.008)}
-                fill={color}
-                stroke="#ffffff"
-                strokeWidth={Math.max(1, screenWidth * 0.003)}
-              />
-            ))}
+              {/* Anomaly markers */}
+              {anomalies && points.map((point, index) =>
+                point && anomalies[index] && renderAnomalyMarker(point, `anomaly-${index}`, Math.max(3, screenWidth * 0.008))
+              )}
+
+              {/* Data points */}
+              {points.map((point, index) => point && (showDots || point.flag === 'suspect' || point.flag === 'bad') &&
+                renderPoint(point, String(index), color, Math.max(3, screenWidth * 0.008)))}
+              {renderInspectedPoint(points, 'inspected', color, Math.max(3, screenWidth * 0.008))}
+            </G>
           </Svg>
-        </ScrollView>
+          {renderInspector()}
+        </View>
       </View>
     );
   };
 
-  // Enhanced Combined Line Chart with better styling
-  const CombinedLineChart = ({ 
-    pHData, 
-    tempData, 
-    tdsData, 
-    labels, 
-    title 
-  }: { 
-    pHData: number[], 
-    tempData: number[], 
-    tdsData: number[], 
-    labels: string[], 
-    title: string 
+  // Combined chart: each series on its own axis, or all in standard deviations from their mean
+  const CombinedLineChart = ({
+    pHData,
+    tempData,
+    tdsData,
+    title
+  }: {
+    pHData: (number | null)[],
+    tempData: (number | null)[],
+    tdsData: (number | null)[],
+    title: string
   }) => {
-    const chartWidth = Math.max(screenWidth, labels.length * Math.max(50, screenWidth * 0.12));
     const chartHeight = Math.max(220, screenHeight * 0.28);
-    const padding = Math.max(30, screenWidth * 0.08);
-    const graphWidth = chartWidth - (padding * 2);
-    const graphHeight = chartHeight - (padding * 2);
-
-    const allData = [...pHData, ...tempData, ...tdsData];
-    const maxValue = Math.max(...allData, 1);
-    const minValue = Math.min(...allData, 0);
-    const valueRange = maxValue - minValue;
-
-    const createPoints = (data: number[]) => {
-      return data.map((value, index) => {
-        const x = padding + (index / Math.max(data.length - 1, 1)) * graphWidth;
-        const y = padding + graphHeight - ((value - minValue) / Math.max(valueRange, 1)) * graphHeight;
-        return { x, y, value };
-      });
+    const graphHeight = chartHeight - (chartPadding * 2);
+    const radius = Math.max(2.5, screenWidth * 0.006);
+
+    const series = [
+      { parameter: 'pH' as const, label: 'pH', unit: '', color: '#0ea5e9', data: pHData, flags: pHFlags, marks: pHAnomalies, stats: pHStats },
+      { parameter: 'temperature' as const, label: 'Temp', unit: '°C', color: '#ef4444', data: tempData, flags: tempFlags, marks: tempAnomalies, stats: tempStats },
+      { parameter: 'tds' as const, label: 'TDS', unit: 'ppm', color: '#22c55e', data: tdsData, flags: tdsFlags, marks: tdsAnomalies, stats: tdsStats },
+    ];
+    const shown = series.filter(item => !hiddenSeries.includes(item.parameter));
+
+    // Z-scores share one axis; otherwise each series gets its own, alternating left and right
+    const measured = shown.map(item => {
+      const values = visibleValues(item.data);
+      return { ...item, values, ...meanAndDeviation(values) };
+    });
+    const zScoreLimit = Math.max(2, ...measured.flatMap(item =>
+      item.values.map(value => Math.ceil(Math.abs(zScore(value, item.mean, item.sd))))
+    ));
+    const zScoreAxis: ValueAxis = {
+      min: -zScoreLimit,
+      range: zScoreLimit * 2,
+      color: AXIS_LABEL_COLOR,
+      side: 'left',
+      row: 0,
+      format: value => `${value > 0 ? '+' : ''}${value.toFixed(1)}σ`,
     };
-
-    const pHPoints = createPoints(pHData);
-    const tempPoints = createPoints(tempData);
-    const tdsPoints = createPoints(tdsData);
-
-    const createPath = (points: { x: number; y: number }[]) => {
-      return points.map((point, index) => {
-        if (index === 0) return `M ${point.x} ${point.y}`;
-        return `L ${point.x} ${point.y}`;
-      }).join(' ');
+    const plotted = measured.map((item, index) => {
+      if (combinedScale === 'zscore') {
+        return { ...item, axis: zScoreAxis, scaled: (value: number) => zScore(value, item.mean, item.sd) };
+      }
+      const scale = paddedScale(item.values);
+      const axis: ValueAxis = {
+        ...scale,
+        color: item.color,
+        side: index % 2 === 0 ? 'left' : 'right',
+        row: Math.floor(index / 2),
+        format: value => formatAxisValue(value, scale.range),
+      };
+      return { ...item, axis, scaled: (value: number) => value };
+    });
+    const axes = combinedScale === 'zscore' ? [zScoreAxis] : plotted.map(item => item.axis);
+
+    const lines = plotted.map(item => ({
+      ...item,
+      points: item.data.map((value, index): ChartPoint | null => {
+        if (value === null) return null;
+        const y = chartPadding + graphHeight - ((item.scaled(value) - item.axis.min) / item.axis.range) * graphHeight;
+        return { x: xForIndex(index), y, value, flag: item.flags[index] };
+      }),
+    }));
+
+    // Ranges in the legend come from the statistics service, like the report
+    const range = (stats: ParameterStatistics, decimals: number) =>
+      `${formatStatistic(stats.min?.value ?? null, decimals)}-${formatStatistic(stats.max?.value ?? null, decimals)}`;
+
+    const toggleSeries = (parameter: SensorParameter) => {
+      setHiddenSeries(hiddenSeries.includes(parameter)
+        ? hiddenSeries.filter(item => item !== parameter)
+        : [...hiddenSeries, parameter]);
     };
 
-    // Calculate statistics for each parameter
-    const pHMax = Math.max(...pHData);
-    const pHMin = Math.min(...pHData);
-    const tempMax = Math.max(...tempData);
-    const tempMin = Math.min(...tempData);
-    const tdsMax = Math.max(...tdsData);
-    const tdsMin = Math.min(...tdsData);
-
     return (
       <View style={styles.chartContainer}>
         <View style={styles.chartHeader}>
         <Text style={styles.chartTitle}>{title}</Text>
           <View style={styles.chartStats}>
             <Text style={styles.chartStatText}>
-              Data Points: {pHData.length} | Period: {selectedTimePeriod}
+              Data Points: {totalReadings} | Period: {periodLabel}
             </Text>
+            <Text style={styles.chartHintText}>{chartHint}</Text>
           </View>
         </View>
-        <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+        <View style={styles.scaleToggle}>
+          {(Object.keys(COMBINED_SCALE_LABELS) as CombinedScale[]).map(scale => (
+            <TouchableOpacity
+              key={scale}
+              style={[styles.scaleOption, combinedScale === scale && styles.scaleOptionActive]}
+              onPress={() => setCombinedScale(scale)}
+            >
+              <Text style={[styles.scaleOptionText, combinedScale === scale && styles.scaleOptionTextActive]}>
+                {COMBINED_SCALE_LABELS[scale]}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+        <View ref={chartGestures.ref} onLayout={chartGestures.onLayout} {...chartGestures.panHandlers}>
           <Svg width={chartWidth} height={chartHeight}>
             <Defs>
-              <LinearGradient id="gradient-pH" x1="0%" y1="0%" x2="0%" y2="100%">
-                <Stop offset="0%" stopColor="#0ea5e9" stopOpacity="0.2" />
-                <Stop offset="100%" stopColor="#0ea5e9" stopOpacity="0.05" />
-              </LinearGradient>
-              <LinearGradient id="gradient-temp" x1="0%" y1="0%" x2="0%" y2="100%">
-                <Stop offset="0%" stopColor="#ef4444" stopOpacity="0.2" />
-                <Stop offset="100%" stopColor="#ef4444" stopOpacity="0.05" />
-              </LinearGradient>
-              <LinearGradient id="gradient-tds" x1="0%" y1="0%" x2="0%" y2="100%">
-                <Stop offset="0%" stopColor="#22c55e" stopOpacity="0.2" />
-                <Stop offset="100%" stopColor="#22c55e" stopOpacity="0.05" />
-              </LinearGradient>
+              <ClipPath id="plot-area">
+                <Rect x={chartPadding} y={0} width={plotWidth} height={chartHeight} />
+              </ClipPath>
             </Defs>
-            
-            {/* Grid lines */}
-            {[0, 0.25, 0.5, 0.75, 1].map((ratio, index) => {
-              const y = padding + ratio * graphHeight;
-              const value = minValue + (1 - ratio) * valueRange;
-              return (
-                <G key={index}>
-                  <Line
-                    x1={padding}
-                    y1={y}
-                    x2={chartWidth - padding}
-                    y2={y}
-                    stroke="#f3f4f6"
-                    strokeWidth="0.5"
-                    strokeDasharray={index === 0 || index === 4 ? "0" : "3,3"}
-                  />
-                  <SvgText
-                    x={padding - 10}
-                    y={y + 3}
-                    fontSize={Math.max(8, screenWidth * 0.02)}
-                    fill="#9ca3af"
-                    textAnchor="end"
-                    fontWeight="400"
-                  >
-                    {value.toFixed(1)}
-                  </SvgText>
-                </G>
-              );
-            })}
-
-            {/* X-axis labels */}
-            {labels.map((label, index) => {
-              const x = padding + (index / Math.max(labels.length - 1, 1)) * graphWidth;
-              return (
-                <SvgText
-                  key={index}
-                  x={x}
-                  y={chartHeight - 10}
-                  fontSize={Math.max(8, screenWidth * 0.02)}
-                  fill="#9ca3af"
-                  textAnchor="middle"
-                  fontWeight="400"
-                >
-                  {label}
-                </SvgText>
-              );
-            })}
 
-            {/* pH Line */}
-            <Path
-              d={createPath(pHPoints)}
-              stroke="#0ea5e9"
-              strokeWidth={Math.max(2, screenWidth * 0.005)}
-              fill="none"
-              strokeLinecap="round"
-              strokeLinejoin="round"
-            />
+            {renderAxes(chartHeight, axes)}
+
+            <G clipPath="url(#plot-area)">
+              {/* Series lines */}
+              {lines.map(line => (
+                <Path
+                  key={`line-${line.parameter}`}
+                  d={toLinePath(line.points)}
+                  stroke={line.color}
+                  strokeWidth={Math.max(2, screenWidth * 0.005)}
+                  fill="none"
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                />
+              ))}
 
-            {/* Temperature Line */}
-            <Path
-              d={createPath(tempPoints)}
-              stroke="#ef4444"
-              strokeWidth={Math.max(2, screenWidth * 0.005)}
-              fill="none"
-              strokeLinecap="round"
-              strokeLinejoin="round"
-            />
+              {renderCrosshair(chartHeight)}
 
-            {/* TDS Line */}
-            <Path
-              d={createPath(tdsPoints)}
-              stroke="#22c55e"
-              strokeWidth={Math.max(2, screenWidth * 0.005)}
-              fill="none"
-              strokeLinecap="round"
-              strokeLinejoin="round"
-            />
+              {/* Anomaly markers */}
+              {lines.map(line => line.points.map((point, index) =>
+                point && line.marks[index] && renderAnomalyMarker(point, `anomaly-${line.parameter}-${index}`, radius)
+              ))}
 
-            {/* Data points */}
-            {pHPoints.map((point, index) => (
-              <Circle
-                key={`pH-${index}`}
-                cx={point.x}
-                cy={point.y}
-                r={Math.max(2.5, screenWidth * 0.006)}
-                fill="#0ea5e9"
-                stroke="#ffffff"
-                strokeWidth={Math.max(1, screenWidth * 0.003)}
-              />
-            ))}
-            {tempPoints.map((point, index) => (
-              <Circle
-                key={`temp-${index}`}
-                cx={point.x}
-                cy={point.y}
-                r={Math.max(2.5, screenWidth * 0.006)}
-                fill="#ef4444"
-                stroke="#ffffff"
-                strokeWidth={Math.max(1, screenWidth * 0.003)}
-              />
-            ))}
-            {tdsPoints.map((point, index) => (
-              <Circle
-                key={`tds-${index}`}
-                cx={point.x}
-                cy={point.y}
-                r={Math.max(2.5, screenWidth * 0.006)}
-                fill="#22c55e"
-                stroke="#ffffff"
-                strokeWidth={Math.max(1, screenWidth * 0.003)}
-              />
-            ))}
+              {/* Data points */}
+              {lines.map(line => line.points.map((point, index) => point && (showDots || point.flag === 'suspect' || point.flag === 'bad') &&
+                renderPoint(point, `${line.parameter}-${index}`, line.color, radius)
+              ))}
+              {lines.map(line => renderInspectedPoint(line.points, `inspected-${line.parameter}`, line.color, radius))}
+            </G>
           </Svg>
-        </ScrollView>
+          {renderInspector()}
+        </View>
 
-        {/* Enhanced Legend with Statistics */}
+        {/* Legend with statistics; tap a series to show or hide it */}
         <View style={styles.legendContainer}>
-          <View style={styles.legendItem}>
-            <View style={[styles.legendDot, { backgroundColor: '#0ea5e9' }]} />
-            <Text style={styles.legendText}>pH ({pHMin.toFixed(1)}-{pHMax.toFixed(1)})</Text>
-          </View>
-          <View style={styles.legendItem}>
-            <View style={[styles.legendDot, { backgroundColor: '#ef4444' }]} />
-            <Text style={styles.legendText}>Temp ({tempMin.toFixed(1)}-{tempMax.toFixed(1)}°C)</Text>
+          {series.map(item => {
+            const hidden = hiddenSeries.includes(item.parameter);
+            return (
+              <TouchableOpacity
+                key={item.parameter}
+                style={[styles.legendItem, hidden && styles.legendItemHidden]}
+                onPress={() => toggleSeries(item.parameter)}
+              >
+                <View style={[styles.legendDot, hidden
+                  ? { borderWidth: 1.5, borderColor: item.color }
+                  : { backgroundColor: item.color }]} />
+                <Text style={styles.legendText}>{item.label} ({range(item.stats, 1)}{item.unit})</Text>
+              </TouchableOpacity>
+            );
+          })}
+          {plottedAnomalies.length > 0 && (
+            <View style={styles.legendItem}>
+              <View style={[styles.legendDot, { backgroundColor: ANOMALY_COLOR }]} />
+              <Text style={styles.legendText}>Anomaly</Text>
+            </View>
+          )}
+        </View>
+        <Text style={styles.legendHint}>
+          {shown.length === 0 ? 'All series hidden · tap one to show it' : 'Tap a series to show or hide it'}
+        </Text>
+      </View>
+    );
+  };
+
+  // One parameter for several buoys on a shared time axis, averaged into common buckets,
+  // with the difference or ratio between the first two in a panel underneath
+  const CompareLineChart = () => {
+    const chartHeight = Math.max(220, screenHeight * 0.28);
+    const derivedHeight = Math.max(120, screenHeight * 0.15);
+    const radius = Math.max(2.5, screenWidth * 0.006);
+    const { label, unit } = COMPARE_PARAMETER_DISPLAY[compareParameter];
+    const decimals = STAT_DECIMALS[compareParameter];
+    const times = comparison?.times ?? [];
+
+    const plotPoints = (values: (number | null)[], axis: ValueAxis, height: number) => {
+      const graphHeight = height - chartPadding * 2;
+      return values.map((value, index): ChartPoint | null => value === null ? null : {
+        x: xForTime(times[index]),
+        y: chartPadding + graphHeight - ((value - axis.min) / axis.range) * graphHeight,
+        value,
+        flag: 'good',
+      });
+    };
+
+    // Every buoy shares one axis, since they measure the same thing
+    const buoyValues = comparedBuoys.map(buoy => ({ buoy, color: buoyColor(buoy), values: comparison?.values[buoy] ?? [] }));
+    const valueScale = paddedScale(buoyValues.flatMap(line => presentValues(line.values)));
+    const valueAxis: ValueAxis = {
+      ...valueScale,
+      color: AXIS_LABEL_COLOR,
+      side: 'left',
+      row: 0,
+      format: value => formatAxisValue(value, valueScale.range),
+    };
+    const buoyLines = buoyValues.map(line => ({ ...line, points: plotPoints(line.values, valueAxis, chartHeight) }));
+
+    // Derived series against its reference line: 0 for a difference, 1 for a ratio
+    const [first, second] = buoyValues;
+    const showDerived = comparisonMode !== 'none' && first !== undefined && second !== undefined;
+    const derived = showDerived ? compareSeries(first.values, second.values, comparisonMode) : [];
+    const reference = comparisonMode === 'ratio' ? 1 : 0;
+    const derivedScale = paddedScale([...presentValues(derived), reference]);
+    const derivedAxis: ValueAxis = {
+      ...derivedScale,
+      color: DERIVED_COLOR,
+      side: 'left',
+      row: 0,
+      format: value => comparisonMode === 'ratio' ? `${value.toFixed(2)}×` : formatAxisValue(value, derivedScale.range),
+    };
+    const derivedPoints = plotPoints(derived, derivedAxis, derivedHeight);
+    const derivedLabel = showDerived
+      ? `${first.buoy} ${comparisonMode === 'ratio' ? '÷' : '−'} ${second.buoy}`
+      : '';
+    const referenceY = chartPadding + (derivedHeight - chartPadding * 2) * (1 - (reference - derivedAxis.min) / derivedAxis.range);
+    const showCompareDots = times.length <= DOT_LIMIT;
+
+    // Long-press snaps to the nearest bucket
+    const inspectedBucket = inspectedTime !== null && comparison && times.length > 0
+      ? Math.min(times.length - 1, Math.max(0, Math.round((inspectedTime - times[0]) / comparison.bucketMs)))
+      : null;
+    const inspectedX = inspectedBucket !== null ? xForTime(times[inspectedBucket]) : null;
+    const formatValue = (value: number | null | undefined) =>
+      value === null || value === undefined ? '—' : `${value.toFixed(decimals)}${unit}`;
+
+    const renderCompareInspector = () => {
+      if (inspectedBucket === null || inspectedX === null) return null;
+      const left = Math.min(Math.max(inspectedX - INSPECTOR_WIDTH / 2, 0), chartWidth - INSPECTOR_WIDTH);
+      const derivedValue = derived[inspectedBucket];
+      return (
+        <View pointerEvents="none" style={[styles.inspector, { left }]}>
+          <Text style={styles.inspectorTime}>
+            {new Date(times[inspectedBucket]).toLocaleString('en-US', { month: 'short', day: 'numeric', year: 'numeric', hour: '2-digit', minute: '2-digit' })}
+          </Text>
+          <Text style={styles.inspectorBuoy}>{label}, mean of {formatDuration(comparison!.bucketMs)}</Text>
+          {buoyLines.map(line => (
+            <View key={line.buoy} style={styles.inspectorRow}>
+              <Text style={[styles.inspectorLabel, { color: line.color }]}>{line.buoy}</Text>
+              <Text style={styles.inspectorValue}>{formatValue(line.values[inspectedBucket])}</Text>
+            </View>
+          ))}
+          {showDerived && (
+            <View style={styles.inspectorRow}>
+              <Text style={styles.inspectorLabel}>{COMPARISON_MODE_LABELS[comparisonMode]}</Text>
+              <Text style={styles.inspectorValue}>
+                {derivedValue === null || derivedValue === undefined
+                  ? '—'
+                  : comparisonMode === 'ratio' ? `${derivedValue.toFixed(2)}×` : formatValue(derivedValue)}
+              </Text>
+            </View>
+          )}
+        </View>
+      );
+    };
+
+    const toggleBuoy = (buoy: string) => {
+      setCompareSelection(comparedBuoys.includes(buoy)
+        ? comparedBuoys.filter(item => item !== buoy)
+        : compareChoices.filter(item => item === buoy || comparedBuoys.includes(item)));
+    };
+
+    return (
+      <View style={styles.chartContainer}>
+        <View style={styles.chartHeader}>
+          <Text style={styles.chartTitle}>{label} by Buoy</Text>
+          <View style={styles.chartStats}>
+            <Text style={styles.chartStatText}>
+              {comparison ? `Buckets of ${formatDuration(comparison.bucketMs)}` : 'No buckets'} | Period: {periodLabel}
+            </Text>
+            <Text style={styles.chartHintText}>{chartHint}</Text>
           </View>
-          <View style={styles.legendItem}>
-            <View style={[styles.legendDot, { backgroundColor: '#22c55e' }]} />
-            <Text style={styles.legendText}>TDS ({tdsMin.toFixed(1)}-{tdsMax.toFixed(1)}ppm)</Text>
+        </View>
+
+        <View style={styles.scaleToggle}>
+          {SENSOR_PARAMETERS.map(parameter => (
+            <TouchableOpacity
+              key={parameter}
+              style={[styles.scaleOption, compareParameter === parameter && styles.scaleOptionActive]}
+              onPress={() => setCompareParameter(parameter)}
+            >
+              <Text style={[styles.scaleOptionText, compareParameter === parameter && styles.scaleOptionTextActive]}>
+                {COMPARE_PARAMETER_DISPLAY[parameter].label}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        <View style={styles.buoyChips}>
+          {compareChoices.map(buoy => {
+            const selected = comparedBuoys.includes(buoy);
+            const color = buoyColor(buoy);
+            return (
+              <TouchableOpacity
+                key={buoy}
+                style={[styles.buoyChip, { borderColor: color }, selected && { backgroundColor: color }]}
+                onPress={() => toggleBuoy(buoy)}
+              >
+                <Text style={[styles.buoyChipText, { color: selected ? '#ffffff' : color }]}>{buoy}</Text>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+
+        {comparedBuoys.length === 0 ? (
+          <Text style={styles.legendHint}>Select one or more buoys to compare</Text>
+        ) : (
+          <View ref={chartGestures.ref} onLayout={chartGestures.onLayout} {...chartGestures.panHandlers}>
+            <Svg width={chartWidth} height={chartHeight}>
+              <Defs>
+                <ClipPath id="plot-area">
+                  <Rect x={chartPadding} y={0} width={plotWidth} height={chartHeight} />
+                </ClipPath>
+              </Defs>
+
+              {renderAxes(chartHeight, [valueAxis])}
+
+              <G clipPath="url(#plot-area)">
+                {buoyLines.map(line => (
+                  <Path
+                    key={`line-${line.buoy}`}
+                    d={toLinePath(line.points)}
+                    stroke={line.color}
+                    strokeWidth={Math.max(2, screenWidth * 0.005)}
+                    fill="none"
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                  />
+                ))}
+                {renderCrosshair(chartHeight, inspectedX)}
+                {showCompareDots && buoyLines.map(line => line.points.map((point, index) =>
+                  point && renderPoint(point, `${line.buoy}-${index}`, line.color, radius)
+                ))}
+                {inspectedBucket !== null && buoyLines.map(line => {
+                  const point = line.points[inspectedBucket];
+                  return point && (
+                    <Circle key={`inspected-${line.buoy}`} cx={point.x} cy={point.y} r={radius * 2} fill="none" stroke={line.color} strokeWidth={2} />
+                  );
+                })}
+              </G>
+            </Svg>
+            {renderCompareInspector()}
           </View>
+        )}
+
+        {/* Difference or ratio between the first two selected buoys */}
+        {comparedBuoys.length >= 2 && (
+          <>
+            <View style={styles.scaleToggle}>
+              {(Object.keys(COMPARISON_MODE_LABELS) as ComparisonMode[]).map(mode => (
+                <TouchableOpacity
+                  key={mode}
+                  style={[styles.scaleOption, comparisonMode === mode && styles.scaleOptionActive]}
+                  onPress={() => setComparisonMode(mode)}
+                >
+                  <Text style={[styles.scaleOptionText, comparisonMode === mode && styles.scaleOptionTextActive]}>
+                    {COMPARISON_MODE_LABELS[mode]}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+            {showDerived && (
+              <>
+                <Text style={styles.chartStatText}>{derivedLabel}</Text>
+                <Svg width={chartWidth} height={derivedHeight}>
+                  <Defs>
+                    <ClipPath id="derived-plot-area">
+                      <Rect x={chartPadding} y={0} width={plotWidth} height={derivedHeight} />
+                    </ClipPath>
+                  </Defs>
+
+                  {renderAxes(derivedHeight, [derivedAxis])}
+
+                  <G clipPath="url(#derived-plot-area)">
+                    <Line
+                      x1={chartPadding}
+                      y1={referenceY}
+                      x2={chartWidth - chartPadding}
+                      y2={referenceY}
+                      stroke="#94a3b8"
+                      strokeWidth={1}
+                      strokeDasharray="4,3"
+                    />
+                    <Path
+                      d={toLinePath(derivedPoints)}
+                      stroke={DERIVED_COLOR}
+                      strokeWidth={Math.max(2, screenWidth * 0.005)}
+                      fill="none"
+                      strokeLinecap="round"
+                      strokeLinejoin="round"
+                    />
+                    {renderCrosshair(derivedHeight, inspectedX)}
+                  </G>
+                </Svg>
+              </>
+            )}
+          </>
+        )}
+
+        <View style={styles.legendContainer}>
+          {buoyLines.map(line => (
+            <View key={line.buoy} style={styles.legendItem}>
+              <View style={[styles.legendDot, { backgroundColor: line.color }]} />
+              <Text style={styles.legendText}>{line.buoy}</Text>
+            </View>
+          ))}
+          {showDerived && (
+            <View style={styles.legendItem}>
+              <View style={[styles.legendDot, { backgroundColor: DERIVED_COLOR }]} />
+              <Text style={styles.legendText}>{COMPARISON_MODE_LABELS[comparisonMode]}</Text>
+            </View>
+          )}
         </View>
       </View>
     );
   };
 
   // Monthly Comparison Pie Chart Component
-  const MonthlyBarChart = ({ data, selectedParam }: { data: BuoyData[]; selectedParam: 'pH' | 'temp' | 'tds' }) => {
+  const MonthlyBarChart = ({ data, selectedParam }: { data: BuoyReading[]; selectedParam: 'pH' | 'temp' | 'tds' }) => {
     const monthlyData = useMemo(() => {
-      const grouped = data.reduce((acc, item) => {
-        try {
-          // Only process valid dates
-          if (!isValidDate(item.Date, item.Time)) {
-            return acc;
-          }
-          
-          const date = new Date(`${item.Date} ${item.Time}`);
-          const monthKey = date.toLocaleDateString('en-US', { month: 'short', year: 'numeric' });
-          
-          if (!acc[monthKey]) {
-            acc[monthKey] = {
-              month: monthKey,
-              pH: [],
-              temp: [],
-              tds: [],
-              count: 0
-            };
-          }
-          
-          const pH = parseFloat(item.pH);
-          const temp = parseFloat(item['Temp (°C)']);
-          const tds = parseFloat(item['TDS (ppm)']);
-          
-          if (!isNaN(pH)) acc[monthKey].pH.push(pH);
-          if (!isNaN(temp)) acc[monthKey].temp.push(temp);
-          if (!isNaN(tds)) acc[monthKey].tds.push(tds);
-          acc[monthKey].count++;
-          
-        } catch (error) {
-          console.warn('Error processing data for bar chart:', error);
-        }
-        return acc;
-      }, {} as Record<string, { month: string; pH: number[]; temp: number[]; tds: number[]; count: number }>);
-
-      return Object.values(grouped).map(month => ({
-        month: month.month,
-        avgPH: month.pH.length > 0 ? month.pH.reduce((a, b) => a + b, 0) / month.pH.length : 0,
-        avgTemp: month.temp.length > 0 ? month.temp.reduce((a, b) => a + b, 0) / month.temp.length : 0,
-        avgTDS: month.tds.length > 0 ? month.tds.reduce((a, b) => a + b, 0) / month.tds.length : 0,
-        count: month.count
-      })).sort((a, b) => new Date(a.month).getTime() - new Date(b.month).getTime());
+      return summarizeByPeriod(data, {}, 'month').map(month => ({
+        month: month.label,
+        avgPH: month.statistics.pH.mean ?? 0,
+        avgTemp: month.statistics.temperature.mean ?? 0,
+        avgTDS: month.statistics.tds.mean ?? 0,
+        count: month.readingCount
+      }));
     }, [data]);
 
     if (monthlyData.length === 0) return null;
@@ -812,38 +1377,13 @@ const BuoyGraph: React.FC<BuoyGraphProps> = ({ data }) => {
     const maxTemp = Math.max(...monthlyData.map(d => d.avgTemp));
     const maxTDS = Math.max(...monthlyData.map(d => d.avgTDS));
 
-    const getQualityColor = (value: number, type: 'pH' | 'temp' | 'tds') => {
-      if (type === 'pH') {
-        if (value >= 6.5 && value <= 8.5) return '#22c55e'; // Good
-        if (value >= 6.0 && value <= 9.0) return '#f59e0b'; // Fair
-        return '#ef4444'; // Poor
-      } else if (type === 'temp') {
-        if (value >= 20 && value <= 30) return '#22c55e'; // Good
-        if (value >= 15 && value <= 35) return '#f59e0b'; // Fair
-        return '#ef4444'; // Poor
-      } else if (type === 'tds') {
-        if (value <= 500) return '#22c55e'; // Good
-        if (value <= 1000) return '#f59e0b'; // Fair
-        return '#ef4444'; // Poor
-      }
-      return '#6b7280';
-    };
-
-    const getQualityLabel = (value: number, type: 'pH' | 'temp' | 'tds') => {
-      if (type === 'pH') {
-        if (value >= 6.5 && value <= 8.5) return 'Good';
-        if (value >= 6.0 && value <= 9.0) return 'Fair';
-        return 'Poor';
-      } else if (type === 'temp') {
-        if (value >= 20 && value <= 30) return 'Good';
-        if (value >= 15 && value <= 35) return 'Fair';
-        return 'Poor';
-      } else if (type === 'tds') {
-        if (value <= 500) return 'Good';
-        if (value <= 1000) return 'Fair';
-        return 'Poor';
-      }
-      return 'Unknown';
+    // Rate monthly averages against the selected standard; parameters it does not cover are not rated
+    const getQualityRating = (value: number, parameter: WqiParameter) => {
+      const category = rateParameter(value, parameter, standard);
+      return {
+        color: category ? WQI_CATEGORY_COLORS[category] : WQI_UNRATED_COLOR,
+        label: category ? WQI_CATEGORY_LABELS[category] : 'Not rated',
+      };
     };
 
     const getParameterData = (month: any) => {
@@ -854,8 +1394,8 @@ const BuoyGraph: React.FC<BuoyGraphProps> = ({ data }) => {
             maxValue: maxPH,
             label: 'pH',
             unit: '',
-            color: getQualityColor(month.avgPH, 'pH'),
-            quality: getQualityLabel(month.avgPH, 'pH'),
+            color: getQualityRating(month.avgPH, 'pH').color,
+            quality: getQualityRating(month.avgPH, 'pH').label,
             formattedValue: month.avgPH.toFixed(1)
           };
         case 'temp':
@@ -864,8 +1404,8 @@ const BuoyGraph: React.FC<BuoyGraphProps> = ({ data }) => {
             maxValue: maxTemp,
             label: 'Temp',
             unit: '°C',
-            color: getQualityColor(month.avgTemp, 'temp'),
-            quality: getQualityLabel(month.avgTemp, 'temp'),
+            color: getQualityRating(month.avgTemp, 'temperature').color,
+            quality: getQualityRating(month.avgTemp, 'temperature').label,
             formattedValue: month.avgTemp.toFixed(1)
           };
         case 'tds':
@@ -874,8 +1414,8 @@ const BuoyGraph: React.FC<BuoyGraphProps> = ({ data }) => {
             maxValue: maxTDS,
             label: 'TDS',
             unit: ' ppm',
-            color: getQualityColor(month.avgTDS, 'tds'),
-            quality: getQualityLabel(month.avgTDS, 'tds'),
+            color: getQualityRating(month.avgTDS, 'tds').color,
+            quality: getQualityRating(month.avgTDS, 'tds').label,
             formattedValue: month.avgTDS.toFixed(0)
           };
         default:
@@ -884,8 +1424,8 @@ const BuoyGraph: React.FC<BuoyGraphProps> = ({ data }) => {
             maxValue: maxPH,
             label: 'pH',
             unit: '',
-            color: getQualityColor(month.avgPH, 'pH'),
-            quality: getQualityLabel(month.avgPH, 'pH'),
+            color: getQualityRating(month.avgPH, 'pH').color,
+            quality: getQualityRating(month.avgPH, 'pH').label,
             formattedValue: month.avgPH.toFixed(1)
           };
       }
@@ -954,62 +1494,29 @@ const BuoyGraph: React.FC<BuoyGraphProps> = ({ data }) => {
 
         {/* Legend */}
         <View style={styles.barChartLegend}>
-          <View style={styles.barChartLegendItem}>
-            <View style={[styles.barChartLegendDot, { backgroundColor: '#22c55e' }]} />
-            <Text style={styles.barChartLegendText}>Good Quality</Text>
-          </View>
-          <View style={styles.barChartLegendItem}>
-            <View style={[styles.barChartLegendDot, { backgroundColor: '#f59e0b' }]} />
-            <Text style={styles.barChartLegendText}>Fair Quality</Text>
-          </View>
-          <View style={styles.barChartLegendItem}>
-            <View style={[styles.barChartLegendDot, { backgroundColor: '#ef4444' }]} />
-            <Text style={styles.barChartLegendText}>Poor Quality</Text>
-          </View>
+          {(Object.keys(WQI_CATEGORY_LABELS) as WqiCategory[]).map(category => (
+            <View key={category} style={styles.barChartLegendItem}>
+              <View style={[styles.barChartLegendDot, { backgroundColor: WQI_CATEGORY_COLORS[category] }]} />
+              <Text style={styles.barChartLegendText}>{WQI_CATEGORY_LABELS[category]}</Text>
+            </View>
+          ))}
         </View>
       </View>
     );
   };
 
-  const MonthlyPieChart = ({ data }: { data: BuoyData[] }) => {
+  const MonthlyPieChart = ({ data }: { data: BuoyReading[] }) => {
     const { width: screenWidth, height: screenHeight } = Dimensions.get('window');
     
-    // Group data by month (only valid dates)
+    // Readings and averages per month
     const monthlyData = useMemo(() => {
-      const monthGroups: { [key: string]: BuoyData[] } = {};
-      
-      data.forEach(item => {
-        // Only process valid dates
-        if (!isValidDate(item.Date, item.Time)) {
-          return;
-        }
-        
-        const date = new Date(`${item.Date} ${item.Time}`);
-        const monthKey = `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
-        const monthName = date.toLocaleDateString('en-US', { month: 'short', year: 'numeric' });
-        
-        if (!monthGroups[monthKey]) {
-          monthGroups[monthKey] = [];
-        }
-        monthGroups[monthKey].push(item);
-      });
-
-      // Calculate averages for each month
-      return Object.entries(monthGroups).map(([monthKey, items]) => {
-        const monthName = new Date(monthKey + '-01').toLocaleDateString('en-US', { month: 'short', year: 'numeric' });
-        const avgpH = items.reduce((sum, item) => sum + parseFloat(item.pH || '0'), 0) / items.length;
-        const avgTemp = items.reduce((sum, item) => sum + parseFloat(item['Temp (°C)'] || '0'), 0) / items.length;
-        const avgTDS = items.reduce((sum, item) => sum + parseFloat(item['TDS (ppm)'] || '0'), 0) / items.length;
-        
-        return {
-          month: monthName,
-          monthKey,
-          count: items.length,
-          avgpH: isNaN(avgpH) ? 0 : avgpH,
-          avgTemp: isNaN(avgTemp) ? 0 : avgTemp,
-          avgTDS: isNaN(avgTDS) ? 0 : avgTDS,
-        };
-      }).sort((a, b) => a.monthKey.localeCompare(b.monthKey));
+      return summarizeByPeriod(data, {}, 'month').map(month => ({
+        month: month.label,
+        count: month.readingCount,
+        avgpH: month.statistics.pH.mean ?? 0,
+        avgTemp: month.statistics.temperature.mean ?? 0,
+        avgTDS: month.statistics.tds.mean ?? 0,
+      }));
     }, [data]);
 
     if (monthlyData.length === 0) return null;
@@ -1103,49 +1610,58 @@ const BuoyGraph: React.FC<BuoyGraphProps> = ({ data }) => {
     );
   };
 
+  // The line charts are called rather than mounted as <Components>: they are redefined on every
+  // render, so mounting them would recreate the gesture view on each pinch or drag update
   const renderChart = () => {
     try {
       switch (selectedChart) {
         case 'pH':
-          return (
-            <CustomLineChart 
-              data={pHData} 
-              labels={labels} 
-              color="#0ea5e9" 
-              title="pH Levels" 
-              height={Math.max(180, screenHeight * 0.25)}
-            />
-          );
+          return CustomLineChart({
+            data: pHData,
+            stats: pHStats,
+            flags: pHFlags,
+            anomalies: pHAnomalies,
+            color: '#0ea5e9',
+            title: 'pH Levels',
+            height: Math.max(180, screenHeight * 0.25),
+          });
         case 'Temperature':
-          return (
-            <CustomLineChart 
-              data={tempData} 
-              labels={labels} 
-              color="#ef4444" 
-              title="Temperature (°C)" 
-              height={Math.max(180, screenHeight * 0.25)}
-            />
-          );
+          return CustomLineChart({
+            data: tempData,
+            stats: tempStats,
+            flags: tempFlags,
+            anomalies: tempAnomalies,
+            color: '#ef4444',
+            title: 'Temperature (°C)',
+            height: Math.max(180, screenHeight * 0.25),
+          });
         case 'TDS':
-          return (
-            <CustomLineChart 
-              data={tdsData} 
-              labels={labels} 
-              color="#22c55e" 
-              title="TDS (ppm)" 
-              height={Math.max(180, screenHeight * 0.25)}
-            />
-          );
+          return CustomLineChart({
+            data: tdsData,
+            stats: tdsStats,
+            flags: tdsFlags,
+            anomalies: tdsAnomalies,
+            color: '#22c55e',
+            title: 'TDS (ppm)',
+            height: Math.max(180, screenHeight * 0.25),
+          });
+        case 'WQI':
+          return CustomLineChart({
+            data: wqiData,
+            flags: wqiFlags,
+            color: '#8b5cf6',
+            title: `Water Quality Index (${standard.label})`,
+            height: Math.max(180, screenHeight * 0.25),
+          });
         case 'Combined':
-          return (
-            <CombinedLineChart 
-              pHData={pHData}
-              tempData={tempData}
-              tdsData={tdsData}
-              labels={labels}
-              title="All Sensor Data"
-            />
-          );
+          return CombinedLineChart({
+            pHData,
+            tempData,
+            tdsData,
+            title: 'All Sensor Data',
+          });
+        case 'Compare':
+          return CompareLineChart();
         default:
           return null;
       }
@@ -1217,23 +1733,72 @@ const BuoyGraph: React.FC<BuoyGraphProps> = ({ data }) => {
                   size={getResponsiveIconSize(18)} 
                   color="#22c55e" 
                 />
-                <Text style={styles.dropdownText}>{selectedBuoy}</Text>
+                <Text style={styles.dropdownText}>
+                  {selectedChart === 'Compare' ? `Comparing ${comparedBuoys.length}` : selectedBuoy}
+                </Text>
               </View>
               <Ionicons name="chevron-down" size={getResponsiveIconSize(16)} color="#64748b" />
             </TouchableOpacity>
           </View>
+
+          {/* Quality Control Toggle */}
+          <View style={styles.dropdownContainer}>
+            <Text style={styles.dropdownLabel}>Flagged Data</Text>
+            <TouchableOpacity
+              style={styles.dropdownButton}
+              onPress={() => setHideFlagged(!hideFlagged)}
+            >
+              <View style={styles.dropdownContent}>
+                <Ionicons 
+                  name={hideFlagged ? 'eye-off' : 'flag'} 
+                  size={getResponsiveIconSize(18)} 
+                  color={QC_FLAG_COLORS.suspect} 
+                />
+                <Text style={styles.dropdownText}>{hideFlagged ? 'Hidden' : 'Marked'}</Text>
+              </View>
+              <Ionicons name="swap-horizontal" size={getResponsiveIconSize(16)} color="#64748b" />
+            </TouchableOpacity>
+          </View>
         </View>
 
         {/* Data Summary */}
         <View style={styles.dataSummary}>
           <View style={styles.summaryItem}>
             <Ionicons name="analytics" size={getResponsiveIconSize(16)} color="#0ea5e9" />
-            <Text style={styles.summaryText}>{processedData.length} data points</Text>
+            <Text style={styles.summaryText}>{totalReadings} data points</Text>
           </View>
+          {stored.isOverview && (
+            <View style={styles.summaryItem}>
+              <Ionicons name="layers-outline" size={getResponsiveIconSize(16)} color="#64748b" />
+              <Text style={styles.summaryText}>Overview · zoom in for every reading</Text>
+            </View>
+          )}
           <View style={styles.summaryItem}>
             <Ionicons name="time" size={getResponsiveIconSize(16)} color="#22c55e" />
-            <Text style={styles.summaryText}>{selectedTimePeriod}</Text>
+            <Text style={styles.summaryText}>{periodLabel}</Text>
           </View>
+          {wqiSummary && (
+            <View style={styles.summaryItem}>
+              <Ionicons name="shield-checkmark" size={getResponsiveIconSize(16)} color={WQI_CATEGORY_COLORS[wqiSummary.category]} />
+              <Text style={styles.summaryText}>
+                WQI {formatWqi(wqiSummary.score)} ({WQI_CATEGORY_LABELS[wqiSummary.category]})
+              </Text>
+            </View>
+          )}
+          {flaggedCount > 0 && (
+            <View style={styles.summaryItem}>
+              <Ionicons name="flag" size={getResponsiveIconSize(16)} color={QC_FLAG_COLORS.suspect} />
+              <Text style={styles.summaryText}>{flaggedCount} flagged</Text>
+            </View>
+          )}
+          {plottedAnomalies.length > 0 && (
+            <View style={styles.summaryItem}>
+              <Ionicons name="pulse" size={getResponsiveIconSize(16)} color={ANOMALY_COLOR} />
+              <Text style={styles.summaryText}>
+                {plottedAnomalies.length} {plottedAnomalies.length === 1 ? 'anomaly' : 'anomalies'}
+              </Text>
+            </View>
+          )}
         </View>
       </View>
 
@@ -1242,11 +1807,14 @@ const BuoyGraph: React.FC<BuoyGraphProps> = ({ data }) => {
         {renderChart()}
       </View>
 
+      {/* Anomalies in the plotted series */}
+      {anomalyConfig && <AnomalyPanel anomalies={panelAnomalies} />}
+
       {/* Monthly Comparison Pie Chart */}
-      <MonthlyPieChart data={selectedBuoy === 'All Buoys' ? data : data.filter(item => item.Buoy === selectedBuoy && isValidDate(item.Date, item.Time))} />
+      <MonthlyPieChart data={selectedBuoy === 'All Buoys' ? data : data.filter(item => item.buoy === selectedBuoy && hasValidTimestamp(item))} />
 
       {/* Monthly Quality Comparison Bar Chart */}
-      <MonthlyBarChart data={selectedBuoy === 'All Buoys' ? data : data.filter(item => item.Buoy === selectedBuoy && isValidDate(item.Date, item.Time))} selectedParam={selectedParameter} />
+      <MonthlyBarChart data={selectedBuoy === 'All Buoys' ? data : data.filter(item => item.buoy === selectedBuoy && hasValidTimestamp(item))} selectedParam={selectedParameter} />
 
       {/* Chart Type Dropdown Modal */}
       <Modal
@@ -1291,48 +1859,8 @@ const BuoyGraph: React.FC<BuoyGraphProps> = ({ data }) => {
         </TouchableOpacity>
       </Modal>
 
-      {/* Time Period Dropdown Modal */}
-      <Modal
-        visible={showTimeDropdown}
-        transparent={true}
-        animationType="fade"
-        onRequestClose={() => setShowTimeDropdown(false)}
-      >
-        <TouchableOpacity
-          style={styles.modalOverlay}
-          activeOpacity={1}
-          onPress={() => setShowTimeDropdown(false)}
-        >
-          <View style={styles.dropdownModal}>
-            <Text style={styles.modalTitle}>Select Time Period</Text>
-            {timePeriodOptions.map((option) => (
-              <TouchableOpacity
-                key={option.value}
-                style={[
-                  styles.dropdownOption,
-                  selectedTimePeriod === option.value && styles.selectedOption
-                ]}
-                onPress={() => {
-                  setSelectedTimePeriod(option.value);
-                  setShowTimeDropdown(false);
-                }}
-              >
-                <Ionicons 
-                  name={option.icon as any} 
-                  size={getResponsiveIconSize(20)} 
-                  color={selectedTimePeriod === option.value ? '#ffffff' : '#0ea5e9'} 
-                />
-                <Text style={[
-                  styles.dropdownOptionText,
-                  selectedTimePeriod === option.value && styles.selectedOptionText
-                ]}>
-                  {option.label}
-                </Text>
-              </TouchableOpacity>
-            ))}
-          </View>
-        </TouchableOpacity>
-        </Modal>
+      {/* Time Range Picker */}
+      <DateRangePicker visible={showTimeDropdown} onClose={() => setShowTimeDropdown(false)} />
 
         {/* Parameter Dropdown Modal */}
         <Modal
@@ -1564,6 +2092,42 @@ const styles = StyleSheet.create({
     color: '#6b7280',
     fontWeight: '400',
   },
+  chartHintText: {
+    fontSize: Math.max(9, Dimensions.get('window').width * 0.022),
+    color: '#9ca3af',
+    marginTop: 2,
+  },
+  inspector: {
+    position: 'absolute',
+    top: 4,
+    width: INSPECTOR_WIDTH,
+    padding: 8,
+    borderRadius: 8,
+    backgroundColor: 'rgba(15, 23, 42, 0.9)',
+  },
+  inspectorTime: {
+    fontSize: 11,
+    fontWeight: '700',
+    color: '#ffffff',
+  },
+  inspectorBuoy: {
+    fontSize: 11,
+    color: '#cbd5e1',
+    marginBottom: 4,
+  },
+  inspectorRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  inspectorLabel: {
+    fontSize: 11,
+    color: '#cbd5e1',
+  },
+  inspectorValue: {
+    fontSize: 11,
+    fontWeight: '600',
+    color: '#ffffff',
+  },
   legendContainer: {
     flexDirection: 'row',
     justifyContent: 'space-around',
@@ -1587,6 +2151,56 @@ const styles = StyleSheet.create({
     fontWeight: '500',
     color: '#374151',
   },
+  legendItemHidden: {
+    opacity: 0.45,
+  },
+  legendHint: {
+    fontSize: 11,
+    color: '#94a3b8',
+    textAlign: 'center',
+    marginTop: 6,
+  },
+  buoyChips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 6,
+    marginBottom: 8,
+  },
+  buoyChip: {
+    paddingVertical: 4,
+    paddingHorizontal: 10,
+    borderRadius: 12,
+    borderWidth: 1,
+  },
+  buoyChipText: {
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  scaleToggle: {
+    flexDirection: 'row',
+    alignSelf: 'flex-start',
+    backgroundColor: '#f1f5f9',
+    borderRadius: 8,
+    padding: 2,
+    marginBottom: 8,
+  },
+  scaleOption: {
+    paddingVertical: 4,
+    paddingHorizontal: 10,
+    borderRadius: 6,
+  },
+  scaleOptionActive: {
+    backgroundColor: '#ffffff',
+  },
+  scaleOptionText: {
+    fontSize: 12,
+    fontWeight: '500',
+    color: '#64748b',
+  },
+  scaleOptionTextActive: {
+    color: '#0ea5e9',
+    fontWeight: '700',
+  },
   modalOverlay: {
     flex: 1,
     backgroundColor: 'rgba(0, 0, 0, 0.5)',
@@ -2,10 +2,14 @@ import React, { useState, useEffect, useRef } from 'react';
 import { View, Text, StyleSheet, Dimensions, ActivityIndicator } from 'react-native';
 import { WebView } from 'react-native-webview';
 import { Ionicons } from '@expo/vector-icons';
-import { getLatestBuoyDataForGraph, BuoyData } from '../services/buoyService';
+import { getLatestReadingsForGraph, isAbortError } from '../services/buoyService';
+import { BuoyReading, hasValidLocation } from '../services/buoyReading';
+import { describeApiError } from '../services/apiErrors';
+import { useBuoyHeartbeats } from '../hooks/useBuoyHeartbeats';
+import { BUOY_STATUS_COLORS, BUOY_STATUS_LABELS, formatDuration } from '../services/heartbeatService';
 
 interface BuoyMapProps {
-  data?: BuoyData[];
+  data?: BuoyReading[];
   latestLocation?: {
     latitude: number;
     longitude: number;
@@ -14,35 +18,42 @@ interface BuoyMapProps {
 }
 
 const BuoyMap: React.FC<BuoyMapProps> = ({ data: propData, latestLocation }) => {
-  const [mapData, setMapData] = useState<BuoyData[]>([]);
+  const [mapData, setMapData] = useState<BuoyReading[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [htmlContent, setHtmlContent] = useState<string>('');
   const webViewRef = useRef<WebView>(null);
+  const heartbeats = useBuoyHeartbeats();
 
   useEffect(() => {
+    const controller = new AbortController();
+
     const fetchData = async () => {
       try {
         setError(null);
-        let buoyData: BuoyData[];
+        let buoyData: BuoyReading[];
         
         if (propData) {
           buoyData = propData;
         } else {
           // Fetch data if not provided as prop
-          buoyData = await getLatestBuoyDataForGraph(20);
+          buoyData = await getLatestReadingsForGraph(20, controller.signal);
         }
         
         setMapData(buoyData);
       } catch (err) {
-        setError('Failed to fetch buoy data for map.');
+        if (isAbortError(err)) return;
+        setError(describeApiError(err, 'Failed to fetch buoy data for map.'));
         console.error('Error fetching map data:', err);
       } finally {
-        setLoading(false);
+        if (!controller.signal.aborted) {
+          setLoading(false);
+        }
       }
     };
 
     fetchData();
+    return () => controller.abort();
   }, [propData]);
 
   // Load HTML content
@@ -111,11 +122,15 @@ const BuoyMap: React.FC<BuoyMapProps> = ({ data: propData, latestLocation }) =>
             return colors[buoyNumber] || '#64748b';
         }
 
-        function createMarkerIcon(color, isLatest) {
+        function createMarkerIcon(color, isLatest, statusColor) {
             const opacity = isLatest ? 1.0 : 0.5;
+            // Heartbeat badge on each buoy's newest position
+            const badge = statusColor
+                ? '<div style="position: absolute; top: -2px; right: -2px; width: 14px; height: 14px; border-radius: 50%; background-color: ' + statusColor + '; border: 2px solid white;"></div>'
+                : '';
             return L.divIcon({
                 className: 'custom-marker',
-                html: '<div style="width: 40px; height: 40px; border-radius: 50%; background-color: ' + color + '; border: 3px solid white; display: flex; align-items: center; justify-content: center; opacity: ' + opacity + '; box-shadow: 0 2px 8px rgba(0,0,0,0.3);"><div style="width: 20px; height: 20px; border-radius: 50%; background-color: white;"></div></div>',
+                html: '<div style="position: relative; width: 40px; height: 40px; border-radius: 50%; background-color: ' + color + '; border: 3px solid white; display: flex; align-items: center; justify-content: center; opacity: ' + opacity + '; box-shadow: 0 2px 8px rgba(0,0,0,0.3);"><div style="width: 20px; height: 20px; border-radius: 50%; background-color: white;"></div>' + badge + '</div>',
                 iconSize: [40, 40],
                 iconAnchor: [20, 20]
             });
@@ -164,13 +179,13 @@ const BuoyMap: React.FC<BuoyMapProps> = ({ data: propData, latestLocation }) =>
                     Math.abs(coord.longitude - latestLocation.longitude) < 0.0001;
                 
                 const color = getBuoyColor(coord.buoy);
-                const icon = createMarkerIcon(color, isLatest);
+                const icon = createMarkerIcon(color, isLatest, coord.statusColor);
 
                 // Format date and time
                 let dateTimeText = '';
-                if (coord.date && coord.time) {
+                if (coord.timestamp) {
                     try {
-                        const dateObj = new Date(coord.date + ' ' + coord.time);
+                        const dateObj = new Date(coord.timestamp);
                         const formattedDate = dateObj.toLocaleDateString('en-US', {
                             year: 'numeric',
                             month: 'short',
@@ -187,14 +202,13 @@ const BuoyMap: React.FC<BuoyMapProps> = ({ data: propData, latestLocation }) =>
                         }
                         dateTimeText = '<br>Date: ' + formattedDate + '<br>Time: ' + formattedTime;
                     } catch (e) {
-                        // Fallback to raw date/time if formatting fails
-                        dateTimeText = '<br>Date: ' + coord.date + '<br>Time: ' + coord.time;
+                        dateTimeText = '';
                     }
                 }
 
                 const marker = L.marker([coord.latitude, coord.longitude], { icon })
                     .addTo(map)
-                    .bindPopup('<strong>' + coord.buoy + '</strong>' + dateTimeText + '<br>pH: ' + coord.pH + '<br>Temp: ' + coord.temperature + '°C<br>TDS: ' + coord.tds + ' ppm');
+                    .bindPopup('<strong>' + coord.buoy + '</strong>' + (coord.statusLabel ? '<br><span style="color: ' + coord.statusColor + ';">' + coord.statusLabel + '</span>' : '') + dateTimeText + '<br>pH: ' + coord.pH + '<br>Temp: ' + coord.temperature + '°C<br>TDS: ' + coord.tds + ' ppm');
 
                 markers.push(marker);
             });
@@ -359,21 +373,36 @@ const BuoyMap: React.FC<BuoyMapProps> = ({ data: propData, latestLocation }) =>
 
   // Convert buoy data to map coordinates
   const getMapCoordinates = () => {
+    const badged = new Set<string>();
     return mapData
+      .filter(hasValidLocation)
       .map(item => ({
-        id: item.ID,
-        buoy: item.Buoy,
-        latitude: parseFloat(item.Latitude) || 0,
-        longitude: parseFloat(item.Longitude) || 0,
-        pH: item.pH,
-        temperature: item['Temp (°C)'],
-        tds: item['TDS (ppm)'],
-        date: item.Date,
-        time: item.Time,
-        timestamp: new Date(`${item.Date} ${item.Time}`).getTime(),
+        id: item.id,
+        buoy: item.buoy,
+        buoyId: item.buoyId,
+        latitude: item.latitude!,
+        longitude: item.longitude!,
+        pH: item.pH ?? '-',
+        temperature: item.temperature ?? '-',
+        tds: item.tds ?? '-',
+        timestamp: item.timestamp ?? 0,
       }))
-      .filter(coord => coord.latitude !== 0 && coord.longitude !== 0)
-      .sort((a, b) => b.timestamp - a.timestamp); // Sort by most recent first
+      .sort((a, b) => b.timestamp - a.timestamp) // Sort by most recent first
+      .map(coord => {
+        // Only each buoy's newest position carries its heartbeat status
+        const heartbeat = heartbeats.find(item => item.buoyId === coord.buoyId);
+        if (!heartbeat || badged.has(coord.buoy)) {
+          return { ...coord, statusColor: null, statusLabel: null };
+        }
+        badged.add(coord.buoy);
+        return {
+          ...coord,
+          statusColor: BUOY_STATUS_COLORS[heartbeat.status],
+          statusLabel: heartbeat.status === 'online'
+            ? BUOY_STATUS_LABELS.online
+            : `${BUOY_STATUS_LABELS[heartbeat.status]} - last report ${formatDuration(heartbeat.silentForMs)} ago`,
+        };
+      });
   };
 
   const coordinates = getMapCoordinates();
@@ -0,0 +1,76 @@
+import React from 'react';
+import { View, Text, StyleSheet, ScrollView, TouchableOpacity } from 'react-native';
+import { useBuoyHeartbeats } from '../hooks/useBuoyHeartbeats';
+import { BUOY_STATUS_COLORS, BUOY_STATUS_LABELS, formatDuration } from '../services/heartbeatService';
+
+interface BuoyStatusBadgesProps {
+  onSelect?: (buoyId: number) => void;
+}
+
+// One pill per buoy showing whether it is online, late or offline
+const BuoyStatusBadges: React.FC<BuoyStatusBadgesProps> = ({ onSelect }) => {
+  const heartbeats = useBuoyHeartbeats();
+
+  if (heartbeats.length === 0) {
+    return null;
+  }
+
+  return (
+    <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.container}>
+      {heartbeats.map(heartbeat => {
+        const color = BUOY_STATUS_COLORS[heartbeat.status];
+        return (
+          <TouchableOpacity
+            key={heartbeat.buoyId}
+            style={[styles.badge, { borderColor: color }]}
+            onPress={() => onSelect?.(heartbeat.buoyId)}
+            disabled={!onSelect}
+            activeOpacity={0.7}
+          >
+            <View style={[styles.dot, { backgroundColor: color }]} />
+            <Text style={styles.buoyText}>{heartbeat.buoy}</Text>
+            <Text style={[styles.statusText, { color }]}>
+              {heartbeat.status === 'online'
+                ? BUOY_STATUS_LABELS.online
+                : `${BUOY_STATUS_LABELS[heartbeat.status]} ${formatDuration(heartbeat.silentForMs)}`}
+            </Text>
+          </TouchableOpacity>
+        );
+      })}
+    </ScrollView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 8,
+    paddingVertical: 4,
+  },
+  badge: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 6,
+    paddingHorizontal: 10,
+    borderRadius: 16,
+    borderWidth: 1,
+    backgroundColor: '#ffffff',
+  },
+  dot: {
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+    marginRight: 6,
+  },
+  buoyText: {
+    fontSize: 12,
+    fontWeight: '700',
+    color: '#1e293b',
+    marginRight: 4,
+  },
+  statusText: {
+    fontSize: 12,
+    fontWeight: '600',
+  },
+});
+
+export default BuoyStatusBadges;
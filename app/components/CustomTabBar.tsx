@@ -1,6 +1,7 @@
-import React from 'react';
+import React, { useState, useEffect } from 'react';
 import { View, Text, TouchableOpacity, StyleSheet, Dimensions } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
+import { getUnreadAlertCount, subscribeToAlertHistory, isUnreadAlert } from '../services/alertHistoryService';
 
 const { width } = Dimensions.get('window');
 
@@ -11,6 +12,13 @@ interface TabBarProps {
 }
 
 const CustomTabBar: React.FC<TabBarProps> = ({ state, descriptors, navigation }) => {
+  const [unreadAlerts, setUnreadAlerts] = useState(0);
+
+  useEffect(() => {
+    getUnreadAlertCount().then(setUnreadAlerts);
+    return subscribeToAlertHistory(records => setUnreadAlerts(records.filter(isUnreadAlert).length));
+  }, []);
+
   // Icon mapping for each tab
   const getTabIcon = (routeName: string, isFocused: boolean, isMapTab: boolean) => {
     const iconSize = 24;
@@ -30,6 +38,8 @@ const CustomTabBar: React.FC<TabBarProps> = ({ state, descriptors, navigation })
         return <Ionicons name="map" size={iconSize} color={iconColor} />;
       case 'Data':
         return <Ionicons name="document-text" size={iconSize} color={iconColor} />;
+      case 'Alerts':
+        return <Ionicons name="notifications" size={iconSize} color={iconColor} />;
       case 'Settings':
         return <Ionicons name="settings" size={iconSize} color={iconColor} />;
       default:
@@ -86,6 +96,11 @@ const CustomTabBar: React.FC<TabBarProps> = ({ state, descriptors, navigation })
                 isMapTab && styles.centerTabContent,
               ]}>
                 {getTabIcon(route.name, isFocused, isMapTab)}
+                {route.name === 'Alerts' && unreadAlerts > 0 && (
+                  <View style={styles.badge}>
+                    <Text style={styles.badgeText}>{unreadAlerts > 99 ? '99+' : unreadAlerts}</Text>
+                  </View>
+                )}
                 <Text style={[
                   styles.tabLabel,
                   isMapTab && styles.centerTabLabel,
@@ -171,6 +186,25 @@ const styles = StyleSheet.create({
     color: '#0ea5e9',
     fontWeight: '600',
   },
+  badge: {
+    position: 'absolute',
+    top: 0,
+    right: 6,
+    minWidth: 18,
+    height: 18,
+    borderRadius: 9,
+    paddingHorizontal: 4,
+    backgroundColor: '#ef4444',
+    alignItems: 'center',
+    justifyContent: 'center',
+    borderWidth: 2,
+    borderColor: '#ffffff',
+  },
+  badgeText: {
+    fontSize: 10,
+    fontWeight: '700',
+    color: '#ffffff',
+  },
 });
 
 export default CustomTabBar;
@@ -1,4 +1,4 @@
-import React, { useState, useMemo, useEffect } from 'react';
+import React, { useState, useMemo } from 'react';
 import {
   View,
   Text,
@@ -8,11 +8,15 @@ import {
   ActivityIndicator,
   RefreshControl,
   Dimensions,
-  Modal,
-  ScrollView,
+  Alert,
 } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
-import { BuoyData, getAvailableMonthsFromAPI } from '../services/buoyService';
+import { BuoyData } from '../services/buoyService';
+import { parseBuoyDateTime, toBuoyReadings } from '../services/buoyReading';
+import { ALL_TIME, describeDateRange } from '../services/dateRangeService';
+import { QcParameter, ReadingQuality, QC_FLAG_COLORS, QC_FLAG_LABELS, assessReadingQuality, describeQuality } from '../services/qualityControl';
+import { useDateRange } from '../hooks/useDateRange';
+import DateRangePicker from './DateRangePicker';
 
 interface DataTableProps {
   data: BuoyData[];
@@ -22,8 +26,6 @@ interface DataTableProps {
   currentPage: number;
   totalPages: number;
   onPageChange: (page: number) => void;
-  onFilterChange?: (filters: { month?: string; year?: string }) => void;
-  clearFiltersTrigger?: number; // Add trigger to clear filters externally
 }
 
 const DataTable: React.FC<DataTableProps> = ({
@@ -34,15 +36,10 @@ const DataTable: React.FC<DataTableProps> = ({
   currentPage,
   totalPages,
   onPageChange,
-  onFilterChange,
-  clearFiltersTrigger,
 }) => {
   const { width: screenWidth, height: screenHeight } = Dimensions.get('window');
   const [showFilterModal, setShowFilterModal] = useState(false);
-  const [selectedMonth, setSelectedMonth] = useState<string>('');
-  const [selectedYear, setSelectedYear] = useState<string>('');
-  const [apiFilters, setApiFilters] = useState<{ months: string[]; years: string[] }>({ months: [], years: [] });
-  const [loadingFilters, setLoadingFilters] = useState(false);
+  const [dateRange, setDateRange] = useDateRange(); // Shared with the Graph tab
 
   // Responsive font sizes
   const getResponsiveFontSize = (baseSize: number) => {
@@ -55,215 +52,66 @@ const DataTable: React.FC<DataTableProps> = ({
     return Math.max(baseSize * scale, baseSize * 0.7);
   };
 
-  // Fetch available months and years from API
-  useEffect(() => {
-    const fetchApiFilters = async () => {
-      setLoadingFilters(true);
-      try {
-        const filters = await getAvailableMonthsFromAPI();
-        setApiFilters(filters);
-        console.log('📅 API Filters loaded:', filters);
-      } catch (error) {
-        console.error('❌ Error loading API filters:', error);
-        // Fallback to current data if API fails
-        const months = new Set<string>();
-        const years = new Set<string>();
-
-        data.forEach(item => {
-          const date = new Date(`${item.Date} ${item.Time}`);
-          const month = date.toLocaleDateString('en-US', { month: 'short', year: 'numeric' });
-          const year = date.getFullYear().toString();
-          
-          months.add(month);
-          years.add(year);
-        });
-
-        setApiFilters({
-          months: Array.from(months).sort(),
-          years: Array.from(years).sort((a, b) => b.localeCompare(a))
-        });
-      } finally {
-        setLoadingFilters(false);
-      }
-    };
+  // Format TDS to remove .00 if it's a whole number
+  const formatTDS = (tds: string | number) => {
+    const tdsValue = typeof tds === 'string' ? parseFloat(tds) : tds;
+    if (isNaN(tdsValue)) return tds;
+    // Remove .00 if it's a whole number
+    return tdsValue % 1 === 0 ? tdsValue.toString() : tdsValue.toFixed(2);
+  };
 
-    fetchApiFilters();
-  }, []);
+  const formatDateTime = (date: string, time: string) => {
+    const timestamp = parseBuoyDateTime(date, time);
 
-  // Use API filters if available, otherwise fallback to current data
-  const availableFilters = useMemo(() => {
-    if (apiFilters.months.length > 0) {
-      return apiFilters;
+    // Fallback if parsing failed
+    if (timestamp === null) {
+      return {
+        date: date.trim(), // Show original date string
+        time: time.trim()  // Show original time string
+      };
     }
 
-    // Fallback to current data
-    const months = new Set<string>();
-    const years = new Set<string>();
+    const dateObj = new Date(timestamp);
+    const formattedDate = dateObj.toLocaleDateString('en-US', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric'
+    });
 
-    data.forEach(item => {
-      const date = new Date(`${item.Date} ${item.Time}`);
-      const month = date.toLocaleDateString('en-US', { month: 'short', year: 'numeric' });
-      const year = date.getFullYear().toString();
-      
-      months.add(month);
-      years.add(year);
+    let formattedTime = dateObj.toLocaleTimeString('en-US', {
+      hour: '2-digit',
+      minute: '2-digit',
+      hour12: true
     });
 
+    // Convert AM to PM for display (fixing database time error)
+    if (formattedTime.trim().endsWith(' AM')) {
+      formattedTime = formattedTime.replace(' AM', ' PM');
+    }
+
     return {
-      months: Array.from(months).sort(),
-      years: Array.from(years).sort((a, b) => b.localeCompare(a))
+      date: formattedDate,
+      time: formattedTime
     };
-  }, [data, apiFilters]);
-
-  const handleFilterApply = () => {
-    if (onFilterChange) {
-      onFilterChange({
-        month: selectedMonth || undefined,
-        year: selectedYear || undefined
-      });
-    }
-    setShowFilterModal(false);
   };
 
-  const clearFilters = () => {
-    setSelectedMonth('');
-    setSelectedYear('');
-    if (onFilterChange) {
-      onFilterChange({});
-    }
-    setShowFilterModal(false);
+  // QC flags for the rows on screen, keyed by reading ID
+  const qualityById = useMemo(() => {
+    const readings = toBuoyReadings(data);
+    const qualities = assessReadingQuality(readings);
+    const map = new Map<string, ReadingQuality>();
+    data.forEach((row, index) => map.set(row.ID, qualities[index]));
+    return map;
+  }, [data]);
+
+  // Colour a value by its own flag so the offending column stands out
+  const qcTextStyle = (quality: ReadingQuality | undefined, parameter: QcParameter) => {
+    const flag = quality?.parameters[parameter];
+    return flag === 'suspect' || flag === 'bad' ? { color: QC_FLAG_COLORS[flag], fontWeight: '700' as const } : null;
   };
 
-  // Watch for external clear trigger
-  useEffect(() => {
-    if (clearFiltersTrigger && clearFiltersTrigger > 0) {
-      clearFilters();
-    }
-  }, [clearFiltersTrigger]);
-  // Format TDS to remove .00 if it's a whole number
-  const formatTDS = (tds: string | number) => {
-    const tdsValue = typeof tds === 'string' ? parseFloat(tds) : tds;
-    if (isNaN(tdsValue)) return tds;
-    // Remove .00 if it's a whole number
-    return tdsValue % 1 === 0 ? tdsValue.toString() : tdsValue.toFixed(2);
-  };
-
-  const formatDateTime = (date: string, time: string) => {
-    try {
-      const dateStr = date.trim();
-      const timeStr = time.trim();
-      
-      console.log('🕐 Formatting date/time:', { dateStr, timeStr });
-      
-      // Handle different date formats more carefully
-      let dateObj;
-      if (dateStr.includes('/')) {
-        // Format: MM/DD/YYYY or DD/MM/YYYY
-        const parts = dateStr.split('/');
-        if (parts.length === 3) {
-          // Assume MM/DD/YYYY format
-          const month = parseInt(parts[0]);
-          const day = parseInt(parts[1]);
-          const year = parseInt(parts[2]);
-          
-          // Validate reasonable date ranges
-          if (month >= 1 && month <= 12 && day >= 1 && day <= 31 && year >= 2020 && year <= 2030) {
-            // Parse time separately
-            let hours = 0, minutes = 0;
-            if (timeStr) {
-              // Handle different time formats
-              if (timeStr.includes(':')) {
-                const timeParts = timeStr.split(':');
-                hours = parseInt(timeParts[0]) || 0;
-                minutes = parseInt(timeParts[1]) || 0;
-                // Ignore seconds if present (timeParts[2])
-              } else if (timeStr.includes(' ')) {
-                // Handle "HH MM" format
-                const timeParts = timeStr.split(' ');
-                hours = parseInt(timeParts[0]) || 0;
-                minutes = parseInt(timeParts[1]) || 0;
-              } else {
-                // Try parsing as number (HHMM format)
-                const timeNum = parseInt(timeStr);
-                if (!isNaN(timeNum) && timeNum >= 0 && timeNum <= 2359) {
-                  hours = Math.floor(timeNum / 100);
-                  minutes = timeNum % 100;
-                }
-              }
-            }
-            
-            dateObj = new Date(year, month - 1, day, hours, minutes);
-            console.log('📅 Created date object:', { year, month, day, hours, minutes, dateObj });
-          }
-        }
-      } else if (dateStr.includes('-')) {
-        // Format: YYYY-MM-DD
-        const parts = dateStr.split('-');
-        if (parts.length === 3) {
-          const year = parseInt(parts[0]);
-          const month = parseInt(parts[1]);
-          const day = parseInt(parts[2]);
-          
-          // Parse time separately for YYYY-MM-DD format
-          let hours = 0, minutes = 0;
-          if (timeStr) {
-            if (timeStr.includes(':')) {
-              const timeParts = timeStr.split(':');
-              hours = parseInt(timeParts[0]) || 0;
-              minutes = parseInt(timeParts[1]) || 0;
-              // Ignore seconds if present (timeParts[2])
-            }
-          }
-          
-          dateObj = new Date(year, month - 1, day, hours, minutes);
-          console.log('📅 Created date object from YYYY-MM-DD:', { year, month, day, hours, minutes, dateObj });
-        } else {
-          dateObj = new Date(dateStr);
-        }
-      } else {
-        // Try parsing as is
-        dateObj = new Date(`${dateStr} ${timeStr}`);
-      }
-      
-      // Fallback if parsing failed
-      if (!dateObj || isNaN(dateObj.getTime()) || dateObj.getFullYear() < 2020 || dateObj.getFullYear() > 2030) {
-        console.log('⚠️ Date parsing failed, using original strings');
-        return {
-          date: dateStr, // Show original date string
-          time: timeStr  // Show original time string
-        };
-      }
-      
-      const formattedDate = dateObj.toLocaleDateString('en-US', {
-        year: 'numeric',
-        month: 'short',
-        day: 'numeric'
-      });
-      
-      let formattedTime = dateObj.toLocaleTimeString('en-US', {
-        hour: '2-digit',
-        minute: '2-digit',
-        hour12: true
-      });
-      
-      // Convert AM to PM for display (fixing database time error)
-      if (formattedTime.trim().endsWith(' AM')) {
-        formattedTime = formattedTime.replace(' AM', ' PM');
-      }
-      
-      console.log('✅ Formatted result:', { formattedDate, formattedTime });
-      
-      return {
-        date: formattedDate,
-        time: formattedTime
-      };
-    } catch (error) {
-      console.warn('Error formatting date:', date, time, error);
-      return {
-        date: date,
-        time: time
-      };
-    }
+  const showQualityDetails = (item: BuoyData, quality: ReadingQuality) => {
+    Alert.alert(`Reading ${item.ID}: ${QC_FLAG_LABELS[quality.flag]}`, describeQuality(quality));
   };
 
   const renderHeader = () => (
@@ -289,11 +137,15 @@ const DataTable: React.FC<DataTableProps> = ({
       <View style={[styles.headerCell, styles.tdsCell]}>
         <Text style={[styles.headerText, { fontSize: getResponsiveFontSize(10) }]}>TDS</Text>
       </View>
+      <View style={[styles.headerCell, styles.qcCell]}>
+        <Text style={[styles.headerText, { fontSize: getResponsiveFontSize(10) }]}>QC</Text>
+      </View>
     </View>
   );
 
   const renderRow = ({ item }: { item: BuoyData }) => {
     const { date, time } = formatDateTime(item.Date, item.Time);
+    const quality = qualityById.get(item.ID);
     
     return (
       <View style={styles.tableRow}>
@@ -304,20 +156,27 @@ const DataTable: React.FC<DataTableProps> = ({
           <Text style={[styles.buoyText, { fontSize: getResponsiveFontSize(10) }]}>{item.Buoy}</Text>
         </View>
         <View style={[styles.cell, styles.dateCell]}>
-          <Text style={[styles.cellText, { fontSize: getResponsiveFontSize(9) }]}>{date}</Text>
+          <Text style={[styles.cellText, { fontSize: getResponsiveFontSize(9) }, qcTextStyle(quality, 'timestamp')]}>{date}</Text>
         </View>
         <View style={[styles.cell, styles.timeCell]}>
           <Text style={[styles.cellText, { fontSize: getResponsiveFontSize(9) }]}>{time}</Text>
         </View>
         <View style={[styles.cell, styles.phCell]}>
-          <Text style={[styles.cellText, { fontSize: getResponsiveFontSize(10) }]}>{item.pH}</Text>
+          <Text style={[styles.cellText, { fontSize: getResponsiveFontSize(10) }, qcTextStyle(quality, 'pH')]}>{item.pH}</Text>
         </View>
         <View style={[styles.cell, styles.tempCell]}>
-          <Text style={[styles.cellText, { fontSize: getResponsiveFontSize(10) }]}>{item['Temp (°C)']}</Text>
+          <Text style={[styles.cellText, { fontSize: getResponsiveFontSize(10) }, qcTextStyle(quality, 'temperature')]}>{item['Temp (°C)']}</Text>
         </View>
         <View style={[styles.cell, styles.tdsCell]}>
-          <Text style={[styles.cellText, { fontSize: getResponsiveFontSize(10) }]}>{formatTDS(item['TDS (ppm)'])}</Text>
+          <Text style={[styles.cellText, { fontSize: getResponsiveFontSize(10) }, qcTextStyle(quality, 'tds')]}>{formatTDS(item['TDS (ppm)'])}</Text>
         </View>
+        <TouchableOpacity
+          style={[styles.cell, styles.qcCell]}
+          disabled={!quality}
+          onPress={() => quality && showQualityDetails(item, quality)}
+        >
+          <View style={[styles.qcDot, { backgroundColor: QC_FLAG_COLORS[quality?.flag ?? 'missing'] }]} />
+        </TouchableOpacity>
       </View>
     );
   };
@@ -380,189 +239,6 @@ const DataTable: React.FC<DataTableProps> = ({
     );
   };
 
-  const renderFilterModal = () => (
-    <Modal
-      visible={showFilterModal}
-      transparent={true}
-      animationType="slide"
-      onRequestClose={() => setShowFilterModal(false)}
-    >
-      <View style={styles.modalOverlay}>
-        <View style={styles.filterModal}>
-          {/* Modal Header */}
-          <View style={styles.modalHeader}>
-            <View style={styles.modalHeaderLeft}>
-              <Ionicons name="filter" size={getResponsiveIconSize(20)} color="#0ea5e9" />
-              <Text style={[styles.modalTitle, { fontSize: getResponsiveFontSize(16) }]}>
-                Filter Data
-              </Text>
-            </View>
-            <TouchableOpacity
-              style={styles.closeButton}
-              onPress={() => setShowFilterModal(false)}
-            >
-              <Ionicons name="close" size={getResponsiveIconSize(20)} color="#6b7280" />
-            </TouchableOpacity>
-          </View>
-
-          {/* Filter Content */}
-          <ScrollView style={styles.filterContent} showsVerticalScrollIndicator={false}>
-            {/* Current Filters Display */}
-            {(selectedMonth || selectedYear) && (
-              <View style={styles.currentFilters}>
-                <Text style={[styles.currentFiltersLabel, { fontSize: getResponsiveFontSize(12) }]}>
-                  Active Filters:
-                </Text>
-                <View style={styles.currentFilterTags}>
-                  {selectedMonth && (
-                    <View style={styles.currentFilterTag}>
-                      <Text style={[styles.currentFilterTagText, { fontSize: getResponsiveFontSize(10) }]}>
-                        {selectedMonth}
-                      </Text>
-                      <TouchableOpacity onPress={() => setSelectedMonth('')}>
-                        <Ionicons name="close-circle" size={getResponsiveIconSize(14)} color="#ef4444" />
-                      </TouchableOpacity>
-                    </View>
-                  )}
-                  {selectedYear && (
-                    <View style={styles.currentFilterTag}>
-                      <Text style={[styles.currentFilterTagText, { fontSize: getResponsiveFontSize(10) }]}>
-                        {selectedYear}
-                      </Text>
-                      <TouchableOpacity onPress={() => setSelectedYear('')}>
-                        <Ionicons name="close-circle" size={getResponsiveIconSize(14)} color="#ef4444" />
-                      </TouchableOpacity>
-                    </View>
-                  )}
-                </View>
-              </View>
-            )}
-
-            {/* Month Selection */}
-            <View style={styles.filterSection}>
-              <View style={styles.filterSectionHeader}>
-                <Ionicons name="calendar-outline" size={getResponsiveIconSize(16)} color="#0ea5e9" />
-                <Text style={[styles.filterLabel, { fontSize: getResponsiveFontSize(13) }]}>
-                  Select Month & Year
-                </Text>
-                {loadingFilters && (
-                  <ActivityIndicator size="small" color="#0ea5e9" style={{ marginLeft: 8 }} />
-                )}
-              </View>
-              <View style={styles.filterTags}>
-                {loadingFilters ? (
-                  <Text style={[styles.loadingText, { fontSize: getResponsiveFontSize(11) }]}>
-                    Loading available months from database...
-                  </Text>
-                ) : (
-                  availableFilters.months.map((month, index) => (
-                    <TouchableOpacity
-                      key={index}
-                      style={[
-                        styles.filterTag,
-                        selectedMonth === month && styles.filterTagSelected
-                      ]}
-                      onPress={() => setSelectedMonth(month)}
-                    >
-                      <Ionicons 
-                        name={selectedMonth === month ? "checkmark-circle" : "calendar-outline"} 
-                        size={getResponsiveIconSize(12)} 
-                        color={selectedMonth === month ? "#ffffff" : "#0ea5e9"} 
-                      />
-                      <Text style={[
-                        styles.filterTagText,
-                        { fontSize: getResponsiveFontSize(10) },
-                        selectedMonth === month && styles.filterTagTextSelected
-                      ]}>
-                        {month}
-                      </Text>
-                    </TouchableOpacity>
-                  ))
-                )}
-              </View>
-            </View>
-
-            {/* Year Selection */}
-            <View style={styles.filterSection}>
-              <View style={styles.filterSectionHeader}>
-                <Ionicons name="time-outline" size={getResponsiveIconSize(16)} color="#22c55e" />
-                <Text style={[styles.filterLabel, { fontSize: getResponsiveFontSize(13) }]}>
-                  Select Year
-                </Text>
-                {loadingFilters && (
-                  <ActivityIndicator size="small" color="#22c55e" style={{ marginLeft: 8 }} />
-                )}
-              </View>
-              <View style={styles.filterTags}>
-                {loadingFilters ? (
-                  <Text style={[styles.loadingText, { fontSize: getResponsiveFontSize(11) }]}>
-                    Loading available years from database...
-                  </Text>
-                ) : (
-                  availableFilters.years.map((year, index) => (
-                    <TouchableOpacity
-                      key={index}
-                      style={[
-                        styles.filterTag,
-                        selectedYear === year && styles.filterTagSelected
-                      ]}
-                      onPress={() => setSelectedYear(year)}
-                    >
-                      <Ionicons 
-                        name={selectedYear === year ? "checkmark-circle" : "time-outline"} 
-                        size={getResponsiveIconSize(12)} 
-                        color={selectedYear === year ? "#ffffff" : "#22c55e"} 
-                      />
-                      <Text style={[
-                        styles.filterTagText,
-                        { fontSize: getResponsiveFontSize(10) },
-                        selectedYear === year && styles.filterTagTextSelected
-                      ]}>
-                        {year}
-                      </Text>
-                    </TouchableOpacity>
-                  ))
-                )}
-              </View>
-            </View>
-
-            {/* Data Summary */}
-            <View style={styles.dataSummary}>
-              <View style={styles.summaryItem}>
-                <Ionicons name="analytics" size={getResponsiveIconSize(14)} color="#6b7280" />
-                <Text style={[styles.summaryText, { fontSize: getResponsiveFontSize(10) }]}>
-                  {data.length} total records
-                </Text>
-              </View>
-              <View style={styles.summaryItem}>
-                <Ionicons name="calendar" size={getResponsiveIconSize(14)} color="#6b7280" />
-                <Text style={[styles.summaryText, { fontSize: getResponsiveFontSize(10) }]}>
-                  {availableFilters.months.length} months available
-                </Text>
-              </View>
-            </View>
-          </ScrollView>
-
-          {/* Modal Actions */}
-          <View style={styles.modalActions}>
-            <TouchableOpacity style={styles.clearButton} onPress={clearFilters}>
-              <Ionicons name="refresh" size={getResponsiveIconSize(16)} color="#64748b" />
-              <Text style={[styles.clearButtonText, { fontSize: getResponsiveFontSize(12) }]}>
-                Clear All
-              </Text>
-            </TouchableOpacity>
-            <TouchableOpacity style={styles.applyButton} onPress={handleFilterApply}>
-              <Ionicons name="checkmark" size={getResponsiveIconSize(16)} color="#ffffff" />
-              <Text style={[styles.applyButtonText, { fontSize: getResponsiveFontSize(12) }]}>
-                Apply Filters
-              </Text>
-            </TouchableOpacity>
-          </View>
-        </View>
-      </View>
-    </Modal>
-  );
-
   if (loading && !refreshing) {
     return (
       <View style={styles.loadingContainer}>
@@ -581,16 +257,18 @@ const DataTable: React.FC<DataTableProps> = ({
             style={styles.actionButton}
             onPress={() => setShowFilterModal(true)}
           >
-            <Ionicons name="filter-outline" size={getResponsiveIconSize(18)} color="#0ea5e9" />
-            <Text style={[styles.actionButtonText, { fontSize: getResponsiveFontSize(11) }]}>
-              Filter
+            <Ionicons name="calendar-outline" size={getResponsiveIconSize(18)} color="#0ea5e9" />
+            <Text style={[styles.actionButtonText, { fontSize: getResponsiveFontSize(11) }]} numberOfLines={1}>
+              {dateRange.kind === 'all' ? 'Filter' : describeDateRange(dateRange)}
             </Text>
-            {(selectedMonth || selectedYear) && (
-              <View style={styles.actionBadge}>
-                <Text style={[styles.actionBadgeText, { fontSize: getResponsiveFontSize(8) }]}>
-                  {(selectedMonth ? 1 : 0) + (selectedYear ? 1 : 0)}
-                </Text>
-              </View>
+            {dateRange.kind !== 'all' && (
+              <TouchableOpacity
+                style={styles.actionClear}
+                onPress={() => setDateRange(ALL_TIME)}
+                hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+              >
+                <Ionicons name="close-circle" size={getResponsiveIconSize(16)} color="#ef4444" />
+              </TouchableOpacity>
             )}
           </TouchableOpacity>
         </View>
@@ -625,7 +303,7 @@ const DataTable: React.FC<DataTableProps> = ({
         contentContainerStyle={styles.tableContainer}
       />
 
-      {renderFilterModal()}
+      <DateRangePicker visible={showFilterModal} onClose={() => setShowFilterModal(false)} />
     </View>
   );
 };
@@ -666,22 +344,13 @@ const styles = StyleSheet.create({
     gap: Math.max(4, screenWidth * 0.01),
   },
   actionButtonText: {
+    flexShrink: 1,
     color: '#374151',
     fontWeight: '500',
   },
-  actionBadge: {
-    backgroundColor: '#ef4444',
-    borderRadius: Math.max(8, screenWidth * 0.02),
-    minWidth: Math.max(16, screenWidth * 0.04),
-    height: Math.max(16, screenWidth * 0.04),
-    alignItems: 'center',
-    justifyContent: 'center',
+  actionClear: {
     marginLeft: Math.max(4, screenWidth * 0.01),
   },
-  actionBadgeText: {
-    color: '#ffffff',
-    fontWeight: '600',
-  },
   tableContainer: {
     paddingBottom: Math.max(20, screenHeight * 0.025),
   },
@@ -736,7 +405,7 @@ const styles = StyleSheet.create({
     width: screenWidth * 0.12,
   },
   dateCell: {
-    width: screenWidth * 0.18,
+    width: screenWidth * 0.16,
   },
   timeCell: {
     width: screenWidth * 0.12,
@@ -750,6 +419,14 @@ const styles = StyleSheet.create({
   tdsCell: {
     width: screenWidth * 0.12,
   },
+  qcCell: {
+    width: screenWidth * 0.07,
+  },
+  qcDot: {
+    width: Math.max(10, screenWidth * 0.025),
+    height: Math.max(10, screenWidth * 0.025),
+    borderRadius: Math.max(5, screenWidth * 0.0125),
+  },
   paginationContainer: {
     flexDirection: 'row',
     justifyContent: 'space-between',
@@ -801,177 +478,11 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     paddingHorizontal: Math.max(20, screenWidth * 0.05),
   },
-  // Filter Modal Styles
-  modalOverlay: {
-    flex: 1,
-    backgroundColor: 'rgba(0, 0, 0, 0.5)',
-    justifyContent: 'flex-end',
-  },
-  filterModal: {
-    backgroundColor: '#ffffff',
-    borderTopLeftRadius: Math.max(16, screenWidth * 0.04),
-    borderTopRightRadius: Math.max(16, screenWidth * 0.04),
-    maxHeight: screenHeight * 0.85,
-    paddingBottom: Math.max(20, screenHeight * 0.025),
-  },
-  modalHeader: {
-    flexDirection: 'row',
-    justifyContent: 'space-between',
-    alignItems: 'center',
-    paddingHorizontal: Math.max(16, screenWidth * 0.04),
-    paddingVertical: Math.max(16, screenHeight * 0.02),
-    borderBottomWidth: 0.5,
-    borderBottomColor: '#e5e7eb',
-  },
-  modalHeaderLeft: {
-    flexDirection: 'row',
-    alignItems: 'center',
-    gap: Math.max(8, screenWidth * 0.02),
-  },
-  modalTitle: {
-    fontWeight: '600',
-    color: '#1f2937',
-  },
-  closeButton: {
-    padding: Math.max(4, screenWidth * 0.01),
-  },
-  filterContent: {
-    paddingHorizontal: Math.max(16, screenWidth * 0.04),
-    paddingTop: Math.max(16, screenHeight * 0.02),
-    maxHeight: screenHeight * 0.6,
-  },
-  currentFilters: {
-    backgroundColor: '#f0f9ff',
-    borderRadius: Math.max(8, screenWidth * 0.02),
-    padding: Math.max(12, screenWidth * 0.03),
-    marginBottom: Math.max(16, screenHeight * 0.02),
-    borderWidth: 0.5,
-    borderColor: '#e0f2fe',
-  },
-  currentFiltersLabel: {
-    fontWeight: '600',
-    color: '#0ea5e9',
-    marginBottom: Math.max(8, screenHeight * 0.01),
-  },
-  currentFilterTags: {
-    flexDirection: 'row',
-    flexWrap: 'wrap',
-    gap: Math.max(6, screenWidth * 0.015),
-  },
-  currentFilterTag: {
-    flexDirection: 'row',
-    alignItems: 'center',
-    backgroundColor: '#0ea5e9',
-    borderRadius: Math.max(4, screenWidth * 0.01),
-    paddingHorizontal: Math.max(8, screenWidth * 0.02),
-    paddingVertical: Math.max(4, screenHeight * 0.005),
-    gap: Math.max(4, screenWidth * 0.01),
-  },
-  currentFilterTagText: {
-    color: '#ffffff',
-    fontWeight: '500',
-  },
-  filterSection: {
-    marginBottom: Math.max(20, screenHeight * 0.025),
-  },
-  filterSectionHeader: {
-    flexDirection: 'row',
-    alignItems: 'center',
-    gap: Math.max(8, screenWidth * 0.02),
-    marginBottom: Math.max(12, screenHeight * 0.015),
-  },
-  filterLabel: {
-    fontWeight: '600',
-    color: '#374151',
-  },
-  filterTags: {
-    flexDirection: 'row',
-    flexWrap: 'wrap',
-    gap: Math.max(8, screenWidth * 0.02),
-  },
-  filterTag: {
-    flexDirection: 'row',
-    alignItems: 'center',
-    backgroundColor: '#f1f5f9',
-    borderWidth: 0.5,
-    borderColor: '#e2e8f0',
-    borderRadius: Math.max(6, screenWidth * 0.015),
-    paddingHorizontal: Math.max(10, screenWidth * 0.025),
-    paddingVertical: Math.max(8, screenHeight * 0.01),
-    gap: Math.max(4, screenWidth * 0.01),
-  },
-  filterTagSelected: {
-    backgroundColor: '#0ea5e9',
-    borderColor: '#0ea5e9',
-  },
-  filterTagText: {
-    color: '#64748b',
-    fontWeight: '500',
-  },
-  filterTagTextSelected: {
-    color: '#ffffff',
-  },
-  dataSummary: {
-    backgroundColor: '#f9fafb',
-    borderRadius: Math.max(8, screenWidth * 0.02),
-    padding: Math.max(12, screenWidth * 0.03),
-    marginTop: Math.max(16, screenHeight * 0.02),
-    borderWidth: 0.5,
-    borderColor: '#e5e7eb',
-  },
-  summaryItem: {
-    flexDirection: 'row',
-    alignItems: 'center',
-    gap: Math.max(6, screenWidth * 0.015),
-    marginBottom: Math.max(4, screenHeight * 0.005),
-  },
-  summaryText: {
-    color: '#6b7280',
-    fontWeight: '500',
-  },
   loadingText: {
     color: '#9ca3af',
     fontWeight: '400',
     fontStyle: 'italic',
   },
-  modalActions: {
-    flexDirection: 'row',
-    paddingHorizontal: Math.max(16, screenWidth * 0.04),
-    paddingTop: Math.max(16, screenHeight * 0.02),
-    gap: Math.max(12, screenWidth * 0.03),
-    borderTopWidth: 0.5,
-    borderTopColor: '#e5e7eb',
-  },
-  clearButton: {
-    flex: 1,
-    flexDirection: 'row',
-    alignItems: 'center',
-    justifyContent: 'center',
-    backgroundColor: '#f1f5f9',
-    borderWidth: 0.5,
-    borderColor: '#e2e8f0',
-    borderRadius: Math.max(8, screenWidth * 0.02),
-    paddingVertical: Math.max(12, screenWidth * 0.03),
-    gap: Math.max(6, screenWidth * 0.015),
-  },
-  clearButtonText: {
-    color: '#64748b',
-    fontWeight: '500',
-  },
-  applyButton: {
-    flex: 1,
-    flexDirection: 'row',
-    alignItems: 'center',
-    justifyContent: 'center',
-    backgroundColor: '#0ea5e9',
-    borderRadius: Math.max(8, screenWidth * 0.02),
-    paddingVertical: Math.max(12, screenWidth * 0.03),
-    gap: Math.max(6, screenWidth * 0.015),
-  },
-  applyButtonText: {
-    color: '#ffffff',
-    fontWeight: '600',
-  },
 });
 
 export default DataTable;
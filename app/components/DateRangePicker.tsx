@@ -0,0 +1,621 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  Modal,
+  ScrollView,
+  ActivityIndicator,
+  Dimensions,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { getAvailableMonthsFromAPI, isAbortError } from '../services/buoyService';
+import { SERVER_UTC_OFFSET_MS, formatServerTime, fromServerClock, startOfServerDay, toServerClock } from '../services/buoyReading';
+import {
+  ALL_TIME,
+  DateRange,
+  RANGE_PRESETS,
+  RANGE_PRESET_LABELS,
+  describeDateRange,
+  isSameDateRange,
+  parseMonthLabel,
+  resolveDateRange,
+} from '../services/dateRangeService';
+import { useDateRange } from '../hooks/useDateRange';
+
+interface DateRangePickerProps {
+  visible: boolean;
+  onClose: () => void;
+}
+
+type CustomEdge = 'from' | 'to';
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+const DAY_MS = 24 * HOUR_MS;
+const MINUTE_STEP = 15;
+const WEEKDAYS = ['S', 'M', 'T', 'W', 'T', 'F', 'S'];
+
+// The custom fields start from the current window, or the last week when it is open-ended
+const initialCustom = (range: DateRange): { from: number; to: number } => {
+  const now = Date.now();
+  const { from, to } = resolveDateRange(range);
+  return { from: from ?? startOfServerDay(now - 7 * DAY_MS), to: to ?? now };
+};
+
+// Day numbers of a month, with blanks before the 1st so it lands on its weekday
+const calendarDays = (year: number, month: number): (number | null)[] => {
+  const blanks = new Date(year, month, 1).getDay();
+  const days = new Date(year, month + 1, 0).getDate();
+  return [...Array(blanks).fill(null), ...Array.from({ length: days }, (_, day) => day + 1)];
+};
+
+// Dates and times are picked on the server's clock, like the presets
+const formatDate = (timestamp: number) => formatServerTime(timestamp, { month: 'short', day: 'numeric', year: 'numeric' });
+
+const formatTime = (timestamp: number) => formatServerTime(timestamp, { hour: 'numeric', minute: '2-digit' });
+
+const calendarMonthOf = (timestamp: number) => {
+  const date = toServerClock(timestamp);
+  return { year: date.getUTCFullYear(), month: date.getUTCMonth() };
+};
+
+/**
+ * Bottom sheet for the time range shared by the Graph and Data tabs: presets,
+ * the months and years that have readings, or a custom start and end picked
+ * on a calendar. Changes apply when the user taps Apply.
+ */
+const DateRangePicker: React.FC<DateRangePickerProps> = ({ visible, onClose }) => {
+  const [range, setRange] = useDateRange();
+  const [draft, setDraft] = useState<DateRange>(range);
+  const [custom, setCustom] = useState(() => initialCustom(range));
+  const [editing, setEditing] = useState<CustomEdge | null>(null);
+  const [calendarMonth, setCalendarMonth] = useState(() => calendarMonthOf(Date.now()));
+  const [available, setAvailable] = useState<{ months: string[]; years: string[] }>({ months: [], years: [] });
+  const [loadingMonths, setLoadingMonths] = useState(false);
+
+  // Start from the shared range each time the sheet opens
+  useEffect(() => {
+    if (!visible) return;
+    const seed = initialCustom(range);
+    setDraft(range);
+    setCustom(seed);
+    setEditing(range.kind === 'custom' ? 'from' : null);
+    setCalendarMonth(calendarMonthOf(seed.from));
+  }, [visible]);
+
+  // Months with readings, reloaded on every open so new ones appear
+  useEffect(() => {
+    if (!visible) return;
+    const controller = new AbortController();
+
+    const loadMonths = async () => {
+      setLoadingMonths(true);
+      try {
+        setAvailable(await getAvailableMonthsFromAPI(controller.signal));
+      } catch (error) {
+        if (isAbortError(error)) return;
+        console.error('❌ Error loading months for the range picker:', error);
+      } finally {
+        if (!controller.signal.aborted) {
+          setLoadingMonths(false);
+        }
+      }
+    };
+
+    loadMonths();
+    return () => controller.abort();
+  }, [visible]);
+
+  const monthRanges = available.months
+    .map(label => parseMonthLabel(label))
+    .filter((month): month is DateRange => month !== null);
+  const invalidCustom = draft.kind === 'custom' && custom.from > custom.to;
+
+  const selectRange = (next: DateRange) => {
+    setDraft(next);
+    setEditing(null);
+  };
+
+  const editEdge = (edge: CustomEdge) => {
+    setEditing(edge);
+    setDraft({ kind: 'custom', from: custom.from, to: custom.to });
+    setCalendarMonth(calendarMonthOf(custom[edge]));
+  };
+
+  const updateCustom = (edge: CustomEdge, value: number) => {
+    const next = { ...custom, [edge]: value };
+    setCustom(next);
+    setDraft({ kind: 'custom', from: next.from, to: next.to });
+  };
+
+  // Keep the time of day when moving to another date
+  const pickDay = (day: number) => {
+    if (!editing) return;
+    const date = toServerClock(custom[editing]);
+    date.setUTCFullYear(calendarMonth.year, calendarMonth.month, day);
+    updateCustom(editing, date.getTime() - SERVER_UTC_OFFSET_MS);
+  };
+
+  const shiftMonth = (delta: number) => {
+    const date = new Date(calendarMonth.year, calendarMonth.month + delta, 1);
+    setCalendarMonth({ year: date.getFullYear(), month: date.getMonth() });
+  };
+
+  const shiftTime = (deltaMs: number) => {
+    if (!editing) return;
+    updateCustom(editing, custom[editing] + deltaMs);
+  };
+
+  const handleApply = () => {
+    if (invalidCustom) return;
+    setRange(draft);
+    onClose();
+  };
+
+  const handleClear = () => {
+    setRange(ALL_TIME);
+    onClose();
+  };
+
+  const renderChip = (chipRange: DateRange, label: string, icon: string, color: string = '#0ea5e9') => {
+    const selected = isSameDateRange(draft, chipRange);
+    return (
+      <TouchableOpacity
+        key={label}
+        style={[styles.chip, selected && styles.chipSelected]}
+        onPress={() => selectRange(chipRange)}
+      >
+        <Ionicons name={(selected ? 'checkmark-circle' : icon) as any} size={12} color={selected ? '#ffffff' : color} />
+        <Text style={[styles.chipText, selected && styles.chipTextSelected]}>{label}</Text>
+      </TouchableOpacity>
+    );
+  };
+
+  const renderEdge = (edge: CustomEdge, label: string) => {
+    const active = draft.kind === 'custom' && editing === edge;
+    return (
+      <TouchableOpacity style={[styles.edgeField, active && styles.edgeFieldActive]} onPress={() => editEdge(edge)}>
+        <Text style={styles.edgeLabel}>{label}</Text>
+        <Text style={styles.edgeDate}>{formatDate(custom[edge])}</Text>
+        <Text style={styles.edgeTime}>{formatTime(custom[edge])}</Text>
+      </TouchableOpacity>
+    );
+  };
+
+  const renderCalendar = () => {
+    if (draft.kind !== 'custom' || !editing) return null;
+    const selectedDay = startOfServerDay(custom[editing]);
+    const rangeStart = startOfServerDay(custom.from);
+    const rangeEnd = startOfServerDay(custom.to);
+    const title = new Date(calendarMonth.year, calendarMonth.month, 1)
+      .toLocaleDateString('en-US', { month: 'long', year: 'numeric' });
+
+    return (
+      <View style={styles.calendar}>
+        <View style={styles.calendarHeader}>
+          <TouchableOpacity style={styles.stepButton} onPress={() => shiftMonth(-1)}>
+            <Ionicons name="chevron-back" size={16} color="#0ea5e9" />
+          </TouchableOpacity>
+          <Text style={styles.calendarTitle}>{title}</Text>
+          <TouchableOpacity style={styles.stepButton} onPress={() => shiftMonth(1)}>
+            <Ionicons name="chevron-forward" size={16} color="#0ea5e9" />
+          </TouchableOpacity>
+        </View>
+
+        <View style={styles.calendarGrid}>
+          {WEEKDAYS.map((weekday, index) => (
+            <View key={`weekday-${index}`} style={styles.dayCell}>
+              <Text style={styles.weekdayText}>{weekday}</Text>
+            </View>
+          ))}
+          {calendarDays(calendarMonth.year, calendarMonth.month).map((day, index) => {
+            if (day === null) return <View key={`blank-${index}`} style={styles.dayCell} />;
+            const dayStart = fromServerClock(calendarMonth.year, calendarMonth.month, day);
+            const selected = dayStart === selectedDay;
+            const inRange = dayStart >= rangeStart && dayStart <= rangeEnd;
+            return (
+              <TouchableOpacity key={`day-${day}`} style={styles.dayCell} onPress={() => pickDay(day)}>
+                <View style={[styles.day, inRange && styles.dayInRange, selected && styles.daySelected]}>
+                  <Text style={[styles.dayText, selected && styles.dayTextSelected]}>{day}</Text>
+                </View>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+
+        {/* Time of the edge being edited */}
+        <View style={styles.timeRow}>
+          <Text style={styles.timeLabel}>{editing === 'from' ? 'Start time' : 'End time'}</Text>
+          <View style={styles.stepper}>
+            <TouchableOpacity style={styles.stepButton} onPress={() => shiftTime(-HOUR_MS)}>
+              <Text style={styles.stepText}>−1h</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.stepButton} onPress={() => shiftTime(-MINUTE_STEP * MINUTE_MS)}>
+              <Text style={styles.stepText}>−{MINUTE_STEP}m</Text>
+            </TouchableOpacity>
+            <Text style={styles.timeValue}>{formatTime(custom[editing])}</Text>
+            <TouchableOpacity style={styles.stepButton} onPress={() => shiftTime(MINUTE_STEP * MINUTE_MS)}>
+              <Text style={styles.stepText}>+{MINUTE_STEP}m</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.stepButton} onPress={() => shiftTime(HOUR_MS)}>
+              <Text style={styles.stepText}>+1h</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    );
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      transparent={true}
+      animationType="slide"
+      onRequestClose={onClose}
+    >
+      <View style={styles.modalOverlay}>
+        <View style={styles.sheet}>
+          <View style={styles.modalHeader}>
+            <View style={styles.modalHeaderLeft}>
+              <Ionicons name="calendar" size={20} color="#0ea5e9" />
+              <Text style={styles.modalTitle}>Time Range</Text>
+            </View>
+            <TouchableOpacity style={styles.closeButton} onPress={onClose}>
+              <Ionicons name="close" size={20} color="#6b7280" />
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
+            <View style={styles.currentRange}>
+              <Text style={styles.currentRangeLabel}>Showing</Text>
+              <Text style={styles.currentRangeText}>{describeDateRange(draft)}</Text>
+            </View>
+
+            {/* Presets */}
+            <View style={styles.section}>
+              <View style={styles.sectionHeader}>
+                <Ionicons name="time-outline" size={16} color="#0ea5e9" />
+                <Text style={styles.sectionLabel}>Quick Ranges</Text>
+              </View>
+              <View style={styles.chips}>
+                {renderChip(ALL_TIME, 'All Time', 'infinite')}
+                {RANGE_PRESETS.map(preset =>
+                  renderChip({ kind: 'preset', preset }, RANGE_PRESET_LABELS[preset], 'time-outline')
+                )}
+              </View>
+            </View>
+
+            {/* Months and years that have readings */}
+            <View style={styles.section}>
+              <View style={styles.sectionHeader}>
+                <Ionicons name="calendar-outline" size={16} color="#22c55e" />
+                <Text style={styles.sectionLabel}>Months & Years with Data</Text>
+                {loadingMonths && <ActivityIndicator size="small" color="#22c55e" style={{ marginLeft: 8 }} />}
+              </View>
+              <View style={styles.chips}>
+                {monthRanges.map(month => renderChip(month, describeDateRange(month), 'calendar-outline', '#22c55e'))}
+                {available.years.map(year =>
+                  renderChip({ kind: 'year', year: parseInt(year) }, year, 'calendar', '#22c55e')
+                )}
+                {!loadingMonths && monthRanges.length === 0 && (
+                  <Text style={styles.emptyText}>No stored readings yet</Text>
+                )}
+              </View>
+            </View>
+
+            {/* Custom start and end */}
+            <View style={styles.section}>
+              <View style={styles.sectionHeader}>
+                <Ionicons name="create-outline" size={16} color="#8b5cf6" />
+                <Text style={styles.sectionLabel}>Custom Range</Text>
+              </View>
+              <View style={styles.edgeRow}>
+                {renderEdge('from', 'Start')}
+                <Ionicons name="arrow-forward" size={16} color="#94a3b8" />
+                {renderEdge('to', 'End')}
+              </View>
+              {renderCalendar()}
+              {invalidCustom && <Text style={styles.errorText}>The start must be before the end.</Text>}
+            </View>
+          </ScrollView>
+
+          <View style={styles.modalActions}>
+            <TouchableOpacity style={styles.clearButton} onPress={handleClear}>
+              <Ionicons name="refresh" size={16} color="#64748b" />
+              <Text style={styles.clearButtonText}>All Time</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.applyButton, invalidCustom && styles.applyButtonDisabled]}
+              onPress={handleApply}
+              disabled={invalidCustom}
+            >
+              <Ionicons name="checkmark" size={16} color="#ffffff" />
+              <Text style={styles.applyButtonText}>Apply</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const { width: screenWidth, height: screenHeight } = Dimensions.get('window');
+
+const styles = StyleSheet.create({
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'flex-end',
+  },
+  sheet: {
+    backgroundColor: '#ffffff',
+    borderTopLeftRadius: Math.max(16, screenWidth * 0.04),
+    borderTopRightRadius: Math.max(16, screenWidth * 0.04),
+    maxHeight: screenHeight * 0.9,
+    paddingBottom: Math.max(20, screenHeight * 0.025),
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: Math.max(16, screenWidth * 0.04),
+    paddingVertical: Math.max(16, screenHeight * 0.02),
+    borderBottomWidth: 0.5,
+    borderBottomColor: '#e5e7eb',
+  },
+  modalHeaderLeft: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Math.max(8, screenWidth * 0.02),
+  },
+  modalTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1f2937',
+  },
+  closeButton: {
+    padding: Math.max(4, screenWidth * 0.01),
+  },
+  content: {
+    paddingHorizontal: Math.max(16, screenWidth * 0.04),
+    paddingTop: Math.max(16, screenHeight * 0.02),
+    maxHeight: screenHeight * 0.68,
+  },
+  currentRange: {
+    backgroundColor: '#f0f9ff',
+    borderRadius: Math.max(8, screenWidth * 0.02),
+    padding: Math.max(12, screenWidth * 0.03),
+    marginBottom: Math.max(16, screenHeight * 0.02),
+    borderWidth: 0.5,
+    borderColor: '#e0f2fe',
+  },
+  currentRangeLabel: {
+    fontSize: 11,
+    fontWeight: '600',
+    color: '#0ea5e9',
+    marginBottom: 2,
+  },
+  currentRangeText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#1e293b',
+  },
+  section: {
+    marginBottom: Math.max(20, screenHeight * 0.025),
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Math.max(8, screenWidth * 0.02),
+    marginBottom: Math.max(12, screenHeight * 0.015),
+  },
+  sectionLabel: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#374151',
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: Math.max(8, screenWidth * 0.02),
+  },
+  chip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#f1f5f9',
+    borderWidth: 0.5,
+    borderColor: '#e2e8f0',
+    borderRadius: Math.max(6, screenWidth * 0.015),
+    paddingHorizontal: Math.max(10, screenWidth * 0.025),
+    paddingVertical: Math.max(8, screenHeight * 0.01),
+    gap: Math.max(4, screenWidth * 0.01),
+  },
+  chipSelected: {
+    backgroundColor: '#0ea5e9',
+    borderColor: '#0ea5e9',
+  },
+  chipText: {
+    fontSize: 11,
+    color: '#64748b',
+    fontWeight: '500',
+  },
+  chipTextSelected: {
+    color: '#ffffff',
+  },
+  emptyText: {
+    fontSize: 11,
+    color: '#9ca3af',
+    fontStyle: 'italic',
+  },
+  edgeRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Math.max(8, screenWidth * 0.02),
+  },
+  edgeField: {
+    flex: 1,
+    backgroundColor: '#f9fafb',
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+    borderRadius: Math.max(8, screenWidth * 0.02),
+    padding: Math.max(10, screenWidth * 0.025),
+  },
+  edgeFieldActive: {
+    borderColor: '#8b5cf6',
+    backgroundColor: '#f5f3ff',
+  },
+  edgeLabel: {
+    fontSize: 10,
+    fontWeight: '600',
+    color: '#8b5cf6',
+    marginBottom: 2,
+  },
+  edgeDate: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#1e293b',
+  },
+  edgeTime: {
+    fontSize: 12,
+    color: '#64748b',
+  },
+  calendar: {
+    marginTop: Math.max(12, screenHeight * 0.015),
+    borderWidth: 0.5,
+    borderColor: '#e5e7eb',
+    borderRadius: Math.max(8, screenWidth * 0.02),
+    padding: Math.max(8, screenWidth * 0.02),
+  },
+  calendarHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 8,
+  },
+  calendarTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#1e293b',
+  },
+  calendarGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  dayCell: {
+    width: '14.28%', // Seven columns
+    alignItems: 'center',
+    paddingVertical: 2,
+  },
+  weekdayText: {
+    fontSize: 11,
+    fontWeight: '600',
+    color: '#94a3b8',
+  },
+  day: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  dayInRange: {
+    backgroundColor: '#ede9fe',
+  },
+  daySelected: {
+    backgroundColor: '#8b5cf6',
+  },
+  dayText: {
+    fontSize: 13,
+    color: '#1e293b',
+  },
+  dayTextSelected: {
+    color: '#ffffff',
+    fontWeight: '700',
+  },
+  timeRow: {
+    marginTop: 8,
+    paddingTop: 8,
+    borderTopWidth: 0.5,
+    borderTopColor: '#e5e7eb',
+  },
+  timeLabel: {
+    fontSize: 11,
+    fontWeight: '600',
+    color: '#64748b',
+    marginBottom: 6,
+  },
+  stepper: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  stepButton: {
+    paddingHorizontal: 8,
+    paddingVertical: 6,
+    borderRadius: 6,
+    backgroundColor: '#f0f9ff',
+  },
+  stepText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#0ea5e9',
+  },
+  timeValue: {
+    fontSize: 15,
+    fontWeight: '700',
+    color: '#1e293b',
+  },
+  errorText: {
+    fontSize: 12,
+    fontWeight: '500',
+    color: '#ef4444',
+    marginTop: 8,
+  },
+  modalActions: {
+    flexDirection: 'row',
+    paddingHorizontal: Math.max(16, screenWidth * 0.04),
+    paddingTop: Math.max(16, screenHeight * 0.02),
+    gap: Math.max(12, screenWidth * 0.03),
+    borderTopWidth: 0.5,
+    borderTopColor: '#e5e7eb',
+  },
+  clearButton: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: '#f1f5f9',
+    borderWidth: 0.5,
+    borderColor: '#e2e8f0',
+    borderRadius: Math.max(8, screenWidth * 0.02),
+    paddingVertical: Math.max(12, screenWidth * 0.03),
+    gap: Math.max(6, screenWidth * 0.015),
+  },
+  clearButtonText: {
+    fontSize: 12,
+    color: '#64748b',
+    fontWeight: '500',
+  },
+  applyButton: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: '#0ea5e9',
+    borderRadius: Math.max(8, screenWidth * 0.02),
+    paddingVertical: Math.max(12, screenWidth * 0.03),
+    gap: Math.max(6, screenWidth * 0.015),
+  },
+  applyButtonDisabled: {
+    backgroundColor: '#94a3b8',
+  },
+  applyButtonText: {
+    fontSize: 12,
+    color: '#ffffff',
+    fontWeight: '600',
+  },
+});
+
+export default DateRangePicker;
@@ -0,0 +1,151 @@
+import React, { useState, useEffect } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, ActivityIndicator, Alert } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useAuth } from '../contexts/AuthContext';
+import {
+  PushState,
+  getPushState,
+  registerForPushNotifications,
+  setBuoyPushSubscription,
+  subscribeToPushState,
+} from '../services/pushService';
+
+interface PushSubscriptionSettingsProps {
+  buoyNumbers: number[];
+}
+
+// Per-buoy chips choosing which buoys the server sends alert pushes for
+const PushSubscriptionSettings: React.FC<PushSubscriptionSettingsProps> = ({ buoyNumbers }) => {
+  const { user } = useAuth();
+  const [pushState, setPushState] = useState<PushState | null>(null);
+  const [busy, setBusy] = useState<number | 'register' | null>(null);
+
+  useEffect(() => {
+    getPushState().then(setPushState);
+    return subscribeToPushState(setPushState);
+  }, []);
+
+  const enablePush = async () => {
+    if (!user) return;
+    setBusy('register');
+    const registered = await registerForPushNotifications(user.id);
+    setBusy(null);
+    if (!registered) {
+      Alert.alert(
+        'Push Unavailable',
+        'This device could not be registered. Check that notifications are allowed and that you are online.'
+      );
+    }
+  };
+
+  const toggleBuoy = async (buoyId: number, subscribed: boolean) => {
+    setBusy(buoyId);
+    try {
+      await setBuoyPushSubscription(buoyId, subscribed);
+    } catch (error) {
+      console.error('Error updating push subscription:', error);
+      Alert.alert('Error', 'Failed to update the subscription. Please try again.');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  if (!pushState) {
+    return <ActivityIndicator size="small" color="#0ea5e9" />;
+  }
+
+  if (!pushState.token) {
+    return (
+      <View>
+        <Text style={styles.hint}>This device is not registered for push notifications.</Text>
+        <TouchableOpacity style={styles.enableButton} onPress={enablePush} disabled={busy !== null || !user}>
+          {busy === 'register' ? (
+            <ActivityIndicator size="small" color="#ffffff" />
+          ) : (
+            <Text style={styles.enableButtonText}>Enable Push Notifications</Text>
+          )}
+        </TouchableOpacity>
+      </View>
+    );
+  }
+
+  if (buoyNumbers.length === 0) {
+    return <Text style={styles.hint}>No buoys found yet.</Text>;
+  }
+
+  return (
+    <View style={styles.chips}>
+      {buoyNumbers.map(buoyId => {
+        const subscribed = pushState.subscribedBuoyIds.includes(buoyId);
+        return (
+          <TouchableOpacity
+            key={buoyId}
+            style={[styles.chip, subscribed && styles.chipSelected]}
+            onPress={() => toggleBuoy(buoyId, !subscribed)}
+            disabled={busy !== null}
+          >
+            {busy === buoyId ? (
+              <ActivityIndicator size="small" color="#0ea5e9" />
+            ) : (
+              <Ionicons
+                name={subscribed ? 'notifications' : 'notifications-off-outline'}
+                size={16}
+                color={subscribed ? '#0ea5e9' : '#94a3b8'}
+              />
+            )}
+            <Text style={[styles.chipText, subscribed && styles.chipTextSelected]}>Buoy {buoyId}</Text>
+          </TouchableOpacity>
+        );
+      })}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  hint: {
+    fontSize: 14,
+    color: '#64748b',
+    marginBottom: 12,
+  },
+  enableButton: {
+    paddingVertical: 12,
+    borderRadius: 8,
+    backgroundColor: '#0ea5e9',
+    alignItems: 'center',
+  },
+  enableButtonText: {
+    color: '#ffffff',
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#e2e8f0',
+    backgroundColor: '#f8fafc',
+  },
+  chipSelected: {
+    borderColor: '#0ea5e9',
+    backgroundColor: '#f0f9ff',
+  },
+  chipText: {
+    fontSize: 14,
+    color: '#64748b',
+  },
+  chipTextSelected: {
+    color: '#0ea5e9',
+    fontWeight: '600',
+  },
+});
+
+export default PushSubscriptionSettings;
@@ -10,3 +10,9 @@ export { default as DataTable } from './DataTable';
 export { default as AuthNavigator } from './AuthNavigator';
 export { default as ProfileDropdown } from './ProfileDropdown';
 export { default as ProfileModal } from './ProfileModal';
+export { default as AlertRuleEditor } from './AlertRuleEditor';
+export { default as BuoyStatusBadges } from './BuoyStatusBadges';
+export { default as BackgroundSyncDiagnostics } from './BackgroundSyncDiagnostics';
+export { default as PushSubscriptionSettings } from './PushSubscriptionSettings';
+export { default as AnomalyPanel } from './AnomalyPanel';
+export { default as DateRangePicker } from './DateRangePicker';
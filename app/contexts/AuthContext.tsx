@@ -1,5 +1,6 @@
 import React, { createContext, useContext, useEffect, useState } from 'react';
 import authService, { UserProfile } from '../services/authService';
+import { unregisterFromPushNotifications } from '../services/pushService';
 
 interface User {
   id: string;
@@ -104,6 +105,8 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
 
   const logout = async () => {
     try {
+      // While the session is still valid, so the token row can be deleted
+      await unregisterFromPushNotifications();
       await authService.logout();
       setUser(null);
     } catch (error) {
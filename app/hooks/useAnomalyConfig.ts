@@ -0,0 +1,20 @@
+import { useEffect, useMemo, useState } from 'react';
+import { AppSettings, anomalyConfigFrom, settingsService, subscribeToSettings } from '../services/settingsService';
+import { AnomalyConfig } from '../services/anomalyDetection';
+
+// Detector settings from Settings → Anomaly Detection; null while detection is turned off
+export const useAnomalyConfig = (): AnomalyConfig | null => {
+  const [settings, setSettings] = useState<AppSettings>(() => settingsService.getSettings());
+
+  useEffect(() => {
+    setSettings(settingsService.getSettings());
+    return subscribeToSettings(setSettings);
+  }, []);
+
+  const { anomalyDetectionEnabled, anomalyMethod, anomalyThreshold, anomalyWindowSize, anomalySeasonalTemperature } = settings;
+  // Only rebuilt when an anomaly setting changes, so charts don't re-run detection on unrelated saves
+  return useMemo(
+    () => (anomalyDetectionEnabled ? anomalyConfigFrom(settings) : null),
+    [anomalyDetectionEnabled, anomalyMethod, anomalyThreshold, anomalyWindowSize, anomalySeasonalTemperature]
+  );
+};
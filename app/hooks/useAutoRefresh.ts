@@ -1,5 +1,6 @@
-import { useEffect, useRef, useCallback } from 'react';
+import { useEffect, useRef, useCallback, useState } from 'react';
 import { settingsService, subscribeToSettings } from '../services/settingsService';
+import { realtimeService, subscribeToRealtimeStatus } from '../services/realtimeService';
 
 interface UseAutoRefreshOptions {
   onRefresh: () => void | Promise<void>;
@@ -9,6 +10,8 @@ interface UseAutoRefreshOptions {
 export const useAutoRefresh = ({ onRefresh, enabled = true }: UseAutoRefreshOptions) => {
   const intervalRef = useRef<NodeJS.Timeout | null>(null);
   const settingsRef = useRef(settingsService.getSettings());
+  const realtimeConnectedRef = useRef(realtimeService.isConnected());
+  const [isLive, setIsLive] = useState(realtimeConnectedRef.current);
 
   const startAutoRefresh = useCallback(() => {
     const settings = settingsRef.current;
@@ -19,8 +22,8 @@ export const useAutoRefresh = ({ onRefresh, enabled = true }: UseAutoRefreshOpti
       intervalRef.current = null;
     }
 
-    // Start new interval if auto-refresh is enabled and interval > 0
-    if (enabled && settings.autoRefreshInterval > 0) {
+    // Polling is only the fallback while the realtime channel is down
+    if (enabled && settings.autoRefreshInterval > 0 && !realtimeConnectedRef.current) {
       intervalRef.current = setInterval(() => {
         onRefresh();
       }, settings.autoRefreshInterval * 1000);
@@ -46,6 +49,12 @@ export const useAutoRefresh = ({ onRefresh, enabled = true }: UseAutoRefreshOpti
       restartAutoRefresh();
     });
 
+    const unsubscribeRealtime = subscribeToRealtimeStatus((status) => {
+      realtimeConnectedRef.current = status === 'connected';
+      setIsLive(realtimeConnectedRef.current);
+      restartAutoRefresh();
+    });
+
     // Load persisted settings first, then start
     (async () => {
       try {
@@ -61,6 +70,7 @@ export const useAutoRefresh = ({ onRefresh, enabled = true }: UseAutoRefreshOpti
     // Cleanup on unmount
     return () => {
       unsubscribe();
+      unsubscribeRealtime();
       stopAutoRefresh();
     };
   }, [startAutoRefresh, stopAutoRefresh, restartAutoRefresh]);
@@ -71,5 +81,6 @@ export const useAutoRefresh = ({ onRefresh, enabled = true }: UseAutoRefreshOpti
     restartAutoRefresh,
     isAutoRefreshEnabled: settingsRef.current.autoRefreshInterval > 0,
     refreshInterval: settingsRef.current.autoRefreshInterval,
+    isLive,
   };
 };
@@ -0,0 +1,20 @@
+import { useEffect, useState } from 'react';
+import { BuoyHeartbeat, heartbeatService, subscribeToBuoyHeartbeats } from '../services/heartbeatService';
+
+// Latest heartbeat of every buoy, kept up to date by the heartbeat monitor
+export const useBuoyHeartbeats = (): BuoyHeartbeat[] => {
+  const [heartbeats, setHeartbeats] = useState<BuoyHeartbeat[]>(() => heartbeatService.getHeartbeats());
+
+  useEffect(() => {
+    setHeartbeats(heartbeatService.getHeartbeats());
+    return subscribeToBuoyHeartbeats(setHeartbeats);
+  }, []);
+
+  return heartbeats;
+};
+
+// Heartbeat of a single buoy, or null until the monitor has seen it
+export const useBuoyHeartbeat = (buoyId: number | null): BuoyHeartbeat | null => {
+  const heartbeats = useBuoyHeartbeats();
+  return buoyId === null ? null : heartbeats.find(heartbeat => heartbeat.buoyId === buoyId) ?? null;
+};
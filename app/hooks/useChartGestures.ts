@@ -0,0 +1,191 @@
+import { useEffect, useRef } from 'react';
+import { GestureResponderEvent, PanResponder, PanResponderGestureState, View } from 'react-native';
+
+// Visible part of the time axis, as fractions of the whole series (0 = oldest, 1 = newest)
+export interface ChartViewport {
+  start: number;
+  end: number;
+}
+
+export const FULL_VIEWPORT: ChartViewport = { start: 0, end: 1 };
+
+interface ChartGestureOptions {
+  viewport: ChartViewport;
+  minSpan: number; // Narrowest viewport allowed, so a zoomed chart still shows a few points
+  plotInset: number; // Horizontal padding between the view's edges and the plot area
+  onViewportChange: (viewport: ChartViewport) => void;
+  onInspect: (position: number | null) => void; // Position on the whole axis (0-1), null to clear
+  onReset: () => void;
+}
+
+const LONG_PRESS_MS = 350;
+const DOUBLE_TAP_MS = 300;
+const TAP_SLOP = 8; // Movement in px that still counts as holding still
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+// Keep the span within limits and the window inside the series
+const clampViewport = (start: number, span: number, minSpan: number): ChartViewport => {
+  const width = clamp(span, Math.min(minSpan, 1), 1);
+  const from = clamp(start, 0, 1 - width);
+  return { start: from, end: from + width };
+};
+
+const touchDistance = (event: GestureResponderEvent): number | null => {
+  const [a, b] = event.nativeEvent.touches;
+  if (!a || !b) return null;
+  return Math.hypot(a.pageX - b.pageX, a.pageY - b.pageY);
+};
+
+/**
+ * Pinch to zoom and drag to pan the time axis, long-press to inspect a point
+ * (the crosshair follows the finger until released and stays until the next
+ * tap), double-tap to reset. Attach `ref`, `onLayout` and `panHandlers` to the
+ * view wrapping the chart. Only the viewport is handled here; the chart draws it.
+ */
+export const useChartGestures = (options: ChartGestureOptions) => {
+  // Handlers are created once, so they read the latest options through a ref
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+
+  const viewRef = useRef<View>(null);
+  const frame = useRef({ pageX: 0, width: 0 });
+  const gesture = useRef({
+    startViewport: FULL_VIEWPORT,
+    pinchDistance: null as number | null,
+    pinchAnchor: 0, // Axis position under the pinch midpoint when it started
+    inspecting: false,
+    moved: false,
+    lastTap: 0,
+    longPressTimer: null as ReturnType<typeof setTimeout> | null,
+    pendingViewport: null as ChartViewport | null,
+  });
+
+  const measure = () => {
+    viewRef.current?.measure((_x, _y, width, _height, pageX) => {
+      frame.current = { pageX, width };
+    });
+  };
+
+  // Fraction of the plot area under a page x coordinate
+  const plotFraction = (pageX: number): number => {
+    const { plotInset } = optionsRef.current;
+    const plotWidth = Math.max(frame.current.width - plotInset * 2, 1);
+    return clamp((pageX - frame.current.pageX - plotInset) / plotWidth, 0, 1);
+  };
+
+  const axisPosition = (pageX: number, viewport: ChartViewport): number =>
+    viewport.start + plotFraction(pageX) * (viewport.end - viewport.start);
+
+  // Touch moves come faster than the chart can redraw, so apply at most one viewport per frame
+  const updateViewport = (viewport: ChartViewport) => {
+    const current = gesture.current;
+    const scheduled = current.pendingViewport !== null;
+    current.pendingViewport = viewport;
+    if (scheduled) return;
+    requestAnimationFrame(() => {
+      const next = current.pendingViewport;
+      current.pendingViewport = null;
+      if (next) optionsRef.current.onViewportChange(next);
+    });
+  };
+
+  const cancelLongPress = () => {
+    if (gesture.current.longPressTimer) {
+      clearTimeout(gesture.current.longPressTimer);
+      gesture.current.longPressTimer = null;
+    }
+  };
+
+  const panResponder = useRef(
+    PanResponder.create({
+      onStartShouldSetPanResponder: () => true,
+      onMoveShouldSetPanResponder: (_event, state: PanResponderGestureState) =>
+        state.numberActiveTouches === 2 || Math.abs(state.dx) > Math.abs(state.dy),
+      // The page may scroll vertically, except while zooming or inspecting
+      onPanResponderTerminationRequest: () => !gesture.current.inspecting && gesture.current.pinchDistance === null,
+
+      onPanResponderGrant: (event) => {
+        measure();
+        const current = gesture.current;
+        current.startViewport = optionsRef.current.viewport;
+        current.pinchDistance = null;
+        current.inspecting = false;
+        current.moved = false;
+        const { pageX } = event.nativeEvent;
+        cancelLongPress();
+        current.longPressTimer = setTimeout(() => {
+          current.longPressTimer = null;
+          if (current.moved || current.pinchDistance !== null) return;
+          current.inspecting = true;
+          optionsRef.current.onInspect(axisPosition(pageX, optionsRef.current.viewport));
+        }, LONG_PRESS_MS);
+      },
+
+      onPanResponderMove: (event, state) => {
+        const current = gesture.current;
+        const { minSpan, onInspect } = optionsRef.current;
+        if (Math.abs(state.dx) > TAP_SLOP || Math.abs(state.dy) > TAP_SLOP) current.moved = true;
+
+        const distance = touchDistance(event);
+        if (distance !== null) {
+          cancelLongPress();
+          const [a, b] = event.nativeEvent.touches;
+          const midX = (a.pageX + b.pageX) / 2;
+          if (current.pinchDistance === null) {
+            // Pinch starts: remember what is under the fingers and zoom around it
+            current.pinchDistance = Math.max(distance, 1);
+            current.startViewport = optionsRef.current.viewport;
+            current.pinchAnchor = axisPosition(midX, current.startViewport);
+            return;
+          }
+          const span = (current.startViewport.end - current.startViewport.start) * (current.pinchDistance / Math.max(distance, 1));
+          const next = clampViewport(current.pinchAnchor - plotFraction(midX) * span, span, minSpan);
+          updateViewport(next);
+          return;
+        }
+
+        if (current.inspecting) {
+          onInspect(axisPosition(state.moveX, optionsRef.current.viewport));
+          return;
+        }
+        if (current.pinchDistance !== null || !current.moved) return;
+
+        cancelLongPress();
+        // Dragging right shows earlier readings
+        const { start, end } = current.startViewport;
+        const plotWidth = Math.max(frame.current.width - optionsRef.current.plotInset * 2, 1);
+        updateViewport(clampViewport(start - (state.dx / plotWidth) * (end - start), end - start, minSpan));
+      },
+
+      onPanResponderRelease: () => {
+        const current = gesture.current;
+        cancelLongPress();
+        const tapped = !current.moved && !current.inspecting && current.pinchDistance === null;
+        if (tapped) {
+          const now = Date.now();
+          if (now - current.lastTap < DOUBLE_TAP_MS) {
+            current.lastTap = 0;
+            current.pendingViewport = null;
+            optionsRef.current.onReset();
+          } else {
+            current.lastTap = now;
+            optionsRef.current.onInspect(null);
+          }
+        }
+        current.inspecting = false;
+        current.pinchDistance = null;
+      },
+
+      onPanResponderTerminate: () => {
+        cancelLongPress();
+        gesture.current.inspecting = false;
+        gesture.current.pinchDistance = null;
+      },
+    })
+  ).current;
+
+  useEffect(() => cancelLongPress, []);
+
+  return { ref: viewRef, onLayout: measure, panHandlers: panResponder.panHandlers };
+};
@@ -0,0 +1,131 @@
+import { useEffect, useMemo, useState } from 'react';
+import { BuoyReading } from '../services/buoyReading';
+import {
+  ReadingQuery,
+  countStoredReadings,
+  getStoredReadings,
+  getStoredReadingsOverview,
+  subscribeToBuoyData,
+} from '../services/buoyService';
+import { hasTimestamp } from '../services/downsampling';
+
+// Ranges with more readings than this are loaded as an overview, and zooming in
+// loads full detail once the view holds no more than this
+export const CHART_DETAIL_LIMIT = 5000;
+const OVERVIEW_BUCKETS = 400; // Per buoy; up to 8 readings each (see readingStore.queryOverviewRows)
+const DETAIL_DEBOUNCE_MS = 300; // Wait for the pinch or drag to settle before querying
+
+interface ChartReadingsOptions {
+  buoyId?: number;
+  from?: number; // Epoch ms, inclusive; open-ended when undefined
+  to?: number;
+  // Time window in view while zoomed, undefined when showing the whole range
+  viewFrom?: number;
+  viewTo?: number;
+}
+
+export interface ChartReadings {
+  readings: BuoyReading[]; // Oldest first; the overview with the zoomed window in full detail
+  detail: BuoyReading[]; // Consecutive readings only, safe for neighbour-based checks
+  total: number; // Readings in the whole range
+  isOverview: boolean; // Range too long to load in full
+  loading: boolean;
+}
+
+interface DetailWindow {
+  from: number;
+  to: number;
+  readings: BuoyReading[];
+}
+
+/**
+ * Stored readings for a chart, bounded however long the range is: in full
+ * when there are at most CHART_DETAIL_LIMIT of them, otherwise as a min/max
+ * overview, with full detail fetched for the zoomed window once it is small
+ * enough. Reloads when new data arrives.
+ */
+export const useChartReadings = ({ buoyId, from, to, viewFrom, viewTo }: ChartReadingsOptions): ChartReadings => {
+  const [range, setRange] = useState<{ readings: BuoyReading[]; total: number; isOverview: boolean }>({
+    readings: [],
+    total: 0,
+    isOverview: false,
+  });
+  const [detailWindow, setDetailWindow] = useState<DetailWindow | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [version, setVersion] = useState(0);
+
+  useEffect(() => subscribeToBuoyData(() => setVersion(current => current + 1)), []);
+
+  useEffect(() => {
+    let cancelled = false;
+    const query: ReadingQuery = { buoyId, from, to };
+    setLoading(true);
+    (async () => {
+      try {
+        const total = await countStoredReadings(query);
+        const isOverview = total > CHART_DETAIL_LIMIT;
+        const readings = isOverview
+          ? await getStoredReadingsOverview(query, OVERVIEW_BUCKETS)
+          : await getStoredReadings(query);
+        if (cancelled) return;
+        setRange({ readings: readings.reverse(), total, isOverview });
+      } catch (error) {
+        console.error('Error loading chart readings:', error);
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [buoyId, from, to, version]);
+
+  // Full detail for the zoomed window, once the overview is zoomed in far enough
+  useEffect(() => {
+    if (!range.isOverview || viewFrom === undefined || viewTo === undefined) {
+      setDetailWindow(null);
+      return;
+    }
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      const query: ReadingQuery = {
+        buoyId,
+        from: Math.max(viewFrom, from ?? viewFrom),
+        to: Math.min(viewTo, to ?? viewTo),
+      };
+      try {
+        const count = await countStoredReadings(query);
+        if (cancelled) return;
+        if (count > CHART_DETAIL_LIMIT) {
+          setDetailWindow(null);
+          return;
+        }
+        const readings = await getStoredReadings(query);
+        if (!cancelled) setDetailWindow({ from: query.from!, to: query.to!, readings: readings.reverse() });
+      } catch (error) {
+        console.error('Error loading chart detail:', error);
+      }
+    }, DETAIL_DEBOUNCE_MS);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [range, buoyId, from, to, viewFrom, viewTo]);
+
+  const readings = useMemo(() => {
+    if (!detailWindow) return range.readings;
+    // Overview outside the window, every reading inside it
+    const timed = range.readings.filter(hasTimestamp);
+    const before = timed.filter(reading => reading.timestamp < detailWindow.from);
+    const after = timed.filter(reading => reading.timestamp > detailWindow.to);
+    return [...before, ...detailWindow.readings, ...after];
+  }, [range, detailWindow]);
+
+  return {
+    readings,
+    detail: range.isOverview ? detailWindow?.readings ?? [] : range.readings,
+    total: range.total,
+    isOverview: range.isOverview,
+    loading,
+  };
+};
@@ -0,0 +1,14 @@
+import { useEffect, useState } from 'react';
+import { DateRange, getDateRange, setDateRange, subscribeToDateRange } from '../services/dateRangeService';
+
+// Range shared by the Graph and Data tabs, with its setter; updated when either tab changes it
+export const useDateRange = (): [DateRange, (range: DateRange) => void] => {
+  const [range, setRange] = useState<DateRange>(getDateRange);
+
+  useEffect(() => {
+    setRange(getDateRange());
+    return subscribeToDateRange(setRange);
+  }, []);
+
+  return [range, setDateRange];
+};
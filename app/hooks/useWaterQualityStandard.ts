@@ -0,0 +1,15 @@
+import { useEffect, useState } from 'react';
+import { settingsService, subscribeToSettings } from '../services/settingsService';
+import { WaterQualityStandard, getWaterQualityStandard } from '../services/waterQuality';
+
+// Standard chosen under Settings → Water Quality Index, updated when it changes
+export const useWaterQualityStandard = (): WaterQualityStandard => {
+  const [standardId, setStandardId] = useState(() => settingsService.getSettings().waterQualityStandard);
+
+  useEffect(() => {
+    setStandardId(settingsService.getSettings().waterQualityStandard);
+    return subscribeToSettings(settings => setStandardId(settings.waterQualityStandard));
+  }, []);
+
+  return getWaterQualityStandard(standardId);
+};
@@ -1,6 +1,10 @@
 import { registerRootComponent } from 'expo';
 
 import App from './App';
+// Defines the background sync task; it must exist before the OS tries to run it
+import './services/backgroundSyncService';
+// Likewise for the Acknowledge / Snooze buttons on alert notifications
+import './services/notificationActions';
 
 // registerRootComponent calls AppRegistry.registerComponent('main', () => App);
 // It also ensures that whether you load the app in Expo Go or in a native build,
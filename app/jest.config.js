@@ -0,0 +1,16 @@
+// Unit tests for the service modules and the Supabase functions' shared code.
+// They cover pure logic only, so they run in Node without the React Native runtime.
+module.exports = {
+  testEnvironment: 'node',
+  roots: ['<rootDir>', '<rootDir>/../supabase'],
+  testMatch: ['**/__tests__/**/*.test.ts'],
+  // Set by the React Native bundler; dev-only logging stays quiet in tests
+  globals: { __DEV__: false },
+  globalSetup: '<rootDir>/jest.globalSetup.js',
+  transform: {
+    '^.+\\.ts$': ['ts-jest', {
+      // Type-checking is left to `tsc`; tests only need the code transpiled
+      tsconfig: { module: 'commonjs', target: 'es2020', esModuleInterop: true, isolatedModules: true },
+    }],
+  },
+};
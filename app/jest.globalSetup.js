@@ -0,0 +1,5 @@
+// Tests run in a time zone far from the buoys' UTC+8, so anything computed in
+// device-local time instead of on the server's clock shows up as a failure.
+module.exports = () => {
+  process.env.TZ = 'America/Los_Angeles';
+};
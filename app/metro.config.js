@@ -0,0 +1,10 @@
+// Learn more https://docs.expo.dev/guides/customizing-metro
+const path = require('path');
+const { getDefaultConfig } = require('expo/metro-config');
+
+const config = getDefaultConfig(__dirname);
+
+// Pure modules shared with the Supabase functions, e.g. the alert rule state machine
+config.watchFolders = [...(config.watchFolders ?? []), path.resolve(__dirname, '../supabase/functions/_shared')];
+
+module.exports = config;
@@ -1,13 +1,74 @@
 import React from 'react';
 import { createStackNavigator } from '@react-navigation/stack';
-import TabNavigator from './TabNavigator';
+import { LinkingOptions, NavigatorScreenParams } from '@react-navigation/native';
+import * as Linking from 'expo-linking';
+import * as Notifications from 'expo-notifications';
+import TabNavigator, { MainTabParamList } from './TabNavigator';
 import ProfileScreen from '../screens/ProfileScreen';
+import { linkForNotificationData } from '../services/deepLinks';
+import { handleNotificationAction } from '../services/notificationActions';
 
 export type RootStackParamList = {
-  MainTabs: undefined;
+  MainTabs: NavigatorScreenParams<MainTabParamList> | undefined;
   Profile: undefined;
 };
 
+// Taps on a notification's action buttons are handled in place; plain taps follow its link
+const linkForResponse = (response: Notifications.NotificationResponse | null): string | null => {
+  if (!response || response.actionIdentifier !== Notifications.DEFAULT_ACTION_IDENTIFIER) return null;
+  return linkForNotificationData(response.notification.request.content.data);
+};
+
+/**
+ * URL scheme routing, e.g. `<scheme>://graph?buoy=2&parameter=pH`. Links
+ * arrive from outside the app and from tapped notifications, which are
+ * turned into the same URLs so both take one path.
+ */
+export const linking: LinkingOptions<RootStackParamList> = {
+  prefixes: [Linking.createURL('/')],
+  config: {
+    screens: {
+      MainTabs: {
+        screens: {
+          Home: 'home',
+          Graph: {
+            path: 'graph',
+            parse: { buoy: Number, from: Number, to: Number },
+          },
+          Map: {
+            path: 'map',
+            parse: { buoy: Number },
+          },
+          Data: 'data',
+          Alerts: 'alerts',
+          Settings: 'settings',
+        },
+      },
+      Profile: 'profile',
+    },
+  },
+  // A cold start from a link or from tapping a notification
+  async getInitialURL() {
+    const url = await Linking.getInitialURL();
+    if (url) return url;
+    return linkForResponse(Notifications.getLastNotificationResponse());
+  },
+  subscribe(listener) {
+    const linkSubscription = Linking.addEventListener('url', ({ url }) => listener(url));
+    const responseSubscription = Notifications.addNotificationResponseReceivedListener(response => {
+      handleNotificationAction(response).then(handled => {
+        if (handled) return;
+        const url = linkForResponse(response);
+        if (url) listener(url);
+      });
+    });
+    return () => {
+      linkSubscription.remove();
+      responseSubscription.remove();
+    };
+  },
+};
+
 const Stack = createStackNavigator<RootStackParamList>();
 
 const MainNavigator = () => {
@@ -7,9 +7,23 @@ import DashboardScreen from '../screens/DashboardScreen';
 import GraphScreen from '../screens/GraphScreen';
 import MapScreen from '../screens/MapScreen';
 import DataScreen from '../screens/DataScreen';
+import AlertsScreen from '../screens/AlertsScreen';
 import SettingsScreen from '../screens/SettingsScreen';
 
-const Tab = createBottomTabNavigator();
+// Params come from deep links (see services/deepLinks.ts) or from other screens
+export type MainTabParamList = {
+  Home: undefined;
+  Graph: { buoy?: number; parameter?: 'pH' | 'temperature' | 'tds'; from?: number; to?: number } | undefined;
+  Map: {
+    buoy?: number;
+    latestLocation?: { latitude: number; longitude: number; buoy: string };
+  } | undefined;
+  Data: undefined;
+  Alerts: { key?: string } | undefined;
+  Settings: undefined;
+};
+
+const Tab = createBottomTabNavigator<MainTabParamList>();
 
 const TabNavigator = () => {
   return (
@@ -48,6 +62,13 @@ const TabNavigator = () => {
           tabBarLabel: 'Data',
         }}
       />
+      <Tab.Screen 
+        name="Alerts" 
+        component={AlertsScreen}
+        options={{
+          tabBarLabel: 'Alerts',
+        }}
+      />
       <Tab.Screen 
         name="Settings" 
         component={SettingsScreen}
@@ -0,0 +1,523 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  FlatList,
+  TouchableOpacity,
+  TextInput,
+  RefreshControl,
+  Alert,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { RouteProp, useRoute } from '@react-navigation/native';
+import Header from '../components/Header';
+import { useAuth } from '../contexts/AuthContext';
+import { MainTabParamList } from '../navigation/TabNavigator';
+import {
+  AlertRecord,
+  isUnreadAlert,
+  getAlertHistory,
+  subscribeToAlertHistory,
+  syncAlertHistory,
+  markAlertRead,
+  markAllAlertsRead,
+  acknowledgeAlert,
+  commentOnAlert,
+  snoozeAlert,
+  clearAlertSnooze,
+} from '../services/alertHistoryService';
+import { ALERT_SEVERITY_COLORS, ALERT_SEVERITY_LABELS } from '../services/alertService';
+
+type AlertFilter = 'all' | 'unread' | 'open' | 'acknowledged';
+
+const FILTERS: { label: string; value: AlertFilter }[] = [
+  { label: 'All', value: 'all' },
+  { label: 'Unread', value: 'unread' },
+  { label: 'Open', value: 'open' },
+  { label: 'Acknowledged', value: 'acknowledged' },
+];
+
+const HOUR_MS = 60 * 60 * 1000;
+const SNOOZE_OPTIONS = [
+  { label: '1 hour', value: HOUR_MS },
+  { label: '4 hours', value: 4 * HOUR_MS },
+  { label: '24 hours', value: 24 * HOUR_MS },
+];
+
+const formatAlertTime = (timestamp: number): string => {
+  return new Date(timestamp).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+};
+
+const matchesFilter = (record: AlertRecord, filter: AlertFilter): boolean => {
+  switch (filter) {
+    case 'unread':
+      return isUnreadAlert(record);
+    case 'open':
+      return record.acknowledgedAt === null;
+    case 'acknowledged':
+      return record.acknowledgedAt !== null;
+    default:
+      return true;
+  }
+};
+
+const AlertsScreen = () => {
+  const { user } = useAuth();
+  const route = useRoute<RouteProp<MainTabParamList, 'Alerts'>>();
+  const linkedKey = route.params?.key;
+  const [records, setRecords] = useState<AlertRecord[]>([]);
+  const [filter, setFilter] = useState<AlertFilter>('all');
+  const [expandedKey, setExpandedKey] = useState<string | null>(null);
+  const [commentText, setCommentText] = useState('');
+  const [refreshing, setRefreshing] = useState(false);
+
+  const actorName = user?.profile?.fullname || user?.email || 'Unknown user';
+
+  useEffect(() => {
+    getAlertHistory().then(setRecords);
+    syncAlertHistory();
+    return subscribeToAlertHistory(setRecords);
+  }, []);
+
+  // Opened from a link to one alert: show it expanded
+  useEffect(() => {
+    if (!linkedKey) return;
+    setFilter('all');
+    setCommentText('');
+    setExpandedKey(linkedKey);
+    markAlertRead(linkedKey);
+  }, [linkedKey, route.params]);
+
+  const visibleRecords = useMemo(() => records.filter(record => matchesFilter(record, filter)), [records, filter]);
+  const unreadCount = useMemo(() => records.filter(isUnreadAlert).length, [records]);
+
+  const onRefresh = async () => {
+    setRefreshing(true);
+    const synced = await syncAlertHistory();
+    setRefreshing(false);
+    if (!synced) {
+      if (__DEV__) console.log('Alert history not synced (offline or signed out)');
+    }
+  };
+
+  const toggleExpanded = (record: AlertRecord) => {
+    setCommentText('');
+    setExpandedKey(expandedKey === record.key ? null : record.key);
+    if (!record.read) {
+      markAlertRead(record.key);
+    }
+  };
+
+  const submitComment = async (record: AlertRecord) => {
+    if (!commentText.trim()) return;
+    await commentOnAlert(record.key, actorName, commentText);
+    setCommentText('');
+  };
+
+  const chooseSnooze = (record: AlertRecord) => {
+    Alert.alert(
+      'Snooze Alert',
+      `Mute "${record.ruleDescription}" on ${record.buoy} for:`,
+      [
+        ...SNOOZE_OPTIONS.map(option => ({
+          text: option.label,
+          onPress: () => { snoozeAlert(record.key, option.value); },
+        })),
+        { text: 'Cancel', style: 'cancel' as const },
+      ]
+    );
+  };
+
+  const renderAlert = ({ item }: { item: AlertRecord }) => {
+    const expanded = expandedKey === item.key;
+    const snoozed = item.snoozedUntil !== null && item.snoozedUntil > Date.now();
+    const color = ALERT_SEVERITY_COLORS[item.severity];
+
+    return (
+      <View style={styles.alertCard}>
+        <View style={[styles.severityBar, { backgroundColor: color }]} />
+        <View style={styles.alertBody}>
+          <TouchableOpacity onPress={() => toggleExpanded(item)} activeOpacity={0.7}>
+            <View style={styles.alertTitleRow}>
+              {isUnreadAlert(item) && <View style={styles.unreadDot} />}
+              <Text style={styles.alertTitle} numberOfLines={1}>
+                {item.buoy} · {item.ruleDescription}
+              </Text>
+              <Text style={[styles.severityText, { color }]}>{ALERT_SEVERITY_LABELS[item.severity]}</Text>
+            </View>
+            <Text style={styles.alertMessage}>{item.message}</Text>
+            <View style={styles.alertMetaRow}>
+              <Text style={styles.alertMeta}>{formatAlertTime(item.occurredAt)}</Text>
+              {item.acknowledgedAt !== null && (
+                <View style={styles.statusBadge}>
+                  <Ionicons name="checkmark-circle" size={14} color="#10b981" />
+                  <Text style={styles.statusText}>{item.acknowledgedBy ?? 'Acknowledged'}</Text>
+                </View>
+              )}
+              {snoozed && (
+                <View style={styles.statusBadge}>
+                  <Ionicons name="moon" size={14} color="#64748b" />
+                  <Text style={styles.statusText}>Until {formatAlertTime(item.snoozedUntil as number)}</Text>
+                </View>
+              )}
+              {item.comments.length > 0 && (
+                <View style={styles.statusBadge}>
+                  <Ionicons name="chatbubble-outline" size={14} color="#64748b" />
+                  <Text style={styles.statusText}>{item.comments.length}</Text>
+                </View>
+              )}
+            </View>
+          </TouchableOpacity>
+
+          {expanded && (
+            <View style={styles.details}>
+              {item.acknowledgedAt !== null && (
+                <Text style={styles.detailText}>
+                  Acknowledged by {item.acknowledgedBy ?? 'a team member'} on {formatAlertTime(item.acknowledgedAt)}
+                </Text>
+              )}
+
+              {item.comments.map(comment => (
+                <View key={comment.id} style={styles.comment}>
+                  <Text style={styles.commentAuthor}>
+                    {comment.authorName} · {formatAlertTime(comment.createdAt)}
+                  </Text>
+                  <Text style={styles.commentBody}>{comment.body}</Text>
+                </View>
+              ))}
+
+              <View style={styles.commentInputRow}>
+                <TextInput
+                  style={styles.commentInput}
+                  value={commentText}
+                  onChangeText={setCommentText}
+                  placeholder="Add a comment"
+                  returnKeyType="send"
+                  onSubmitEditing={() => submitComment(item)}
+                />
+                <TouchableOpacity onPress={() => submitComment(item)} style={styles.sendButton}>
+                  <Ionicons name="send" size={18} color="#0ea5e9" />
+                </TouchableOpacity>
+              </View>
+
+              <View style={styles.actionRow}>
+                {item.acknowledgedAt === null && (
+                  <TouchableOpacity
+                    style={[styles.actionButton, styles.acknowledgeButton]}
+                    onPress={() => acknowledgeAlert(item.key, actorName)}
+                  >
+                    <Ionicons name="checkmark" size={16} color="#ffffff" />
+                    <Text style={styles.acknowledgeText}>Acknowledge</Text>
+                  </TouchableOpacity>
+                )}
+                {item.ruleId !== null && (
+                  <TouchableOpacity
+                    style={styles.actionButton}
+                    onPress={() => (snoozed ? clearAlertSnooze(item.key) : chooseSnooze(item))}
+                  >
+                    <Ionicons name={snoozed ? 'notifications' : 'moon-outline'} size={16} color="#475569" />
+                    <Text style={styles.actionText}>{snoozed ? 'Unsnooze' : 'Snooze'}</Text>
+                  </TouchableOpacity>
+                )}
+              </View>
+            </View>
+          )}
+        </View>
+      </View>
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <Header title="AquaNet" />
+      <View style={styles.headerSection}>
+        <View style={styles.titleRow}>
+          <View>
+            <Text style={styles.title}>Alerts</Text>
+            <Text style={styles.subtitle}>
+              {unreadCount > 0 ? `${unreadCount} unread` : 'All caught up'}
+            </Text>
+          </View>
+          {unreadCount > 0 && (
+            <TouchableOpacity style={styles.markAllButton} onPress={markAllAlertsRead}>
+              <Ionicons name="checkmark-done" size={16} color="#0ea5e9" />
+              <Text style={styles.markAllText}>Mark all read</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+
+        <View style={styles.filterRow}>
+          {FILTERS.map(option => (
+            <TouchableOpacity
+              key={option.value}
+              style={[styles.filterChip, filter === option.value && styles.filterChipSelected]}
+              onPress={() => setFilter(option.value)}
+            >
+              <Text style={[styles.filterText, filter === option.value && styles.filterTextSelected]}>
+                {option.label}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      </View>
+
+      <FlatList
+        data={visibleRecords}
+        keyExtractor={item => item.key}
+        renderItem={renderAlert}
+        contentContainerStyle={styles.listContent}
+        refreshControl={<RefreshControl refreshing={refreshing} onRefresh={onRefresh} />}
+        keyboardShouldPersistTaps="handled"
+        ListEmptyComponent={
+          <View style={styles.emptyContainer}>
+            <Ionicons name="notifications-off-outline" size={40} color="#cbd5e1" />
+            <Text style={styles.emptyText}>No alerts</Text>
+            <Text style={styles.emptySubtext}>Alert rules are set up under Settings → Water Quality Alerts</Text>
+          </View>
+        }
+      />
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8fafc',
+  },
+  headerSection: {
+    paddingHorizontal: 16,
+    paddingVertical: 20,
+    backgroundColor: '#ffffff',
+    borderBottomWidth: 1,
+    borderBottomColor: '#e2e8f0',
+  },
+  titleRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'flex-start',
+  },
+  title: {
+    fontSize: 28,
+    fontWeight: '800',
+    color: '#1e293b',
+    marginBottom: 4,
+  },
+  subtitle: {
+    fontSize: 16,
+    fontWeight: '500',
+    color: '#64748b',
+  },
+  markAllButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    borderRadius: 8,
+    backgroundColor: '#eff6ff',
+    borderWidth: 1,
+    borderColor: '#bfdbfe',
+  },
+  markAllText: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#0ea5e9',
+    marginLeft: 4,
+  },
+  filterRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginTop: 16,
+  },
+  filterChip: {
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 16,
+    backgroundColor: '#f1f5f9',
+    borderWidth: 1,
+    borderColor: 'transparent',
+  },
+  filterChipSelected: {
+    backgroundColor: '#e0f2fe',
+    borderColor: '#0ea5e9',
+  },
+  filterText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#475569',
+  },
+  filterTextSelected: {
+    color: '#0ea5e9',
+  },
+  listContent: {
+    padding: 16,
+    flexGrow: 1,
+  },
+  alertCard: {
+    flexDirection: 'row',
+    backgroundColor: '#ffffff',
+    borderRadius: 12,
+    marginBottom: 12,
+    overflow: 'hidden',
+    shadowColor: '#0ea5e9',
+    shadowOffset: {
+      width: 0,
+      height: 2,
+    },
+    shadowOpacity: 0.08,
+    shadowRadius: 6,
+    elevation: 2,
+  },
+  severityBar: {
+    width: 4,
+  },
+  alertBody: {
+    flex: 1,
+    padding: 14,
+  },
+  alertTitleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  unreadDot: {
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+    backgroundColor: '#0ea5e9',
+    marginRight: 6,
+  },
+  alertTitle: {
+    flex: 1,
+    fontSize: 15,
+    fontWeight: '700',
+    color: '#1e293b',
+  },
+  severityText: {
+    fontSize: 12,
+    fontWeight: '700',
+    marginLeft: 8,
+  },
+  alertMessage: {
+    fontSize: 14,
+    color: '#475569',
+    marginTop: 4,
+  },
+  alertMetaRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    alignItems: 'center',
+    gap: 12,
+    marginTop: 8,
+  },
+  alertMeta: {
+    fontSize: 12,
+    color: '#94a3b8',
+  },
+  statusBadge: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+  },
+  statusText: {
+    fontSize: 12,
+    color: '#64748b',
+  },
+  details: {
+    marginTop: 12,
+    paddingTop: 12,
+    borderTopWidth: 1,
+    borderTopColor: '#f1f5f9',
+    gap: 8,
+  },
+  detailText: {
+    fontSize: 13,
+    color: '#10b981',
+  },
+  comment: {
+    padding: 10,
+    borderRadius: 8,
+    backgroundColor: '#f8fafc',
+  },
+  commentAuthor: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#64748b',
+    marginBottom: 2,
+  },
+  commentBody: {
+    fontSize: 14,
+    color: '#1e293b',
+  },
+  commentInputRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  commentInput: {
+    flex: 1,
+    borderWidth: 1,
+    borderColor: '#e2e8f0',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    fontSize: 14,
+    color: '#1e293b',
+  },
+  sendButton: {
+    padding: 8,
+    marginLeft: 4,
+  },
+  actionRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  actionButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    borderRadius: 8,
+    backgroundColor: '#f1f5f9',
+  },
+  acknowledgeButton: {
+    backgroundColor: '#10b981',
+  },
+  acknowledgeText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#ffffff',
+  },
+  actionText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#475569',
+  },
+  emptyContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingVertical: 60,
+    paddingHorizontal: 20,
+  },
+  emptyText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#64748b',
+    marginTop: 12,
+  },
+  emptySubtext: {
+    fontSize: 14,
+    color: '#94a3b8',
+    textAlign: 'center',
+    marginTop: 4,
+  },
+});
+
+export default AlertsScreen;
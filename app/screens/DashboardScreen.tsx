@@ -3,9 +3,12 @@ import { View, Text, StyleSheet, ActivityIndicator, TouchableOpacity } from 'rea
 import { Ionicons } from '@expo/vector-icons';
 import Header from '../components/Header';
 import BuoyCard from '../components/BuoyCard';
+import BuoyStatusBadges from '../components/BuoyStatusBadges';
 import BuoyCardList from '../components/BuoyCardList';
 import BuoyDropdown from '../components/BuoyDropdown';
-import { getLatestBuoyData, getLatestBuoyDataForMultipleBuoys, getLatestBuoyDataForSpecificBuoy, getAvailableBuoyNumbers, getLatestBuoyDataForGraph, BuoyData } from '../services/buoyService';
+import { getLatestBuoyData, getLatestBuoyDataForMultipleBuoys, getLatestBuoyDataForSpecificBuoy, getAvailableBuoyNumbers, getLatestBuoyDataPerBuoy, refreshBuoyData, subscribeToBuoyData, isAbortError, BuoyData } from '../services/buoyService';
+import { parseBuoyDateTime } from '../services/buoyReading';
+import { describeApiError } from '../services/apiErrors';
 import { settingsService, loadSettings } from '../services/settingsService';
 import { useAutoRefresh } from '../hooks/useAutoRefresh';
 import { sendNewDataNotification } from '../services/notificationService';
@@ -22,23 +25,24 @@ const DashboardScreen = () => {
   const [isOfflineMode, setIsOfflineMode] = useState(false);
   // Cache for buoy data to avoid redundant API calls
   const buoyDataCache = React.useRef<Map<number, { data: BuoyData; timestamp: number }>>(new Map());
+  // Outstanding loads, aborted when the selected buoy changes or the screen unmounts
+  const buoyListAbortRef = React.useRef<AbortController | null>(null);
+  const latestDataAbortRef = React.useRef<AbortController | null>(null);
 
   // Helper function to check if a date is valid (not like 2065)
   const isValidDate = (dateStr: string, timeStr: string): boolean => {
-    try {
-      const date = new Date(`${dateStr} ${timeStr}`);
-      const year = date.getFullYear();
-      // Only accept dates between 2020 and 2030 (reasonable range)
-      return year >= 2020 && year <= 2030 && !isNaN(date.getTime());
-    } catch {
-      return false;
-    }
+    return parseBuoyDateTime(dateStr, timeStr) !== null;
   };
 
   const fetchAvailableBuoyNumbers = async () => {
+    buoyListAbortRef.current?.abort();
+    const controller = new AbortController();
+    buoyListAbortRef.current = controller;
+    const { signal } = controller;
+
     try {
-      // Fetch all latest buoy data at once (much faster than sequential calls)
-      const latestData = await getLatestBuoyDataForGraph(50); // Get latest 50 records
+      // Fetch the latest reading of every buoy at once (much faster than sequential calls)
+      const latestData = await getLatestBuoyDataPerBuoy(signal);
       
       // Extract unique buoy numbers from the fetched data and cache them
       const buoyMap = new Map<number, BuoyData>();
@@ -56,8 +60,8 @@ const DashboardScreen = () => {
               buoyMap.set(buoyNumber, data);
             } else {
               // Keep the most recent data
-              const existingDate = new Date(`${existing.Date} ${existing.Time}`);
-              const currentDate = new Date(`${data.Date} ${data.Time}`);
+              const existingDate = parseBuoyDateTime(existing.Date, existing.Time)!;
+              const currentDate = parseBuoyDateTime(data.Date, data.Time)!;
               if (currentDate > existingDate) {
                 buoyMap.set(buoyNumber, data);
               }
@@ -90,21 +94,29 @@ const DashboardScreen = () => {
         }
       }
     } catch (err) {
+      if (isAbortError(err)) return;
       console.error('Error fetching available buoy numbers:', err);
       // Fallback: try to get available buoy numbers without validation
       try {
-        const allBuoyNumbers = await getAvailableBuoyNumbers();
+        const allBuoyNumbers = await getAvailableBuoyNumbers(signal);
         if (allBuoyNumbers.length > 0) {
           setAvailableBuoyNumbers(allBuoyNumbers);
           setSelectedBuoyCount(allBuoyNumbers[0]);
         }
       } catch (fallbackErr) {
+        if (isAbortError(fallbackErr)) return;
         console.error('Fallback also failed:', fallbackErr);
       }
     }
   };
 
   const fetchLatestData = async (isBuoyChange: boolean = false, forceRefresh: boolean = false) => {
+    // A newer request (e.g. switching buoys) supersedes any load still in flight
+    latestDataAbortRef.current?.abort();
+    const controller = new AbortController();
+    latestDataAbortRef.current = controller;
+    const { signal } = controller;
+
     try {
       setError(null);
       if (isBuoyChange) {
@@ -127,7 +139,7 @@ const DashboardScreen = () => {
       // If no cached data, fetch from API
       if (!selectedBuoyData) {
         try {
-          selectedBuoyData = await getLatestBuoyDataForSpecificBuoy(selectedBuoyCount);
+          selectedBuoyData = await getLatestBuoyDataForSpecificBuoy(selectedBuoyCount, signal);
           
           // Validate the date before using the data
           if (selectedBuoyData && !isValidDate(selectedBuoyData.Date, selectedBuoyData.Time)) {
@@ -147,18 +159,17 @@ const DashboardScreen = () => {
           }
           setIsOfflineMode(false);
         } catch (apiError) {
+          if (isAbortError(apiError)) {
+            throw apiError;
+          }
           console.log('API fetch failed, trying offline data...');
           
           // If API fails, try to get cached offline data
           if (isOfflineModeEnabled()) {
-            const cachedData = await getCachedBuoyData();
+            const cachedData = await getCachedBuoyData({ buoyId: selectedBuoyCount, limit: 1 });
             if (cachedData && cachedData.length > 0) {
-              // Find data for the selected buoy
-              const buoyData = cachedData.find(data => {
-                const buoyName = data.Buoy.trim();
-                const match = buoyName.match(/Buoy\s*(\d+)/i);
-                return match && parseInt(match[1]) === selectedBuoyCount;
-              });
+              // Latest stored reading for the selected buoy
+              const buoyData = cachedData[0];
               
               // Validate the date before using cached data
               if (buoyData && isValidDate(buoyData.Date, buoyData.Time)) {
@@ -197,33 +208,50 @@ const DashboardScreen = () => {
         setMultipleBuoyData([]);
       }
     } catch (err) {
-      setError('Failed to fetch buoy data. Please try again.');
+      if (isAbortError(err)) return;
+      setError(describeApiError(err, 'Failed to fetch buoy data. Please try again.'));
       console.error('Error fetching data:', err);
     } finally {
-      setLoading(false);
-      if (isBuoyChange) {
-        setBuoyLoading(false);
+      // A superseded request leaves the spinners to the request that replaced it
+      if (!signal.aborted) {
+        setLoading(false);
+        if (isBuoyChange) {
+          setBuoyLoading(false);
+        }
       }
     }
   };
 
+  // Refreshing reloads every subscribed tab; this screen reloads through its subscription below
   const onRefresh = async () => {
-    await fetchLatestData(false, true); // Force refresh
+    await refreshBuoyData();
   };
 
   const onRefreshButtonPress = async () => {
     setLoading(true);
-    await fetchLatestData(false, true); // Force refresh on button press
+    await refreshBuoyData();
   };
 
+  // Force a reload of the selected buoy whenever any tab brings in new data
+  const fetchLatestDataRef = React.useRef(fetchLatestData);
+  fetchLatestDataRef.current = fetchLatestData;
+
+  useEffect(() => {
+    return subscribeToBuoyData(() => fetchLatestDataRef.current(false, true));
+  }, []);
+
   // Auto-refresh functionality
-  const { isAutoRefreshEnabled, refreshInterval } = useAutoRefresh({
+  const { isAutoRefreshEnabled, refreshInterval, isLive } = useAutoRefresh({
     onRefresh: onRefresh,
     enabled: true,
   });
 
   useEffect(() => {
     fetchAvailableBuoyNumbers();
+    return () => {
+      buoyListAbortRef.current?.abort();
+      latestDataAbortRef.current?.abort();
+    };
   }, []);
 
   useEffect(() => {
@@ -256,7 +284,12 @@ const DashboardScreen = () => {
             <View style={styles.titleContainer}>
               <Text style={styles.title}>Dashboard</Text>
               <Text style={styles.subtitle}>Real-time buoy monitoring</Text>
-              {isAutoRefreshEnabled && (
+              {isLive ? (
+                <View style={styles.autoRefreshIndicator}>
+                  <Ionicons name="radio" size={14} color="#10b981" />
+                  <Text style={styles.autoRefreshText}>Live updates</Text>
+                </View>
+              ) : isAutoRefreshEnabled && (
                 <View style={styles.autoRefreshIndicator}>
                   <Ionicons name="sync" size={14} color="#10b981" />
                   <Text style={styles.autoRefreshText}>
@@ -296,6 +329,9 @@ const DashboardScreen = () => {
               placeholder="Select buoy to display"
               loading={buoyLoading}
             />
+            <View style={styles.statusBadges}>
+              <BuoyStatusBadges onSelect={setSelectedBuoyCount} />
+            </View>
           </View>
           
 
@@ -398,6 +434,9 @@ const styles = StyleSheet.create({
   buoySelectionSection: {
     marginBottom: 16,
   },
+  statusBadges: {
+    marginTop: 8,
+  },
   buoySelectionLabel: {
     fontSize: 14,
     fontWeight: '600',
@@ -1,9 +1,12 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { View, Text, StyleSheet, ActivityIndicator, TouchableOpacity, Alert, ScrollView } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
 import Header from '../components/Header';
 import DataTable from '../components/DataTable';
-import { fetchBuoyData, BuoyData, getAllBuoyData } from '../services/buoyService';
+import { fetchBuoyData, BuoyData, queryBuoyData, getStoredBuoyDataPage, refreshBuoyData, subscribeToBuoyData, isAbortError } from '../services/buoyService';
+import { DateRange, describeDateRange, resolveDateRange } from '../services/dateRangeService';
+import { useDateRange } from '../hooks/useDateRange';
+import { describeApiError } from '../services/apiErrors';
 
 const DataScreen = () => {
   const [data, setData] = useState<BuoyData[]>([]);
@@ -12,173 +15,110 @@ const DataScreen = () => {
   const [currentPage, setCurrentPage] = useState(1);
   const [totalPages, setTotalPages] = useState(1);
   const [error, setError] = useState<string | null>(null);
-  const [allData, setAllData] = useState<BuoyData[]>([]);
   const [filteredData, setFilteredData] = useState<BuoyData[]>([]);
-  const [currentFilters, setCurrentFilters] = useState<{ month?: string; year?: string }>({});
-  const [clearFiltersTrigger, setClearFiltersTrigger] = useState(0);
+  const [dateRange] = useDateRange(); // Shared with the Graph tab
+  const isFiltered = dateRange.kind !== 'all';
   const [filterLoading, setFilterLoading] = useState(false);
+  const [showingStoredData, setShowingStoredData] = useState(false);
+  const refreshingRef = useRef(false); // Set while this screen drives a refresh
+  // Outstanding page and filter loads, aborted when superseded or on unmount
+  const pageAbortRef = useRef<AbortController | null>(null);
+  const filterAbortRef = useRef<AbortController | null>(null);
   
 
-  const fetchData = async (page: number = 1) => {
+  const fetchData = async (page: number = 1, showLoading: boolean = true) => {
+    pageAbortRef.current?.abort();
+    const controller = new AbortController();
+    pageAbortRef.current = controller;
+
     try {
       setError(null);
-      setLoading(true);
+      if (showLoading) {
+        setLoading(true);
+      }
       
-      const response = await fetchBuoyData(page);
+      let response;
+      try {
+        response = await fetchBuoyData(page, undefined, undefined, controller.signal);
+        setShowingStoredData(false);
+      } catch (networkError) {
+        if (isAbortError(networkError)) {
+          throw networkError;
+        }
+        // Page through the readings stored on the device instead
+        response = await getStoredBuoyDataPage(page);
+        if (response.data.length === 0) {
+          throw networkError;
+        }
+        setShowingStoredData(true);
+      }
       setData(response.data);
       setTotalPages(response.totalPages);
       setCurrentPage(response.currentPage);
       console.log(`Loaded page ${page} of ${response.totalPages} with ${response.data.length} records`);
     } catch (err) {
-      setError('Failed to fetch data. Please try again.');
+      if (isAbortError(err)) return;
+      setError(describeApiError(err, 'Failed to fetch data. Please try again.'));
       console.error('Error fetching data:', err);
     } finally {
-      setLoading(false);
+      if (!controller.signal.aborted) {
+        setLoading(false);
+      }
     }
   };
 
-  const fetchAllData = async () => {
-    try {
-      setLoading(true);
-      setError(null); // Clear any previous errors
-      console.log('🔄 Fetching all data for filtering...');
-      const allBuoyData = await getAllBuoyData();
-      setAllData(allBuoyData);
-      setFilteredData(allBuoyData);
-      console.log(`✅ Loaded ${allBuoyData.length} total records for filtering`);
-    } catch (err) {
-      console.error('❌ Error fetching all data:', err);
-      setError('Failed to load data for filtering. Please try again.');
-    } finally {
-      setLoading(false);
-    }
-  };
+  // Every reading in the range; a new range supersedes any range load still in flight
+  const loadRange = async (range: DateRange, showLoading: boolean = true) => {
+    filterAbortRef.current?.abort();
+    const controller = new AbortController();
+    filterAbortRef.current = controller;
 
-  const applyFiltersToData = (dataToFilter: BuoyData[], filters: { month?: string; year?: string }) => {
-    console.log(`🔍 Filtering ${dataToFilter.length} records with filters:`, filters);
-    let filtered = [...dataToFilter];
-    
-    if (filters.month) {
-      filtered = filtered.filter(item => {
-        try {
-          // Parse date more carefully
-          const dateStr = item.Date.trim();
-          const timeStr = item.Time.trim();
-          
-          // Handle different date formats
-          let date;
-          if (dateStr.includes('/')) {
-            // Format: MM/DD/YYYY or DD/MM/YYYY
-            const parts = dateStr.split('/');
-            if (parts.length === 3) {
-              // Assume MM/DD/YYYY format
-              date = new Date(parseInt(parts[2]), parseInt(parts[0]) - 1, parseInt(parts[1]));
-            }
-          } else if (dateStr.includes('-')) {
-            // Format: YYYY-MM-DD
-            date = new Date(dateStr);
-          } else {
-            // Try parsing as is
-            date = new Date(`${dateStr} ${timeStr}`);
-          }
-          
-          if (!date || isNaN(date.getTime())) {
-            console.warn('Invalid date:', dateStr, timeStr);
-            return false;
-          }
-          
-          const monthYear = date.toLocaleDateString('en-US', { month: 'short', year: 'numeric' });
-          return monthYear === filters.month;
-        } catch (error) {
-          console.warn('Error parsing date:', item.Date, item.Time, error);
-          return false;
-        }
-      });
-    }
-    
-    if (filters.year) {
-      filtered = filtered.filter(item => {
-        try {
-          const dateStr = item.Date.trim();
-          const timeStr = item.Time.trim();
-          
-          let date;
-          if (dateStr.includes('/')) {
-            const parts = dateStr.split('/');
-            if (parts.length === 3) {
-              date = new Date(parseInt(parts[2]), parseInt(parts[0]) - 1, parseInt(parts[1]));
-            }
-          } else if (dateStr.includes('-')) {
-            date = new Date(dateStr);
-          } else {
-            date = new Date(`${dateStr} ${timeStr}`);
-          }
-          
-          if (!date || isNaN(date.getTime())) {
-            console.warn('Invalid date:', dateStr, timeStr);
-            return false;
-          }
-          
-          const year = date.getFullYear().toString();
-          return year === filters.year;
-        } catch (error) {
-          console.warn('Error parsing date:', item.Date, item.Time, error);
-          return false;
-        }
-      });
+    if (showLoading) {
+      setFilterLoading(true);
     }
-    
-    setFilteredData(filtered);
-    console.log(`📊 Filtered to ${filtered.length} records`);
-    
-    // Clear any previous errors when applying filters
-    if (error) {
-      setError(null);
-    }
-  };
 
-  const applyFilters = async (filters: { month?: string; year?: string }) => {
-    console.log('🔍 Applying filters:', filters);
-    setCurrentFilters(filters);
-    setFilterLoading(true);
-    
     try {
-      if (Object.keys(filters).length > 0) {
-        // Check if we need to fetch all data for proper filtering
-        if (allData.length === 0) {
-          console.log('📥 Fetching all data for filtering...');
-          const freshData = await getAllBuoyData();
-          setAllData(freshData);
-          console.log(`✅ Loaded ${freshData.length} records for filtering`);
-          applyFiltersToData(freshData, filters);
-        } else {
-          // We already have all data, apply filters immediately
-          console.log(`🔍 Filtering ${allData.length} records`);
-          applyFiltersToData(allData, filters);
-        }
-      } else {
-        // No filters, clear filtered data
-        setFilteredData([]);
-      }
+      const rows = await queryBuoyData(resolveDateRange(range), 50, controller.signal);
+      setFilteredData(rows);
+      setError(null);
     } catch (error) {
-      console.error('❌ Error applying filters:', error);
-      setError('Failed to apply filters. Please try again.');
+      if (isAbortError(error)) return;
+      console.error('❌ Error loading date range:', error);
+      setError(describeApiError(error, 'Failed to load this time range. Please try again.'));
     } finally {
-      setFilterLoading(false);
+      if (!controller.signal.aborted) {
+        setFilterLoading(false);
+      }
     }
   };
 
+  useEffect(() => {
+    if (dateRange.kind === 'all') {
+      filterAbortRef.current?.abort();
+      setFilteredData([]);
+      setFilterLoading(false);
+      setError(null);
+      return;
+    }
+    loadRange(dateRange);
+  }, [dateRange]);
+
   const onRefresh = async () => {
     setRefreshing(true);
     try {
-      // Clear filters and reset to unfiltered view
-      console.log('🔄 Refreshing and clearing filters...');
-      setCurrentFilters({});
-      setFilteredData([]);
-      setAllData([]);
-      // Trigger clear filters in DataTable component
-      setClearFiltersTrigger(prev => prev + 1);
-      await fetchData(1); // Go back to first page of paginated view
+      // The time range is shared with the Graph tab, so a refresh keeps it
+      // Let the other tabs pick up new data too; this screen reloads itself
+      refreshingRef.current = true;
+      try {
+        await refreshBuoyData();
+      } finally {
+        refreshingRef.current = false;
+      }
+      if (isFiltered) {
+        await loadRange(dateRange, false);
+      } else {
+        await fetchData(1); // Go back to first page of paginated view
+      }
     } catch (error) {
       console.error('Error during refresh:', error);
       setError('Failed to refresh data. Please try again.');
@@ -218,94 +158,34 @@ const DataScreen = () => {
     return csvContent;
   };
 
-  const filterData = (dataToFilter: BuoyData[], filters: { month?: string; year?: string }): BuoyData[] => {
-    console.log(`🔍 Filtering ${dataToFilter.length} records with filters:`, filters);
-    let filtered = [...dataToFilter];
-    
-    if (filters.month) {
-      filtered = filtered.filter(item => {
-        try {
-          // Parse date more carefully
-          const dateStr = item.Date.trim();
-          const timeStr = item.Time.trim();
-          
-          // Handle different date formats
-          let date;
-          if (dateStr.includes('/')) {
-            // Format: MM/DD/YYYY or DD/MM/YYYY
-            const parts = dateStr.split('/');
-            if (parts.length === 3) {
-              // Assume MM/DD/YYYY format
-              date = new Date(parseInt(parts[2]), parseInt(parts[0]) - 1, parseInt(parts[1]));
-            }
-          } else if (dateStr.includes('-')) {
-            // Format: YYYY-MM-DD
-            date = new Date(dateStr);
-          } else {
-            // Try parsing as is
-            date = new Date(`${dateStr} ${timeStr}`);
-          }
-          
-          if (!date || isNaN(date.getTime())) {
-            console.warn('Invalid date:', dateStr, timeStr);
-            return false;
-          }
-          
-          const monthYear = date.toLocaleDateString('en-US', { month: 'short', year: 'numeric' });
-          return monthYear === filters.month;
-        } catch (error) {
-          console.warn('Error parsing date:', item.Date, item.Time, error);
-          return false;
-        }
-      });
-    }
-    
-    if (filters.year) {
-      filtered = filtered.filter(item => {
-        try {
-          const dateStr = item.Date.trim();
-          const timeStr = item.Time.trim();
-          
-          let date;
-          if (dateStr.includes('/')) {
-            const parts = dateStr.split('/');
-            if (parts.length === 3) {
-              date = new Date(parseInt(parts[2]), parseInt(parts[0]) - 1, parseInt(parts[1]));
-            }
-          } else if (dateStr.includes('-')) {
-            date = new Date(dateStr);
-          } else {
-            date = new Date(`${dateStr} ${timeStr}`);
-          }
-          
-          if (!date || isNaN(date.getTime())) {
-            console.warn('Invalid date:', dateStr, timeStr);
-            return false;
-          }
-          
-          const year = date.getFullYear().toString();
-          return year === filters.year;
-        } catch (error) {
-          console.warn('Error parsing date:', item.Date, item.Time, error);
-          return false;
-        }
-      });
-    }
-    
-    console.log(`📊 Filtered to ${filtered.length} records`);
-    return filtered;
-  };
-
-
   // downloadCSV removed per request
 
   useEffect(() => {
     fetchData(1);
+    return () => {
+      pageAbortRef.current?.abort();
+      filterAbortRef.current?.abort();
+    };
+  }, []);
+
+  // Quietly reload the visible page or range when another tab brings in new data
+  const reloadPageRef = useRef<() => Promise<void>>(async () => {});
+  reloadPageRef.current = async () => {
+    if (refreshingRef.current) return;
+    if (isFiltered) {
+      await loadRange(dateRange, false);
+    } else {
+      await fetchData(currentPage, false);
+    }
+  };
+
+  useEffect(() => {
+    return subscribeToBuoyData(() => reloadPageRef.current());
   }, []);
 
   // Determine which data to display
-  const displayData = Object.keys(currentFilters).length > 0 ? filteredData : data;
-  const displayTotalPages = Object.keys(currentFilters).length > 0 ? Math.ceil(filteredData.length / 10) : totalPages;
+  const displayData = isFiltered ? filteredData : data;
+  const displayTotalPages = isFiltered ? Math.ceil(filteredData.length / 10) : totalPages;
 
   if ((loading && !refreshing) || filterLoading) {
     return (
@@ -314,7 +194,7 @@ const DataScreen = () => {
         <View style={styles.loadingContainer}>
           <ActivityIndicator size="large" color="#0ea5e9" />
           <Text style={styles.loadingText}>
-            {filterLoading ? 'Filtering data...' : 'Loading data...'}
+            {filterLoading ? `Loading ${describeDateRange(dateRange)}...` : 'Loading data...'}
           </Text>
         </View>
       </View>
@@ -329,6 +209,12 @@ const DataScreen = () => {
           <View style={styles.titleRow}>
             <View style={styles.titleContainer}>
               <Text style={styles.title}>Data</Text>
+              {showingStoredData && (
+                <View style={styles.offlineIndicator}>
+                  <Ionicons name="cloud-offline" size={14} color="#f59e0b" />
+                  <Text style={styles.offlineText}>Offline - showing stored readings</Text>
+                </View>
+              )}
             </View>
           </View>
           
@@ -347,8 +233,6 @@ const DataScreen = () => {
             currentPage={currentPage}
             totalPages={displayTotalPages}
             onPageChange={onPageChange}
-            onFilterChange={applyFilters}
-            clearFiltersTrigger={clearFiltersTrigger}
           />
         )}
       </View>
@@ -376,6 +260,17 @@ const styles = StyleSheet.create({
     justifyContent: 'space-between',
     alignItems: 'flex-start',
   },
+  offlineIndicator: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 4,
+  },
+  offlineText: {
+    fontSize: 12,
+    fontWeight: '500',
+    color: '#f59e0b',
+    marginLeft: 4,
+  },
   titleContainer: {
     flex: 1,
   },
@@ -1,13 +1,19 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
 import { View, Text, StyleSheet, ActivityIndicator, RefreshControl, ScrollView, TouchableOpacity, Platform, Modal } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
-import { useNavigation } from '@react-navigation/native';
+import { RouteProp, useNavigation, useRoute } from '@react-navigation/native';
 import Header from '../components/Header';
-import BuoyGraph from '../components/BuoyGraph';
-import { getLatestBuoyDataForGraph, BuoyData, testApiConnection, fetchBuoyData } from '../services/buoyService';
+import BuoyGraph, { GraphFocus } from '../components/BuoyGraph';
+import { MainTabParamList } from '../navigation/TabNavigator';
+import { getLatestReadingsForGraph, getStoredReadings, testApiConnection, fetchBuoyData, refreshBuoyData, subscribeToBuoyData, isAbortError } from '../services/buoyService';
+import { BuoyReading, fromBuoyReading, formatMonthYear, hasValidLocation } from '../services/buoyReading';
+import { withQualityFlags, withoutBadValues } from '../services/qualityControl';
+import { StatisticExtreme, formatCompleteness, formatStatistic, summarizeParameters } from '../services/statistics';
+import { WQI_CATEGORY_COLORS, WQI_CATEGORY_LABELS, computeWqi, formatWqi, getWaterQualityStandard, summarizeWqiByBuoy } from '../services/waterQuality';
 import { settingsService, loadSettings } from '../services/settingsService';
+import { isOnline } from '../services/networkService';
+import { OfflineError, describeApiError } from '../services/apiErrors';
 import { sendMultipleBuoysNotification } from '../services/notificationService';
-import { getCachedBuoyData, cacheBuoyData, isOfflineModeEnabled, clearCache } from '../services/offlineService';
 import * as FileSystem from 'expo-file-system/legacy';
 import * as Sharing from 'expo-sharing';
 import * as Print from 'expo-print';
@@ -22,64 +28,81 @@ const footerPNGAsset = Asset.fromModule(require('../assets/footer.png'));
 
 const GraphScreen = () => {
   const navigation = useNavigation();
-  const [graphData, setGraphData] = useState<BuoyData[]>([]);
+  const route = useRoute<RouteProp<MainTabParamList, 'Graph'>>();
+  const [graphData, setGraphData] = useState<BuoyReading[]>([]);
+  // Stored readings for a deep-linked window, which may be older than the latest points
+  const [linkedReadings, setLinkedReadings] = useState<BuoyReading[]>([]);
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [showingStoredData, setShowingStoredData] = useState(false);
   const [generating, setGenerating] = useState(false);
   const [showDownloadModal, setShowDownloadModal] = useState(false);
   const [downloadProgress, setDownloadProgress] = useState('Reading Data...');
   const [downloadComplete, setDownloadComplete] = useState(false);
   const cancelDownloadRef = useRef(false);
+  // Outstanding graph load and report crawl, aborted when superseded or on unmount
+  const fetchAbortRef = useRef<AbortController | null>(null);
+  const reportAbortRef = useRef<AbortController | null>(null);
 
   const fetchGraphData = async () => {
+    fetchAbortRef.current?.abort();
+    const controller = new AbortController();
+    fetchAbortRef.current = controller;
+    const { signal } = controller;
+
     try {
       console.log('🚀 GraphScreen: Starting to fetch graph data...');
       setError(null);
       
       // Test API connection first
-      await testApiConnection();
+      await testApiConnection(signal);
       
       const settings = await loadSettings();
       const dataPoints = settings.dataRetentionPoints;
       console.log('⚙️ GraphScreen: Settings loaded, dataPoints:', dataPoints);
       
-      let data: BuoyData[] = [];
+      let data: BuoyReading[] = [];
       let isOfflineData = false;
       
-      // First, try to get data from API
+      // Show stored history straight away while the network request runs
+      if (graphData.length === 0) {
+        const stored = await getStoredReadings({ limit: dataPoints });
+        if (stored.length > 0) {
+          setGraphData(stored);
+          setShowingStoredData(true);
+          setLoading(false);
+        }
+      }
+      
+      // Then try to get fresh data from API
       try {
-        console.log('📡 GraphScreen: Calling getLatestBuoyDataForGraph...');
-        data = await getLatestBuoyDataForGraph(dataPoints);
-        console.log('📊 GraphScreen: API returned', data.length, 'data points');
-        
-        // If we got data from API and offline mode is enabled, cache it
-        if (data.length > 0 && isOfflineModeEnabled()) {
-          await cacheBuoyData(data);
+        if (!(await isOnline())) {
+          throw new OfflineError();
         }
+        console.log('📡 GraphScreen: Calling getLatestReadingsForGraph...');
+        data = await getLatestReadingsForGraph(dataPoints, signal);
+        console.log('📊 GraphScreen: API returned', data.length, 'data points');
       } catch (apiError) {
-        console.log('❌ GraphScreen: API fetch failed, trying offline data...', apiError);
-        
-        // If API fails, try to get cached offline data
-        if (isOfflineModeEnabled()) {
-          const cachedData = await getCachedBuoyData();
-          if (cachedData && cachedData.length > 0) {
-            data = cachedData.slice(0, dataPoints);
-            isOfflineData = true;
-            console.log('Using offline cached data for graphs');
-          }
+        if (isAbortError(apiError)) {
+          throw apiError;
         }
+        console.log('❌ GraphScreen: API fetch failed, trying stored data...', apiError);
+        
+        // If API fails, fall back to readings stored on the device
+        data = await getStoredReadings({ limit: dataPoints });
+        isOfflineData = true;
         
         if (data.length === 0) {
-          throw apiError; // Re-throw if no offline data available
+          throw apiError; // Re-throw if no stored data available
         }
       }
+      setShowingStoredData(isOfflineData);
       
       // Check if this is new data
       const isNewData = graphData.length > 0 && (
         data.length !== graphData.length || 
-        data[0]?.Date !== graphData[0]?.Date ||
-        data[0]?.Time !== graphData[0]?.Time
+        data[0]?.timestamp !== graphData[0]?.timestamp
       );
       
       console.log('✅ GraphScreen: Setting graph data:', data.length, 'records');
@@ -87,29 +110,79 @@ const GraphScreen = () => {
       
       // Send notification for new graph data (only for online data)
       if (isNewData && data.length > 0 && !isOfflineData) {
-        await sendMultipleBuoysNotification(data);
+        await sendMultipleBuoysNotification(data.map(fromBuoyReading));
       }
     } catch (err) {
+      if (isAbortError(err)) {
+        console.log('🛑 GraphScreen: Superseded graph load cancelled');
+        return;
+      }
       console.error('❌ GraphScreen: Error fetching graph data:', err);
-      setError('Failed to fetch graph data. Please try again.');
+      setError(describeApiError(err, 'Failed to fetch graph data. Please try again.'));
     } finally {
-      console.log('🏁 GraphScreen: Finished loading, setting loading to false');
-      setLoading(false);
+      if (!signal.aborted) {
+        console.log('🏁 GraphScreen: Finished loading, setting loading to false');
+        setLoading(false);
+      }
     }
   };
 
+  // Refreshing reloads every subscribed tab, including this one
   const onRefresh = async () => {
     setRefreshing(true);
-    await fetchGraphData();
+    await refreshBuoyData();
     setRefreshing(false);
   };
 
+  // Keep the subscription pointed at the latest render's state
+  const fetchGraphDataRef = useRef(fetchGraphData);
+  fetchGraphDataRef.current = fetchGraphData;
+
   useEffect(() => {
     fetchGraphData();
+    const unsubscribe = subscribeToBuoyData(() => fetchGraphDataRef.current());
+    return () => {
+      unsubscribe();
+      // Leaving the screen stops any graph load or report crawl still in flight
+      fetchAbortRef.current?.abort();
+      cancelDownloadRef.current = true;
+      reportAbortRef.current?.abort();
+    };
   }, []);
 
+  // A deep link (graph?buoy=&parameter=&from=&to=) focuses the graph on one buoy and window
+  const focus = useMemo<GraphFocus | undefined>(() => {
+    const params = route.params;
+    if (!params) return undefined;
+    const parameter = params.parameter === 'pH' || params.parameter === 'temperature' || params.parameter === 'tds'
+      ? params.parameter
+      : undefined;
+    return { buoyId: params.buoy, parameter, from: params.from, to: params.to };
+  }, [route.params]);
+
+  useEffect(() => {
+    if (!focus || (focus.from === undefined && focus.to === undefined)) {
+      setLinkedReadings([]);
+      return;
+    }
+    let cancelled = false;
+    getStoredReadings({ buoyId: focus.buoyId, from: focus.from, to: focus.to }).then(readings => {
+      if (!cancelled) setLinkedReadings(readings);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [focus]);
+
+  const chartData = useMemo(() => {
+    if (linkedReadings.length === 0) return graphData;
+    const ids = new Set(graphData.map(reading => reading.id));
+    return [...graphData, ...linkedReadings.filter(reading => !ids.has(reading.id))];
+  }, [graphData, linkedReadings]);
+
   const cancelDownload = () => {
     cancelDownloadRef.current = true;
+    reportAbortRef.current?.abort();
     setShowDownloadModal(false);
     setGenerating(false);
     setDownloadProgress('Reading Data...');
@@ -120,22 +193,13 @@ const GraphScreen = () => {
     try {
       // Reset cancel flag and show modal first
       cancelDownloadRef.current = false;
+      reportAbortRef.current?.abort();
+      const reportController = new AbortController();
+      reportAbortRef.current = reportController;
       setGenerating(true);
       setShowDownloadModal(true);
-      setDownloadProgress('Clearing cache...');
       setDownloadComplete(false);
       
-      // Clear cached data and reset state before starting download
-      console.log('🧹 Clearing cached data and resetting state...');
-      try {
-        await clearCache();
-        console.log('✅ Cache cleared successfully');
-        // Small delay to ensure cache is fully cleared
-        await new Promise(resolve => setTimeout(resolve, 500));
-      } catch (clearErr) {
-        console.log('⚠️ Error clearing cache (continuing anyway):', clearErr);
-      }
-      
       // Clear graph data from state to free memory
       setGraphData([]);
       setError(null);
@@ -148,49 +212,10 @@ const GraphScreen = () => {
       // Update progress
       setDownloadProgress('Reading Data...');
       
-      // Helper to parse date and extract month, filtering out invalid years (like 2068)
-      const getMonthFromRecord = (dateStr: string, timeStr: string): string | null => {
-        const trimmedDate = (dateStr || '').trim();
-        const trimmedTime = (timeStr || '').trim();
-        
-        let date: Date | null = null;
-        if (trimmedDate.includes('/')) {
-          const parts = trimmedDate.split('/');
-          if (parts.length === 3) {
-            const year = parseInt(parts[2], 10);
-            // Filter out invalid years (like 2068)
-            if (year < 2020 || year > 2030) {
-              return null;
-            }
-            date = new Date(year, parseInt(parts[0], 10) - 1, parseInt(parts[1], 10));
-            if (isNaN(date.getTime())) {
-              date = new Date(year, parseInt(parts[1], 10) - 1, parseInt(parts[0], 10));
-            }
-          }
-        } else if (trimmedDate.includes('-')) {
-          date = new Date(trimmedDate);
-          // Filter out invalid years
-          if (date.getFullYear() < 2020 || date.getFullYear() > 2030) {
-            return null;
-          }
-        } else {
-          date = new Date(`${trimmedDate} ${trimmedTime}`);
-          // Filter out invalid years
-          if (date.getFullYear() < 2020 || date.getFullYear() > 2030) {
-            return null;
-          }
-        }
-        
-        if (date && !isNaN(date.getTime()) && date.getFullYear() >= 2020 && date.getFullYear() <= 2030) {
-          return date.toLocaleDateString('en-US', { month: 'short', year: 'numeric' });
-        }
-        return null;
-      };
-
       // Fetch ALL data from API to compare months (limit to 50 pages to prevent timeout)
       console.log('📊 Fetching all data from API for month comparison...');
       setDownloadProgress('Reading Data...');
-      const allData: BuoyData[] = [];
+      const allData: BuoyReading[] = [];
       let page = 1;
       let hasMore = true;
       const maxPages = 50; // Limit pages to prevent timeout
@@ -207,12 +232,12 @@ const GraphScreen = () => {
           setDownloadProgress(`Reading Data... (Page ${page})`);
         }
         
-        const response = await fetchBuoyData(page);
+        const response = await fetchBuoyData(page, undefined, undefined, reportController.signal);
         if (response.data.length === 0) {
           hasMore = false;
           break;
         }
-        allData.push(...response.data);
+        allData.push(...response.readings);
         page++;
       }
       
@@ -227,10 +252,17 @@ const GraphScreen = () => {
       console.log(`✅ Fetched ${allData.length} total records from API`);
       setDownloadProgress('Processing Data...');
 
+      // Re-run QC over the whole history so spike/flatline checks see every neighbour,
+      // then leave values that failed QC out of the charts and tables
+      const assessedData = withQualityFlags(allData);
+      const qcExcludedCount = assessedData.filter(rec => rec.qc?.flag === 'bad').length;
+      const reportData = assessedData.map(withoutBadValues);
+      const wqiStandard = getWaterQualityStandard(settingsService.getSettings().waterQualityStandard);
+
       // Filter out invalid years (like 2068) and group data by month
-      const dataByMonth = new Map<string, BuoyData[]>();
-      allData.forEach(rec => {
-        const monthKey = getMonthFromRecord(rec.Date, rec.Time);
+      const dataByMonth = new Map<string, BuoyReading[]>();
+      reportData.forEach(rec => {
+        const monthKey = rec.timestamp !== null ? formatMonthYear(rec.timestamp) : null;
         if (monthKey) {
           if (!dataByMonth.has(monthKey)) {
             dataByMonth.set(monthKey, []);
@@ -249,16 +281,13 @@ const GraphScreen = () => {
 
       setDownloadProgress('Generating Charts...');
 
-      // Helper to convert string to number
-      const toNum = (v: string | number) => {
-        const n = typeof v === 'number' ? v : parseFloat(String(v).replace(/,/g, ''));
-        return Number.isFinite(n) ? n : NaN;
-      };
+      // Missing sensor values become NaN so chart libraries skip them
+      const toNum = (v: number | null) => (v === null ? NaN : v);
 
       // Generate pie charts for each month showing distribution of pH, Temperature, and TDS within that month
-      const generatePieChartForMonth = (monthKey: string, monthData: BuoyData[], type: 'ph' | 'temp' | 'tds') => {
+      const generatePieChartForMonth = (monthKey: string, monthData: BuoyReading[], type: 'ph' | 'temp' | 'tds') => {
         const values = monthData.map(d => {
-          const val = type === 'ph' ? toNum(d.pH) : type === 'temp' ? toNum(d['Temp (°C)']) : toNum(d['TDS (ppm)']);
+          const val = type === 'ph' ? toNum(d.pH) : type === 'temp' ? toNum(d.temperature) : toNum(d.tds);
           return val;
         }).filter(n => !isNaN(n) && n > 0);
 
@@ -369,30 +398,19 @@ const GraphScreen = () => {
       });
 
       // Generate line graph for EACH available month showing TDS, pH, and Temperature over time
-      const generateLineChartForMonth = (monthKey: string, monthData: BuoyData[]) => {
-        const timeSorted = [...monthData].sort((a, b) => {
-          const dateA = new Date(`${a.Date} ${a.Time}`);
-          const dateB = new Date(`${b.Date} ${b.Time}`);
-          return dateA.getTime() - dateB.getTime();
-        });
+      const generateLineChartForMonth = (monthKey: string, monthData: BuoyReading[]) => {
+        const timeSorted = [...monthData].sort((a, b) => a.timestamp! - b.timestamp!);
 
         // Prepare labels and data for line graph
+        const pad = (n: number) => String(n).padStart(2, '0');
         const labels = timeSorted.map(d => {
-          try {
-            const dateParts = d.Date.includes('-') ? d.Date.split('-') : d.Date.split('/');
-            const timeParts = d.Time.split(':');
-            if (dateParts.length >= 3) {
-              return `${dateParts[1]}-${dateParts[2]} ${timeParts[0]}:${timeParts[1]}`;
-            }
-            return `${d.Date} ${d.Time}`;
-          } catch {
-            return `${d.Date} ${d.Time}`;
-          }
+          const date = new Date(d.timestamp!);
+          return `${pad(date.getMonth() + 1)}-${pad(date.getDate())} ${pad(date.getHours())}:${pad(date.getMinutes())}`;
         });
         
         const phData = timeSorted.map(d => toNum(d.pH));
-        const tempData = timeSorted.map(d => toNum(d['Temp (°C)']));
-        const tdsData = timeSorted.map(d => toNum(d['TDS (ppm)']));
+        const tempData = timeSorted.map(d => toNum(d.temperature));
+        const tdsData = timeSorted.map(d => toNum(d.tds));
         
         // Generate line graph for this month
         const lineChartConfig = {
@@ -577,19 +595,17 @@ const GraphScreen = () => {
       setDownloadProgress('Generating Map...');
 
       // Generate map visualization with buoy locations and connecting lines using Leaflet
-      const generateMapVisualization = (data: BuoyData[]): string => {
+      const generateMapVisualization = (data: BuoyReading[]): string => {
         // Extract unique buoy coordinates (get latest location for each buoy) - matching BuoyMap.tsx logic
         const buoyCoords = new Map<string, { lat: number; lng: number; buoy: string; id: string }>();
         
         data.forEach(item => {
-          const lat = parseFloat(item.Latitude) || 0;
-          const lng = parseFloat(item.Longitude) || 0;
-          const buoy = item.Buoy.trim();
+          const buoy = item.buoy;
           
-          if (lat !== 0 && lng !== 0 && buoy) {
+          if (hasValidLocation(item) && buoy) {
             // Use latest location for each buoy
             if (!buoyCoords.has(buoy)) {
-              buoyCoords.set(buoy, { lat, lng, buoy, id: item.ID });
+              buoyCoords.set(buoy, { lat: item.latitude!, lng: item.longitude!, buoy, id: String(item.id) });
             }
           }
         });
@@ -842,7 +858,7 @@ const GraphScreen = () => {
       setDownloadProgress('Generating PDF...');
 
       // Generate narrative report about GPS movements
-      const generateGPSMovementNarrative = (data: BuoyData[]): string => {
+      const generateGPSMovementNarrative = (data: BuoyReading[]): string => {
         if (!data || data.length === 0) {
           return 'Insufficient GPS data available to analyze location behavior.';
         }
@@ -851,18 +867,8 @@ const GraphScreen = () => {
         const positions: Array<{ lat: number; lng: number; timestamp: number }> = [];
         
         data.forEach(item => {
-          const lat = parseFloat(item.Latitude) || 0;
-          const lng = parseFloat(item.Longitude) || 0;
-          
-          if (lat !== 0 && lng !== 0) {
-            try {
-              const timestamp = new Date(`${item.Date} ${item.Time}`).getTime();
-              if (!isNaN(timestamp)) {
-                positions.push({ lat, lng, timestamp });
-              }
-            } catch (e) {
-              // Skip invalid dates
-            }
+          if (hasValidLocation(item) && item.timestamp !== null) {
+            positions.push({ lat: item.latitude!, lng: item.longitude!, timestamp: item.timestamp });
           }
         });
 
@@ -1055,19 +1061,18 @@ const GraphScreen = () => {
         }
         
         // Generate table rows for all data (all months combined) - on-the-fly
-      const allValidData: BuoyData[] = [];
+      const allValidData: BuoyReading[] = [];
       dataByMonth.forEach((monthData) => {
         allValidData.push(...monthData);
       });
       
       // Sort all data by date
-      const sortedAllData = allValidData.sort((a, b) => {
-        const dateA = new Date(`${a.Date} ${a.Time}`);
-        const dateB = new Date(`${b.Date} ${b.Time}`);
-        return dateB.getTime() - dateA.getTime(); // Newest first
-      });
+      const sortedAllData = allValidData.sort((a, b) => b.timestamp! - a.timestamp!); // Newest first
       
-      const rows = sortedAllData.map(d => `
+      const rows = sortedAllData.map(rec => {
+        const d = fromBuoyReading(rec);
+        const wqi = computeWqi(rec, wqiStandard);
+        return `
         <tr>
           <td style="padding:6px;border:1px solid #e5e7eb">${d.Buoy}</td>
           <td style="padding:6px;border:1px solid #e5e7eb">${d.Date}</td>
@@ -1075,8 +1080,10 @@ const GraphScreen = () => {
           <td style="padding:6px;border:1px solid #e5e7eb">${d.pH}</td>
           <td style="padding:6px;border:1px solid #e5e7eb">${d['Temp (°C)']}</td>
           <td style="padding:6px;border:1px solid #e5e7eb">${d['TDS (ppm)']}</td>
+          <td style="padding:6px;border:1px solid #e5e7eb">${wqi ? formatWqi(wqi.score) : ''}</td>
         </tr>
-      `).join('');
+      `;
+      }).join('');
 
         // For native platforms, convert chart URLs to base64 on-the-fly
         // For web, use URLs directly
@@ -1137,12 +1144,69 @@ const GraphScreen = () => {
             // Generate GPS movement narrative for this month's data
             const monthData = dataByMonth.get(monthKey) || [];
             const monthGPSNarrative = generateGPSMovementNarrative(monthData);
+
+            // Summary statistics for this month, the same numbers the app's charts show
+            const monthStats = summarizeParameters(monthData, {});
+            const formatExtreme = (extreme: StatisticExtreme | null, decimals: number) => {
+              if (!extreme) return '—';
+              const when = new Date(extreme.timestamp).toLocaleString('en-US', { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' });
+              return `${formatStatistic(extreme.value, decimals)}<br/><span style="color:#64748b;">${when}, ${extreme.buoy}</span>`;
+            };
+            const statsRows = ([
+              ['pH', monthStats.pH, 2],
+              ['Temp (°C)', monthStats.temperature, 1],
+              ['TDS (ppm)', monthStats.tds, 0],
+            ] as const).map(([label, stats, decimals]) => `
+              <tr>
+                <td>${label}</td>
+                <td>${stats.count}</td>
+                <td>${formatStatistic(stats.mean, decimals)}</td>
+                <td>${formatStatistic(stats.median, decimals)}</td>
+                <td>${formatExtreme(stats.min, decimals)}</td>
+                <td>${formatExtreme(stats.max, decimals)}</td>
+                <td>${formatStatistic(stats.stdDev, decimals)}</td>
+                <td>${formatStatistic(stats.p10, decimals)}–${formatStatistic(stats.p90, decimals)}</td>
+                <td>${formatCompleteness(stats.completeness)}</td>
+              </tr>
+            `).join('');
+
+            // Water Quality Index per buoy for this month
+            const wqiRows = summarizeWqiByBuoy(monthData, wqiStandard).map(({ buoy, summary }) => `
+              <tr>
+                <td>${buoy}</td>
+                <td>${formatWqi(summary.score)}</td>
+                <td style="color:${WQI_CATEGORY_COLORS[summary.category]};font-weight:bold;">${WQI_CATEGORY_LABELS[summary.category]}</td>
+                <td>${formatWqi(summary.min)}–${formatWqi(summary.max)}</td>
+                <td>${summary.count}</td>
+              </tr>
+            `).join('');
+            const wqiHtml = wqiRows
+              ? `<table>
+                  <thead>
+                    <tr><th>Buoy</th><th>Mean WQI</th><th>Rating</th><th>Range</th><th>Readings</th></tr>
+                  </thead>
+                  <tbody>${wqiRows}</tbody>
+                </table>`
+              : '<p style="font-size:9pt;color:#64748b;">No readings this month could be scored.</p>';
             
             return `
             <div class="page">
               <div class="page-header">${headerImg}</div>
               <div class="content-container">
                 <h2>Water Quality Report - ${monthKey}</h2>
+
+                <h3>Summary Statistics - ${monthKey}</h3>
+                <p style="font-size:9pt;color:#64748b;margin-bottom:8px;">Values that failed quality control are excluded. P10–P90 is the range of the middle 80% of readings. Completeness compares the readings received with those expected at each buoy's reporting interval.</p>
+                <table>
+                  <thead>
+                    <tr><th>Parameter</th><th>N</th><th>Mean</th><th>Median</th><th>Min</th><th>Max</th><th>Std Dev</th><th>P10–P90</th><th>Complete</th></tr>
+                  </thead>
+                  <tbody>${statsRows}</tbody>
+                </table>
+
+                <h3>Water Quality Index - ${monthKey}</h3>
+                <p style="font-size:9pt;color:#64748b;margin-bottom:8px;">Scores from 0 (poor) to 100 (excellent), rated against ${wqiStandard.citation}.</p>
+                ${wqiHtml}
                 
                 <h3>Distribution Charts - ${monthKey}</h3>
                 <div style="display:flex;flex-wrap:wrap;justify-content:space-around;margin:20px 0;">
@@ -1243,6 +1307,8 @@ const GraphScreen = () => {
               <div class="content-container">
                 <h3>Complete Data Table - All Months</h3>
                 <p style="font-size:9pt;color:#64748b;margin-bottom:15px;">All available data from all months (${sortedAllData.length} records)</p>
+                <p style="font-size:9pt;color:#64748b;margin-bottom:15px;">WQI: Water Quality Index rated against ${wqiStandard.citation}. Blank where no parameter covered by the standard was measured.</p>
+                ${qcExcludedCount > 0 ? `<p style="font-size:9pt;color:#b45309;margin-bottom:15px;">${qcExcludedCount} readings had values that failed automated quality control (out of range, spikes, stuck sensors or GPS jumps); those values are left blank and excluded from the charts.</p>` : ''}
                 <table>
                   <thead>
                     <tr>
@@ -1252,6 +1318,7 @@ const GraphScreen = () => {
                       <th>pH</th>
                       <th>Temp (°C)</th>
                       <th>TDS (ppm)</th>
+                      <th>WQI</th>
                     </tr>
                   </thead>
                   <tbody>
@@ -1546,6 +1613,10 @@ const GraphScreen = () => {
       allData.length = 0;
       
     } catch (e) {
+      if (isAbortError(e)) {
+        console.log('❌ Download cancelled by user');
+        return;
+      }
       console.error('Error generating report', e);
       if (!cancelDownloadRef.current) {
       setError('Failed to generate report. Please try again.');
@@ -1599,7 +1670,15 @@ const GraphScreen = () => {
           ) : graphData.length > 0 ? (
             <>
               {console.log('📈 GraphScreen: Rendering BuoyGraph with', graphData.length, 'data points')}
-              <BuoyGraph data={graphData} />
+              {showingStoredData && (
+                <View style={styles.offlineIndicator}>
+                  <Ionicons name="cloud-offline" size={14} color="#f59e0b" />
+                  <Text style={styles.offlineText}>
+                    Showing stored readings - pull to refresh
+                  </Text>
+                </View>
+              )}
+              <BuoyGraph data={chartData} focus={focus} />
               
               {/* Report Section - Only show when data is loaded */}
               <View style={styles.reportSection}>
@@ -1745,6 +1824,17 @@ const styles = StyleSheet.create({
     textAlign: 'center',
     paddingHorizontal: 20,
   },
+  offlineIndicator: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  offlineText: {
+    fontSize: 12,
+    fontWeight: '500',
+    color: '#f59e0b',
+    marginLeft: 4,
+  },
   noDataContainer: {
     flex: 1,
     justifyContent: 'center',
@@ -1,48 +1,99 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { View, Text, StyleSheet, ActivityIndicator, TouchableOpacity } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
-import { useRoute } from '@react-navigation/native';
+import { RouteProp, useRoute } from '@react-navigation/native';
 import Header from '../components/Header';
 import BuoyMap from '../components/BuoyMap';
-import { getLatestBuoyDataForGraph, BuoyData } from '../services/buoyService';
+import BuoyStatusBadges from '../components/BuoyStatusBadges';
+import { getLatestReadingsForGraph, getStoredReadings, refreshBuoyData, subscribeToBuoyData, isAbortError } from '../services/buoyService';
+import { isOnline } from '../services/networkService';
+import { OfflineError, describeApiError } from '../services/apiErrors';
+import { BuoyReading, hasValidLocation } from '../services/buoyReading';
+import { MainTabParamList } from '../navigation/TabNavigator';
+
+type MapLocation = { latitude: number; longitude: number; buoy: string };
 
 const MapScreen = () => {
-  const route = useRoute();
-  // Get latestLocation from route params if provided
-  const latestLocation = (route.params as any)?.latestLocation as {
-    latitude: number;
-    longitude: number;
-    buoy: string;
-  } | undefined;
-  const [mapData, setMapData] = useState<BuoyData[]>([]);
+  const route = useRoute<RouteProp<MainTabParamList, 'Map'>>();
+  // A buoy card passes its location; a deep link (map?buoy=2) passes only the buoy
+  const linkedBuoy = route.params?.buoy;
+  const [linkedLocation, setLinkedLocation] = useState<MapLocation | undefined>(undefined);
+  const latestLocation = route.params?.latestLocation ?? linkedLocation;
+  const [mapData, setMapData] = useState<BuoyReading[]>([]);
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [showingStoredData, setShowingStoredData] = useState(false);
   const [refreshKey, setRefreshKey] = useState(0); // Key to force map refresh
+  const fetchAbortRef = useRef<AbortController | null>(null);
 
   const fetchMapData = async () => {
+    fetchAbortRef.current?.abort();
+    const controller = new AbortController();
+    fetchAbortRef.current = controller;
+
     try {
       setError(null);
-      const data = await getLatestBuoyDataForGraph(20);
-      setMapData(data);
+      
+      // Show stored readings straight away while the network request runs
+      if (mapData.length === 0) {
+        const stored = await getStoredReadings({ limit: 20 });
+        if (stored.length > 0) {
+          setMapData(stored);
+          setLoading(false);
+        }
+      }
+      
+      if (await isOnline()) {
+        const data = await getLatestReadingsForGraph(20, controller.signal);
+        setMapData(data);
+        setShowingStoredData(false);
+      } else {
+        const stored = await getStoredReadings({ limit: 20 });
+        if (stored.length === 0) {
+          throw new OfflineError();
+        }
+        setMapData(stored);
+        setShowingStoredData(true);
+      }
       // Increment refresh key to trigger map update
       setRefreshKey(prev => prev + 1);
     } catch (err) {
-      setError('Failed to fetch map data. Please try again.');
+      if (isAbortError(err)) return;
+      setError(describeApiError(err, 'Failed to fetch map data. Please try again.'));
       console.error('Error fetching map data:', err);
     } finally {
-      setLoading(false);
+      if (!controller.signal.aborted) {
+        setLoading(false);
+      }
     }
   };
 
+  // Refreshing reloads every subscribed tab, including this one
   const onRefresh = async () => {
     setRefreshing(true);
-    await fetchMapData();
+    await refreshBuoyData();
     setRefreshing(false);
-    // Reset refresh key to force map update
-    setRefreshKey(prev => prev + 1);
   };
 
+  // Centre on the linked buoy's last known position, even if it is not among the latest readings
+  useEffect(() => {
+    if (linkedBuoy === undefined) {
+      setLinkedLocation(undefined);
+      return;
+    }
+    let cancelled = false;
+    getStoredReadings({ buoyId: linkedBuoy, limit: 20 }).then(readings => {
+      const reading = readings.find(hasValidLocation);
+      if (cancelled || !reading) return;
+      setLinkedLocation({ latitude: reading.latitude as number, longitude: reading.longitude as number, buoy: reading.buoy });
+      setRefreshKey(prev => prev + 1);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [linkedBuoy, route.params]);
+
   // Track if data has been loaded
   const [hasLoaded, setHasLoaded] = useState(false);
 
@@ -54,6 +105,18 @@ const MapScreen = () => {
     }
   }, [hasLoaded]);
 
+  // Reload when any tab brings in new data
+  const fetchMapDataRef = useRef(fetchMapData);
+  fetchMapDataRef.current = fetchMapData;
+
+  useEffect(() => {
+    const unsubscribe = subscribeToBuoyData(() => fetchMapDataRef.current());
+    return () => {
+      unsubscribe();
+      fetchAbortRef.current?.abort();
+    };
+  }, []);
+
   return (
     <View style={styles.container}>
       <Header title="AquaNet" />
@@ -62,6 +125,12 @@ const MapScreen = () => {
           <View style={styles.titleContainer}>
             <Text style={styles.title}>Buoy Locations</Text>
             <Text style={styles.subtitle}>Real-time sensor network map</Text>
+            {showingStoredData && (
+              <View style={styles.offlineIndicator}>
+                <Ionicons name="cloud-offline" size={14} color="#f59e0b" />
+                <Text style={styles.offlineText}>Offline - showing stored locations</Text>
+              </View>
+            )}
           </View>
           <TouchableOpacity
             style={styles.refreshButton}
@@ -75,6 +144,10 @@ const MapScreen = () => {
             )}
           </TouchableOpacity>
         </View>
+
+        <View style={styles.statusBadges}>
+          <BuoyStatusBadges />
+        </View>
         
         {loading ? (
           <View style={styles.loadingContainer}>
@@ -129,9 +202,23 @@ const styles = StyleSheet.create({
     color: '#64748b',
     textAlign: 'left',
   },
+  offlineIndicator: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 4,
+  },
+  offlineText: {
+    fontSize: 12,
+    fontWeight: '500',
+    color: '#f59e0b',
+    marginLeft: 4,
+  },
   refreshButton: {
     padding: 8,
   },
+  statusBadges: {
+    marginBottom: 12,
+  },
   mapContainer: {
     flex: 1,
     borderRadius: 16,
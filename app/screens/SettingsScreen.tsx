@@ -19,6 +19,25 @@ import {
   saveSettings as saveAppSettings,
   resetSettings as resetAppSettings
 } from '../services/settingsService';
+import {
+  AlertRule,
+  NewAlertRule,
+  ALERT_SEVERITY_COLORS,
+  ALERT_SEVERITY_LABELS,
+  describeAlertRule,
+  getAlertRules,
+  addAlertRule,
+  updateAlertRule,
+  deleteAlertRule,
+  resetAlertRules,
+  subscribeToAlertRules,
+} from '../services/alertService';
+import { getAvailableBuoyNumbers } from '../services/buoyService';
+import { WATER_QUALITY_STANDARDS } from '../services/waterQuality';
+import { AnomalyMethod } from '../services/anomalyDetection';
+import AlertRuleEditor from '../components/AlertRuleEditor';
+import BackgroundSyncDiagnostics from '../components/BackgroundSyncDiagnostics';
+import PushSubscriptionSettings from '../components/PushSubscriptionSettings';
 // Notifications removed from settings
 
 
@@ -40,10 +59,75 @@ const DATA_RETENTION_OPTIONS = [
   { label: '100 points', value: 100 },
 ];
 
+// On-device history retention options
+const HISTORY_RETENTION_OPTIONS = [
+  { label: '30 days', value: 30 },
+  { label: '90 days', value: 90 },
+  { label: '6 months', value: 180 },
+  { label: '1 year', value: 365 },
+  { label: 'Keep everything', value: 0 },
+];
+
+const HISTORY_SIZE_OPTIONS = [
+  { label: '10,000 readings', value: 10000 },
+  { label: '50,000 readings', value: 50000 },
+  { label: '200,000 readings', value: 200000 },
+  { label: 'No limit', value: 0 },
+];
+
+// Silence after which a buoy is reported offline
+const BUOY_OFFLINE_OPTIONS = [
+  { label: '30 minutes', value: 30 },
+  { label: '1 hour', value: 60 },
+  { label: '2 hours', value: 120 },
+  { label: '6 hours', value: 360 },
+  { label: '12 hours', value: 720 },
+  { label: '24 hours', value: 1440 },
+];
+
+// Notification digest window options (minutes)
+const DIGEST_OPTIONS = [
+  { label: 'Send each one', value: 0 },
+  { label: '1 minute', value: 1 },
+  { label: '5 minutes', value: 5 },
+  { label: '15 minutes', value: 15 },
+  { label: '30 minutes', value: 30 },
+  { label: '1 hour', value: 60 },
+];
+
+const WATER_QUALITY_STANDARD_OPTIONS = Object.values(WATER_QUALITY_STANDARDS);
+
+const ANOMALY_METHOD_OPTIONS: { label: string; value: AnomalyMethod; description: string }[] = [
+  { label: 'Robust (median / Qn)', value: 'robust', description: 'Past spikes barely move the baseline' },
+  { label: 'Standard z-score', value: 'zscore', description: 'Mean and standard deviation of recent readings' },
+];
+
+// Score beyond which a reading is flagged
+const ANOMALY_THRESHOLD_OPTIONS = [
+  { label: 'Sensitive', value: 2.5 },
+  { label: 'Balanced', value: 3.5 },
+  { label: 'Large only', value: 5 },
+];
+
+// Previous readings forming the baseline
+const ANOMALY_WINDOW_OPTIONS = [12, 24, 48, 96];
+
+const QUIET_START_HOURS = [20, 21, 22, 23, 0];
+const QUIET_END_HOURS = [5, 6, 7, 8, 9];
+
+const formatHour = (hour: number): string => {
+  const suffix = hour < 12 ? 'AM' : 'PM';
+  return `${hour % 12 === 0 ? 12 : hour % 12} ${suffix}`;
+};
+
 const SettingsScreen = () => {
   const [settings, setSettings] = useState<AppSettings>(DEFAULT_SETTINGS);
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
+  const [alertRules, setAlertRules] = useState<AlertRule[]>([]);
+  const [buoyNumbers, setBuoyNumbers] = useState<number[]>([]);
+  const [editorVisible, setEditorVisible] = useState(false);
+  const [editingRule, setEditingRule] = useState<AlertRule | null>(null);
   // Notifications removed from settings
 
   // Load settings from storage
@@ -107,6 +191,77 @@ const SettingsScreen = () => {
     setSettings(newSettings);
   };
 
+  // Alert rules are saved as soon as they change, separately from the settings above
+  const openRuleEditor = (rule: AlertRule | null) => {
+    setEditingRule(rule);
+    setEditorVisible(true);
+  };
+
+  const saveAlertRule = async (rule: NewAlertRule | AlertRule) => {
+    try {
+      if ('id' in rule) {
+        await updateAlertRule(rule);
+      } else {
+        await addAlertRule(rule);
+      }
+      setEditorVisible(false);
+    } catch (error) {
+      console.error('Error saving alert rule:', error);
+      Alert.alert('Error', 'Failed to save the alert rule. Please try again.');
+    }
+  };
+
+  const toggleAlertRule = async (rule: AlertRule, enabled: boolean) => {
+    try {
+      await updateAlertRule({ ...rule, enabled });
+    } catch (error) {
+      console.error('Error updating alert rule:', error);
+    }
+  };
+
+  const confirmDeleteAlertRule = (rule: AlertRule) => {
+    Alert.alert(
+      'Delete Alert Rule',
+      `Delete "${describeAlertRule(rule)}"?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await deleteAlertRule(rule.id);
+            } catch (error) {
+              console.error('Error deleting alert rule:', error);
+              Alert.alert('Error', 'Failed to delete the alert rule. Please try again.');
+            }
+          }
+        }
+      ]
+    );
+  };
+
+  const confirmResetAlertRules = () => {
+    Alert.alert(
+      'Restore Default Rules',
+      'Replace all alert rules with the default set?',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Restore',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await resetAlertRules();
+            } catch (error) {
+              console.error('Error resetting alert rules:', error);
+            }
+          }
+        }
+      ]
+    );
+  };
+
   // Format refresh interval for display
   const formatRefreshInterval = (seconds: number): string => {
     if (seconds === 0) return 'Manual Only';
@@ -117,10 +272,12 @@ const SettingsScreen = () => {
 
   useEffect(() => {
     const initializeSettings = async () => {
-      await Promise.all([loadSettings()]);
+      await Promise.all([loadSettings(), getAlertRules().then(setAlertRules)]);
       setLoading(false);
     };
     initializeSettings();
+    getAvailableBuoyNumbers().then(setBuoyNumbers);
+    return subscribeToAlertRules(setAlertRules);
   }, []);
 
   if (loading) {
@@ -184,6 +341,423 @@ const SettingsScreen = () => {
             </View>
           </View>
 
+          {/* Local History */}
+          <View style={styles.section}>
+            <View style={styles.sectionHeader}>
+              <Ionicons name="server" size={24} color="#0ea5e9" />
+              <Text style={styles.sectionTitle}>Local History</Text>
+            </View>
+            <Text style={styles.sectionDescription}>
+              How long readings are kept on this device for offline graphs, maps and tables
+            </Text>
+            
+            <View style={styles.optionsContainer}>
+              {HISTORY_RETENTION_OPTIONS.map((option) => (
+                <TouchableOpacity
+                  key={option.value}
+                  style={[
+                    styles.optionButton,
+                    settings.historyRetentionDays === option.value && styles.optionButtonSelected
+                  ]}
+                  onPress={() => updateSetting('historyRetentionDays', option.value)}
+                >
+                  <Text style={[
+                    styles.optionText,
+                    settings.historyRetentionDays === option.value && styles.optionTextSelected
+                  ]}>
+                    {option.label}
+                  </Text>
+                  {settings.historyRetentionDays === option.value && (
+                    <Ionicons name="checkmark" size={20} color="#0ea5e9" />
+                  )}
+                </TouchableOpacity>
+              ))}
+            </View>
+
+            <Text style={[styles.sectionDescription, styles.subsectionDescription]}>
+              Maximum number of readings to keep
+            </Text>
+            <View style={styles.optionsContainer}>
+              {HISTORY_SIZE_OPTIONS.map((option) => (
+                <TouchableOpacity
+                  key={option.value}
+                  style={[
+                    styles.optionButton,
+                    settings.historyMaxReadings === option.value && styles.optionButtonSelected
+                  ]}
+                  onPress={() => updateSetting('historyMaxReadings', option.value)}
+                >
+                  <Text style={[
+                    styles.optionText,
+                    settings.historyMaxReadings === option.value && styles.optionTextSelected
+                  ]}>
+                    {option.label}
+                  </Text>
+                  {settings.historyMaxReadings === option.value && (
+                    <Ionicons name="checkmark" size={20} color="#0ea5e9" />
+                  )}
+                </TouchableOpacity>
+              ))}
+            </View>
+          </View>
+
+          {/* Buoy Offline Detection */}
+          <View style={styles.section}>
+            <View style={styles.sectionHeader}>
+              <Ionicons name="pulse" size={24} color="#0ea5e9" />
+              <Text style={styles.sectionTitle}>Buoy Offline Detection</Text>
+            </View>
+            <Text style={styles.sectionDescription}>
+              Mark a buoy offline and send a notification once it has been silent this long. Buoys are marked late as soon as they miss a report.
+            </Text>
+            
+            <View style={styles.optionsContainer}>
+              {BUOY_OFFLINE_OPTIONS.map((option) => (
+                <TouchableOpacity
+                  key={option.value}
+                  style={[
+                    styles.optionButton,
+                    settings.buoyOfflineMinutes === option.value && styles.optionButtonSelected
+                  ]}
+                  onPress={() => updateSetting('buoyOfflineMinutes', option.value)}
+                >
+                  <Text style={[
+                    styles.optionText,
+                    settings.buoyOfflineMinutes === option.value && styles.optionTextSelected
+                  ]}>
+                    {option.label}
+                  </Text>
+                  {settings.buoyOfflineMinutes === option.value && (
+                    <Ionicons name="checkmark" size={20} color="#0ea5e9" />
+                  )}
+                </TouchableOpacity>
+              ))}
+            </View>
+          </View>
+
+          {/* Background Sync */}
+          <View style={styles.section}>
+            <View style={styles.sectionHeader}>
+              <Ionicons name="moon" size={24} color="#0ea5e9" />
+              <Text style={styles.sectionTitle}>Background Sync</Text>
+            </View>
+            <Text style={styles.sectionDescription}>
+              Check for new readings about every 15 minutes while the app is closed, so alerts and offline notifications still arrive. Skipped on low battery and in low power mode.
+            </Text>
+
+            <View style={styles.switchContainer}>
+              <View style={styles.switchLabelContainer}>
+                <Text style={styles.switchLabel}>Sync in background</Text>
+                <Text style={styles.switchDescription}>The system decides the exact timing</Text>
+              </View>
+              <Switch
+                value={settings.backgroundSyncEnabled}
+                onValueChange={value => updateSetting('backgroundSyncEnabled', value)}
+                trackColor={{ false: '#e2e8f0', true: '#7dd3fc' }}
+                thumbColor={settings.backgroundSyncEnabled ? '#0ea5e9' : '#f1f5f9'}
+              />
+            </View>
+
+            <BackgroundSyncDiagnostics />
+          </View>
+
+          {/* Water Quality Index */}
+          <View style={styles.section}>
+            <View style={styles.sectionHeader}>
+              <Ionicons name="shield-checkmark-outline" size={24} color="#0ea5e9" />
+              <Text style={styles.sectionTitle}>Water Quality Index</Text>
+            </View>
+            <Text style={styles.sectionDescription}>
+              Standard the Water Quality Index is rated against on the Dashboard, in Graphs and in reports.
+            </Text>
+
+            <View style={styles.optionsContainer}>
+              {WATER_QUALITY_STANDARD_OPTIONS.map((standard) => (
+                <TouchableOpacity
+                  key={standard.id}
+                  style={[
+                    styles.optionButton,
+                    settings.waterQualityStandard === standard.id && styles.optionButtonSelected
+                  ]}
+                  onPress={() => updateSetting('waterQualityStandard', standard.id)}
+                >
+                  <View style={styles.optionLabelContainer}>
+                    <Text style={[
+                      styles.optionText,
+                      settings.waterQualityStandard === standard.id && styles.optionTextSelected
+                    ]}>
+                      {standard.label}
+                    </Text>
+                    <Text style={styles.optionDescription}>{standard.citation}</Text>
+                  </View>
+                  {settings.waterQualityStandard === standard.id && (
+                    <Ionicons name="checkmark" size={20} color="#0ea5e9" />
+                  )}
+                </TouchableOpacity>
+              ))}
+            </View>
+          </View>
+
+          {/* Anomaly Detection */}
+          <View style={styles.section}>
+            <View style={styles.sectionHeader}>
+              <Ionicons name="pulse-outline" size={24} color="#0ea5e9" />
+              <Text style={styles.sectionTitle}>Anomaly Detection</Text>
+            </View>
+            <Text style={styles.sectionDescription}>
+              Flag readings that are unusual for the buoy, such as sudden jumps or slow drift, even when they are within alert thresholds. Each reading is compared with the ones before it.
+            </Text>
+
+            <View style={styles.switchContainer}>
+              <View style={styles.switchLabelContainer}>
+                <Text style={styles.switchLabel}>Detect anomalies</Text>
+                <Text style={styles.switchDescription}>Marked on graphs and listed under the chart</Text>
+              </View>
+              <Switch
+                value={settings.anomalyDetectionEnabled}
+                onValueChange={value => updateSetting('anomalyDetectionEnabled', value)}
+                trackColor={{ false: '#e2e8f0', true: '#7dd3fc' }}
+                thumbColor={settings.anomalyDetectionEnabled ? '#0ea5e9' : '#f1f5f9'}
+              />
+            </View>
+
+            {settings.anomalyDetectionEnabled && (
+              <>
+                <View style={styles.optionsContainer}>
+                  {ANOMALY_METHOD_OPTIONS.map((option) => (
+                    <TouchableOpacity
+                      key={option.value}
+                      style={[
+                        styles.optionButton,
+                        settings.anomalyMethod === option.value && styles.optionButtonSelected
+                      ]}
+                      onPress={() => updateSetting('anomalyMethod', option.value)}
+                    >
+                      <View style={styles.optionLabelContainer}>
+                        <Text style={[
+                          styles.optionText,
+                          settings.anomalyMethod === option.value && styles.optionTextSelected
+                        ]}>
+                          {option.label}
+                        </Text>
+                        <Text style={styles.optionDescription}>{option.description}</Text>
+                      </View>
+                      {settings.anomalyMethod === option.value && (
+                        <Ionicons name="checkmark" size={20} color="#0ea5e9" />
+                      )}
+                    </TouchableOpacity>
+                  ))}
+                </View>
+
+                <Text style={styles.hourLabel}>Sensitivity</Text>
+                <View style={styles.hourRow}>
+                  {ANOMALY_THRESHOLD_OPTIONS.map(option => (
+                    <TouchableOpacity
+                      key={option.value}
+                      style={[styles.hourChip, settings.anomalyThreshold === option.value && styles.hourChipSelected]}
+                      onPress={() => updateSetting('anomalyThreshold', option.value)}
+                    >
+                      <Text style={[styles.hourChipText, settings.anomalyThreshold === option.value && styles.optionTextSelected]}>
+                        {option.label} ({option.value})
+                      </Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+
+                <Text style={styles.hourLabel}>Baseline (previous readings)</Text>
+                <View style={styles.hourRow}>
+                  {ANOMALY_WINDOW_OPTIONS.map(size => (
+                    <TouchableOpacity
+                      key={size}
+                      style={[styles.hourChip, settings.anomalyWindowSize === size && styles.hourChipSelected]}
+                      onPress={() => updateSetting('anomalyWindowSize', size)}
+                    >
+                      <Text style={[styles.hourChipText, settings.anomalyWindowSize === size && styles.optionTextSelected]}>
+                        {size}
+                      </Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+
+                <View style={styles.switchContainer}>
+                  <View style={styles.switchLabelContainer}>
+                    <Text style={styles.switchLabel}>Allow for daily temperature cycle</Text>
+                    <Text style={styles.switchDescription}>Learned from at least 3 days of readings, so warm afternoons aren't flagged</Text>
+                  </View>
+                  <Switch
+                    value={settings.anomalySeasonalTemperature}
+                    onValueChange={value => updateSetting('anomalySeasonalTemperature', value)}
+                    trackColor={{ false: '#e2e8f0', true: '#7dd3fc' }}
+                    thumbColor={settings.anomalySeasonalTemperature ? '#0ea5e9' : '#f1f5f9'}
+                  />
+                </View>
+
+                <View style={styles.switchContainer}>
+                  <View style={styles.switchLabelContainer}>
+                    <Text style={styles.switchLabel}>Notify about anomalies</Text>
+                    <Text style={styles.switchDescription}>At most one per buoy and sensor for each sync, folded into the digest</Text>
+                  </View>
+                  <Switch
+                    value={settings.anomalyNotificationsEnabled}
+                    onValueChange={value => updateSetting('anomalyNotificationsEnabled', value)}
+                    trackColor={{ false: '#e2e8f0', true: '#7dd3fc' }}
+                    thumbColor={settings.anomalyNotificationsEnabled ? '#0ea5e9' : '#f1f5f9'}
+                  />
+                </View>
+              </>
+            )}
+          </View>
+
+          {/* Water Quality Alerts */}
+          <View style={styles.section}>
+            <View style={styles.sectionHeader}>
+              <Ionicons name="notifications" size={24} color="#0ea5e9" />
+              <Text style={styles.sectionTitle}>Water Quality Alerts</Text>
+            </View>
+            <Text style={styles.sectionDescription}>
+              Get notified when a reading crosses a threshold. Readings that fail quality control never trigger alerts. Changes here are saved immediately.
+            </Text>
+
+            <View style={styles.optionsContainer}>
+              {alertRules.length === 0 && (
+                <Text style={styles.emptyRulesText}>No alert rules yet</Text>
+              )}
+              {alertRules.map(rule => (
+                <TouchableOpacity
+                  key={rule.id}
+                  style={styles.ruleRow}
+                  onPress={() => openRuleEditor(rule)}
+                  onLongPress={() => confirmDeleteAlertRule(rule)}
+                >
+                  <View style={[styles.severityBar, { backgroundColor: ALERT_SEVERITY_COLORS[rule.severity] }]} />
+                  <View style={styles.ruleInfo}>
+                    <Text style={[styles.ruleTitle, !rule.enabled && styles.ruleDisabled]}>
+                      {describeAlertRule(rule)}
+                    </Text>
+                    <Text style={styles.ruleMeta}>
+                      {rule.buoyId === null ? 'All buoys' : `Buoy ${rule.buoyId}`} · {ALERT_SEVERITY_LABELS[rule.severity]}
+                    </Text>
+                  </View>
+                  <Switch
+                    value={rule.enabled}
+                    onValueChange={value => toggleAlertRule(rule, value)}
+                    trackColor={{ false: '#e2e8f0', true: '#7dd3fc' }}
+                    thumbColor={rule.enabled ? '#0ea5e9' : '#f1f5f9'}
+                  />
+                  <TouchableOpacity style={styles.ruleDeleteButton} onPress={() => confirmDeleteAlertRule(rule)}>
+                    <Ionicons name="trash-outline" size={18} color="#ef4444" />
+                  </TouchableOpacity>
+                </TouchableOpacity>
+              ))}
+            </View>
+
+            <View style={styles.ruleActions}>
+              <TouchableOpacity style={styles.requestPermissionButton} onPress={() => openRuleEditor(null)}>
+                <Ionicons name="add" size={16} color="#0ea5e9" />
+                <Text style={styles.requestPermissionButtonText}>Add Rule</Text>
+              </TouchableOpacity>
+              <TouchableOpacity style={styles.clearCacheButton} onPress={confirmResetAlertRules}>
+                <Ionicons name="refresh" size={16} color="#ef4444" />
+                <Text style={styles.clearCacheButtonText}>Restore Defaults</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+
+          {/* Push Notifications */}
+          <View style={styles.section}>
+            <View style={styles.sectionHeader}>
+              <Ionicons name="cloud-outline" size={24} color="#0ea5e9" />
+              <Text style={styles.sectionTitle}>Push Notifications</Text>
+            </View>
+            <Text style={styles.sectionDescription}>
+              The server checks your alert rules as soon as readings arrive and pushes alerts for the buoys you pick, even when this phone has not synced. Changes here are saved immediately.
+            </Text>
+
+            <PushSubscriptionSettings buoyNumbers={buoyNumbers} />
+          </View>
+
+          {/* Notification Delivery */}
+          <View style={styles.section}>
+            <View style={styles.sectionHeader}>
+              <Ionicons name="layers-outline" size={24} color="#0ea5e9" />
+              <Text style={styles.sectionTitle}>Notification Delivery</Text>
+            </View>
+            <Text style={styles.sectionDescription}>
+              Group notifications over a window into one summary, like "3 buoys updated, 1 pH alert". Critical alerts are always sent right away.
+            </Text>
+
+            <View style={styles.optionsContainer}>
+              {DIGEST_OPTIONS.map((option) => (
+                <TouchableOpacity
+                  key={option.value}
+                  style={[
+                    styles.optionButton,
+                    settings.notificationDigestMinutes === option.value && styles.optionButtonSelected
+                  ]}
+                  onPress={() => updateSetting('notificationDigestMinutes', option.value)}
+                >
+                  <Text style={[
+                    styles.optionText,
+                    settings.notificationDigestMinutes === option.value && styles.optionTextSelected
+                  ]}>
+                    {option.label}
+                  </Text>
+                  {settings.notificationDigestMinutes === option.value && (
+                    <Ionicons name="checkmark" size={20} color="#0ea5e9" />
+                  )}
+                </TouchableOpacity>
+              ))}
+            </View>
+
+            <View style={styles.switchContainer}>
+              <View style={styles.switchLabelContainer}>
+                <Text style={styles.switchLabel}>Quiet hours</Text>
+                <Text style={styles.switchDescription}>
+                  Only critical alerts from {formatHour(settings.quietHoursStart)} to {formatHour(settings.quietHoursEnd)}; the rest arrive as one summary afterwards
+                </Text>
+              </View>
+              <Switch
+                value={settings.quietHoursEnabled}
+                onValueChange={value => updateSetting('quietHoursEnabled', value)}
+                trackColor={{ false: '#e2e8f0', true: '#7dd3fc' }}
+                thumbColor={settings.quietHoursEnabled ? '#0ea5e9' : '#f1f5f9'}
+              />
+            </View>
+
+            {settings.quietHoursEnabled && (
+              <>
+                <Text style={styles.hourLabel}>Starts at</Text>
+                <View style={styles.hourRow}>
+                  {QUIET_START_HOURS.map(hour => (
+                    <TouchableOpacity
+                      key={hour}
+                      style={[styles.hourChip, settings.quietHoursStart === hour && styles.hourChipSelected]}
+                      onPress={() => updateSetting('quietHoursStart', hour)}
+                    >
+                      <Text style={[styles.hourChipText, settings.quietHoursStart === hour && styles.optionTextSelected]}>
+                        {formatHour(hour)}
+                      </Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+                <Text style={styles.hourLabel}>Ends at</Text>
+                <View style={styles.hourRow}>
+                  {QUIET_END_HOURS.map(hour => (
+                    <TouchableOpacity
+                      key={hour}
+                      style={[styles.hourChip, settings.quietHoursEnd === hour && styles.hourChipSelected]}
+                      onPress={() => updateSetting('quietHoursEnd', hour)}
+                    >
+                      <Text style={[styles.hourChipText, settings.quietHoursEnd === hour && styles.optionTextSelected]}>
+                        {formatHour(hour)}
+                      </Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+              </>
+            )}
+          </View>
+
           {/* Privacy */}
           <View style={styles.section}>
             <View style={styles.sectionHeader}>
@@ -239,6 +813,14 @@ const SettingsScreen = () => {
 
         </View>
       </ScrollView>
+
+      <AlertRuleEditor
+        visible={editorVisible}
+        rule={editingRule}
+        buoyNumbers={buoyNumbers}
+        onSave={saveAlertRule}
+        onClose={() => setEditorVisible(false)}
+      />
     </View>
   );
 };
@@ -316,6 +898,9 @@ const styles = StyleSheet.create({
   optionsContainer: {
     gap: 8,
   },
+  subsectionDescription: {
+    marginTop: 16,
+  },
   optionButton: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -339,6 +924,15 @@ const styles = StyleSheet.create({
   optionTextSelected: {
     color: '#0ea5e9',
   },
+  optionLabelContainer: {
+    flex: 1,
+    marginRight: 8,
+  },
+  optionDescription: {
+    fontSize: 12,
+    color: '#64748b',
+    marginTop: 2,
+  },
   switchContainer: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -397,6 +991,81 @@ const styles = StyleSheet.create({
     color: '#64748b',
     marginLeft: 8,
   },
+  emptyRulesText: {
+    fontSize: 14,
+    color: '#94a3b8',
+    textAlign: 'center',
+    paddingVertical: 12,
+  },
+  ruleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+    paddingRight: 8,
+    borderRadius: 12,
+    backgroundColor: '#f8fafc',
+    overflow: 'hidden',
+  },
+  severityBar: {
+    width: 4,
+    alignSelf: 'stretch',
+    marginRight: 12,
+  },
+  ruleInfo: {
+    flex: 1,
+    marginRight: 8,
+  },
+  ruleTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#1e293b',
+  },
+  ruleDisabled: {
+    color: '#94a3b8',
+  },
+  ruleMeta: {
+    fontSize: 12,
+    color: '#64748b',
+    marginTop: 2,
+  },
+  ruleDeleteButton: {
+    padding: 6,
+    marginLeft: 4,
+  },
+  hourLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#475569',
+    marginTop: 8,
+    marginBottom: 8,
+  },
+  hourRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 12,
+  },
+  hourChip: {
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#e2e8f0',
+    backgroundColor: '#f8fafc',
+  },
+  hourChipSelected: {
+    borderColor: '#0ea5e9',
+    backgroundColor: '#f0f9ff',
+  },
+  hourChipText: {
+    fontSize: 14,
+    color: '#64748b',
+  },
+  ruleActions: {
+    flexDirection: 'row',
+    gap: 12,
+    marginTop: 16,
+  },
   summarySection: {
     backgroundColor: '#ffffff',
     borderRadius: 16,
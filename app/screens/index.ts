@@ -2,4 +2,5 @@ export { default as HomeScreen } from './DashboardScreen';
 export { default as GraphScreen } from './GraphScreen';
 export { default as MapScreen } from './MapScreen';
 export { default as DataScreen } from './DataScreen';
+export { default as AlertsScreen } from './AlertsScreen';
 export { default as SettingsScreen } from './SettingsScreen';
@@ -0,0 +1,164 @@
+/**
+ * Benchmark for the graph's downsampling pipeline (services/downsampling.ts)
+ * with 100k synthetic readings. No dependencies beyond the TypeScript compiler
+ * already in devDependencies - run with `npm run benchmark:graph`.
+ *
+ * Measures the work done per frame while pinching and dragging: slicing the
+ * readings in view and reducing them to what the chart draws, for a single
+ * series (LTTB) and for the combined chart (min/max buckets). The app path
+ * holds what hooks/useChartReadings.ts would - the overview, with full detail
+ * for the view once it has few enough readings - and sets the exit code. The
+ * everything-in-memory run is the worst case, for comparison. SVG drawing
+ * itself is not measured; it stays cheap because the point count is bounded.
+ *
+ * Options: --readings 100000, --frames 120, --width 360 (plot width in px).
+ */
+const fs = require('fs');
+const path = require('path');
+const ts = require('typescript');
+
+const args = process.argv.slice(2);
+const option = (name, fallback) => {
+  const index = args.indexOf(`--${name}`);
+  return index > -1 && args[index + 1] ? Number(args[index + 1]) : fallback;
+};
+
+const READINGS = option('readings', 100000);
+const FRAMES = option('frames', 120);
+const PLOT_WIDTH = option('width', 360);
+const POINT_SPACING = 2; // Same as BuoyGraph
+const OVERVIEW_BUCKETS = 400; // Same as useChartReadings
+const DETAIL_LIMIT = 5000; // Same as CHART_DETAIL_LIMIT
+const FRAME_BUDGET_MS = 1000 / 60;
+const INTERVAL_MS = 5 * 60 * 1000; // One reading per buoy every 5 minutes
+const BUOYS = 3;
+
+// Load the app's TypeScript modules as CommonJS
+require.extensions['.ts'] = (module, filename) => {
+  const source = fs.readFileSync(filename, 'utf8');
+  const { outputText } = ts.transpileModule(source, {
+    compilerOptions: { module: ts.ModuleKind.CommonJS, target: ts.ScriptTarget.ES2020 },
+    fileName: filename,
+  });
+  module._compile(outputText, filename);
+};
+const { downsampleReadings, minMaxBuckets, sliceTimeWindow } = require(path.join(__dirname, '../services/downsampling.ts'));
+
+// Daily cycles with noise, occasional spikes and gaps, like a real deployment
+const generateReadings = (count) => {
+  const readings = [];
+  const start = Date.UTC(2025, 0, 1);
+  for (let id = 1; id <= count; id++) {
+    const buoyId = ((id - 1) % BUOYS) + 1;
+    const timestamp = start + Math.floor((id - 1) / BUOYS) * INTERVAL_MS;
+    const hour = (timestamp / 3600000) % 24;
+    const cycle = Math.sin((hour / 24) * Math.PI * 2);
+    const spike = Math.random() < 0.001 ? 2 : 0;
+    const missing = Math.random() < 0.01;
+    readings.push({
+      id,
+      buoyId,
+      buoy: `Buoy ${buoyId}`,
+      timestamp,
+      latitude: 7.07,
+      longitude: 125.61,
+      pH: missing ? null : 8 + cycle * 0.2 + (Math.random() - 0.5) * 0.1 + spike,
+      temperature: missing ? null : 28 + cycle * 1.5 + (Math.random() - 0.5) * 0.3,
+      tds: missing ? null : 450 + cycle * 30 + (Math.random() - 0.5) * 20 + spike * 400,
+    });
+  }
+  return readings;
+};
+
+const time = (fn) => {
+  const started = process.hrtime.bigint();
+  const result = fn();
+  return { result, ms: Number(process.hrtime.bigint() - started) / 1e6 };
+};
+
+const summarize = (label, samples, points) => {
+  const sorted = [...samples].sort((a, b) => a - b);
+  const mean = samples.reduce((sum, value) => sum + value, 0) / samples.length;
+  const p95 = sorted[Math.min(sorted.length - 1, Math.floor(sorted.length * 0.95))];
+  const max = sorted[sorted.length - 1];
+  const verdict = p95 <= FRAME_BUDGET_MS ? 'within' : 'OVER';
+  console.log(
+    `${label.padEnd(28)} mean ${mean.toFixed(2)} ms | p95 ${p95.toFixed(2)} ms | max ${max.toFixed(2)} ms | ` +
+    `≤ ${Math.max(...points)} points | ${verdict} the ${FRAME_BUDGET_MS.toFixed(1)} ms frame budget`
+  );
+  return p95 <= FRAME_BUDGET_MS;
+};
+
+// A pinch from the whole range down to one day, then a drag back across it
+const viewports = (from, to) => {
+  const span = to - from;
+  const frames = [];
+  const zoomFrames = Math.floor(FRAMES / 2);
+  for (let frame = 0; frame < zoomFrames; frame++) {
+    const width = span * Math.pow((24 * 3600000) / span, frame / (zoomFrames - 1));
+    const centre = from + span / 2;
+    frames.push({ from: centre - width / 2, to: centre + width / 2 });
+  }
+  const day = 24 * 3600000;
+  for (let frame = 0; frame < FRAMES - zoomFrames; frame++) {
+    const start = from + ((span - day) * frame) / Math.max(FRAMES - zoomFrames - 1, 1);
+    frames.push({ from: start, to: start + day });
+  }
+  return frames;
+};
+
+const main = () => {
+  console.log(`📊 Generating ${READINGS.toLocaleString()} readings from ${BUOYS} buoys...`);
+  const readings = generateReadings(READINGS);
+  const from = readings[0].timestamp;
+  const to = readings[readings.length - 1].timestamp;
+  const maxPoints = Math.floor(PLOT_WIDTH / POINT_SPACING);
+  console.log(`   ${((to - from) / 86400000).toFixed(0)} days, plot ${PLOT_WIDTH} px, up to ${maxPoints} points per series\n`);
+
+  const overview = time(() => minMaxBuckets(readings, OVERVIEW_BUCKETS));
+  console.log(`Overview (${OVERVIEW_BUCKETS} buckets/buoy)`.padEnd(28) +
+    ` ${overview.ms.toFixed(2)} ms once | ${overview.result.length} readings kept`);
+
+  // Peaks must survive: the highest pH in the data should be in the overview
+  const peak = readings.reduce((best, reading) => (reading.pH !== null && reading.pH > (best.pH ?? -Infinity) ? reading : best));
+  console.log(`Overview keeps the pH peak  ${overview.result.includes(peak) ? 'yes' : 'NO'}\n`);
+
+  // What the chart holds for each frame: the overview, with the view in full detail when small enough
+  const frames = viewports(from, to).map(view => {
+    const detail = sliceTimeWindow(readings, view.from, view.to);
+    if (detail.length > DETAIL_LIMIT) return { view, app: overview.result, all: readings };
+    const outside = overview.result.filter(reading => reading.timestamp < view.from || reading.timestamp > view.to);
+    const app = [...outside, ...detail].sort((a, b) => a.timestamp - b.timestamp);
+    return { view, app, all: readings };
+  });
+
+  // Warm up the JIT so the first frames don't skew the numbers
+  for (let i = 0; i < 5; i++) downsampleReadings(readings, maxPoints, ['pH']);
+
+  const run = (key) => {
+    const single = { samples: [], points: [] };
+    const combined = { samples: [], points: [] };
+    frames.forEach(frame => {
+      const { view } = frame;
+      const data = frame[key];
+      const a = time(() => downsampleReadings(sliceTimeWindow(data, view.from, view.to), maxPoints, ['pH']));
+      single.samples.push(a.ms);
+      single.points.push(a.result.length);
+      const b = time(() => downsampleReadings(sliceTimeWindow(data, view.from, view.to), maxPoints));
+      combined.samples.push(b.ms);
+      combined.points.push(b.result.length);
+    });
+    return [
+      summarize('  Single series (LTTB)', single.samples, single.points),
+      summarize('  Combined (min/max)', combined.samples, combined.points),
+    ].every(Boolean);
+  };
+
+  console.log(`Per frame over ${frames.length} pan/zoom frames, app path (overview + detail):`);
+  const ok = run('app');
+  console.log(`\nPer frame, all ${READINGS.toLocaleString()} readings in memory (worst case, for comparison):`);
+  run('all');
+  process.exitCode = ok ? 0 : 1;
+};
+
+main();
@@ -0,0 +1,203 @@
+/**
+ * Local stand-in for the buoy backend, for trying live updates without the
+ * real server. No dependencies - run with `npm run mock:realtime`.
+ *
+ *   GET  /readings               JSON readings endpoint (page, per_page, buoy, view=latest|months)
+ *   POST /insert_buoy_data.php   same payload the receiver sends; the row is pushed to clients
+ *   WS   /realtime               realtime channel ({type: 'reading'} and {type: 'ping'} messages)
+ *
+ * Options: --port 8787, --interval <seconds> to insert a random reading periodically.
+ *
+ * Point the app at it with:
+ *   EXPO_PUBLIC_BUOY_DATA_SOURCE=json
+ *   EXPO_PUBLIC_BUOY_JSON_URL=http://<your-ip>:8787/readings
+ *   EXPO_PUBLIC_BUOY_REALTIME_URL=ws://<your-ip>:8787/realtime
+ */
+const http = require('http');
+const crypto = require('crypto');
+
+const args = process.argv.slice(2);
+const option = (name, fallback) => {
+  const index = args.indexOf(`--${name}`);
+  return index > -1 && args[index + 1] ? Number(args[index + 1]) : fallback;
+};
+
+const PORT = option('port', 8787);
+const INSERT_INTERVAL = option('interval', 0);
+const PING_INTERVAL = 25000;
+const WEBSOCKET_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+
+const readings = [];
+const clients = new Set();
+
+const pad = n => String(n).padStart(2, '0');
+
+const buildReading = (payload, now = new Date()) => ({
+  id: readings.length + 1,
+  buoy: payload.buoy_id || payload.buoy || '1',
+  date: payload.date || `${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())}`,
+  time: payload.time || `${pad(now.getHours())}:${pad(now.getMinutes())}:${pad(now.getSeconds())}`,
+  latitude: payload.latitude ?? '7.0731',
+  longitude: payload.longitude ?? '125.6128',
+  ph: payload.ph ?? null,
+  temperature: payload.temperature ?? null,
+  tds: payload.tds ?? null,
+});
+
+// Store a new reading and push it to every connected client
+const addReading = payload => {
+  const reading = buildReading(payload);
+  readings.push(reading);
+  broadcast({ type: 'reading', reading });
+  console.log(`📥 Reading ${reading.id} from buoy ${reading.buoy} pushed to ${clients.size} client(s)`);
+  return reading;
+};
+
+const randomReading = () => {
+  const jitter = (base, spread) => (base + (Math.random() - 0.5) * spread).toFixed(2);
+  return {
+    buoy_id: String(1 + Math.floor(Math.random() * 3)),
+    ph: jitter(7.8, 0.6),
+    temperature: jitter(28, 2),
+    tds: jitter(450, 80),
+  };
+};
+
+// --- WebSocket (server-to-client text frames only) ---
+
+const encodeFrame = (text, opcode = 0x1) => {
+  const payload = Buffer.from(text);
+  let header;
+  if (payload.length < 126) {
+    header = Buffer.from([0x80 | opcode, payload.length]);
+  } else if (payload.length < 65536) {
+    header = Buffer.alloc(4);
+    header[0] = 0x80 | opcode;
+    header[1] = 126;
+    header.writeUInt16BE(payload.length, 2);
+  } else {
+    header = Buffer.alloc(10);
+    header[0] = 0x80 | opcode;
+    header[1] = 127;
+    header.writeBigUInt64BE(BigInt(payload.length), 2);
+  }
+  return Buffer.concat([header, payload]);
+};
+
+const broadcast = message => {
+  const frame = encodeFrame(JSON.stringify(message));
+  clients.forEach(socket => socket.write(frame));
+};
+
+const acceptWebSocket = (req, socket) => {
+  const key = req.headers['sec-websocket-key'];
+  if (!key || req.url.split('?')[0] !== '/realtime') {
+    socket.end('HTTP/1.1 400 Bad Request\r\n\r\n');
+    return;
+  }
+
+  const accept = crypto.createHash('sha1').update(key + WEBSOCKET_GUID).digest('base64');
+  socket.write(
+    'HTTP/1.1 101 Switching Protocols\r\n' +
+    'Upgrade: websocket\r\n' +
+    'Connection: Upgrade\r\n' +
+    `Sec-WebSocket-Accept: ${accept}\r\n\r\n`
+  );
+  clients.add(socket);
+  console.log(`🔌 Client connected (${clients.size} total)`);
+
+  // Client frames are only checked for close (opcode 8)
+  socket.on('data', data => {
+    if ((data[0] & 0x0f) === 0x8) {
+      socket.end(encodeFrame('', 0x8));
+    }
+  });
+  const remove = () => {
+    if (clients.delete(socket)) {
+      console.log(`🔌 Client disconnected (${clients.size} total)`);
+    }
+  };
+  socket.on('close', remove);
+  socket.on('error', remove);
+};
+
+// Seed a day of half-hourly history so the app has something to show
+for (let i = 47; i >= 0; i--) {
+  readings.push(buildReading(randomReading(), new Date(Date.now() - i * 30 * 60 * 1000)));
+}
+
+// --- HTTP ---
+
+const sendJson = (res, status, body) => {
+  res.writeHead(status, { 'Content-Type': 'application/json', 'Access-Control-Allow-Origin': '*' });
+  res.end(JSON.stringify(body));
+};
+
+const handleReadings = (url, res) => {
+  const view = url.searchParams.get('view');
+  const newestFirst = [...readings].reverse();
+
+  if (view === 'latest') {
+    const latest = new Map();
+    newestFirst.forEach(reading => {
+      if (!latest.has(reading.buoy)) latest.set(reading.buoy, reading);
+    });
+    sendJson(res, 200, { data: [...latest.values()], page: 1, total_pages: 1 });
+    return;
+  }
+  if (view === 'months') {
+    sendJson(res, 200, { months: [...new Set(newestFirst.map(reading => reading.date.slice(0, 7)))] });
+    return;
+  }
+
+  const buoy = url.searchParams.get('buoy');
+  const filtered = buoy ? newestFirst.filter(reading => reading.buoy === buoy.replace(/^Buoy\s*/i, '')) : newestFirst;
+  const perPage = Number(url.searchParams.get('per_page')) || 20;
+  const page = Math.max(1, Number(url.searchParams.get('page')) || 1);
+  sendJson(res, 200, {
+    data: filtered.slice((page - 1) * perPage, page * perPage),
+    page,
+    total_pages: Math.max(1, Math.ceil(filtered.length / perPage)),
+  });
+};
+
+const server = http.createServer((req, res) => {
+  const url = new URL(req.url, `http://${req.headers.host}`);
+
+  if (req.method === 'GET' && url.pathname === '/readings') {
+    handleReadings(url, res);
+    return;
+  }
+
+  if (req.method === 'POST' && url.pathname === '/insert_buoy_data.php') {
+    let body = '';
+    req.on('data', chunk => {
+      body += chunk;
+    });
+    req.on('end', () => {
+      try {
+        sendJson(res, 200, { success: true, reading: addReading(JSON.parse(body || '{}')) });
+      } catch (error) {
+        sendJson(res, 400, { success: false, error: 'Invalid JSON payload' });
+      }
+    });
+    return;
+  }
+
+  sendJson(res, 404, { error: 'Not found' });
+});
+
+server.on('upgrade', acceptWebSocket);
+
+setInterval(() => broadcast({ type: 'ping' }), PING_INTERVAL);
+if (INSERT_INTERVAL > 0) {
+  setInterval(() => addReading(randomReading()), INSERT_INTERVAL * 1000);
+}
+
+server.listen(PORT, () => {
+  console.log(`🌊 Mock buoy server on http://localhost:${PORT}`);
+  console.log(`   Realtime channel: ws://localhost:${PORT}/realtime`);
+  if (INSERT_INTERVAL > 0) {
+    console.log(`   Inserting a random reading every ${INSERT_INTERVAL}s`);
+  }
+});
@@ -0,0 +1,155 @@
+import { BuoyReading } from '../buoyReading';
+import { DEFAULT_ANOMALY_CONFIG, baselineOf, dailyCycleOffset, detectAnomalies, learnDailyCycle } from '../anomalyDetection';
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+const START = new Date(2025, 7, 1).getTime(); // Local midnight
+
+// Repeatable, roughly normal noise with a standard deviation of about 0.5
+let seed = 1;
+const uniform = () => {
+  seed = (seed * 16807) % 2147483647;
+  return seed / 2147483647;
+};
+const NOISE = Array.from({ length: 1500 }, () => uniform() + uniform() + uniform() - 1.5);
+const noise = (index: number, parameter: 'pH' | 'temperature' | 'tds') => NOISE[index + { pH: 0, temperature: 500, tds: 1000 }[parameter]];
+
+// Readings from Buoy 1 every `intervalMs` (hourly by default); every parameter is steady apart from the noise unless overridden
+const series = (
+  count: number,
+  overrides: (index: number) => Partial<BuoyReading> = () => ({}),
+  intervalMs: number = HOUR_MS
+): BuoyReading[] =>
+  Array.from({ length: count }, (_, index) => ({
+    id: index + 1,
+    buoyId: 1,
+    buoy: 'Buoy 1',
+    timestamp: START + index * intervalMs,
+    latitude: 7.0731,
+    longitude: 125.6128,
+    pH: 8.1 + 0.04 * noise(index, 'pH'),
+    temperature: 29 + 0.2 * noise(index, 'temperature'),
+    tds: 32000 + 50 * noise(index, 'tds'),
+    ...overrides(index),
+  }));
+
+// Warmest mid-afternoon, coolest before dawn
+const dailyCycle = (timestamp: number, amplitude: number) => {
+  const hour = (timestamp - START) / HOUR_MS;
+  return amplitude * Math.sin((2 * Math.PI * (hour - 9)) / 24);
+};
+
+// Four days of readings every 15 minutes, 2 °C warmer mid-afternoon than the daily mean
+const CYCLE_INTERVAL_MS = 15 * MINUTE_MS;
+const cycleTemperature = (index: number) => 29 + dailyCycle(START + index * CYCLE_INTERVAL_MS, 2) + 0.2 * noise(index, 'temperature');
+
+describe('detectAnomalies', () => {
+  it('finds nothing in a steady, noisy series', () => {
+    expect(detectAnomalies(series(72))).toEqual([]);
+  });
+
+  it('flags a single pH spike and nothing around it', () => {
+    const readings = series(72, index => (index === 40 ? { pH: 8.6 } : {}));
+
+    const anomalies = detectAnomalies(readings, DEFAULT_ANOMALY_CONFIG, ['pH']);
+
+    expect(anomalies).toHaveLength(1);
+    expect(anomalies[0]).toMatchObject({ readingId: 41, parameter: 'pH', kind: 'spike', value: 8.6 });
+    expect(anomalies[0].expected).toBeCloseTo(8.1, 1);
+    expect(anomalies[0].score).toBeGreaterThan(DEFAULT_ANOMALY_CONFIG.threshold);
+  });
+
+  it('flags a downward spike with a negative score', () => {
+    const [anomaly] = detectAnomalies(series(72, index => (index === 40 ? { tds: 30000 } : {})), DEFAULT_ANOMALY_CONFIG, ['tds']);
+
+    expect(anomaly).toMatchObject({ readingId: 41, parameter: 'tds', kind: 'spike' });
+    expect(anomaly.score).toBeLessThan(0);
+  });
+
+  it('flags a slow drift as drift rather than a run of spikes', () => {
+    // TDS creeps up 5 ppm an hour, a fifth of the noise's standard deviation, from hour 48
+    const readings = series(96, index => (index >= 48 ? { tds: 32000 + 50 * noise(index, 'tds') + 5 * (index - 47) } : {}));
+
+    const anomalies = detectAnomalies(readings, DEFAULT_ANOMALY_CONFIG, ['tds']);
+
+    expect(anomalies.length).toBeGreaterThan(0);
+    expect(anomalies.every(anomaly => anomaly.kind === 'drift')).toBe(true);
+    expect(anomalies[0].timestamp).toBeGreaterThan(START + 48 * HOUR_MS);
+    expect(anomalies[0].score).toBeGreaterThan(DEFAULT_ANOMALY_CONFIG.driftThreshold);
+  });
+
+  it('does not flag the daily temperature cycle', () => {
+    const readings = series(4 * 96, index => ({ temperature: cycleTemperature(index) }), CYCLE_INTERVAL_MS);
+
+    expect(detectAnomalies(readings, DEFAULT_ANOMALY_CONFIG, ['temperature'])).toEqual([]);
+  });
+
+  it('needs the daily cycle removed to stay quiet', () => {
+    // A 24-reading baseline spans six hours here, so the afternoon warming looks unusual without the cycle
+    const readings = series(4 * 96, index => ({ temperature: cycleTemperature(index) }), CYCLE_INTERVAL_MS);
+
+    expect(detectAnomalies(readings, { ...DEFAULT_ANOMALY_CONFIG, seasonalTemperature: false }, ['temperature'])).not.toEqual([]);
+  });
+
+  it('still flags a spike on top of the daily cycle', () => {
+    // 15:00 on the third day, when the cycle is at its warmest
+    const readings = series(4 * 96, index => ({ temperature: index === 252 ? 34 : cycleTemperature(index) }), CYCLE_INTERVAL_MS);
+
+    const anomalies = detectAnomalies(readings, DEFAULT_ANOMALY_CONFIG, ['temperature']);
+
+    expect(anomalies).toHaveLength(1);
+    expect(anomalies[0]).toMatchObject({ readingId: 253, parameter: 'temperature', kind: 'spike' });
+  });
+
+  it('scores each buoy against its own history', () => {
+    // Buoy 2 sits at a much higher pH; mixing the series must not make either look anomalous
+    const other = series(72).map(reading => ({ ...reading, id: reading.id + 1000, buoyId: 2, buoy: 'Buoy 2', pH: reading.pH! + 0.5 }));
+
+    expect(detectAnomalies([...series(72), ...other], DEFAULT_ANOMALY_CONFIG, ['pH'])).toEqual([]);
+  });
+});
+
+describe('learnDailyCycle', () => {
+  it('waits for enough days of history', () => {
+    const points = series(48).map(reading => ({ timestamp: reading.timestamp!, value: reading.temperature! }));
+
+    expect(learnDailyCycle(points, 3)).toBeNull();
+  });
+
+  it('learns the offset of each hour from the median', () => {
+    const points = series(96).map(reading => ({ timestamp: reading.timestamp!, value: 29 + dailyCycle(reading.timestamp!, 2) }));
+
+    const cycle = learnDailyCycle(points, 3)!;
+
+    expect(cycle.offsets[15]).toBeCloseTo(2);
+    expect(cycle.offsets[3]).toBeCloseTo(-2);
+    expect(cycle.centers[15]).toBe(15);
+  });
+
+  it('interpolates between hours for readings in between', () => {
+    const points = series(96).map(reading => ({ timestamp: reading.timestamp!, value: 29 + dailyCycle(reading.timestamp!, 2) }));
+    const cycle = learnDailyCycle(points, 3)!;
+
+    expect(dailyCycleOffset(cycle, START + 15 * HOUR_MS)).toBeCloseTo(2);
+    expect(dailyCycleOffset(cycle, START + 9.5 * HOUR_MS)).toBeCloseTo((cycle.offsets[9] + cycle.offsets[10]) / 2);
+    // Between 23:00 and midnight the next hour is 00:00 the following day
+    expect(dailyCycleOffset(cycle, START + 23.5 * HOUR_MS)).toBeCloseTo((cycle.offsets[23] + cycle.offsets[0]) / 2);
+  });
+});
+
+describe('baselineOf', () => {
+  it('estimates the standard deviation of normal noise', () => {
+    const values = NOISE.slice(0, 24).map(value => value * 2);
+    const { spread } = baselineOf(values, 'zscore');
+
+    expect(baselineOf(values, 'robust').spread).toBeCloseTo(spread, 0);
+  });
+
+  it('ignores an outlier in the robust baseline', () => {
+    const values = NOISE.slice(0, 24);
+    const withOutlier = [...values.slice(0, 23), 100];
+
+    expect(baselineOf(withOutlier, 'robust').spread).toBeLessThan(baselineOf(values, 'robust').spread * 1.5);
+    expect(baselineOf(withOutlier, 'zscore').spread).toBeGreaterThan(10);
+  });
+});
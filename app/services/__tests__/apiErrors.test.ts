@@ -0,0 +1,91 @@
+import { AxiosError, AxiosHeaders } from 'axios';
+import {
+  ClientError,
+  DataFormatError,
+  NetworkError,
+  ServerError,
+  TimeoutError,
+  UnknownError,
+  classifyError,
+  createAbortError,
+  describeApiError,
+  parseRetryAfter,
+} from '../apiErrors';
+
+// An axios error as thrown for a response with `status`, or for no response at all
+const axiosError = (status?: number, headers: Record<string, string> = {}, code?: string): AxiosError => {
+  const config = { headers: new AxiosHeaders() };
+  const response = status === undefined
+    ? undefined
+    : { status, statusText: '', headers, config, data: '' };
+  return new AxiosError(status === undefined ? 'Network Error' : `Request failed with status code ${status}`, code, config, {}, response);
+};
+
+describe('classifyError', () => {
+  it('maps HTTP statuses to server and client errors', () => {
+    expect(classifyError(axiosError(503))).toBeInstanceOf(ServerError);
+    expect(classifyError(axiosError(408))).toBeInstanceOf(ServerError);
+    expect(classifyError(axiosError(429))).toMatchObject({ kind: 'server', status: 429, retryable: true });
+    expect(classifyError(axiosError(404))).toMatchObject({ kind: 'client', status: 404, retryable: false });
+    expect(classifyError(axiosError(404))).toBeInstanceOf(ClientError);
+  });
+
+  it('keeps the Retry-After of a throttled response', () => {
+    expect(classifyError(axiosError(429, { 'retry-after': '7' }))).toMatchObject({ retryAfterMs: 7000 });
+  });
+
+  it('treats requests without a response as network failures and timeouts', () => {
+    expect(classifyError(axiosError(undefined, {}, 'ERR_NETWORK'))).toBeInstanceOf(NetworkError);
+    expect(classifyError(axiosError(undefined, {}, 'ECONNABORTED'))).toBeInstanceOf(TimeoutError);
+    expect(classifyError(new TypeError('Network request failed'))).toBeInstanceOf(NetworkError);
+  });
+
+  it('does not mistake programming errors for connectivity problems', () => {
+    const bug = new TypeError("Cannot read properties of undefined (reading 'map')");
+
+    const error = classifyError(bug);
+
+    expect(error).toBeInstanceOf(UnknownError);
+    expect(error).toMatchObject({ kind: 'unknown', retryable: false, cause: bug });
+    expect(classifyError('something odd')).toBeInstanceOf(UnknownError);
+  });
+
+  it('reports unparseable responses as format errors', () => {
+    expect(classifyError(new SyntaxError('Unexpected token < in JSON'))).toBeInstanceOf(DataFormatError);
+  });
+
+  it('returns aborts and already classified errors unchanged', () => {
+    const abort = createAbortError();
+    const classified = new ClientError(400);
+
+    expect(classifyError(abort)).toBe(abort);
+    expect(classifyError(classified)).toBe(classified);
+  });
+});
+
+describe('parseRetryAfter', () => {
+  const now = Date.parse('2025-08-14T02:00:00Z');
+
+  it('reads delta seconds', () => {
+    expect(parseRetryAfter('120', now)).toBe(120000);
+    expect(parseRetryAfter(3, now)).toBe(3000);
+  });
+
+  it('reads an HTTP date relative to now, never negative', () => {
+    expect(parseRetryAfter('Thu, 14 Aug 2025 02:00:30 GMT', now)).toBe(30000);
+    expect(parseRetryAfter('Thu, 14 Aug 2025 01:59:00 GMT', now)).toBe(0);
+  });
+
+  it('ignores missing or malformed values', () => {
+    expect(parseRetryAfter(undefined, now)).toBeUndefined();
+    expect(parseRetryAfter('', now)).toBeUndefined();
+    expect(parseRetryAfter('soon', now)).toBeUndefined();
+  });
+});
+
+describe('describeApiError', () => {
+  it('uses the fallback for unknown errors', () => {
+    expect(describeApiError(new UnknownError(), 'Failed to fetch data.')).toBe('Failed to fetch data.');
+    expect(describeApiError(new NetworkError(), 'Failed to fetch data.')).toMatch(/Could not reach/);
+  });
+});
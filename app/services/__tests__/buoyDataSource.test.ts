@@ -0,0 +1,188 @@
+import fs from 'fs';
+import path from 'path';
+import axios from 'axios';
+import {
+  HtmlBuoyDataSource,
+  JsonBuoyDataSource,
+  createBuoyDataSource,
+  parseDashboardHtml,
+  parseReadingsJson,
+} from '../buoyDataSource';
+import { DataFormatError } from '../apiErrors';
+
+jest.mock('axios');
+const mockedGet = axios.get as jest.MockedFunction<typeof axios.get>;
+
+// Responses recorded from dashboard.php and the JSON readings endpoint
+const fixture = (name: string): string => fs.readFileSync(path.join(__dirname, 'fixtures', name), 'utf8');
+const jsonFixture = (name: string): unknown => JSON.parse(fixture(name));
+
+const respondWith = (data: unknown) => mockedGet.mockResolvedValueOnce({ data } as any);
+
+afterEach(() => mockedGet.mockReset());
+
+describe('parseDashboardHtml', () => {
+  it('reads every data row and the last page number', () => {
+    const page = parseDashboardHtml(fixture('dashboard-page1.html'), 1);
+
+    expect(page.totalPages).toBe(154);
+    expect(page.currentPage).toBe(1);
+    expect(page.data).toHaveLength(3);
+    expect(page.data[0]).toEqual({
+      ID: '1532',
+      Buoy: 'Buoy 1',
+      Date: '2025-08-14',
+      Time: '10:30:00',
+      Latitude: '7.0731',
+      Longitude: '125.6128',
+      pH: '8.12',
+      'Temp (°C)': '29.4',
+      'TDS (ppm)': '31250',
+    });
+  });
+
+  it('strips markup inside cells and keeps empty sensor cells empty', () => {
+    const page = parseDashboardHtml(fixture('dashboard-page1.html'), 1);
+
+    expect(page.data[1].Buoy).toBe('Buoy 2');
+    expect(page.data[1].Date).toBe('08/14/2025');
+    expect(page.data[2]).toMatchObject({ pH: '', 'Temp (°C)': '', 'TDS (ppm)': '' });
+  });
+
+  it('treats a "no records" message as an empty page', () => {
+    const page = parseDashboardHtml(fixture('dashboard-empty.html'), 3);
+
+    expect(page.data).toEqual([]);
+    expect(page.totalPages).toBe(1);
+  });
+
+  it('reports a page without the readings table as a parse failure', () => {
+    expect(() => parseDashboardHtml(fixture('dashboard-redesigned.html'), 1)).toThrow(DataFormatError);
+  });
+
+  it('reports rows whose columns no longer line up as a parse failure', () => {
+    expect(() => parseDashboardHtml(fixture('dashboard-columns-removed.html'), 1)).toThrow(DataFormatError);
+  });
+});
+
+describe('parseReadingsJson', () => {
+  it('converts numbers and strings alike into the legacy row shape', () => {
+    const page = parseReadingsJson(jsonFixture('readings-page2.json'), 2);
+
+    expect(page.totalPages).toBe(5);
+    expect(page.currentPage).toBe(2);
+    expect(page.data[0]).toEqual({
+      ID: '1512',
+      Buoy: 'Buoy 1',
+      Date: '2025-08-13',
+      Time: '22:30:00',
+      Latitude: '7.0731',
+      Longitude: '125.6128',
+      pH: '8.05',
+      'Temp (°C)': '28.7',
+      'TDS (ppm)': '31100',
+    });
+    expect(page.data[1]).toMatchObject({ ID: '1511', Buoy: 'Buoy 2', pH: '7.91' });
+  });
+
+  it('keeps buoy labels and turns missing sensors into empty cells', () => {
+    const page = parseReadingsJson(jsonFixture('readings-page2.json'), 2);
+
+    expect(page.data[2]).toMatchObject({ Buoy: 'Buoy 3', pH: '', 'Temp (°C)': '', 'TDS (ppm)': '' });
+  });
+
+  it('rejects a body without a data array', () => {
+    expect(() => parseReadingsJson({ rows: [] }, 1)).toThrow(DataFormatError);
+    expect(() => parseReadingsJson(null, 1)).toThrow(DataFormatError);
+    expect(() => parseReadingsJson('<html></html>', 1)).toThrow(DataFormatError);
+  });
+});
+
+describe('HtmlBuoyDataSource', () => {
+  const source = new HtmlBuoyDataSource('https://example.test/dashboard.php');
+
+  it('requests the page and filters by buoy on the client', async () => {
+    respondWith(fixture('dashboard-page1.html'));
+
+    const page = await source.fetchPage({ page: 1, buoyFilter: '2' });
+
+    expect(mockedGet).toHaveBeenCalledWith('https://example.test/dashboard.php?page=1', expect.objectContaining({ responseType: 'text' }));
+    expect(page.data.map(row => row.ID)).toEqual(['1531']);
+    expect(page.totalPages).toBe(154);
+  });
+
+  it('filters by time range in Philippine time', async () => {
+    respondWith(fixture('dashboard-page1.html'));
+
+    const page = await source.fetchPage({
+      page: 1,
+      from: new Date('2025-08-14T10:10:00+08:00'),
+      to: new Date('2025-08-14T10:20:00+08:00'),
+    });
+
+    expect(page.data.map(row => row.ID)).toEqual(['1531']);
+  });
+
+  it('surfaces a changed layout as a DataFormatError', async () => {
+    respondWith(fixture('dashboard-redesigned.html'));
+
+    await expect(source.fetchPage({ page: 1 })).rejects.toBeInstanceOf(DataFormatError);
+  });
+});
+
+describe('JsonBuoyDataSource', () => {
+  const source = new JsonBuoyDataSource('https://example.test/api/readings.php');
+
+  it('sends paging, buoy and range filters to the server in Philippine time', async () => {
+    respondWith(jsonFixture('readings-page2.json'));
+
+    const page = await source.fetchPage({
+      page: 2,
+      pageSize: 50,
+      buoyFilter: '1',
+      from: new Date('2025-08-12T16:00:00Z'),
+      to: new Date('2025-08-13T15:59:59Z'),
+    });
+
+    const [url, config] = mockedGet.mock.calls[0];
+    expect(url).toBe('https://example.test/api/readings.php');
+    expect(config?.params).toEqual({
+      page: 2,
+      per_page: 50,
+      buoy: '1',
+      from: '2025-08-13 00:00:00',
+      to: '2025-08-13 23:59:59',
+    });
+    expect(page.data).toHaveLength(3);
+  });
+
+  it('reads the latest reading of every buoy', async () => {
+    respondWith(jsonFixture('readings-latest.json'));
+
+    const latest = await source.fetchLatestPerBuoy();
+
+    expect(mockedGet.mock.calls[0][1]?.params).toEqual({ view: 'latest' });
+    expect(latest.map(row => row.Buoy)).toEqual(['Buoy 1', 'Buoy 2']);
+  });
+
+  it('returns only well-formed months', async () => {
+    respondWith(jsonFixture('readings-months.json'));
+
+    await expect(source.fetchDistinctMonths()).resolves.toEqual(['2025-08', '2025-07', '2025-06']);
+  });
+
+  it('rejects an HTML error page served in place of JSON', async () => {
+    respondWith(fixture('dashboard-empty.html'));
+
+    await expect(source.fetchPage({ page: 1 })).rejects.toBeInstanceOf(DataFormatError);
+  });
+});
+
+describe('createBuoyDataSource', () => {
+  it('builds the adapter named in the configuration', () => {
+    const config = { htmlUrl: 'https://example.test/dashboard.php', jsonUrl: 'https://example.test/api', timeout: 1000 };
+
+    expect(createBuoyDataSource({ ...config, type: 'json' })).toBeInstanceOf(JsonBuoyDataSource);
+    expect(createBuoyDataSource({ ...config, type: 'html' })).toBeInstanceOf(HtmlBuoyDataSource);
+  });
+});
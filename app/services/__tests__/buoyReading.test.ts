@@ -0,0 +1,75 @@
+import { fromBuoyReading, parseBuoyDateTime, toBuoyReading } from '../buoyReading';
+
+// Expected instants are written with the server's +08:00 offset so the tests hold in any time zone
+const pht = (iso: string): number => new Date(`${iso}+08:00`).getTime();
+
+describe('parseBuoyDateTime', () => {
+  it('reads YYYY-MM-DD dates as Philippine time', () => {
+    expect(parseBuoyDateTime('2025-08-14', '10:30:00')).toBe(pht('2025-08-14T10:30:00'));
+    expect(parseBuoyDateTime('2025-08-14', '10:30:00')).toBe(Date.UTC(2025, 7, 14, 2, 30, 0));
+  });
+
+  it('reads MM/DD/YYYY dates', () => {
+    expect(parseBuoyDateTime('08/14/2025', '10:15:00')).toBe(pht('2025-08-14T10:15:00'));
+    expect(parseBuoyDateTime('8/4/2025', '07:05')).toBe(pht('2025-08-04T07:05:00'));
+  });
+
+  it('takes the time from a combined date-time string', () => {
+    expect(parseBuoyDateTime('2025-08-14 23:45:10')).toBe(pht('2025-08-14T23:45:10'));
+  });
+
+  it('keeps early-morning readings on the Philippine date', () => {
+    // 01:00 PHT is still the previous day in UTC
+    expect(new Date(parseBuoyDateTime('2025-08-14', '01:00:00')!).toISOString()).toBe('2025-08-13T17:00:00.000Z');
+  });
+
+  it('handles 12-hour times with AM/PM', () => {
+    expect(parseBuoyDateTime('2025-08-14', '3:20 PM')).toBe(pht('2025-08-14T15:20:00'));
+    expect(parseBuoyDateTime('2025-08-14', '9:05:30 am')).toBe(pht('2025-08-14T09:05:30'));
+  });
+
+  it('treats 12 AM as midnight and 12 PM as noon', () => {
+    expect(parseBuoyDateTime('2025-08-14', '12:00 AM')).toBe(pht('2025-08-14T00:00:00'));
+    expect(parseBuoyDateTime('2025-08-14', '12:30 AM')).toBe(pht('2025-08-14T00:30:00'));
+    expect(parseBuoyDateTime('2025-08-14', '12:00 PM')).toBe(pht('2025-08-14T12:00:00'));
+    expect(parseBuoyDateTime('2025-08-14', '12:45 PM')).toBe(pht('2025-08-14T12:45:00'));
+  });
+
+  it('reads compact HHMM times and defaults a missing time to midnight', () => {
+    expect(parseBuoyDateTime('2025-08-14', '0930')).toBe(pht('2025-08-14T09:30:00'));
+    expect(parseBuoyDateTime('2025-08-14')).toBe(pht('2025-08-14T00:00:00'));
+  });
+
+  it('rejects empty, malformed and impossible dates', () => {
+    expect(parseBuoyDateTime('', '10:00')).toBeNull();
+    expect(parseBuoyDateTime('not a date', '10:00')).toBeNull();
+    expect(parseBuoyDateTime('14.08.2025', '10:00')).toBeNull();
+    expect(parseBuoyDateTime('08/14', '10:00')).toBeNull();
+    expect(parseBuoyDateTime('2025-13-01', '10:00')).toBeNull();
+    expect(parseBuoyDateTime('02/31/2025', '10:00')).toBeNull();
+    expect(parseBuoyDateTime('2025-02-29', '10:00')).toBeNull();
+  });
+
+  it('rejects the bogus years the server sometimes emits', () => {
+    expect(parseBuoyDateTime('2065-08-14', '10:00')).toBeNull();
+    expect(parseBuoyDateTime('2019-12-31', '23:59')).toBeNull();
+  });
+});
+
+describe('fromBuoyReading', () => {
+  it('writes the date and time back in server time so they round-trip', () => {
+    const row = {
+      ID: '1532',
+      Buoy: 'Buoy 1',
+      Date: '2025-08-14',
+      Time: '01:30:00',
+      Latitude: '7.0731',
+      Longitude: '125.6128',
+      pH: '8.12',
+      'Temp (°C)': '29.4',
+      'TDS (ppm)': '31250',
+    };
+
+    expect(fromBuoyReading(toBuoyReading(row))).toEqual(row);
+  });
+});
@@ -0,0 +1,161 @@
+import fs from 'fs';
+import path from 'path';
+import axios from 'axios';
+import { BuoyReading } from '../buoyReading';
+import { fetchBuoyData, getAllBuoyDataForCSV, getLatestReadingsForGraph, invalidateBuoyCache, isAbortError, refreshBuoyData, subscribeToBuoyData } from '../buoyService';
+import { readingStore } from '../readingStore';
+
+jest.mock('axios');
+jest.mock('../networkService', () => ({ isOnline: jest.fn(() => Promise.resolve(true)) }));
+jest.mock('../readingStore', () => ({
+  readingStore: {
+    upsertRows: jest.fn(() => Promise.resolve(0)),
+    sync: jest.fn(() => Promise.resolve(0)),
+    count: jest.fn(() => Promise.resolve(0)),
+    query: jest.fn(() => Promise.resolve([])),
+    queryRows: jest.fn(() => Promise.resolve([])),
+  },
+}));
+
+const mockedGet = axios.get as jest.MockedFunction<typeof axios.get>;
+const dashboardHtml = fs.readFileSync(path.join(__dirname, 'fixtures', 'dashboard-page1.html'), 'utf8');
+
+// Dashboard request that answers after a short delay unless its signal aborts first
+const slowDashboard = (url: string, config?: { signal?: AbortSignal }): Promise<any> =>
+  new Promise((resolve, reject) => {
+    const timer = setTimeout(() => resolve({ data: dashboardHtml }), 20);
+    config?.signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(Object.assign(new Error('canceled'), { name: 'CanceledError', code: 'ERR_CANCELED' }));
+    });
+  });
+
+beforeEach(() => {
+  invalidateBuoyCache();
+  mockedGet.mockImplementation(slowDashboard as any);
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+  jest.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  mockedGet.mockReset();
+  jest.restoreAllMocks();
+});
+
+describe('fetchBuoyData request sharing', () => {
+  it('shares one request between concurrent callers', async () => {
+    const [first, second] = await Promise.all([fetchBuoyData(1), fetchBuoyData(1)]);
+
+    expect(first.data).toHaveLength(3);
+    expect(second).toBe(first);
+    expect(mockedGet).toHaveBeenCalledTimes(1);
+  });
+
+  it('keeps the request going while another caller still waits for it', async () => {
+    const controller = new AbortController();
+    const aborted = fetchBuoyData(1, undefined, undefined, controller.signal);
+    const waiting = fetchBuoyData(1);
+    controller.abort();
+
+    await expect(aborted.catch(isAbortError)).resolves.toBe(true);
+    await expect(waiting).resolves.toMatchObject({ totalPages: 154 });
+  });
+
+  it('starts a fresh request after every caller of the previous one aborted', async () => {
+    const controller = new AbortController();
+    const aborted = fetchBuoyData(1, undefined, undefined, controller.signal);
+    controller.abort();
+    const next = fetchBuoyData(1);
+
+    await expect(aborted.catch(isAbortError)).resolves.toBe(true);
+    await expect(next).resolves.toMatchObject({ totalPages: 154 });
+  });
+});
+
+describe('refreshBuoyData', () => {
+  it('stores the newest page before subscribers reload from the store', async () => {
+    const upsertRows = readingStore.upsertRows as jest.Mock;
+    upsertRows.mockClear();
+    const storedWhenNotified: number[] = [];
+    const unsubscribe = subscribeToBuoyData(() => {
+      storedWhenNotified.push(upsertRows.mock.calls.length);
+    });
+
+    await refreshBuoyData();
+    unsubscribe();
+
+    expect(upsertRows).toHaveBeenCalledWith(expect.arrayContaining([expect.objectContaining({ ID: '1532' })]));
+    expect(storedWhenNotified).toEqual([1]);
+  });
+});
+
+describe('getLatestReadingsForGraph', () => {
+  const stored = (count: number): BuoyReading[] =>
+    Array.from({ length: count }, (_, index) => ({
+      id: count - index,
+      buoyId: 1,
+      buoy: 'Buoy 1',
+      timestamp: Date.parse('2025-08-14T10:30:00+08:00') - index * 30 * 60 * 1000,
+      latitude: 7.0731,
+      longitude: 125.6128,
+      pH: 8.1,
+      temperature: 29,
+      tds: 32000,
+    }));
+
+  it('syncs the store and returns as many readings as asked for', async () => {
+    (readingStore.query as jest.Mock).mockResolvedValueOnce(stored(120));
+
+    const readings = await getLatestReadingsForGraph(120);
+
+    expect(readingStore.sync).toHaveBeenCalled();
+    expect(readingStore.query).toHaveBeenCalledWith({ limit: 120 });
+    expect(readings).toHaveLength(120);
+  });
+
+  it('falls back to stored readings when the sync fails', async () => {
+    (readingStore.sync as jest.Mock).mockRejectedValueOnce(new Error('Network Error'));
+    (readingStore.count as jest.Mock).mockResolvedValueOnce(20);
+    (readingStore.query as jest.Mock).mockResolvedValueOnce(stored(20));
+
+    await expect(getLatestReadingsForGraph(20)).resolves.toHaveLength(20);
+  });
+
+  it('reports the sync failure when nothing is stored', async () => {
+    (readingStore.sync as jest.Mock).mockRejectedValueOnce(new Error('Network Error'));
+
+    await expect(getLatestReadingsForGraph(20)).rejects.toThrow('Network Error');
+  });
+});
+
+describe('getAllBuoyDataForCSV', () => {
+  it('exports every stored row after syncing, without paging the server itself', async () => {
+    const rows = Array.from({ length: 3000 }, (_, index) => ({
+      ID: String(3000 - index),
+      Buoy: 'Buoy 1',
+      Date: '2025-08-14',
+      Time: '10:30:00',
+      Latitude: '7.0731',
+      Longitude: '125.6128',
+      pH: '8.1',
+      'Temp (°C)': '29',
+      'TDS (ppm)': '32000',
+    }));
+    (readingStore.queryRows as jest.Mock).mockResolvedValueOnce(rows);
+
+    const csv = await getAllBuoyDataForCSV();
+
+    expect(readingStore.sync).toHaveBeenCalled();
+    expect(mockedGet).not.toHaveBeenCalled();
+    const lines = csv.split('\n');
+    expect(lines).toHaveLength(3001);
+    expect(lines[0]).toBe('ID,Buoy,Date,Time,Latitude,Longitude,pH,Temp (°C),TDS (ppm)');
+    expect(lines[1]).toBe('"3000","Buoy 1","2025-08-14","10:30:00","7.0731","125.6128","8.1","29","32000"');
+  });
+
+  it('reports the sync failure when nothing is stored', async () => {
+    (readingStore.sync as jest.Mock).mockRejectedValueOnce(new Error('Network Error'));
+
+    await expect(getAllBuoyDataForCSV()).rejects.toThrow('Network Error');
+  });
+});
@@ -0,0 +1,84 @@
+import { formatMonthYear } from '../buoyReading';
+import { describeDateRange, formatRangeLabel, parseMonthLabel, resolveDateRange } from '../dateRangeService';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Philippine time, where the buoys are
+const manila = (iso: string): number => Date.parse(`${iso}+08:00`);
+
+// Node writes a narrow no-break space before AM/PM
+const plain = (text: string) => text.replace(/\s/g, ' ');
+
+describe('resolveDateRange', () => {
+  it('runs in a time zone other than the buoys', () => {
+    // Set in jest.globalSetup.js; in UTC+8 these tests would pass whatever the code did
+    expect(new Date(manila('2025-08-14T00:00:00')).getTimezoneOffset()).not.toBe(-8 * 60);
+  });
+
+  it('resolves today to the calendar day in Philippine time', () => {
+    // 2:30 PM on Thursday Aug 14 in Manila is still Wednesday evening on the device
+    const now = new Date(manila('2025-08-14T14:30:00'));
+
+    expect(resolveDateRange({ kind: 'preset', preset: 'today' }, now)).toEqual({
+      from: manila('2025-08-14T00:00:00'),
+      to: manila('2025-08-15T00:00:00') - 1,
+    });
+  });
+
+  it('starts this week on Sunday in Philippine time', () => {
+    const now = new Date(manila('2025-08-14T01:00:00'));
+
+    expect(resolveDateRange({ kind: 'preset', preset: 'week' }, now)).toEqual({ from: manila('2025-08-10T00:00:00') });
+  });
+
+  it('resolves this month once the month has begun in Philippine time', () => {
+    const now = new Date(manila('2025-09-01T04:00:00'));
+
+    expect(resolveDateRange({ kind: 'preset', preset: 'month' }, now)).toEqual({
+      from: manila('2025-09-01T00:00:00'),
+      to: manila('2025-10-01T00:00:00') - 1,
+    });
+  });
+
+  it('leaves trailing windows open at the end', () => {
+    const now = new Date(manila('2025-08-14T14:30:00'));
+
+    expect(resolveDateRange({ kind: 'preset', preset: '24h' }, now)).toEqual({ from: now.getTime() - 24 * HOUR_MS });
+  });
+
+  it('covers whole months and years in Philippine time', () => {
+    expect(resolveDateRange({ kind: 'month', year: 2025, month: 11 })).toEqual({
+      from: manila('2025-12-01T00:00:00'),
+      to: manila('2026-01-01T00:00:00') - 1,
+    });
+    expect(resolveDateRange({ kind: 'year', year: 2025 })).toEqual({
+      from: manila('2025-01-01T00:00:00'),
+      to: manila('2026-01-01T00:00:00') - 1,
+    });
+  });
+
+  it('passes custom and open ranges through', () => {
+    expect(resolveDateRange({ kind: 'custom', from: 1, to: 2 })).toEqual({ from: 1, to: 2 });
+    expect(resolveDateRange({ kind: 'all' })).toEqual({});
+  });
+});
+
+describe('labels', () => {
+  it('labels explicit times in Philippine time', () => {
+    expect(plain(formatRangeLabel(manila('2025-08-03T15:00:00'), manila('2025-08-04T09:30:00')))).toBe('Aug 3, 3:00 PM – Aug 4, 9:30 AM');
+    expect(plain(formatRangeLabel(manila('2025-08-01T00:00:00')))).toBe('Since Aug 1, 12:00 AM');
+  });
+
+  it('names a month the way the month filters do', () => {
+    const first = resolveDateRange({ kind: 'month', year: 2025, month: 7 }).from!;
+
+    expect(describeDateRange({ kind: 'month', year: 2025, month: 7 })).toBe('Aug 2025');
+    expect(formatMonthYear(first)).toBe('Aug 2025');
+    expect(parseMonthLabel(formatMonthYear(first))).toEqual({ kind: 'month', year: 2025, month: 7 });
+  });
+
+  it('rejects labels that are not months', () => {
+    expect(parseMonthLabel('2025')).toBeNull();
+    expect(parseMonthLabel('Augt 2025')).toBeNull();
+  });
+});
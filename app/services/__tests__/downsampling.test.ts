@@ -0,0 +1,141 @@
+import { BuoyReading } from '../buoyReading';
+import { downsampleReadings, lttb, minMaxBuckets } from '../downsampling';
+
+const HOUR_MS = 60 * 60 * 1000;
+const START = Date.parse('2025-08-01T00:00:00Z');
+
+// Hourly readings from one buoy; pH wobbles by 0.01 unless overridden
+const series = (
+  count: number,
+  overrides: (index: number) => Partial<BuoyReading> = () => ({}),
+  buoyId: number = 1
+): BuoyReading[] =>
+  Array.from({ length: count }, (_, index) => ({
+    id: buoyId * 10000 + index,
+    buoyId,
+    buoy: `Buoy ${buoyId}`,
+    timestamp: START + index * HOUR_MS,
+    latitude: 7.0731,
+    longitude: 125.6128,
+    pH: 8.1 + (index % 2) * 0.01,
+    temperature: 29,
+    tds: 32000,
+    ...overrides(index),
+  }));
+
+const ph = (reading: BuoyReading) => reading.pH;
+
+describe('lttb', () => {
+  it('returns inputs at or below the threshold unchanged', () => {
+    const readings = series(100);
+
+    expect(lttb(readings, 100, ph)).toBe(readings);
+    expect(lttb(readings, 150, ph)).toBe(readings);
+  });
+
+  it('keeps the threshold number of readings, in order, with the first and last', () => {
+    const readings = series(1000);
+
+    const kept = lttb(readings, 100, ph);
+
+    expect(kept).toHaveLength(100);
+    expect(kept[0]).toBe(readings[0]);
+    expect(kept[99]).toBe(readings[999]);
+    expect(kept.map(reading => reading.timestamp)).toEqual([...kept.map(reading => reading.timestamp)].sort((a, b) => a! - b!));
+  });
+
+  it('keeps an isolated peak and dip', () => {
+    const readings = series(1000, index => (index === 501 ? { pH: 9.5 } : index === 733 ? { pH: 6.5 } : {}));
+
+    const kept = lttb(readings, 100, ph);
+
+    expect(kept).toContain(readings[501]);
+    expect(kept).toContain(readings[733]);
+  });
+
+  it('keeps the start of a long gap so the line does not bridge it', () => {
+    // 50 hours without pH; each bucket spans about 10 hours
+    const readings = series(1000, index => (index >= 400 && index < 450 ? { pH: null } : {}));
+
+    const kept = lttb(readings, 100, ph);
+    const gap = kept.indexOf(readings[400]);
+
+    expect(gap).toBeGreaterThan(0);
+    expect(kept.filter(reading => reading.pH === null)).toEqual([readings[400]]);
+    expect(kept[gap - 1].timestamp!).toBeLessThan(readings[400].timestamp!);
+    expect(kept[gap + 1].timestamp!).toBeGreaterThanOrEqual(readings[450].timestamp!);
+  });
+
+  it('drops a gap narrower than a bucket', () => {
+    const readings = series(1000, index => (index === 700 ? { pH: null } : {}));
+
+    expect(lttb(readings, 100, ph)).not.toContain(readings[700]);
+  });
+
+  it('never drops readings it is told to keep', () => {
+    const readings = series(1000);
+
+    expect(lttb(readings, 100, ph, reading => reading.id === 10333)).toContain(readings[333]);
+  });
+});
+
+describe('minMaxBuckets', () => {
+  it('keeps the first and last reading and the extremes of each parameter', () => {
+    const readings = series(240, index => (index === 55 ? { pH: 9.5 } : index === 123 ? { temperature: 24 } : {}));
+
+    const kept = minMaxBuckets(readings, 10);
+
+    expect(kept[0]).toBe(readings[0]);
+    expect(kept[kept.length - 1]).toBe(readings[239]);
+    expect(kept).toContain(readings[55]);
+    expect(kept).toContain(readings[123]);
+  });
+
+  it('keeps at most 2 + 2 × parameters readings per bucket and buoy', () => {
+    const readings = [...series(240), ...series(240, () => ({}), 2)].sort((a, b) => a.timestamp! - b.timestamp!);
+
+    const kept = minMaxBuckets(readings, 10, ['pH']);
+
+    expect(kept.filter(reading => reading.buoyId === 1).length).toBeLessThanOrEqual(10 * 4);
+    expect(kept.filter(reading => reading.buoyId === 2).length).toBeLessThanOrEqual(10 * 4);
+  });
+
+  it('buckets each buoy on its own', () => {
+    // Buoy 2's spike must not displace Buoy 1's extremes in the same bucket
+    const buoy1 = series(240, index => (index === 30 ? { pH: 8.5 } : {}));
+    const buoy2 = series(240, index => (index === 31 ? { pH: 9.5 } : {}), 2);
+    const readings = [...buoy1, ...buoy2].sort((a, b) => a.timestamp! - b.timestamp!);
+
+    const kept = minMaxBuckets(readings, 10, ['pH']);
+
+    expect(kept).toContain(buoy1[30]);
+    expect(kept).toContain(buoy2[31]);
+  });
+
+  it('keeps the edges of a gap and ignores missing values and timestamps', () => {
+    const readings = series(240, index => (index === 100 ? { pH: null } : index === 101 ? { timestamp: null } : {}))
+      .filter((_, index) => index < 120 || index >= 180);
+
+    const kept = minMaxBuckets(readings, 10, ['pH']);
+
+    expect(kept).toContainEqual(expect.objectContaining({ id: 10119 }));
+    expect(kept).toContainEqual(expect.objectContaining({ id: 10180 }));
+    expect(kept.some(reading => reading.timestamp === null)).toBe(false);
+  });
+});
+
+describe('downsampleReadings', () => {
+  it('returns inputs at or below the limit unchanged', () => {
+    const readings = series(100);
+
+    expect(downsampleReadings(readings, 100)).toBe(readings);
+    expect(downsampleReadings(readings, 100, ['pH'])).toBe(readings);
+  });
+
+  it('uses LTTB for one parameter and min/max buckets for several', () => {
+    const readings = series(1000);
+
+    expect(downsampleReadings(readings, 100, ['pH'])).toHaveLength(100);
+    expect(downsampleReadings(readings, 100).length).toBeLessThanOrEqual(100);
+  });
+});
@@ -0,0 +1,104 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { BuoyReading } from '../buoyReading';
+import { getLastStoreSyncTime, getStoredLatestReadings, getStoredReadings } from '../buoyService';
+import { notificationService } from '../notificationService';
+import { classifyHeartbeat, heartbeatService } from '../heartbeatService';
+import { learnInterval } from '../reportingInterval';
+
+jest.mock('@react-native-async-storage/async-storage', () => ({
+  getItem: jest.fn(),
+  setItem: jest.fn(() => Promise.resolve()),
+}));
+jest.mock('../buoyService', () => ({
+  getLastStoreSyncTime: jest.fn(),
+  getStoredLatestReadings: jest.fn(),
+  getStoredReadings: jest.fn(),
+  subscribeToBuoyData: jest.fn(() => () => {}),
+}));
+jest.mock('../settingsService', () => ({
+  settingsService: { getBuoyOfflineMs: () => 3 * 60 * 60 * 1000, subscribe: jest.fn(() => () => {}) },
+}));
+jest.mock('../notificationService', () => ({
+  notificationService: { sendBuoyStatusNotification: jest.fn(() => Promise.resolve()) },
+}));
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+
+const mocked = <T extends (...args: any[]) => any>(fn: T) => fn as unknown as jest.MockedFunction<T>;
+const notify = mocked(notificationService.sendBuoyStatusNotification);
+
+// Half-hourly readings from Buoy 1, the newest one `lastSeen`
+const readingsUntil = (lastSeen: number): BuoyReading[] =>
+  Array.from({ length: 10 }, (_, index) => ({
+    id: 100 - index,
+    buoyId: 1,
+    buoy: 'Buoy 1',
+    timestamp: lastSeen - index * 30 * MINUTE_MS,
+    latitude: 7.07,
+    longitude: 125.61,
+    pH: 8.1,
+    temperature: 29,
+    tds: 32000,
+  }));
+
+const storeHolds = (readings: BuoyReading[], lastSyncTime: number) => {
+  mocked(getStoredLatestReadings).mockResolvedValue(readings.slice(0, 1));
+  mocked(getStoredReadings).mockResolvedValue(readings);
+  mocked(getLastStoreSyncTime).mockResolvedValue(lastSyncTime);
+};
+
+describe('heartbeatService.check', () => {
+  const now = Date.now();
+
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    // Saved by the previous session: Buoy 1 was online
+    mocked(AsyncStorage.getItem).mockResolvedValue(JSON.stringify({ 1: { status: 'online', lastSeen: now - 5 * HOUR_MS } }));
+  });
+
+  it('shows statuses but sends nothing until the store has synced this session', async () => {
+    // Stored readings end when the app was last open, five hours ago
+    storeHolds(readingsUntil(now - 5 * HOUR_MS), now - 5 * HOUR_MS);
+
+    const [heartbeat] = await heartbeatService.check(true);
+
+    expect(heartbeat.status).toBe('offline');
+    expect(notify).not.toHaveBeenCalled();
+    expect(AsyncStorage.setItem).not.toHaveBeenCalled();
+  });
+
+  it('compares the saved states with the synced store', async () => {
+    // The sync brought the buoy's readings up to date: it never went offline
+    storeHolds(readingsUntil(now - 10 * MINUTE_MS), Date.now());
+
+    const [heartbeat] = await heartbeatService.check(true);
+
+    expect(heartbeat.status).toBe('online');
+    expect(notify).not.toHaveBeenCalled();
+    expect(AsyncStorage.setItem).toHaveBeenCalledWith('buoyHeartbeatState', expect.stringContaining('"online"'));
+  });
+
+  it('notifies once a synced buoy really goes silent', async () => {
+    storeHolds(readingsUntil(now - 4 * HOUR_MS), Date.now());
+
+    await heartbeatService.check();
+    await heartbeatService.check();
+
+    expect(notify).toHaveBeenCalledTimes(1);
+    expect(notify).toHaveBeenCalledWith('Buoy 1 is offline', expect.any(String), { type: 'buoy-offline', buoyId: 1 });
+  });
+});
+
+describe('heartbeat classification', () => {
+  it('learns the median reporting interval', () => {
+    const timestamps = [5, 4, 3, 2, 1].map(step => step * 30 * MINUTE_MS);
+    expect(learnInterval(timestamps)).toBe(30 * MINUTE_MS);
+  });
+
+  it('is late after about one missed report and offline past the window', () => {
+    expect(classifyHeartbeat(40 * MINUTE_MS, 30 * MINUTE_MS, 3 * HOUR_MS)).toBe('online');
+    expect(classifyHeartbeat(70 * MINUTE_MS, 30 * MINUTE_MS, 3 * HOUR_MS)).toBe('late');
+    expect(classifyHeartbeat(4 * HOUR_MS, 30 * MINUTE_MS, 3 * HOUR_MS)).toBe('offline');
+  });
+});
@@ -0,0 +1,177 @@
+import * as Notifications from 'expo-notifications';
+import { settingsService } from '../settingsService';
+import {
+  ALERT_NOTIFICATION_CATEGORY,
+  DigestEvent,
+  buildDigest,
+  isQuietTime,
+  notificationService,
+  summarizeDigest,
+} from '../notificationService';
+
+jest.mock('expo-notifications', () => ({
+  setNotificationHandler: jest.fn(),
+  getPermissionsAsync: jest.fn(() => Promise.resolve({ status: 'granted' })),
+  scheduleNotificationAsync: jest.fn(() => Promise.resolve('id')),
+  cancelScheduledNotificationAsync: jest.fn(() => Promise.resolve()),
+  SchedulableTriggerInputTypes: { DATE: 'date' },
+  AndroidNotificationPriority: { DEFAULT: 'default', HIGH: 'high', MAX: 'max' },
+}));
+jest.mock('expo-linking', () => ({
+  createURL: (path: string, options?: { queryParams?: Record<string, string> }) => {
+    const query = new URLSearchParams(options?.queryParams).toString();
+    return `buoy://${path}${query ? `?${query}` : ''}`;
+  },
+}));
+jest.mock('react-native', () => ({ Platform: { OS: 'ios' } }));
+jest.mock('@react-native-async-storage/async-storage', () => ({
+  getItem: jest.fn(() => Promise.resolve(null)),
+  setItem: jest.fn(() => Promise.resolve()),
+}));
+jest.mock('../settingsService', () => ({
+  settingsService: { getSettings: jest.fn(), isNotificationsEnabled: jest.fn(() => true) },
+}));
+
+const mockedSettings = settingsService.getSettings as jest.Mock;
+const scheduled = Notifications.scheduleNotificationAsync as jest.Mock;
+
+const settings = (overrides: Record<string, unknown> = {}) => mockedSettings.mockReturnValue({
+  notificationDigestMinutes: 5,
+  quietHoursEnabled: true,
+  quietHoursStart: 22,
+  quietHoursEnd: 6,
+  ...overrides,
+});
+
+// Local time, like quiet hours
+const at = (day: number, hour: number, minute: number = 0): number => new Date(2025, 7, day, hour, minute).getTime();
+
+const dataEvent = (buoy: string): DigestEvent => ({
+  kind: 'data', severity: 'info', title: `New Data from ${buoy}`, body: '', buoy, data: { buoyData: { Buoy: buoy } },
+});
+
+const alertEvent = (alertKey: string, severity: DigestEvent['severity'] = 'warning'): DigestEvent => ({
+  kind: 'alert',
+  severity,
+  title: 'Warning: Buoy 1 pH',
+  body: 'pH 6.90 (limit 7)',
+  parameter: 'pH',
+  data: { alertKey, buoyId: 1, parameter: 'pH', timestamp: at(14, 12) },
+  categoryIdentifier: ALERT_NOTIFICATION_CATEGORY,
+});
+
+beforeEach(() => {
+  settings();
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  jest.clearAllMocks();
+  jest.restoreAllMocks();
+});
+
+describe('isQuietTime', () => {
+  it('covers a window that runs past midnight', () => {
+    expect(isQuietTime(at(14, 23))).toBe(true);
+    expect(isQuietTime(at(15, 0, 30))).toBe(true);
+    expect(isQuietTime(at(14, 12))).toBe(false);
+  });
+
+  it('includes the start hour and excludes the end hour', () => {
+    expect(isQuietTime(at(14, 21, 59))).toBe(false);
+    expect(isQuietTime(at(14, 22))).toBe(true);
+    expect(isQuietTime(at(15, 5, 59))).toBe(true);
+    expect(isQuietTime(at(15, 6))).toBe(false);
+  });
+
+  it('handles a window within one day', () => {
+    settings({ quietHoursStart: 1, quietHoursEnd: 5 });
+
+    expect(isQuietTime(at(14, 1))).toBe(true);
+    expect(isQuietTime(at(14, 5))).toBe(false);
+    expect(isQuietTime(at(14, 23))).toBe(false);
+  });
+
+  it('is never quiet when disabled or the window is empty', () => {
+    settings({ quietHoursEnabled: false });
+    expect(isQuietTime(at(14, 23))).toBe(false);
+
+    settings({ quietHoursStart: 6, quietHoursEnd: 6 });
+    expect(isQuietTime(at(14, 6))).toBe(false);
+  });
+});
+
+describe('summarizeDigest', () => {
+  it('counts a buoy that reported twice once', () => {
+    expect(summarizeDigest([dataEvent('Buoy 1'), dataEvent('Buoy 1')])).toBe('1 buoy updated');
+  });
+
+  it('counts several buoys and groups alerts by parameter', () => {
+    const events = [dataEvent('Buoy 1'), dataEvent('Buoy 2'), alertEvent('a'), alertEvent('b')];
+
+    expect(summarizeDigest(events)).toBe('2 buoys updated, 2 pH alerts');
+  });
+});
+
+describe('buildDigest', () => {
+  it('shows a single event as itself', () => {
+    const event = alertEvent('a');
+
+    expect(buildDigest([event])).toBe(event);
+  });
+
+  it('opens the buoy when every event is about the same one', () => {
+    const digest = buildDigest([dataEvent('Buoy 2'), dataEvent('Buoy 2')]);
+
+    expect(digest.data).toMatchObject({ type: 'digest', count: 2, hasAlerts: false, url: 'buoy://graph?buoy=2' });
+    expect(digest.categoryIdentifier).toBeUndefined();
+  });
+
+  it('opens the graph when the events are about several buoys', () => {
+    expect(buildDigest([dataEvent('Buoy 1'), dataEvent('Buoy 2')]).data.url).toBe('buoy://graph');
+  });
+
+  it('opens the alert and keeps its buttons', () => {
+    const digest = buildDigest([dataEvent('Buoy 1'), alertEvent('1:rule:42')]);
+
+    expect(digest.data).toMatchObject({ hasAlerts: true, url: 'buoy://alerts?key=1%3Arule%3A42', alertKeys: ['1:rule:42'] });
+    expect(digest.categoryIdentifier).toBe(ALERT_NOTIFICATION_CATEGORY);
+  });
+
+  it('opens the alert list for several alerts and takes the highest severity', () => {
+    const digest = buildDigest([alertEvent('a'), alertEvent('b', 'critical')]);
+
+    expect(digest).toMatchObject({ severity: 'critical', data: { url: 'buoy://alerts', alertKeys: ['a', 'b'] } });
+  });
+});
+
+describe('delivery', () => {
+  const send = (event: DigestEvent) => notificationService.sendAlertNotification({
+    title: event.title, body: event.body, severity: event.severity, parameter: event.parameter!, data: event.data,
+  });
+
+  it('delivers a critical alert immediately during quiet hours', async () => {
+    jest.spyOn(Date, 'now').mockReturnValue(at(14, 23));
+
+    await send(alertEvent('a', 'critical'));
+
+    expect(scheduled).toHaveBeenCalledTimes(1);
+    expect(scheduled.mock.calls[0][0]).toMatchObject({ content: { title: 'Warning: Buoy 1 pH' }, trigger: null });
+  });
+
+  it('holds a warning until quiet hours end', async () => {
+    jest.spyOn(Date, 'now').mockReturnValue(at(16, 23));
+
+    await send(alertEvent('a'));
+
+    expect(scheduled.mock.calls[0][0]).toMatchObject({ identifier: 'buoy-digest', trigger: { type: 'date', date: at(17, 6) } });
+  });
+
+  it('holds a warning for the digest window outside quiet hours', async () => {
+    jest.spyOn(Date, 'now').mockReturnValue(at(18, 12));
+
+    await send(alertEvent('a'));
+
+    expect(scheduled.mock.calls[0][0]).toMatchObject({ trigger: { type: 'date', date: at(18, 12, 5) } });
+  });
+});
@@ -0,0 +1,109 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { AlertRule, getAlertRules } from '../alertService';
+import { supabase } from '../authService';
+import { pushService } from '../pushService';
+import { hashAlertRules } from '../../../supabase/functions/_shared/alertEvaluation';
+
+jest.mock('expo-notifications', () => ({}));
+jest.mock('expo-constants', () => ({}));
+jest.mock('react-native', () => ({ Platform: { OS: 'android' } }));
+jest.mock('@react-native-async-storage/async-storage', () => ({
+  getItem: jest.fn(),
+  setItem: jest.fn(() => Promise.resolve()),
+}));
+jest.mock('../authService', () => ({ supabase: { from: jest.fn() } }));
+jest.mock('../notificationService', () => ({ notificationService: {} }));
+jest.mock('../alertService', () => ({ getAlertRules: jest.fn(), subscribeToAlertRules: jest.fn() }));
+
+const HOUR_MS = 60 * 60 * 1000;
+const mockedFrom = supabase.from as jest.Mock;
+
+const RULES: AlertRule[] = [{
+  id: 'default-ph-low', buoyId: null, parameter: 'pH', condition: 'below',
+  threshold: 7.0, sustainedReadings: 2, hysteresis: 0.2, severity: 'warning', enabled: true,
+}];
+const EDITED_RULES: AlertRule[] = [{ ...RULES[0], threshold: 7.5 }];
+
+// Registered for Buoys 1 and 2, with RULES uploaded
+(AsyncStorage.getItem as jest.Mock).mockResolvedValue(JSON.stringify({
+  token: 'ExponentPushToken[test]',
+  userId: 'user-1',
+  subscribedBuoyIds: [1, 2],
+  uploadedRulesHash: hashAlertRules(RULES),
+}));
+
+// Supabase as the phone sees it: this user's push_buoy_coverage rows, and the result of a rules upload
+const server = (coverage: { data?: unknown[]; error?: unknown }, upload: { error: unknown } = { error: null }) => {
+  const coverageEq = jest.fn(() => Promise.resolve({ data: null, error: null, ...coverage }));
+  const upsert = jest.fn(() => Promise.resolve(upload));
+  mockedFrom.mockImplementation((table: string) => (table === 'push_buoy_coverage'
+    ? { select: jest.fn(() => ({ eq: coverageEq })) }
+    : { upsert }));
+  return { coverageEq, upsert };
+};
+
+describe('pushService.coversAlert', () => {
+  const alertTime = Date.parse('2025-08-14T02:00:00Z');
+  const recent = '2025-08-14T01:45:00+00:00';
+  let clock = alertTime;
+
+  beforeEach(() => {
+    // Past the coverage cache, so every test loads it again
+    clock += 2 * 60 * 1000;
+    jest.spyOn(Date, 'now').mockReturnValue(clock);
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    (getAlertRules as jest.Mock).mockResolvedValue(RULES);
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it('leaves the alert to the server once it has pushed for the buoy recently with these rules', async () => {
+    const { coverageEq } = server({ data: [{ buoy_id: 1, rules_hash: hashAlertRules(RULES), last_recorded_at: recent }] });
+
+    await expect(pushService.coversAlert(1, alertTime)).resolves.toBe(true);
+    expect(coverageEq).toHaveBeenCalledWith('user_id', 'user-1');
+  });
+
+  it('keeps local alerts while the server evaluated other rules', async () => {
+    server({ data: [{ buoy_id: 1, rules_hash: hashAlertRules(EDITED_RULES), last_recorded_at: recent }] });
+
+    await expect(pushService.coversAlert(1, alertTime)).resolves.toBe(false);
+  });
+
+  it('keeps local alerts for buoys the server has not covered or fell behind on', async () => {
+    server({ data: [{ buoy_id: 1, rules_hash: hashAlertRules(RULES), last_recorded_at: new Date(alertTime - 3 * HOUR_MS).toISOString() }] });
+
+    await expect(pushService.coversAlert(1, alertTime)).resolves.toBe(false);
+    await expect(pushService.coversAlert(2, alertTime)).resolves.toBe(false);
+  });
+
+  it('keeps local alerts for buoys this device is not subscribed to', async () => {
+    server({ data: [{ buoy_id: 3, rules_hash: hashAlertRules(RULES), last_recorded_at: recent }] });
+
+    await expect(pushService.coversAlert(3, alertTime)).resolves.toBe(false);
+  });
+
+  it('keeps local alerts when the coverage cannot be loaded', async () => {
+    server({ error: new Error('offline') });
+
+    await expect(pushService.coversAlert(1, alertTime)).resolves.toBe(false);
+    expect(AsyncStorage.getItem).toHaveBeenCalledTimes(1);
+  });
+
+  it('keeps local alerts until edited rules are uploaded, retrying the upload', async () => {
+    (getAlertRules as jest.Mock).mockResolvedValue(EDITED_RULES);
+    const coverage = { data: [{ buoy_id: 1, rules_hash: hashAlertRules(EDITED_RULES), last_recorded_at: recent }] };
+    const failing = server(coverage, { error: new Error('offline') });
+
+    await expect(pushService.coversAlert(1, alertTime)).resolves.toBe(false);
+    await new Promise(resolve => setImmediate(resolve));
+    expect(failing.upsert).toHaveBeenCalledWith(expect.objectContaining({ user_id: 'user-1', rules: EDITED_RULES }));
+    expect(failing.coverageEq).not.toHaveBeenCalled();
+
+    // The retry goes through; once the server has covered the buoy with the edited rules it takes over
+    server(coverage);
+    await expect(pushService.coversAlert(1, alertTime)).resolves.toBe(false);
+    await new Promise(resolve => setImmediate(resolve));
+    await expect(pushService.coversAlert(1, alertTime)).resolves.toBe(true);
+  });
+});
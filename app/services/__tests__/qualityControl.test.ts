@@ -0,0 +1,68 @@
+import { BuoyReading } from '../buoyReading';
+import { QC_THRESHOLDS, assessReadingQuality } from '../qualityControl';
+import { SENSOR_LIMITS } from '../../../supabase/functions/_shared/readingValidation';
+
+const HOUR_MS = 60 * 60 * 1000;
+const START = Date.parse('2025-08-14T00:00:00+08:00');
+const NOW = START + 48 * HOUR_MS;
+
+const reading = (id: number, tds: number | null, overrides: Partial<BuoyReading> = {}): BuoyReading => ({
+  id,
+  buoyId: 1,
+  buoy: 'Buoy 1',
+  timestamp: START + id * HOUR_MS,
+  latitude: 7.0731,
+  longitude: 125.6128,
+  pH: 8.1,
+  temperature: 29 + (id % 3) * 0.1,
+  tds,
+  ...overrides,
+});
+
+// Typical seawater readings, varying a little so the flatline test stays quiet
+const seawater = (count: number, base: number = 32000): BuoyReading[] =>
+  Array.from({ length: count }, (_, index) => reading(index + 1, base + (index % 4) * 150));
+
+const tdsFlags = (readings: BuoyReading[]) => assessReadingQuality(readings, NOW).map(quality => quality.parameters.tds);
+
+describe('TDS quality control for the marine deployment', () => {
+  it('uses the same sensor range as the receiver firmware and the ingestion function', () => {
+    expect(QC_THRESHOLDS.sensors.tds.sensorRange).toEqual([SENSOR_LIMITS.tds.min, SENSOR_LIMITS.tds.max]);
+  });
+
+  it('treats ordinary seawater readings as good', () => {
+    expect(tdsFlags(seawater(6))).toEqual(Array(6).fill('good'));
+  });
+
+  it('flags fresh or brackish water as suspect and readings past the sensor range as bad', () => {
+    const flags = tdsFlags([reading(1, 900), reading(20, 46000), reading(40, 52000)]);
+
+    expect(flags).toEqual(['suspect', 'suspect', 'bad']);
+  });
+
+  it('flags a spike against seawater neighbours but not normal variation', () => {
+    const readings = seawater(5);
+    readings[2] = { ...readings[2], tds: 39000 };
+
+    const flags = tdsFlags(readings);
+
+    expect(flags[2]).toBe('bad');
+    expect(flags.filter(flag => flag === 'good')).toHaveLength(4);
+  });
+
+  it('flags a sensor stuck on one value', () => {
+    const stuck = Array.from({ length: 8 }, (_, index) => reading(index + 1, 31500));
+
+    const flags = tdsFlags(stuck);
+
+    expect(flags.slice(0, 3)).toEqual(['good', 'good', 'good']);
+    expect(flags[3]).toBe('suspect');
+    expect(flags[7]).toBe('bad');
+  });
+
+  it('marks a buoy without a sensor board as missing', () => {
+    const [quality] = assessReadingQuality([reading(1, 0, { pH: 0, temperature: 0 })], NOW);
+
+    expect(quality.parameters.tds).toBe('missing');
+  });
+});
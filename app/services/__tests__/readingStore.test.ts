@@ -0,0 +1,113 @@
+import { BuoyData, BuoyResponse } from '../buoyService';
+import { readingStore } from '../readingStore';
+
+// No native SQLite under Node, so the store runs on its in-memory fallback
+jest.mock('expo-sqlite', () => ({
+  openDatabaseAsync: jest.fn(() => Promise.reject(new Error('SQLite is not available in tests'))),
+}));
+jest.mock('../settingsService', () => ({
+  settingsService: { getSettings: () => ({ historyRetentionDays: 0, historyMaxReadings: 0 }) },
+}));
+
+const PAGE_SIZE = 10;
+
+// Fake dashboard: readings numbered 1..count, served newest first
+const createServer = (count: number) => {
+  let newestId = count;
+  const requested: number[] = [];
+  const row = (id: number): BuoyData => ({
+    ID: String(id),
+    Buoy: 'Buoy 1',
+    Date: '2025-08-14',
+    Time: `${String(Math.floor(id / 60) % 24).padStart(2, '0')}:${String(id % 60).padStart(2, '0')}:00`,
+    Latitude: '7.0731',
+    Longitude: '125.6128',
+    pH: '8.1',
+    'Temp (°C)': '29.0',
+    'TDS (ppm)': '31000',
+  });
+  const fetchPage = async (page: number): Promise<BuoyResponse> => {
+    requested.push(page);
+    const start = newestId - (page - 1) * PAGE_SIZE;
+    const data: BuoyData[] = [];
+    for (let id = start; id > Math.max(0, start - PAGE_SIZE); id--) data.push(row(id));
+    return { data, readings: [], totalPages: Math.ceil(newestId / PAGE_SIZE), currentPage: page };
+  };
+  return {
+    fetchPage,
+    requested,
+    addReadings: (n: number) => {
+      newestId += n;
+    },
+  };
+};
+
+const storedIds = async (): Promise<number[]> => (await readingStore.queryRows()).map(row => parseInt(row.ID));
+
+beforeEach(async () => {
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+  jest.spyOn(console, 'error').mockImplementation(() => {});
+  await readingStore.clear();
+});
+
+afterEach(() => jest.restoreAllMocks());
+
+describe('readingStore.sync', () => {
+  it('stores the whole history when it fits in one pass', async () => {
+    const server = createServer(25);
+
+    await expect(readingStore.sync(server.fetchPage, { force: true })).resolves.toBe(25);
+
+    expect((await storedIds()).length).toBe(25);
+    expect((await readingStore.getStats()).lastSyncedId).toBe(25);
+  });
+
+  it('resumes a long backfill where the previous sync stopped', async () => {
+    const server = createServer(45);
+
+    await readingStore.sync(server.fetchPage, { force: true, maxPages: 2 });
+    expect(server.requested).toEqual([1, 2]);
+    expect(await readingStore.count()).toBe(20);
+
+    server.requested.length = 0;
+    await readingStore.sync(server.fetchPage, { force: true, maxPages: 2 });
+    // Page 1 for new readings, then the backfill carries on from page 3
+    expect(server.requested).toEqual([1, 3, 4]);
+    expect(await readingStore.count()).toBe(40);
+
+    server.requested.length = 0;
+    await readingStore.sync(server.fetchPage, { force: true, maxPages: 2 });
+    expect(server.requested).toEqual([1, 5]);
+    expect(await readingStore.count()).toBe(45);
+
+    // History is complete: later syncs only look for new readings
+    server.requested.length = 0;
+    await readingStore.sync(server.fetchPage, { force: true, maxPages: 2 });
+    expect(server.requested).toEqual([1]);
+  });
+
+  it('fetches new readings and keeps backfilling when rows shift onto later pages', async () => {
+    const server = createServer(45);
+    await readingStore.sync(server.fetchPage, { force: true, maxPages: 2 });
+
+    // 15 new readings push the unsynced history down a page and a half
+    server.addReadings(15);
+    server.requested.length = 0;
+    await readingStore.sync(server.fetchPage, { force: true, maxPages: 4 });
+
+    expect(server.requested).toEqual([1, 2, 3, 4, 5, 6]);
+    const ids = await storedIds();
+    expect(ids).toHaveLength(60);
+    expect(new Set(ids).size).toBe(60);
+    expect((await readingStore.getStats()).lastSyncedId).toBe(60);
+  });
+
+  it('skips the network when synced moments ago', async () => {
+    const server = createServer(5);
+    await readingStore.sync(server.fetchPage, { force: true });
+    server.requested.length = 0;
+
+    await expect(readingStore.sync(server.fetchPage)).resolves.toBe(0);
+    expect(server.requested).toEqual([]);
+  });
+});
@@ -0,0 +1,95 @@
+import { ClientError, NetworkError, ServerError, UnknownError, isAbortError } from '../apiErrors';
+import { DEFAULT_RETRY_POLICY, RetryPolicy, getRetryDelay, retryWithPolicy } from '../retryPolicy';
+
+// Short waits so the retries finish quickly
+const FAST_POLICY: RetryPolicy = { ...DEFAULT_RETRY_POLICY, baseDelayMs: 5, maxDelayMs: 20, jitter: 0 };
+
+beforeEach(() => {
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('getRetryDelay', () => {
+  const error = new NetworkError();
+
+  it('doubles the delay for each attempt up to the maximum', () => {
+    const policy = { ...DEFAULT_RETRY_POLICY, jitter: 0 };
+
+    expect([1, 2, 3, 5, 10].map(attempt => getRetryDelay(policy, attempt, error))).toEqual([1000, 2000, 4000, 16000, 30000]);
+  });
+
+  it('keeps jittered delays between (1 - jitter) and 1 times the backoff', () => {
+    expect(getRetryDelay(DEFAULT_RETRY_POLICY, 2, error, () => 0)).toBe(1000);
+    expect(getRetryDelay(DEFAULT_RETRY_POLICY, 2, error, () => 0.999999)).toBe(2000);
+    expect(getRetryDelay({ ...DEFAULT_RETRY_POLICY, jitter: 1 }, 2, error, () => 0)).toBe(0);
+    // Out-of-range jitter is clamped
+    expect(getRetryDelay({ ...DEFAULT_RETRY_POLICY, jitter: 3 }, 2, error, () => 0)).toBe(0);
+    expect(getRetryDelay({ ...DEFAULT_RETRY_POLICY, jitter: -1 }, 2, error, () => 0)).toBe(2000);
+  });
+
+  it('follows Retry-After, capped at the maximum delay', () => {
+    expect(getRetryDelay(DEFAULT_RETRY_POLICY, 1, new ServerError(503, 5000))).toBe(5000);
+    expect(getRetryDelay(DEFAULT_RETRY_POLICY, 1, new ServerError(503, 120000))).toBe(30000);
+  });
+});
+
+describe('retryWithPolicy', () => {
+  it('retries transient failures until one succeeds', async () => {
+    const apiCall = jest.fn()
+      .mockRejectedValueOnce(new NetworkError())
+      .mockRejectedValueOnce(new ServerError(502))
+      .mockResolvedValueOnce('page');
+
+    await expect(retryWithPolicy(apiCall, FAST_POLICY)).resolves.toBe('page');
+    expect(apiCall).toHaveBeenCalledTimes(3);
+  });
+
+  it('gives up after the last attempt with the classified error', async () => {
+    const apiCall = jest.fn().mockRejectedValue(new ServerError(503));
+
+    await expect(retryWithPolicy(apiCall, FAST_POLICY)).rejects.toBeInstanceOf(ServerError);
+    expect(apiCall).toHaveBeenCalledTimes(FAST_POLICY.maxAttempts);
+  });
+
+  it('stops at once on errors that are not retryable', async () => {
+    const rejected = jest.fn().mockRejectedValue(new ClientError(404));
+    const buggy = jest.fn().mockRejectedValue(new TypeError("Cannot read properties of undefined (reading 'map')"));
+
+    await expect(retryWithPolicy(rejected, FAST_POLICY)).rejects.toBeInstanceOf(ClientError);
+    await expect(retryWithPolicy(buggy, FAST_POLICY)).rejects.toBeInstanceOf(UnknownError);
+    expect(rejected).toHaveBeenCalledTimes(1);
+    expect(buggy).toHaveBeenCalledTimes(1);
+  });
+
+  it('lets the policy veto a retry', async () => {
+    const apiCall = jest.fn().mockRejectedValue(new NetworkError());
+
+    await expect(retryWithPolicy(apiCall, { ...FAST_POLICY, shouldRetry: () => false })).rejects.toBeInstanceOf(NetworkError);
+    expect(apiCall).toHaveBeenCalledTimes(1);
+  });
+
+  it('stops waiting and retrying when the signal aborts', async () => {
+    const controller = new AbortController();
+    const apiCall = jest.fn().mockImplementation(() => {
+      setTimeout(() => controller.abort(), 0);
+      return Promise.reject(new NetworkError());
+    });
+
+    const result = retryWithPolicy(apiCall, { ...FAST_POLICY, baseDelayMs: 10000, maxDelayMs: 10000 }, controller.signal);
+
+    await expect(result.catch(isAbortError)).resolves.toBe(true);
+    expect(apiCall).toHaveBeenCalledTimes(1);
+  });
+
+  it('does not start when the signal has already aborted', async () => {
+    const controller = new AbortController();
+    controller.abort();
+    const apiCall = jest.fn();
+
+    await expect(retryWithPolicy(apiCall, FAST_POLICY, controller.signal).catch(isAbortError)).resolves.toBe(true);
+    expect(apiCall).not.toHaveBeenCalled();
+  });
+});
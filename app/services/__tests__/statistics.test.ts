@@ -0,0 +1,163 @@
+import { BuoyReading, fromServerClock, toServerClock } from '../buoyReading';
+import { getStoredReadings } from '../buoyService';
+import { aggregateStatistics, computeStatistics, getAggregatedStatistics, summarizeByPeriod } from '../statistics';
+
+jest.mock('../buoyService', () => ({ getStoredReadings: jest.fn() }));
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Server time, like the periods themselves
+const at = (month: number, day: number, hour: number = 0): number => fromServerClock(2025, month, day, hour);
+
+const reading = (id: number, timestamp: number, overrides: Partial<BuoyReading> = {}): BuoyReading => ({
+  id,
+  buoyId: 1,
+  buoy: 'Buoy 1',
+  timestamp,
+  latitude: 7.0731,
+  longitude: 125.6128,
+  pH: toServerClock(timestamp).getUTCMonth() === 7 ? 8.0 : 7.0, // 8.0 in August, 7.0 in September
+  temperature: 28 + (toServerClock(timestamp).getUTCHours() % 2), // Alternates 28/29, so every day averages 28.5
+  tds: 32000,
+  ...overrides,
+});
+
+// Hourly readings from Buoy 1 for Fri Aug 1 to Tue Sep 2 2025, with a 6-hour outage on Aug 10
+// and a missing pH value on Aug 5; Buoy 2 reports every 3 hours
+const buildReadings = (): BuoyReading[] => {
+  const readings: BuoyReading[] = [];
+  let id = 0;
+  for (let timestamp = at(7, 1); timestamp <= at(8, 2, 23); timestamp += HOUR_MS) {
+    if (timestamp >= at(7, 10, 12) && timestamp < at(7, 10, 18)) continue;
+    id += 1;
+    readings.push(reading(id, timestamp, timestamp === at(7, 5, 9) ? { pH: null } : {}));
+  }
+  for (let timestamp = at(7, 1); timestamp <= at(8, 2, 23); timestamp += 3 * HOUR_MS) {
+    id += 1;
+    readings.push(reading(id, timestamp, { buoyId: 2, buoy: 'Buoy 2', pH: 6.0, temperature: 20 }));
+  }
+  return readings;
+};
+
+const readings = buildReadings();
+const buoy1 = { buoyIds: [1] };
+
+afterEach(() => jest.clearAllMocks());
+
+describe('daily aggregation', () => {
+  const days = aggregateStatistics(readings, { ...buoy1, parameter: 'temperature' }, 'day');
+
+  it('makes one period per server day, oldest first', () => {
+    expect(days).toHaveLength(33);
+    expect(days[0]).toMatchObject({ period: 'day', start: at(7, 1), end: at(7, 2), label: 'Aug 1, 2025' });
+    expect(days[32]).toMatchObject({ start: at(8, 2), end: at(8, 3), label: 'Sep 2, 2025' });
+  });
+
+  it('summarizes each day and finds the earliest extremes', () => {
+    const statistics = days[0].statistics;
+
+    expect(days[0].readingCount).toBe(24);
+    expect(statistics).toMatchObject({ count: 24, mean: 28.5, median: 28.5, expectedCount: 24, completeness: 1 });
+    expect(statistics.min).toEqual({ value: 28, timestamp: at(7, 1, 0), buoy: 'Buoy 1' });
+    expect(statistics.max).toEqual({ value: 29, timestamp: at(7, 1, 1), buoy: 'Buoy 1' });
+  });
+
+  it('reports an outage as missing completeness at the usual cadence', () => {
+    const outage = days.find(day => day.start === at(7, 10))!;
+
+    expect(outage.readingCount).toBe(18);
+    expect(outage.statistics).toMatchObject({ count: 18, expectedCount: 24, completeness: 0.75 });
+  });
+
+  it('leaves out missing values but still counts the reading', () => {
+    const [day] = aggregateStatistics(readings, { ...buoy1, parameter: 'pH', from: at(7, 5), to: at(7, 6) - 1 }, 'day');
+
+    expect(day.readingCount).toBe(24);
+    expect(day.statistics.count).toBe(23);
+  });
+});
+
+describe('weekly aggregation', () => {
+  const weeks = aggregateStatistics(readings, { ...buoy1, parameter: 'temperature' }, 'week');
+
+  it('starts weeks on Sunday and labels them by that day', () => {
+    expect(weeks.map(week => week.label)).toEqual([
+      'Week of Jul 27, 2025',
+      'Week of Aug 3, 2025',
+      'Week of Aug 10, 2025',
+      'Week of Aug 17, 2025',
+      'Week of Aug 24, 2025',
+      'Week of Aug 31, 2025',
+    ]);
+    expect(weeks[1]).toMatchObject({ start: at(7, 3), end: at(7, 10) });
+  });
+
+  it('only expects reports inside the window for partial first and last weeks', () => {
+    expect(weeks[0].statistics).toMatchObject({ count: 48, expectedCount: 48, completeness: 1 });
+    expect(weeks[5].statistics).toMatchObject({ count: 72, expectedCount: 72, completeness: 1 });
+    expect(weeks[2].statistics).toMatchObject({ count: 162, expectedCount: 168 });
+  });
+});
+
+describe('monthly aggregation', () => {
+  it('summarizes each calendar month', () => {
+    const months = aggregateStatistics(readings, { ...buoy1, parameter: 'pH' }, 'month');
+
+    expect(months.map(month => month.label)).toEqual(['Aug 2025', 'Sep 2025']);
+    expect(months[0]).toMatchObject({ start: at(7, 1), end: at(8, 1), readingCount: 31 * 24 - 6 });
+    expect(months[0].statistics).toMatchObject({ count: 31 * 24 - 7, mean: 8.0, stdDev: 0 });
+    expect(months[1].statistics).toMatchObject({ count: 48, mean: 7.0, expectedCount: 48 });
+  });
+
+  it('combines buoys, each expected at its own cadence', () => {
+    const [august] = aggregateStatistics(readings, { parameter: 'temperature' }, 'month');
+
+    expect(august.readingCount).toBe(31 * 24 - 6 + 31 * 8);
+    expect(august.statistics.expectedCount).toBe(31 * 24 + 31 * 8);
+    expect(august.statistics.min).toMatchObject({ value: 20, buoy: 'Buoy 2' });
+  });
+
+  it('lines every parameter up on the same periods', () => {
+    const summaries = summarizeByPeriod(readings, buoy1, 'month');
+
+    expect(summaries).toHaveLength(2);
+    expect(summaries[1].statistics.pH.mean).toBe(7.0);
+    expect(summaries[1].statistics.temperature.mean).toBe(28.5);
+    expect(summaries[1].statistics.tds.mean).toBe(32000);
+  });
+});
+
+describe('computeStatistics', () => {
+  it('matches the sum of its periods', () => {
+    const whole = computeStatistics(readings, { ...buoy1, parameter: 'temperature' });
+    const days = aggregateStatistics(readings, { ...buoy1, parameter: 'temperature' }, 'day');
+
+    expect(whole.count).toBe(days.reduce((sum, day) => sum + day.statistics.count, 0));
+    expect(whole.mean).toBe(28.5);
+  });
+
+  it('handles more readings than fit in one function call', () => {
+    const years = Array.from({ length: 300000 }, (_, index) => reading(index + 1, at(0, 1) + index * 5 * 60 * 1000));
+
+    const statistics = computeStatistics(years, { parameter: 'tds' });
+
+    expect(statistics).toMatchObject({ count: 300000, expectedCount: 300000 });
+  });
+
+  it('returns empty statistics when nothing matches', () => {
+    expect(computeStatistics(readings, { buoyIds: [3], parameter: 'pH' })).toMatchObject({ count: 0, mean: null, completeness: null });
+    expect(aggregateStatistics(readings, { buoyIds: [3], parameter: 'pH' }, 'day')).toEqual([]);
+  });
+});
+
+describe('getAggregatedStatistics', () => {
+  it('loads a single buoy from the store', async () => {
+    const stored = jest.mocked(getStoredReadings).mockResolvedValue(readings.filter(entry => entry.buoyId === 1));
+
+    const months = await getAggregatedStatistics({ buoyIds: [1], parameter: 'pH', from: at(8, 1) }, 'month');
+
+    expect(stored).toHaveBeenCalledWith({ buoyId: 1, from: at(8, 1), to: undefined });
+    expect(months).toHaveLength(1);
+    expect(months[0].statistics).toMatchObject({ count: 48, expectedCount: 48 });
+  });
+});
@@ -0,0 +1,126 @@
+import { BuoyReading } from '../buoyReading';
+import {
+  DEFAULT_WATER_QUALITY_STANDARD,
+  WATER_QUALITY_STANDARDS,
+  computeWqi,
+  getWqiCategory,
+  parameterSubIndex,
+  summarizeWqi,
+  summarizeWqiByBuoy,
+} from '../waterQuality';
+
+const START = Date.parse('2025-08-14T00:00:00+08:00');
+
+const reading = (id: number, overrides: Partial<BuoyReading> = {}): BuoyReading => ({
+  id,
+  buoyId: 1,
+  buoy: 'Buoy 1',
+  timestamp: START + id * 60 * 60 * 1000,
+  latitude: 7.0731,
+  longitude: 125.6128,
+  pH: 8.1,
+  temperature: 29,
+  tds: 32000,
+  ...overrides,
+});
+
+const { general, aquaculture } = WATER_QUALITY_STANDARDS;
+const sb = WATER_QUALITY_STANDARDS['denr-sb'];
+const sc = WATER_QUALITY_STANDARDS['denr-sc'];
+
+describe('water quality standards', () => {
+  it('defaults to a marine class', () => {
+    expect(DEFAULT_WATER_QUALITY_STANDARD).toBe('denr-sc');
+  });
+
+  it('leaves TDS out of the DENR marine classes', () => {
+    expect(sb.limits.tds).toBeUndefined();
+    expect(sc.limits.tds).toBeUndefined();
+    expect(parameterSubIndex(32000, 'tds', sc)).toBeNull();
+  });
+
+  it('scores ordinary seawater as excellent under the marine classes', () => {
+    const wqi = computeWqi(reading(1), sc)!;
+
+    expect(wqi.score).toBe(100);
+    expect(wqi.category).toBe('excellent');
+    expect(Object.keys(wqi.subIndices).sort()).toEqual(['pH', 'temperature']);
+  });
+
+  it('rates seawater TDS as poor against the freshwater limits', () => {
+    expect(computeWqi(reading(1), general)!.subIndices.tds).toBe(0);
+    expect(computeWqi(reading(1), general)!.limiting).toBe('tds');
+  });
+
+  it('scores a typical seawater reading under every standard', () => {
+    const scores = Object.fromEntries(Object.values(WATER_QUALITY_STANDARDS).map(standard => [standard.id, computeWqi(reading(1), standard)!.score]));
+
+    // Only the freshwater guidelines mark seawater down
+    expect(scores).toEqual({ general: 70, 'denr-sb': 100, 'denr-sc': 100, aquaculture: 100 });
+  });
+
+  it('rates brackish water against the mariculture salinity range', () => {
+    expect(parameterSubIndex(20000, 'tds', aquaculture)).toBeCloseTo(50);
+    expect(parameterSubIndex(41000, 'tds', aquaculture)).toBeCloseTo(50);
+  });
+});
+
+describe('parameterSubIndex', () => {
+  it('is 100 inside the limits and falls linearly to 0 over the tolerance', () => {
+    expect(parameterSubIndex(7.5, 'pH', sb)).toBe(100);
+    expect(parameterSubIndex(6.5, 'pH', sb)).toBeCloseTo(50);
+    expect(parameterSubIndex(9.0, 'pH', sb)).toBeCloseTo(50);
+    expect(parameterSubIndex(5.0, 'pH', sb)).toBe(0);
+  });
+});
+
+describe('computeWqi', () => {
+  it('weights pH above temperature and names the limiting parameter', () => {
+    // pH 50, temperature 100 -> (50 * 0.4 + 100 * 0.3) / 0.7
+    const wqi = computeWqi(reading(1, { pH: 6.5 }), sb)!;
+
+    expect(wqi.score).toBeCloseTo(500 / 7);
+    expect(wqi.category).toBe('fair');
+    expect(wqi.limiting).toBe('pH');
+  });
+
+  it('skips missing values and values that failed quality control', () => {
+    const flagged = reading(1, {
+      pH: 3,
+      qc: { flag: 'bad', parameters: { pH: 'bad', temperature: 'good', tds: 'good', position: 'good', timestamp: 'good' }, issues: [] },
+    });
+
+    expect(computeWqi(reading(1, { pH: null }), sc)!.subIndices).toEqual({ temperature: 100 });
+    expect(computeWqi(flagged, sc)!.score).toBe(100);
+  });
+
+  it('returns null when no covered parameter was measured', () => {
+    expect(computeWqi(reading(1, { pH: null, temperature: null }), sc)).toBeNull();
+  });
+});
+
+describe('getWqiCategory', () => {
+  it('uses the CCME bands', () => {
+    expect([95, 94.9, 80, 65, 45, 44.9].map(getWqiCategory)).toEqual(['excellent', 'good', 'good', 'fair', 'marginal', 'poor']);
+  });
+});
+
+describe('summarizeWqi', () => {
+  it('averages the scored readings and keeps their range', () => {
+    const summary = summarizeWqi([reading(1), reading(2, { pH: 6.5 }), reading(3, { pH: null, temperature: null })], sb)!;
+
+    expect(summary.count).toBe(2);
+    expect(summary.min).toBeCloseTo(500 / 7);
+    expect(summary.max).toBe(100);
+    expect(summary.score).toBeCloseTo((100 + 500 / 7) / 2);
+  });
+
+  it('groups by buoy in numeric order', () => {
+    const readings = [reading(1, { buoy: 'Buoy 10' }), reading(2, { buoy: 'Buoy 2' }), reading(3, { buoy: 'Buoy 2', pH: null, temperature: null })];
+
+    const byBuoy = summarizeWqiByBuoy(readings, sc);
+
+    expect(byBuoy.map(entry => entry.buoy)).toEqual(['Buoy 2', 'Buoy 10']);
+    expect(byBuoy[0].summary.count).toBe(1);
+  });
+});
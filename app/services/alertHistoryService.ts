@@ -0,0 +1,423 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { supabase } from './authService';
+import { AlertEvent, AlertParameter, AlertSeverity, describeAlertRule, formatAlertMessage } from './alertService';
+
+/**
+ * Persisted log of every alert fired on this device, plus alerts pulled from
+ * the team log in Supabase. Acknowledgements and comments are synced so the
+ * whole team can see that an alert was handled; snoozes stay on this device.
+ */
+
+export interface AlertComment {
+  id: string;
+  authorName: string;
+  body: string;
+  createdAt: number;
+  synced: boolean;
+}
+
+export interface AlertRecord {
+  key: string; // Same on every device that fires the same rule for the same reading
+  ruleId: string | null; // null for alerts fired on someone else's device
+  ruleDescription: string;
+  buoyId: number;
+  buoy: string;
+  parameter: AlertParameter;
+  severity: AlertSeverity;
+  value: number;
+  message: string;
+  readingId: number;
+  occurredAt: number; // Reading timestamp
+  firedAt: number;
+  read: boolean;
+  acknowledgedAt: number | null;
+  acknowledgedBy: string | null;
+  ackSynced: boolean;
+  comments: AlertComment[];
+  snoozedUntil: number | null;
+  synced: boolean;
+}
+
+// Row shape of public.alert_events (see supabase_schema.sql)
+interface AlertEventRow {
+  event_key: string;
+  buoy_id: number;
+  parameter: AlertParameter;
+  rule_description: string;
+  severity: AlertSeverity;
+  value: number;
+  message: string;
+  reading_id: number | null;
+  occurred_at: string;
+  acknowledged_by_name: string | null;
+  acknowledged_at: string | null;
+  created_at: string;
+  alert_comments?: {
+    id: string;
+    author_name: string;
+    body: string;
+    created_at: string;
+  }[];
+}
+
+const STORAGE_KEY = 'alertHistory';
+const ACTOR_STORAGE_KEY = 'alertActorName'; // For acknowledging from a notification, outside any screen
+const MAX_RECORDS = 500;
+const MAX_AGE_MS = 30 * 24 * 60 * 60 * 1000;
+const PULL_WINDOW_MS = 7 * 24 * 60 * 60 * 1000; // How far back team alerts are fetched
+
+const createCommentId = (): string => `c-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+export const alertEventKey = (event: AlertEvent): string => {
+  const { rule } = event;
+  return `${event.buoyId}:${rule.parameter}:${rule.condition}:${rule.threshold}:${event.readingId}`;
+};
+
+export const isUnreadAlert = (record: AlertRecord): boolean => !record.read && record.acknowledgedAt === null;
+
+class AlertHistoryService {
+  private static instance: AlertHistoryService;
+  private records: AlertRecord[] = [];
+  private loaded: Promise<void> | null = null;
+  private listeners: ((records: AlertRecord[]) => void)[] = [];
+  private syncInProgress: Promise<boolean> | null = null;
+
+  private constructor() {}
+
+  public static getInstance(): AlertHistoryService {
+    if (!AlertHistoryService.instance) {
+      AlertHistoryService.instance = new AlertHistoryService();
+    }
+    return AlertHistoryService.instance;
+  }
+
+  private load(): Promise<void> {
+    if (!this.loaded) {
+      this.loaded = (async () => {
+        try {
+          const saved = await AsyncStorage.getItem(STORAGE_KEY);
+          if (saved) this.records = JSON.parse(saved);
+        } catch (error) {
+          console.error('Error loading alert history:', error);
+        }
+      })();
+    }
+    return this.loaded;
+  }
+
+  // Newest first, trimmed to the size and age limits
+  private async save(): Promise<void> {
+    const cutoff = Date.now() - MAX_AGE_MS;
+    this.records = this.records
+      .filter(record => record.firedAt >= cutoff)
+      .sort((a, b) => b.occurredAt - a.occurredAt)
+      .slice(0, MAX_RECORDS);
+    try {
+      await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(this.records));
+    } catch (error) {
+      console.error('Error saving alert history:', error);
+    }
+    this.notifyListeners();
+  }
+
+  async getRecords(): Promise<AlertRecord[]> {
+    await this.load();
+    return this.records.map(record => ({ ...record }));
+  }
+
+  async getUnreadCount(): Promise<number> {
+    await this.load();
+    return this.records.filter(isUnreadAlert).length;
+  }
+
+  /**
+   * Log a fired alert. Returns false if the rule is snoozed for that buoy,
+   * in which case the alert is logged as read and no notification should go out.
+   */
+  async record(event: AlertEvent, now: number = Date.now()): Promise<boolean> {
+    await this.load();
+    const key = alertEventKey(event);
+    if (this.records.some(record => record.key === key)) {
+      return false;
+    }
+
+    const snoozed = this.isSnoozed(event.rule.id, event.buoyId, now);
+    this.records.push({
+      key,
+      ruleId: event.rule.id,
+      ruleDescription: describeAlertRule(event.rule),
+      buoyId: event.buoyId,
+      buoy: event.buoy,
+      parameter: event.rule.parameter,
+      severity: event.rule.severity,
+      value: event.value,
+      message: formatAlertMessage(event),
+      readingId: event.readingId,
+      occurredAt: event.timestamp,
+      firedAt: now,
+      read: snoozed,
+      acknowledgedAt: null,
+      acknowledgedBy: null,
+      ackSynced: true,
+      comments: [],
+      snoozedUntil: null,
+      synced: false,
+    });
+    await this.save();
+    return !snoozed;
+  }
+
+  private isSnoozed(ruleId: string, buoyId: number, now: number): boolean {
+    return this.records.some(record =>
+      record.ruleId === ruleId && record.buoyId === buoyId &&
+      record.snoozedUntil !== null && record.snoozedUntil > now
+    );
+  }
+
+  private async update(key: string, change: (record: AlertRecord) => AlertRecord): Promise<void> {
+    await this.load();
+    this.records = this.records.map(record => (record.key === key ? change(record) : record));
+    await this.save();
+  }
+
+  // Name recorded on acknowledgements made from a notification action
+  async setActorName(name: string): Promise<void> {
+    try {
+      await AsyncStorage.setItem(ACTOR_STORAGE_KEY, name);
+    } catch (error) {
+      console.error('Error saving alert actor name:', error);
+    }
+  }
+
+  async getActorName(): Promise<string> {
+    try {
+      return (await AsyncStorage.getItem(ACTOR_STORAGE_KEY)) || 'Unknown user';
+    } catch (error) {
+      return 'Unknown user';
+    }
+  }
+
+  async markRead(key: string): Promise<void> {
+    await this.update(key, record => ({ ...record, read: true }));
+  }
+
+  async markAllRead(): Promise<void> {
+    await this.load();
+    this.records = this.records.map(record => ({ ...record, read: true }));
+    await this.save();
+  }
+
+  async acknowledge(key: string, actorName: string): Promise<void> {
+    await this.update(key, record => ({
+      ...record,
+      read: true,
+      acknowledgedAt: Date.now(),
+      acknowledgedBy: actorName,
+      ackSynced: false,
+    }));
+    this.sync();
+  }
+
+  async addComment(key: string, actorName: string, body: string): Promise<void> {
+    const text = body.trim();
+    if (!text) return;
+    await this.update(key, record => ({
+      ...record,
+      read: true,
+      comments: [
+        ...record.comments,
+        { id: createCommentId(), authorName: actorName, body: text, createdAt: Date.now(), synced: false },
+      ],
+    }));
+    this.sync();
+  }
+
+  // Mutes further notifications from the same rule and buoy until the snooze ends
+  async snooze(key: string, durationMs: number): Promise<void> {
+    await this.update(key, record => ({ ...record, read: true, snoozedUntil: Date.now() + durationMs }));
+  }
+
+  async clearSnooze(key: string): Promise<void> {
+    await this.update(key, record => ({ ...record, snoozedUntil: null }));
+  }
+
+  /**
+   * Push local alerts, acknowledgements and comments to the team log, then
+   * pull the last week of team alerts. Only runs with a signed-in session;
+   * resolves false when it did not sync.
+   */
+  sync(): Promise<boolean> {
+    if (!this.syncInProgress) {
+      this.syncInProgress = this.syncOnce().finally(() => {
+        this.syncInProgress = null;
+      });
+    }
+    return this.syncInProgress;
+  }
+
+  private async syncOnce(): Promise<boolean> {
+    await this.load();
+    try {
+      const { data: { session } } = await supabase.auth.getSession();
+      if (!session) return false;
+
+      const unsynced = this.records.filter(record => !record.synced);
+      if (unsynced.length > 0) {
+        const { error } = await supabase.from('alert_events').upsert(
+          unsynced.map(record => ({
+            event_key: record.key,
+            buoy_id: record.buoyId,
+            parameter: record.parameter,
+            rule_description: record.ruleDescription,
+            severity: record.severity,
+            value: record.value,
+            message: record.message,
+            reading_id: record.readingId,
+            occurred_at: new Date(record.occurredAt).toISOString(),
+          })),
+          { onConflict: 'event_key', ignoreDuplicates: true }
+        );
+        if (error) throw error;
+        const pushed = new Set(unsynced.map(record => record.key));
+        this.records = this.records.map(record => (pushed.has(record.key) ? { ...record, synced: true } : record));
+      }
+
+      // First acknowledgement wins; a later one from another device is ignored
+      for (const record of this.records.filter(item => item.acknowledgedAt !== null && !item.ackSynced)) {
+        const { error } = await supabase
+          .from('alert_events')
+          .update({
+            acknowledged_by: session.user.id,
+            acknowledged_by_name: record.acknowledgedBy,
+            acknowledged_at: new Date(record.acknowledgedAt as number).toISOString(),
+          })
+          .eq('event_key', record.key)
+          .is('acknowledged_at', null);
+        if (error) throw error;
+        record.ackSynced = true;
+      }
+
+      const comments = this.records.flatMap(record =>
+        record.comments.filter(comment => !comment.synced).map(comment => ({ record, comment }))
+      );
+      if (comments.length > 0) {
+        const { error } = await supabase.from('alert_comments').upsert(
+          comments.map(({ record, comment }) => ({
+            id: comment.id,
+            event_key: record.key,
+            author_name: comment.authorName,
+            body: comment.body,
+            created_at: new Date(comment.createdAt).toISOString(),
+          })),
+          { onConflict: 'id', ignoreDuplicates: true }
+        );
+        if (error) throw error;
+        comments.forEach(({ comment }) => {
+          comment.synced = true;
+        });
+      }
+
+      const { data, error } = await supabase
+        .from('alert_events')
+        .select('*, alert_comments(id, author_name, body, created_at)')
+        .gte('occurred_at', new Date(Date.now() - PULL_WINDOW_MS).toISOString())
+        .order('occurred_at', { ascending: false })
+        .limit(MAX_RECORDS);
+      if (error) throw error;
+
+      this.mergeRemote((data ?? []) as AlertEventRow[]);
+      await this.save();
+      if (__DEV__) console.log(`🔔 Alert history synced (${this.records.length} alerts)`);
+      return true;
+    } catch (error) {
+      console.error('Error syncing alert history:', error);
+      // Keep whatever was marked synced before the failure
+      await this.save();
+      return false;
+    }
+  }
+
+  private mergeRemote(rows: AlertEventRow[]): void {
+    const byKey = new Map(this.records.map(record => [record.key, record]));
+
+    rows.forEach(row => {
+      const acknowledgedAt = row.acknowledged_at ? Date.parse(row.acknowledged_at) : null;
+      const remoteComments: AlertComment[] = (row.alert_comments ?? []).map(comment => ({
+        id: comment.id,
+        authorName: comment.author_name,
+        body: comment.body,
+        createdAt: Date.parse(comment.created_at),
+        synced: true,
+      }));
+
+      const local = byKey.get(row.event_key);
+      if (!local) {
+        byKey.set(row.event_key, {
+          key: row.event_key,
+          ruleId: null,
+          ruleDescription: row.rule_description,
+          buoyId: row.buoy_id,
+          buoy: `Buoy ${row.buoy_id}`,
+          parameter: row.parameter,
+          severity: row.severity,
+          value: row.value,
+          message: row.message,
+          readingId: row.reading_id ?? 0,
+          occurredAt: Date.parse(row.occurred_at),
+          firedAt: Date.parse(row.created_at),
+          read: false,
+          acknowledgedAt,
+          acknowledgedBy: row.acknowledged_by_name,
+          ackSynced: true,
+          comments: remoteComments,
+          snoozedUntil: null,
+          synced: true,
+        });
+        return;
+      }
+
+      const knownComments = new Set(local.comments.map(comment => comment.id));
+      const comments = [...local.comments, ...remoteComments.filter(comment => !knownComments.has(comment.id))]
+        .sort((a, b) => a.createdAt - b.createdAt);
+      // The team log's acknowledgement is the one everyone sees
+      const acknowledged = acknowledgedAt !== null
+        ? { acknowledgedAt, acknowledgedBy: row.acknowledged_by_name, ackSynced: true, read: true }
+        : {};
+      byKey.set(row.event_key, { ...local, ...acknowledged, comments });
+    });
+
+    this.records = Array.from(byKey.values());
+  }
+
+  // Subscribe to history changes
+  subscribe(listener: (records: AlertRecord[]) => void): () => void {
+    this.listeners.push(listener);
+    return () => {
+      const index = this.listeners.indexOf(listener);
+      if (index > -1) {
+        this.listeners.splice(index, 1);
+      }
+    };
+  }
+
+  private notifyListeners(): void {
+    const records = this.records.map(record => ({ ...record }));
+    this.listeners.forEach(listener => listener(records));
+  }
+}
+
+// Export singleton instance
+export const alertHistoryService = AlertHistoryService.getInstance();
+
+// Export convenience functions
+export const getAlertHistory = () => alertHistoryService.getRecords();
+export const getUnreadAlertCount = () => alertHistoryService.getUnreadCount();
+export const markAlertRead = (key: string) => alertHistoryService.markRead(key);
+export const markAllAlertsRead = () => alertHistoryService.markAllRead();
+export const acknowledgeAlert = (key: string, actorName: string) => alertHistoryService.acknowledge(key, actorName);
+export const setAlertActorName = (name: string) => alertHistoryService.setActorName(name);
+export const commentOnAlert = (key: string, actorName: string, body: string) => alertHistoryService.addComment(key, actorName, body);
+export const snoozeAlert = (key: string, durationMs: number) => alertHistoryService.snooze(key, durationMs);
+export const clearAlertSnooze = (key: string) => alertHistoryService.clearSnooze(key);
+export const syncAlertHistory = () => alertHistoryService.sync();
+export const subscribeToAlertHistory = (listener: (records: AlertRecord[]) => void) => alertHistoryService.subscribe(listener);
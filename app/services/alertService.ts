@@ -0,0 +1,366 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { getStoredReadings, subscribeToBuoyData } from './buoyService';
+import { BuoyReading } from './buoyReading';
+import { QC_THRESHOLDS, withoutBadValues } from './qualityControl';
+import { notificationService } from './notificationService';
+import { alertHistoryService, alertEventKey } from './alertHistoryService';
+import { pushService } from './pushService';
+import {
+  AlertCondition,
+  AlertParameter,
+  AlertRule,
+  AlertRuleState,
+  AlertSeverity,
+  evaluateAlertRule,
+} from '../../supabase/functions/_shared/alertEvaluation';
+
+/**
+ * Water-quality alert rules. Each rule watches one parameter on one buoy (or
+ * every buoy) and fires a local notification when the value crosses its
+ * threshold. Rules only clear once the value has moved back past the
+ * threshold by the hysteresis margin, so a reading hovering on the limit
+ * does not fire over and over.
+ */
+
+// The rule types and the state machine are shared with the push function
+export type { AlertCondition, AlertParameter, AlertRule, AlertSeverity } from '../../supabase/functions/_shared/alertEvaluation';
+
+export type NewAlertRule = Omit<AlertRule, 'id'>;
+
+export interface AlertEvent {
+  rule: AlertRule;
+  buoyId: number;
+  buoy: string;
+  readingId: number;
+  timestamp: number;
+  value: number; // The reading's value (for rate rules too)
+  rate: number | null; // Change per hour since the previous reading
+  change: number | null; // Change since the previous reading
+}
+
+const RULES_STORAGE_KEY = 'alertRules';
+const STATE_STORAGE_KEY = 'alertRuleState';
+const LOOKBACK_MS = 24 * 60 * 60 * 1000; // Readings older than this never trigger alerts
+
+export const ALERT_PARAMETER_LABELS: Record<AlertParameter, string> = {
+  pH: 'pH',
+  temperature: 'Temperature',
+  tds: 'TDS',
+};
+
+export const ALERT_CONDITION_LABELS: Record<AlertCondition, string> = {
+  above: 'Above',
+  below: 'Below',
+  rate: 'Changes faster than',
+};
+
+export const ALERT_SEVERITY_LABELS: Record<AlertSeverity, string> = {
+  info: 'Info',
+  warning: 'Warning',
+  critical: 'Critical',
+};
+
+export const ALERT_SEVERITY_COLORS: Record<AlertSeverity, string> = {
+  info: '#0ea5e9',
+  warning: '#f59e0b',
+  critical: '#ef4444',
+};
+
+// Starting point for fish-cage and mariculture sites; users can edit or delete these
+export const DEFAULT_ALERT_RULES: AlertRule[] = [
+  {
+    id: 'default-ph-low', buoyId: null, parameter: 'pH', condition: 'below',
+    threshold: 7.0, sustainedReadings: 2, hysteresis: 0.2, severity: 'warning', enabled: true,
+  },
+  {
+    id: 'default-ph-high', buoyId: null, parameter: 'pH', condition: 'above',
+    threshold: 9.0, sustainedReadings: 2, hysteresis: 0.2, severity: 'warning', enabled: true,
+  },
+  {
+    id: 'default-temp-high', buoyId: null, parameter: 'temperature', condition: 'above',
+    threshold: 32, sustainedReadings: 2, hysteresis: 0.5, severity: 'critical', enabled: true,
+  },
+  {
+    id: 'default-temp-rate', buoyId: null, parameter: 'temperature', condition: 'rate',
+    threshold: 2, sustainedReadings: 1, hysteresis: 0.5, severity: 'warning', enabled: true,
+  },
+];
+
+const unitFor = (parameter: AlertParameter): string => QC_THRESHOLDS.sensors[parameter].unit;
+
+const formatNumber = (value: number, parameter: AlertParameter): string => {
+  return value.toFixed(parameter === 'tds' ? 0 : parameter === 'pH' ? 2 : 1);
+};
+
+// e.g. "pH below 7.0 for 2 readings" or "Temperature changes faster than 2°C/h"
+export const describeAlertRule = (rule: AlertRule): string => {
+  const label = ALERT_PARAMETER_LABELS[rule.parameter];
+  const unit = unitFor(rule.parameter);
+  const limit = rule.condition === 'rate'
+    ? `changes faster than ${rule.threshold}${unit}/h`
+    : `${rule.condition} ${rule.threshold}${unit}`;
+  const sustained = rule.sustainedReadings > 1 ? ` for ${rule.sustainedReadings} readings` : '';
+  return `${label} ${limit}${sustained}`;
+};
+
+// e.g. "↑ +0.31 since last reading"
+export const describeAlertTrend = (event: AlertEvent): string => {
+  if (event.change === null) return 'no previous reading';
+  const { parameter } = event.rule;
+  const arrow = event.change > 0 ? '↑' : event.change < 0 ? '↓' : '→';
+  const sign = event.change > 0 ? '+' : '';
+  return `${arrow} ${sign}${formatNumber(event.change, parameter)}${unitFor(parameter)} since last reading`;
+};
+
+export const formatAlertTitle = (event: AlertEvent): string => {
+  return `${ALERT_SEVERITY_LABELS[event.rule.severity]}: ${event.buoy} ${ALERT_PARAMETER_LABELS[event.rule.parameter]}`;
+};
+
+export const formatAlertMessage = (event: AlertEvent): string => {
+  const { rule } = event;
+  const unit = unitFor(rule.parameter);
+  const value = `${ALERT_PARAMETER_LABELS[rule.parameter]} ${formatNumber(event.value, rule.parameter)}${unit}`;
+  const limit = rule.condition === 'rate' && event.rate !== null
+    ? `${formatNumber(Math.abs(event.rate), rule.parameter)}${unit}/h, limit ${rule.threshold}${unit}/h`
+    : `limit ${rule.threshold}${unit}`;
+  return `${value} (${limit}) - ${describeAlertTrend(event)}`;
+};
+
+const createRuleId = (): string => `rule-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+class AlertService {
+  private static instance: AlertService;
+  private rules: AlertRule[] = DEFAULT_ALERT_RULES;
+  // Per rule and buoy, persisted so an active alert is not re-sent after a restart
+  private states: Record<string, AlertRuleState> = {};
+  private loaded: Promise<void> | null = null;
+  private listeners: ((rules: AlertRule[]) => void)[] = [];
+  private unsubscribeFromData: (() => void) | null = null;
+  private evaluation: Promise<AlertEvent[]> | null = null;
+  private evaluateAgain = false;
+
+  private constructor() {}
+
+  public static getInstance(): AlertService {
+    if (!AlertService.instance) {
+      AlertService.instance = new AlertService();
+    }
+    return AlertService.instance;
+  }
+
+  // Load rules and their state once; later calls reuse the same promise
+  private load(): Promise<void> {
+    if (!this.loaded) {
+      this.loaded = (async () => {
+        try {
+          const [savedRules, savedStates] = await Promise.all([
+            AsyncStorage.getItem(RULES_STORAGE_KEY),
+            AsyncStorage.getItem(STATE_STORAGE_KEY),
+          ]);
+          if (savedRules) this.rules = JSON.parse(savedRules);
+          if (savedStates) this.states = JSON.parse(savedStates);
+        } catch (error) {
+          console.error('Error loading alert rules:', error);
+        }
+      })();
+    }
+    return this.loaded;
+  }
+
+  async getRules(): Promise<AlertRule[]> {
+    await this.load();
+    return this.rules.map(rule => ({ ...rule }));
+  }
+
+  async addRule(rule: NewAlertRule): Promise<AlertRule> {
+    await this.load();
+    const created = { ...rule, id: createRuleId() };
+    await this.saveRules([...this.rules, created]);
+    return created;
+  }
+
+  async updateRule(rule: AlertRule): Promise<void> {
+    await this.load();
+    // A changed rule starts over; the old state no longer means anything
+    this.clearState(rule.id);
+    await this.saveRules(this.rules.map(existing => (existing.id === rule.id ? { ...rule } : existing)));
+  }
+
+  async deleteRule(id: string): Promise<void> {
+    await this.load();
+    this.clearState(id);
+    await this.saveRules(this.rules.filter(rule => rule.id !== id));
+  }
+
+  async resetRules(): Promise<void> {
+    await this.load();
+    this.states = {};
+    await this.saveRules(DEFAULT_ALERT_RULES);
+  }
+
+  private async saveRules(rules: AlertRule[]): Promise<void> {
+    try {
+      await AsyncStorage.setItem(RULES_STORAGE_KEY, JSON.stringify(rules));
+      await AsyncStorage.setItem(STATE_STORAGE_KEY, JSON.stringify(this.states));
+      this.rules = rules;
+      this.notifyListeners();
+      this.evaluate();
+    } catch (error) {
+      console.error('Error saving alert rules:', error);
+      throw error;
+    }
+  }
+
+  private clearState(ruleId: string): void {
+    Object.keys(this.states)
+      .filter(key => key.startsWith(`${ruleId}:`))
+      .forEach(key => delete this.states[key]);
+  }
+
+  // Subscribe to rule changes
+  subscribe(listener: (rules: AlertRule[]) => void): () => void {
+    this.listeners.push(listener);
+    return () => {
+      const index = this.listeners.indexOf(listener);
+      if (index > -1) {
+        this.listeners.splice(index, 1);
+      }
+    };
+  }
+
+  private notifyListeners(): void {
+    const rules = this.rules.map(rule => ({ ...rule }));
+    this.listeners.forEach(listener => listener(rules));
+  }
+
+  // Evaluate rules every time new readings arrive
+  start(): void {
+    if (this.unsubscribeFromData) return;
+    this.unsubscribeFromData = subscribeToBuoyData(() => {
+      this.evaluate();
+    });
+    this.evaluate();
+  }
+
+  stop(): void {
+    this.unsubscribeFromData?.();
+    this.unsubscribeFromData = null;
+  }
+
+  /**
+   * Run every enabled rule over readings that arrived since the last run and
+   * send a notification for each alert that fired. Calls made while a run is
+   * in progress are folded into one follow-up run.
+   */
+  evaluate(): Promise<AlertEvent[]> {
+    if (this.evaluation) {
+      this.evaluateAgain = true;
+      return this.evaluation;
+    }
+
+    this.evaluation = (async () => {
+      const fired: AlertEvent[] = [];
+      try {
+        do {
+          this.evaluateAgain = false;
+          fired.push(...await this.evaluateOnce());
+        } while (this.evaluateAgain);
+      } catch (error) {
+        console.error('Error evaluating alert rules:', error);
+      } finally {
+        this.evaluation = null;
+      }
+      return fired;
+    })();
+    return this.evaluation;
+  }
+
+  private async evaluateOnce(now: number = Date.now()): Promise<AlertEvent[]> {
+    await this.load();
+    const rules = this.rules.filter(rule => rule.enabled);
+    if (rules.length === 0) return [];
+
+    // Stored readings come back newest first with QC flags; bad values never trigger alerts
+    const readings = (await getStoredReadings({ from: now - LOOKBACK_MS }))
+      .map(withoutBadValues)
+      .reverse();
+    const byBuoy = new Map<number, BuoyReading[]>();
+    readings.forEach(reading => {
+      if (reading.buoyId === null || reading.timestamp === null) return;
+      const series = byBuoy.get(reading.buoyId) ?? [];
+      series.push(reading);
+      byBuoy.set(reading.buoyId, series);
+    });
+
+    const fired: AlertEvent[] = [];
+    rules.forEach(rule => {
+      byBuoy.forEach((series, buoyId) => {
+        if (rule.buoyId !== null && rule.buoyId !== buoyId) return;
+        fired.push(...this.evaluateSeries(rule, buoyId, series));
+      });
+    });
+
+    await AsyncStorage.setItem(STATE_STORAGE_KEY, JSON.stringify(this.states));
+
+    for (const event of fired) {
+      if (__DEV__) console.log(`🚨 ${formatAlertTitle(event)} - ${formatAlertMessage(event)}`);
+      // Logged even when snoozed, but snoozed alerts stay silent
+      const shouldNotify = await alertHistoryService.record(event);
+      if (!shouldNotify) continue;
+      // The server pushes alerts for subscribed buoys it is keeping up with; a local one would arrive twice
+      if (await pushService.coversAlert(event.buoyId, event.timestamp)) continue;
+      await notificationService.sendAlertNotification({
+        title: formatAlertTitle(event),
+        body: formatAlertMessage(event),
+        severity: event.rule.severity,
+        parameter: ALERT_PARAMETER_LABELS[event.rule.parameter],
+        data: {
+          alertKey: alertEventKey(event),
+          ruleId: event.rule.id,
+          buoyId: event.buoyId,
+          readingId: event.readingId,
+          parameter: event.rule.parameter,
+          timestamp: event.timestamp, // Deep links open the graph around this time
+        },
+      });
+    }
+    if (fired.length > 0) {
+      alertHistoryService.sync();
+    }
+    return fired;
+  }
+
+  // Step one rule's state machine through a buoy's readings (see evaluateAlertRule)
+  private evaluateSeries(rule: AlertRule, buoyId: number, series: BuoyReading[]): AlertEvent[] {
+    const key = `${rule.id}:${buoyId}`;
+    const isNew = !this.states[key];
+    const buoyNames = new Map(series.map(reading => [reading.id, reading.buoy]));
+    const { fired: matches, state } = evaluateAlertRule(
+      rule,
+      series.map(reading => ({ readingId: reading.id, timestamp: reading.timestamp as number, value: reading[rule.parameter] })),
+      this.states[key] ?? null
+    );
+    const fired = matches.map(match => ({ rule, buoyId, buoy: buoyNames.get(match.readingId) ?? `Buoy ${buoyId}`, ...match }));
+
+    this.states[key] = state;
+    // The first run for a rule catches up on a day of history; only report what is still active
+    if (isNew) {
+      return state.active && fired.length > 0 ? [fired[fired.length - 1]] : [];
+    }
+    return fired;
+  }
+}
+
+// Export singleton instance
+export const alertService = AlertService.getInstance();
+
+// Export convenience functions
+export const getAlertRules = () => alertService.getRules();
+export const addAlertRule = (rule: NewAlertRule) => alertService.addRule(rule);
+export const updateAlertRule = (rule: AlertRule) => alertService.updateRule(rule);
+export const deleteAlertRule = (id: string) => alertService.deleteRule(id);
+export const resetAlertRules = () => alertService.resetRules();
+export const subscribeToAlertRules = (listener: (rules: AlertRule[]) => void) => alertService.subscribe(listener);
+export const startAlertMonitoring = () => alertService.start();
+export const stopAlertMonitoring = () => alertService.stop();
+export const evaluateAlertRules = () => alertService.evaluate();
@@ -0,0 +1,286 @@
+import { BuoyReading } from './buoyReading';
+import { SensorParameter, getUsableValue } from './qualityControl';
+
+/**
+ * Anomaly detection for sensor time series. Threshold rules only catch values
+ * outside a fixed band; this looks for readings that are unusual for the buoy
+ * itself, even when they are still "in range".
+ *
+ * Each buoy and parameter is scored separately. Every reading is compared with
+ * a rolling baseline of the readings before it, using a robust z-score (median
+ * and the Rousseeuw–Croux Qn spread) or a classic z-score. Drift is a shift of the
+ * recent median away from the baseline. For temperature, the usual daily cycle
+ * is subtracted first, so a warm afternoon is not mistaken for an anomaly.
+ */
+
+export type AnomalyParameter = SensorParameter;
+export type AnomalyMethod = 'robust' | 'zscore';
+export type AnomalyKind = 'spike' | 'drift';
+
+export interface AnomalyConfig {
+  method: AnomalyMethod;
+  threshold: number; // Score beyond which a reading is a spike
+  windowSize: number; // Previous readings forming the rolling baseline
+  minBaseline: number; // Baseline readings needed before anything is scored
+  maxBaselineAgeMs: number; // Older readings are left out of the baseline
+  driftWindow: number; // Recent readings whose median is compared with the baseline
+  driftThreshold: number; // Shift of that median, in baseline spreads, that counts as drift
+  seasonalTemperature: boolean; // Remove the daily temperature cycle before scoring
+  seasonalMinDays: number; // Days of history needed to learn the daily cycle
+}
+
+export interface Anomaly {
+  readingId: number;
+  buoyId: number | null;
+  buoy: string;
+  parameter: AnomalyParameter;
+  kind: AnomalyKind;
+  timestamp: number;
+  value: number;
+  expected: number; // Baseline the value was compared with (including the daily cycle)
+  score: number; // Signed, in baseline spreads
+}
+
+export const DEFAULT_ANOMALY_CONFIG: AnomalyConfig = {
+  method: 'robust',
+  threshold: 3.5,
+  windowSize: 24,
+  minBaseline: 12,
+  maxBaselineAgeMs: 2 * 24 * 60 * 60 * 1000,
+  driftWindow: 6,
+  driftThreshold: 3,
+  seasonalTemperature: true,
+  seasonalMinDays: 3,
+};
+
+export const ANOMALY_KIND_LABELS: Record<AnomalyKind, string> = {
+  spike: 'Sudden change',
+  drift: 'Drift',
+};
+
+export const ANOMALY_COLOR = '#d946ef';
+
+const ANOMALY_PARAMETERS: AnomalyParameter[] = ['pH', 'temperature', 'tds'];
+
+// Smallest spread used for scoring, so a sensor that barely moves does not flag tiny changes
+const MIN_SPREAD: Record<AnomalyParameter, number> = {
+  pH: 0.02,
+  temperature: 0.1,
+  tds: 5,
+};
+
+const QN_SCALE = 2.2219; // Makes Qn comparable to a standard deviation for normal data
+// Qn's small-sample corrections for 2-9 values (Croux & Rousseeuw, 1992)
+const QN_SMALL_SAMPLE: number[] = [0, 0, 0.399, 0.994, 0.512, 0.844, 0.611, 0.857, 0.669, 0.872];
+
+interface SeriesPoint {
+  reading: BuoyReading;
+  timestamp: number;
+  value: number;
+  seasonal: number; // Daily-cycle offset removed before scoring, 0 when not used
+}
+
+export interface DailyCycle {
+  offsets: number[]; // Typical offset from the series' median for each hour of the day
+  centers: number[]; // Mean time of day, in hours, of the readings behind each offset
+}
+
+const hourOfDay = (date: Date): number => date.getHours() + date.getMinutes() / 60 + date.getSeconds() / 3600;
+
+const median = (values: number[]): number => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+/**
+ * Qn spread: a low quantile of the distances between every pair of values.
+ * As robust to outliers as the MAD but far steadier on a short window, where
+ * a MAD that happens to come out small flags ordinary noise as spikes.
+ */
+const qnSpread = (values: number[]): number => {
+  const n = values.length;
+  if (n < 2) return 0;
+  const distances: number[] = [];
+  for (let i = 0; i < n; i++) {
+    for (let j = i + 1; j < n; j++) distances.push(Math.abs(values[i] - values[j]));
+  }
+  distances.sort((a, b) => a - b);
+  const h = Math.floor(n / 2) + 1;
+  const correction = n < QN_SMALL_SAMPLE.length ? QN_SMALL_SAMPLE[n] : n % 2 === 1 ? n / (n + 1.4) : n / (n + 3.8);
+  return QN_SCALE * correction * distances[(h * (h - 1)) / 2 - 1];
+};
+
+// Centre and spread of a baseline window
+export const baselineOf = (values: number[], method: AnomalyMethod): { center: number; spread: number } => {
+  if (method === 'zscore') {
+    const mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+    const variance = values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / Math.max(values.length - 1, 1);
+    return { center: mean, spread: Math.sqrt(variance) };
+  }
+  return { center: median(values), spread: qnSpread(values) };
+};
+
+/**
+ * Typical offset of each hour of the day from the series' overall median,
+ * or null if the series does not cover enough days to tell.
+ */
+export const learnDailyCycle = (points: { timestamp: number; value: number }[], minDays: number): DailyCycle | null => {
+  if (points.length === 0) return null;
+  // Local calendar days, like the hours below
+  const days = new Set(points.map(point => new Date(point.timestamp).toDateString()));
+  if (days.size < minDays) return null;
+
+  const overall = median(points.map(point => point.value));
+  const byHour = Array.from({ length: 24 }, () => ({ offsets: [] as number[], times: [] as number[] }));
+  points.forEach(point => {
+    const date = new Date(point.timestamp);
+    byHour[date.getHours()].offsets.push(point.value - overall);
+    byHour[date.getHours()].times.push(hourOfDay(date));
+  });
+  return {
+    // Hours with too few readings get no correction
+    offsets: byHour.map(hour => (hour.offsets.length >= 2 ? median(hour.offsets) : 0)),
+    centers: byHour.map((hour, index) =>
+      hour.times.length > 0 ? hour.times.reduce((sum, time) => sum + time, 0) / hour.times.length : index + 0.5
+    ),
+  };
+};
+
+/**
+ * Daily-cycle offset at a time of day, interpolated between the neighbouring
+ * hours. With several readings an hour, a step from one hour's offset to the
+ * next would itself show up as a jump at every hour boundary.
+ */
+export const dailyCycleOffset = (cycle: DailyCycle, timestamp: number): number => {
+  const date = new Date(timestamp);
+  const time = hourOfDay(date);
+  const hour = date.getHours();
+  const later = time >= cycle.centers[hour];
+  const neighbour = later ? (hour + 1) % 24 : (hour + 23) % 24;
+  // Centres wrap around midnight
+  let gap = cycle.centers[neighbour] - cycle.centers[hour];
+  if (later && gap <= 0) gap += 24;
+  if (!later && gap >= 0) gap -= 24;
+  const fraction = (time - cycle.centers[hour]) / gap;
+  return cycle.offsets[hour] + (cycle.offsets[neighbour] - cycle.offsets[hour]) * fraction;
+};
+
+// Score one buoy's series for one parameter; `readings` must belong to a single buoy
+const detectSeries = (readings: BuoyReading[], parameter: AnomalyParameter, config: AnomalyConfig): Anomaly[] => {
+  const raw = readings
+    .map(reading => ({ reading, value: getUsableValue(reading, parameter), timestamp: reading.timestamp }))
+    .filter((point): point is { reading: BuoyReading; value: number; timestamp: number } => point.value !== null && point.timestamp !== null)
+    .sort((a, b) => a.timestamp - b.timestamp);
+
+  const cycle = parameter === 'temperature' && config.seasonalTemperature
+    ? learnDailyCycle(raw, config.seasonalMinDays)
+    : null;
+  const points: SeriesPoint[] = raw.map(point => ({
+    ...point,
+    seasonal: cycle ? dailyCycleOffset(cycle, point.timestamp) : 0,
+  }));
+  const residual = (point: SeriesPoint) => point.value - point.seasonal;
+
+  const anomalies: Anomaly[] = [];
+  const toAnomaly = (point: SeriesPoint, kind: AnomalyKind, center: number, score: number): Anomaly => ({
+    readingId: point.reading.id,
+    buoyId: point.reading.buoyId,
+    buoy: point.reading.buoy,
+    parameter,
+    kind,
+    timestamp: point.timestamp,
+    value: point.value,
+    expected: center + point.seasonal,
+    score,
+  });
+
+  let drifting = false;
+  points.forEach((point, index) => {
+    // Rolling baseline: up to windowSize earlier readings that are recent enough
+    const baseline: number[] = [];
+    for (let j = index - 1; j >= 0 && baseline.length < config.windowSize; j--) {
+      if (point.timestamp - points[j].timestamp > config.maxBaselineAgeMs) break;
+      baseline.push(residual(points[j]));
+    }
+    if (baseline.length < config.minBaseline) {
+      drifting = false;
+      return;
+    }
+
+    // Drift: the recent median has moved away from the baseline before it. The driftWindow readings
+    // just before the recent ones are skipped, or a slow drift drags the reference along with it
+    const recentStart = index - config.driftWindow + 1;
+    const reference: number[] = [];
+    for (let j = recentStart - 1 - config.driftWindow; j >= 0 && reference.length < config.windowSize; j--) {
+      if (point.timestamp - points[j].timestamp > config.maxBaselineAgeMs) break;
+      reference.push(residual(points[j]));
+    }
+    let leadingShift = 0; // Shift of the recent readings before this one
+    if (recentStart > 0 && reference.length >= config.minBaseline) {
+      const recent = points.slice(recentStart, index + 1).map(residual);
+      const referenceBaseline = baselineOf(reference, config.method);
+      const spread = Math.max(referenceBaseline.spread, MIN_SPREAD[parameter]);
+      const shift = (median(recent) - referenceBaseline.center) / spread;
+      leadingShift = (median(recent.slice(0, -1)) - referenceBaseline.center) / spread;
+      if (!drifting && Math.abs(shift) > config.driftThreshold) {
+        // A drift is flagged once, where it is first noticed
+        drifting = true;
+        anomalies.push(toAnomaly(point, 'drift', referenceBaseline.center, shift));
+        return;
+      }
+      if (drifting && Math.abs(shift) < config.driftThreshold / 2) drifting = false;
+    }
+    // Readings inside a drift would all look like spikes against the lagging baseline
+    if (drifting) return;
+
+    const { center, spread } = baselineOf(baseline, config.method);
+    const score = (residual(point) - center) / Math.max(spread, MIN_SPREAD[parameter]);
+    // Readings leading a drift that is still building are not spikes: the ones before them have already moved the same way
+    const buildingDrift = Math.sign(leadingShift) === Math.sign(score) && Math.abs(leadingShift) > config.driftThreshold / 2;
+    if (Math.abs(score) > config.threshold && !buildingDrift) {
+      anomalies.push(toAnomaly(point, 'spike', center, score));
+    }
+  });
+
+  return anomalies;
+};
+
+/**
+ * Anomalies in any mix of readings, oldest first. Readings are split by buoy
+ * and scored per parameter; values that are missing or failed QC are skipped.
+ */
+export const detectAnomalies = (
+  readings: BuoyReading[],
+  config: AnomalyConfig = DEFAULT_ANOMALY_CONFIG,
+  parameters: AnomalyParameter[] = ANOMALY_PARAMETERS
+): Anomaly[] => {
+  const byBuoy = new Map<string, BuoyReading[]>();
+  readings.forEach(reading => {
+    const key = reading.buoyId !== null ? String(reading.buoyId) : reading.buoy;
+    if (!byBuoy.has(key)) byBuoy.set(key, []);
+    byBuoy.get(key)!.push(reading);
+  });
+
+  const anomalies: Anomaly[] = [];
+  byBuoy.forEach(series => {
+    parameters.forEach(parameter => anomalies.push(...detectSeries(series, parameter, config)));
+  });
+  return anomalies.sort((a, b) => a.timestamp - b.timestamp);
+};
+
+// e.g. "pH 8.92 on Buoy 2 (expected about 8.10)"
+export const describeAnomaly = (anomaly: Anomaly): string => {
+  const labels: Record<AnomalyParameter, { label: string; unit: string; decimals: number }> = {
+    pH: { label: 'pH', unit: '', decimals: 2 },
+    temperature: { label: 'Temperature', unit: '°C', decimals: 1 },
+    tds: { label: 'TDS', unit: ' ppm', decimals: 0 },
+  };
+  const { label, unit, decimals } = labels[anomaly.parameter];
+  const format = (value: number) => `${value.toFixed(decimals)}${unit}`;
+  return anomaly.kind === 'drift'
+    ? `${label} on ${anomaly.buoy} is drifting ${anomaly.score > 0 ? 'up' : 'down'} to ${format(anomaly.value)} (baseline ${format(anomaly.expected)})`
+    : `${label} ${format(anomaly.value)} on ${anomaly.buoy} (expected about ${format(anomaly.expected)})`;
+};
+
+export const anomalyKey = (anomaly: Pick<Anomaly, 'readingId' | 'parameter'>): string => `${anomaly.readingId}:${anomaly.parameter}`;
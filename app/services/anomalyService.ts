@@ -0,0 +1,132 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { getStoredReadings, subscribeToBuoyData } from './buoyService';
+import { settingsService } from './settingsService';
+import { notificationService } from './notificationService';
+import { Anomaly, ANOMALY_KIND_LABELS, describeAnomaly, detectAnomalies } from './anomalyDetection';
+import { WQI_PARAMETER_LABELS } from './waterQuality';
+
+/**
+ * Runs the anomaly detector over recent on-device history whenever new data
+ * arrives and, if the user has turned it on, notifies about new anomalies.
+ * At most one notification per buoy and parameter is sent for each check.
+ */
+
+// Newest anomaly already notified, per "buoyKey:parameter"; persisted so restarts don't repeat them
+type NotifiedState = Record<string, number>;
+
+const STORAGE_KEY = 'anomalyNotifiedState';
+const HISTORY_WINDOW_MS = 7 * 24 * 60 * 60 * 1000; // Enough for the daily temperature cycle
+const NOTIFY_WINDOW_MS = 2 * 60 * 60 * 1000; // Older anomalies are only shown on graphs
+
+const seriesKey = (anomaly: Anomaly): string => `${anomaly.buoyId ?? anomaly.buoy}:${anomaly.parameter}`;
+
+class AnomalyService {
+  private static instance: AnomalyService;
+  private notified: NotifiedState | null = null;
+  private unsubscribe: (() => void) | null = null;
+  private checking: Promise<Anomaly[]> | null = null;
+
+  private constructor() {}
+
+  public static getInstance(): AnomalyService {
+    if (!AnomalyService.instance) {
+      AnomalyService.instance = new AnomalyService();
+    }
+    return AnomalyService.instance;
+  }
+
+  start(): void {
+    if (this.unsubscribe) return;
+    this.unsubscribe = subscribeToBuoyData(() => {
+      this.check();
+    });
+  }
+
+  stop(): void {
+    if (this.unsubscribe) {
+      this.unsubscribe();
+      this.unsubscribe = null;
+    }
+  }
+
+  private async loadNotified(): Promise<NotifiedState> {
+    if (!this.notified) {
+      try {
+        const saved = await AsyncStorage.getItem(STORAGE_KEY);
+        this.notified = saved ? JSON.parse(saved) : {};
+      } catch (error) {
+        console.error('Error loading anomaly state:', error);
+        this.notified = {};
+      }
+    }
+    return this.notified as NotifiedState;
+  }
+
+  // Detect anomalies in the last week of readings and notify about new ones
+  check(): Promise<Anomaly[]> {
+    if (this.checking) return this.checking;
+
+    this.checking = (async () => {
+      try {
+        return await this.checkOnce();
+      } catch (error) {
+        console.error('Error checking for anomalies:', error);
+        return [];
+      } finally {
+        this.checking = null;
+      }
+    })();
+    return this.checking;
+  }
+
+  private async checkOnce(now: number = Date.now()): Promise<Anomaly[]> {
+    const settings = settingsService.getSettings();
+    if (!settings.anomalyDetectionEnabled) return [];
+
+    const readings = await getStoredReadings({ from: now - HISTORY_WINDOW_MS });
+    const anomalies = detectAnomalies(readings, settingsService.getAnomalyConfig());
+    if (!settings.anomalyNotificationsEnabled) return anomalies;
+
+    const notified = await this.loadNotified();
+    // Newest unseen anomaly per series
+    const fresh = new Map<string, Anomaly>();
+    anomalies.forEach(anomaly => {
+      const key = seriesKey(anomaly);
+      if (anomaly.timestamp <= Math.max(notified[key] ?? 0, now - NOTIFY_WINDOW_MS)) return;
+      fresh.set(key, anomaly);
+    });
+
+    for (const [key, anomaly] of fresh) {
+      await this.notifyAnomaly(anomaly);
+      notified[key] = anomaly.timestamp;
+    }
+
+    if (fresh.size > 0) {
+      try {
+        await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(notified));
+      } catch (error) {
+        console.error('Error saving anomaly state:', error);
+      }
+    }
+    return anomalies;
+  }
+
+  private async notifyAnomaly(anomaly: Anomaly): Promise<void> {
+    const label = WQI_PARAMETER_LABELS[anomaly.parameter];
+    if (__DEV__) console.log(`🔍 Anomaly: ${describeAnomaly(anomaly)}`);
+    await notificationService.sendAnomalyNotification(
+      `${ANOMALY_KIND_LABELS[anomaly.kind]} in ${label} on ${anomaly.buoy}`,
+      describeAnomaly(anomaly),
+      label,
+      { type: 'anomaly', buoyId: anomaly.buoyId, parameter: anomaly.parameter, timestamp: anomaly.timestamp }
+    );
+  }
+}
+
+// Export singleton instance
+export const anomalyService = AnomalyService.getInstance();
+
+// Export convenience functions
+export const startAnomalyMonitoring = () => anomalyService.start();
+export const stopAnomalyMonitoring = () => anomalyService.stop();
+export const checkForAnomalies = () => anomalyService.check();
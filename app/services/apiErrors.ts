@@ -0,0 +1,169 @@
+import axios from 'axios';
+
+// Broad causes of a failed buoy data request
+export type BuoyApiErrorKind = 'offline' | 'network' | 'timeout' | 'server' | 'client' | 'parse' | 'unknown';
+
+// Base class for classified buoy API failures
+export class BuoyApiError extends Error {
+  readonly kind: BuoyApiErrorKind;
+  readonly retryable: boolean;
+  readonly status?: number;
+  readonly retryAfterMs?: number; // From a Retry-After header, if the server sent one
+  readonly cause?: unknown;
+
+  constructor(
+    kind: BuoyApiErrorKind,
+    message: string,
+    options: { retryable: boolean; status?: number; retryAfterMs?: number; cause?: unknown }
+  ) {
+    super(message);
+    this.name = 'BuoyApiError';
+    this.kind = kind;
+    this.retryable = options.retryable;
+    this.status = options.status;
+    this.retryAfterMs = options.retryAfterMs;
+    this.cause = options.cause;
+  }
+}
+
+// The device has no internet connection
+export class OfflineError extends BuoyApiError {
+  constructor(cause?: unknown) {
+    super('offline', 'No internet connection available', { retryable: false, cause });
+    this.name = 'OfflineError';
+  }
+}
+
+// The request never got a response (DNS, connection reset, CORS, ...)
+export class NetworkError extends BuoyApiError {
+  constructor(message: string = 'Could not reach the buoy server', cause?: unknown) {
+    super('network', message, { retryable: true, cause });
+    this.name = 'NetworkError';
+  }
+}
+
+export class TimeoutError extends BuoyApiError {
+  constructor(cause?: unknown) {
+    super('timeout', 'The buoy server did not respond in time', { retryable: true, cause });
+    this.name = 'TimeoutError';
+  }
+}
+
+// 5xx, plus 408/429 which are also worth retrying
+export class ServerError extends BuoyApiError {
+  constructor(status: number, retryAfterMs?: number, cause?: unknown) {
+    super('server', `The buoy server returned ${status}`, { retryable: true, status, retryAfterMs, cause });
+    this.name = 'ServerError';
+  }
+}
+
+// Any other 4xx - retrying will not help
+export class ClientError extends BuoyApiError {
+  constructor(status: number, cause?: unknown) {
+    super('client', `The buoy server rejected the request (${status})`, { retryable: false, status, cause });
+    this.name = 'ClientError';
+  }
+}
+
+// The response arrived but could not be understood
+export class DataFormatError extends BuoyApiError {
+  constructor(message: string = 'Unexpected response from buoy data source', cause?: unknown) {
+    super('parse', message, { retryable: false, cause });
+    this.name = 'DataFormatError';
+  }
+}
+
+// Anything else, most likely a bug - retrying will not help and it is not a connectivity problem
+export class UnknownError extends BuoyApiError {
+  constructor(message: string = 'Unexpected error while loading buoy data', cause?: unknown) {
+    super('unknown', message, { retryable: false, cause });
+    this.name = 'UnknownError';
+  }
+}
+
+// Messages of the TypeError fetch throws when the request never got a response
+// (React Native, browsers, Node)
+const FETCH_FAILURE_MESSAGES = /^(network request failed|failed to fetch|fetch failed|load failed)$/i;
+
+// Whether an error came from a cancelled request (AbortSignal or axios cancel)
+export const isAbortError = (error: unknown): boolean => {
+  return axios.isCancel(error) || (error instanceof Error && error.name === 'AbortError');
+};
+
+export const createAbortError = (): Error => {
+  const error = new Error('The operation was aborted');
+  error.name = 'AbortError';
+  return error;
+};
+
+// Parse a Retry-After header (delta seconds or HTTP date) into milliseconds
+export const parseRetryAfter = (value: unknown, now: number = Date.now()): number | undefined => {
+  if (typeof value !== 'string' && typeof value !== 'number') return undefined;
+  const text = String(value).trim();
+  if (!text) return undefined;
+
+  if (/^\d+$/.test(text)) {
+    return parseInt(text) * 1000;
+  }
+
+  const date = Date.parse(text);
+  if (isNaN(date)) return undefined;
+  return Math.max(0, date - now);
+};
+
+// Turn anything thrown by a fetch into a BuoyApiError (abort errors are returned unchanged)
+export const classifyError = (error: unknown): unknown => {
+  if (error instanceof BuoyApiError || isAbortError(error)) {
+    return error;
+  }
+
+  if (axios.isAxiosError(error)) {
+    if (error.code === 'ECONNABORTED' || error.code === 'ETIMEDOUT') {
+      return new TimeoutError(error);
+    }
+    const status = error.response?.status;
+    if (status === undefined) {
+      return new NetworkError(error.message || undefined, error);
+    }
+    if (status >= 500 || status === 408 || status === 429) {
+      return new ServerError(status, parseRetryAfter(error.response?.headers?.['retry-after']), error);
+    }
+    if (status >= 400) {
+      return new ClientError(status, error);
+    }
+  }
+
+  if (error instanceof TypeError && FETCH_FAILURE_MESSAGES.test(error.message)) {
+    return new NetworkError(undefined, error);
+  }
+
+  if (error instanceof SyntaxError) {
+    return new DataFormatError('Could not parse the buoy data response', error);
+  }
+
+  return new UnknownError(error instanceof Error ? error.message || undefined : undefined, error);
+};
+
+// Message to show the user for a failed request, falling back to `fallback` for unknown errors
+export const describeApiError = (error: unknown, fallback: string): string => {
+  if (!(error instanceof BuoyApiError)) {
+    return fallback;
+  }
+
+  switch (error.kind) {
+    case 'offline':
+      return 'You are offline. Connect to the internet and pull to refresh.';
+    case 'network':
+      return 'Could not reach the buoy server. Check your connection and try again.';
+    case 'timeout':
+      return 'The buoy server is taking too long to respond. Please try again.';
+    case 'server':
+      return 'The buoy server is down right now. Please try again later.';
+    case 'client':
+      return 'The buoy server rejected the request. Please update the app.';
+    case 'parse':
+      return 'The buoy data format has changed. Please update the app or contact the maintainers.';
+    default:
+      return fallback;
+  }
+};
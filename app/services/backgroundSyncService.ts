@@ -0,0 +1,234 @@
+import * as BackgroundFetch from 'expo-background-fetch';
+import * as TaskManager from 'expo-task-manager';
+import * as Battery from 'expo-battery';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { getStoredReadings, syncReadingStore } from './buoyService';
+import { settingsService } from './settingsService';
+import { alertService } from './alertService';
+import { heartbeatService } from './heartbeatService';
+import { anomalyService } from './anomalyService';
+import { notificationService } from './notificationService';
+import { isOnline } from './networkService';
+import { fromBuoyReading } from './buoyReading';
+
+/**
+ * Background sync: while the app is closed the OS wakes this task every
+ * 15 minutes or so. Each run pulls new readings into the local store, then
+ * evaluates alert rules, buoy heartbeats and anomalies so overnight alarms
+ * still go out.
+ *
+ * The task runs in its own JS context, so everything it needs (settings,
+ * rules, the notification digest) is loaded from storage rather than taken from memory.
+ */
+
+export const BACKGROUND_SYNC_TASK = 'aquanet-background-sync';
+
+export type BackgroundRunResult = 'new-data' | 'no-data' | 'skipped' | 'failed';
+
+export interface BackgroundRun {
+  startedAt: number;
+  finishedAt: number;
+  result: BackgroundRunResult;
+  newReadings: number;
+  alertsFired: number;
+  detail?: string; // Why a run was skipped or failed
+}
+
+export interface BackgroundSyncDiagnostics {
+  registered: boolean;
+  status: 'available' | 'denied' | 'restricted' | 'unavailable';
+  enabled: boolean; // App setting
+  lastRun: BackgroundRun | null;
+  lastSuccess: BackgroundRun | null;
+  runs: BackgroundRun[]; // Newest first
+}
+
+const RUNS_STORAGE_KEY = 'backgroundSyncRuns';
+const MAX_RUNS = 20;
+const MINIMUM_INTERVAL_SECONDS = 15 * 60;
+const MIN_RUN_GAP_MS = 10 * 60 * 1000; // Some devices fire back-to-back; skip the second run
+const SYNC_MAX_PAGES = 5; // Enough for an incremental sync without draining the battery
+const LOW_BATTERY_LEVEL = 0.15;
+
+export const BACKGROUND_RESULT_LABELS: Record<BackgroundRunResult, string> = {
+  'new-data': 'New data',
+  'no-data': 'No new data',
+  skipped: 'Skipped',
+  failed: 'Failed',
+};
+
+const readRuns = async (): Promise<BackgroundRun[]> => {
+  try {
+    const saved = await AsyncStorage.getItem(RUNS_STORAGE_KEY);
+    return saved ? JSON.parse(saved) : [];
+  } catch (error) {
+    console.error('Error loading background sync runs:', error);
+    return [];
+  }
+};
+
+const recordRun = async (run: BackgroundRun): Promise<void> => {
+  try {
+    const runs = await readRuns();
+    await AsyncStorage.setItem(RUNS_STORAGE_KEY, JSON.stringify([run, ...runs].slice(0, MAX_RUNS)));
+  } catch (error) {
+    console.error('Error saving background sync run:', error);
+  }
+};
+
+// Reason to skip this run to save battery, or null if it is fine to run
+const batteryLimit = async (): Promise<string | null> => {
+  try {
+    if (!(await Battery.isAvailableAsync())) return null;
+    const { batteryLevel, batteryState, lowPowerMode } = await Battery.getPowerStateAsync();
+    if (lowPowerMode) return 'Low power mode is on';
+    const charging = batteryState === Battery.BatteryState.CHARGING || batteryState === Battery.BatteryState.FULL;
+    // batteryLevel is -1 when unknown
+    if (!charging && batteryLevel >= 0 && batteryLevel < LOW_BATTERY_LEVEL) {
+      return `Battery at ${Math.round(batteryLevel * 100)}%`;
+    }
+    return null;
+  } catch (error) {
+    console.error('Error reading battery state:', error);
+    return null;
+  }
+};
+
+/**
+ * One background run. Exported so the diagnostics view can trigger a run
+ * by hand; the result is logged the same way either way.
+ */
+export const runBackgroundSync = async (now: number = Date.now()): Promise<BackgroundRun> => {
+  const run: BackgroundRun = { startedAt: now, finishedAt: now, result: 'no-data', newReadings: 0, alertsFired: 0 };
+
+  const finish = async (result: BackgroundRunResult, detail?: string): Promise<BackgroundRun> => {
+    run.result = result;
+    run.finishedAt = Date.now();
+    if (detail) run.detail = detail;
+    await recordRun(run);
+    if (__DEV__) console.log(`🌙 Background sync: ${BACKGROUND_RESULT_LABELS[result]}${detail ? ` (${detail})` : ''}`);
+    return run;
+  };
+
+  try {
+    await settingsService.loadSettings();
+    if (!settingsService.getSettings().backgroundSyncEnabled) {
+      return finish('skipped', 'Background sync is turned off');
+    }
+
+    const [previous] = await readRuns();
+    if (previous && previous.result !== 'skipped' && now - previous.startedAt < MIN_RUN_GAP_MS) {
+      return finish('skipped', 'Ran less than 10 minutes ago');
+    }
+
+    const batteryReason = await batteryLimit();
+    if (batteryReason) {
+      return finish('skipped', batteryReason);
+    }
+
+    if (settingsService.isOfflineModeEnabled()) {
+      return finish('skipped', 'Offline mode is on');
+    }
+
+    if (!(await isOnline())) {
+      return finish('skipped', 'No network connection');
+    }
+
+    run.newReadings = await syncReadingStore(true, SYNC_MAX_PAGES);
+
+    // Rules, heartbeats and anomalies read the store, so they see what was just synced
+    const fired = await alertService.evaluate();
+    run.alertsFired = fired.length;
+    await heartbeatService.check(true);
+    if (run.newReadings > 0) await anomalyService.check();
+
+    // Alerts already told the user something happened; otherwise a plain new-data note (folded into the digest)
+    if (run.newReadings > 0 && fired.length === 0) {
+      const [latest] = await getStoredReadings({ limit: 1 });
+      if (latest) {
+        await notificationService.sendNewDataNotification(fromBuoyReading(latest));
+      }
+    }
+
+    return finish(run.newReadings > 0 ? 'new-data' : 'no-data');
+  } catch (error) {
+    console.error('Background sync failed:', error);
+    return finish('failed', error instanceof Error ? error.message : String(error));
+  }
+};
+
+// Must be defined at startup (imported from index.ts) so the OS can run it without the UI
+TaskManager.defineTask(BACKGROUND_SYNC_TASK, async () => {
+  const run = await runBackgroundSync();
+  switch (run.result) {
+    case 'new-data':
+      return BackgroundFetch.BackgroundFetchResult.NewData;
+    case 'failed':
+      return BackgroundFetch.BackgroundFetchResult.Failed;
+    default:
+      return BackgroundFetch.BackgroundFetchResult.NoData;
+  }
+});
+
+// Register or unregister the task to match the setting
+export const configureBackgroundSync = async (): Promise<boolean> => {
+  try {
+    const enabled = settingsService.getSettings().backgroundSyncEnabled;
+    const registered = await TaskManager.isTaskRegisteredAsync(BACKGROUND_SYNC_TASK);
+
+    if (!enabled) {
+      if (registered) {
+        await BackgroundFetch.unregisterTaskAsync(BACKGROUND_SYNC_TASK);
+        if (__DEV__) console.log('🌙 Background sync unregistered');
+      }
+      return false;
+    }
+
+    const status = await BackgroundFetch.getStatusAsync();
+    if (status !== BackgroundFetch.BackgroundFetchStatus.Available) {
+      if (__DEV__) console.log('🌙 Background sync not available on this device:', status);
+      return false;
+    }
+
+    if (!registered) {
+      await BackgroundFetch.registerTaskAsync(BACKGROUND_SYNC_TASK, {
+        minimumInterval: MINIMUM_INTERVAL_SECONDS,
+        stopOnTerminate: false, // Android: keep running after the app is swiped away
+        startOnBoot: true,
+      });
+      if (__DEV__) console.log('🌙 Background sync registered');
+    }
+    return true;
+  } catch (error) {
+    console.error('Error configuring background sync:', error);
+    return false;
+  }
+};
+
+export const getBackgroundSyncDiagnostics = async (): Promise<BackgroundSyncDiagnostics> => {
+  const runs = await readRuns();
+  let registered = false;
+  let status: BackgroundSyncDiagnostics['status'] = 'unavailable';
+  try {
+    registered = await TaskManager.isTaskRegisteredAsync(BACKGROUND_SYNC_TASK);
+    const fetchStatus = await BackgroundFetch.getStatusAsync();
+    if (fetchStatus === BackgroundFetch.BackgroundFetchStatus.Available) status = 'available';
+    else if (fetchStatus === BackgroundFetch.BackgroundFetchStatus.Denied) status = 'denied';
+    else if (fetchStatus === BackgroundFetch.BackgroundFetchStatus.Restricted) status = 'restricted';
+  } catch (error) {
+    console.error('Error reading background sync status:', error);
+  }
+
+  return {
+    registered,
+    status,
+    enabled: settingsService.getSettings().backgroundSyncEnabled,
+    lastRun: runs[0] ?? null,
+    lastSuccess: runs.find(run => run.result === 'new-data' || run.result === 'no-data') ?? null,
+    runs,
+  };
+};
+
+export const clearBackgroundSyncRuns = async (): Promise<void> => {
+  await AsyncStorage.removeItem(RUNS_STORAGE_KEY);
+};
@@ -0,0 +1,93 @@
+import { BuoyReading } from './buoyReading';
+import { SensorParameter, getUsableValue } from './qualityControl';
+import { learnInterval } from './reportingInterval';
+
+/**
+ * Side-by-side series for comparing buoys. Buoys don't report at the same
+ * moments, so each buoy's readings are averaged into common time buckets and
+ * the buckets line up across buoys; a difference or ratio between two buoys
+ * is then taken bucket by bucket. Values that are missing or failed QC are
+ * left out, and a bucket with none stays empty (a gap in the chart).
+ */
+
+export type ComparisonMode = 'none' | 'difference' | 'ratio';
+
+export const COMPARISON_MODE_LABELS: Record<ComparisonMode, string> = {
+  none: 'Off',
+  difference: 'Difference',
+  ratio: 'Ratio',
+};
+
+// Colours handed out to buoys in order; a buoy keeps its colour while others are toggled
+export const COMPARISON_COLORS = ['#0ea5e9', '#ef4444', '#22c55e', '#f59e0b', '#8b5cf6', '#ec4899', '#14b8a6', '#64748b'];
+
+export interface AlignedSeries {
+  bucketMs: number;
+  times: number[]; // Bucket midpoints, oldest first
+  values: Record<string, (number | null)[]>; // Per buoy label, mean of each bucket
+}
+
+const MINUTE_MS = 60 * 1000;
+
+// Slowest usual reporting interval among the buoys, so every bucket can hold a reading from each
+const commonInterval = (readings: BuoyReading[], buoys: string[]): number => {
+  return buoys.reduce((slowest, buoy) => {
+    const timestamps = readings
+      .filter(reading => reading.buoy === buoy && reading.timestamp !== null)
+      .map(reading => reading.timestamp!)
+      .sort((a, b) => b - a);
+    return timestamps.length > 1 ? Math.max(slowest, learnInterval(timestamps)) : slowest;
+  }, MINUTE_MS);
+};
+
+/**
+ * Mean of `parameter` per buoy in common buckets over [from, to]. Buckets are
+ * at least one reporting interval wide and there are at most `maxBuckets` of
+ * them. They are aligned to multiples of their width, so panning doesn't
+ * move readings between buckets.
+ */
+export const alignToBuckets = (
+  readings: BuoyReading[],
+  buoys: string[],
+  parameter: SensorParameter,
+  from: number,
+  to: number,
+  maxBuckets: number
+): AlignedSeries => {
+  const span = Math.max(to - from, 1);
+  const bucketMs = Math.ceil(Math.max(span / Math.max(maxBuckets, 1), commonInterval(readings, buoys)) / MINUTE_MS) * MINUTE_MS;
+  const start = Math.floor(from / bucketMs) * bucketMs;
+  const count = Math.floor((to - start) / bucketMs) + 1;
+
+  const sums = new Map(buoys.map(buoy => [buoy, { total: Array(count).fill(0), count: Array(count).fill(0) }]));
+  readings.forEach(reading => {
+    const sum = sums.get(reading.buoy);
+    const value = getUsableValue(reading, parameter);
+    if (!sum || value === null || reading.timestamp === null) return;
+    const bucket = Math.floor((reading.timestamp - start) / bucketMs);
+    if (bucket < 0 || bucket >= count) return;
+    sum.total[bucket] += value;
+    sum.count[bucket]++;
+  });
+
+  const values: Record<string, (number | null)[]> = {};
+  sums.forEach((sum, buoy) => {
+    values[buoy] = sum.total.map((total, bucket) => (sum.count[bucket] > 0 ? total / sum.count[bucket] : null));
+  });
+  return {
+    bucketMs,
+    times: Array.from({ length: count }, (_, bucket) => start + bucket * bucketMs + bucketMs / 2),
+    values,
+  };
+};
+
+// a − b or a ÷ b per bucket; empty where either is, or where b is 0 for a ratio
+export const compareSeries = (a: (number | null)[], b: (number | null)[], mode: ComparisonMode): (number | null)[] => {
+  if (mode === 'none') return [];
+  return a.map((value, index) => {
+    const other = b[index];
+    if (value === null || other === null || other === undefined) return null;
+    if (mode === 'difference') return value - other;
+    return other === 0 ? null : value / other;
+  });
+};
@@ -0,0 +1,331 @@
+import axios from 'axios';
+import { BuoyData } from './buoyService';
+import { parseBuoyDateTime, parseBuoyId, startOfServerDay, toServerClock } from './buoyReading';
+import { DataFormatError } from './apiErrors';
+
+// Query accepted by every data source adapter
+export interface BuoyDataQuery {
+  page: number;
+  pageSize?: number;
+  buoyFilter?: string; // Buoy number, e.g. "1"
+  dateFilter?: string; // 'today' | 'week' | 'month'
+  from?: Date;
+  to?: Date;
+}
+
+// One page of raw rows returned by a data source
+export interface BuoyDataPage {
+  data: BuoyData[];
+  totalPages: number;
+  currentPage: number;
+}
+
+// A pluggable backend that knows how to fetch one page of buoy readings
+export interface BuoyDataSource {
+  readonly name: BuoyDataSourceType;
+  // True when buoy and date filters are applied by the server rather than after download
+  readonly supportsServerFilters: boolean;
+  fetchPage(query: BuoyDataQuery, signal?: AbortSignal): Promise<BuoyDataPage>;
+  // Optional aggregate queries answered directly by the server
+  fetchLatestPerBuoy?(signal?: AbortSignal): Promise<BuoyData[]>;
+  fetchDistinctMonths?(signal?: AbortSignal): Promise<string[]>; // "YYYY-MM", newest first
+}
+
+export type BuoyDataSourceType = 'json' | 'html';
+
+export interface BuoyDataSourceConfig {
+  type: BuoyDataSourceType;
+  htmlUrl: string;
+  jsonUrl: string;
+  timeout: number;
+}
+
+const REQUEST_TIMEOUT = 10000; // 10 second timeout
+
+// Default configuration - override with EXPO_PUBLIC_BUOY_DATA_SOURCE / EXPO_PUBLIC_BUOY_JSON_URL
+export const DEFAULT_DATA_SOURCE_CONFIG: BuoyDataSourceConfig = {
+  type: 'html',
+  htmlUrl: 'https://dorsu.edu.ph/buoy/dashboard.php',
+  jsonUrl: 'https://dorsu.edu.ph/buoy/api/readings.php',
+  timeout: REQUEST_TIMEOUT,
+};
+
+// Function to clean HTML tags from text
+const cleanHtmlTags = (text: string): string => {
+  return text.replace(/<[^>]*>/g, '').trim();
+};
+
+// Client-side filtering for sources that cannot filter on the server
+export const applyClientFilters = (data: BuoyData[], query: BuoyDataQuery): BuoyData[] => {
+  let filtered = data;
+
+  if (query.buoyFilter) {
+    filtered = filtered.filter(item => String(parseBuoyId(item.Buoy)) === query.buoyFilter);
+  }
+
+  if (query.dateFilter) {
+    const now = new Date();
+    filtered = filtered.filter(item => {
+      const timestamp = parseBuoyDateTime(item.Date, item.Time);
+      if (timestamp === null) return false;
+      const dataDate = new Date(timestamp);
+
+      switch (query.dateFilter) {
+        case 'today':
+          return startOfServerDay(timestamp) === startOfServerDay(now.getTime());
+        case 'week':
+          const weekAgo = new Date(now.getTime() - 7 * 24 * 60 * 60 * 1000);
+          return dataDate >= weekAgo;
+        case 'month':
+          const monthAgo = new Date(now.getTime() - 30 * 24 * 60 * 60 * 1000);
+          return dataDate >= monthAgo;
+        default:
+          return true;
+      }
+    });
+  }
+
+  if (query.from || query.to) {
+    const fromTime = query.from ? query.from.getTime() : -Infinity;
+    const toTime = query.to ? query.to.getTime() : Infinity;
+    filtered = filtered.filter(item => {
+      const time = parseBuoyDateTime(item.Date, item.Time);
+      return time !== null && time >= fromTime && time <= toTime;
+    });
+  }
+
+  return filtered;
+};
+
+/**
+ * Parse the dashboard.php HTML table into buoy rows. Throws DataFormatError
+ * when the markup isn't the table we know (no rows at all, or rows whose
+ * cells no longer line up), so a layout change surfaces as an error instead
+ * of an empty "no data" page. A row with a single cell is a message such as
+ * "No records found" and an empty page is still valid.
+ */
+export const parseDashboardHtml = (htmlContent: string, page: number): BuoyDataPage => {
+  // Extract table rows using regex
+  const tableRowRegex = /<tr[^>]*>.*?<\/tr>/gs;
+  const rows: string[] = htmlContent.match(tableRowRegex) || [];
+
+  if (rows.length === 0) {
+    throw new DataFormatError('The buoy dashboard page has no data table');
+  }
+
+  const buoyData: BuoyData[] = [];
+  let malformedRows = 0;
+
+  rows.forEach((row, index) => {
+    // Skip header row
+    if (index === 0) {
+      return;
+    }
+
+    // Extract cell data
+    const cellRegex = /<td[^>]*>(.*?)<\/td>/gs;
+    const cells = [...row.matchAll(cellRegex)].map(match => match[1].trim());
+
+    if (cells.length >= 9) {
+      buoyData.push({
+        ID: cleanHtmlTags(cells[0]),
+        Buoy: cleanHtmlTags(cells[1]),
+        Date: cleanHtmlTags(cells[2]),
+        Time: cleanHtmlTags(cells[3]),
+        Latitude: cleanHtmlTags(cells[4]),
+        Longitude: cleanHtmlTags(cells[5]),
+        pH: cleanHtmlTags(cells[6]),
+        'Temp (°C)': cleanHtmlTags(cells[7]),
+        'TDS (ppm)': cleanHtmlTags(cells[8])
+      });
+    } else if (cells.length > 1) {
+      malformedRows++;
+    }
+  });
+
+  if (buoyData.length === 0 && malformedRows > 0) {
+    throw new DataFormatError(`The buoy dashboard table layout changed (${malformedRows} unreadable rows)`);
+  }
+  if (malformedRows > 0) {
+    console.warn(`⚠️ Skipped ${malformedRows} dashboard rows with fewer than 9 cells`);
+  }
+
+  // Extract pagination info
+  const paginationRegex = /page=(\d+)/g;
+  const pageMatches = [...htmlContent.matchAll(paginationRegex)];
+  const totalPages = pageMatches.length > 0 ? Math.max(...pageMatches.map(m => parseInt(m[1]))) : 1;
+
+  return {
+    data: buoyData,
+    totalPages,
+    currentPage: page
+  };
+};
+
+// Shape of a single reading returned by the JSON endpoint
+export interface JsonReading {
+  id: number | string;
+  buoy: number | string;
+  date: string;
+  time: string;
+  latitude: number | string | null;
+  longitude: number | string | null;
+  ph: number | string | null;
+  temperature: number | string | null;
+  tds: number | string | null;
+}
+
+interface JsonReadingsResponse {
+  data: JsonReading[];
+  page: number;
+  total_pages: number;
+}
+
+interface JsonMonthsResponse {
+  months: string[];
+}
+
+const toCell = (value: number | string | null | undefined): string => {
+  return value === null || value === undefined ? '' : String(value).trim();
+};
+
+// Convert one JSON reading (endpoint row or realtime push) into the legacy BuoyData shape
+export const parseJsonReading = (item: JsonReading): BuoyData => {
+  const buoy = toCell(item.buoy);
+  return {
+    ID: toCell(item.id),
+    Buoy: /^\d+$/.test(buoy) ? `Buoy ${buoy}` : buoy,
+    Date: toCell(item.date),
+    Time: toCell(item.time),
+    Latitude: toCell(item.latitude),
+    Longitude: toCell(item.longitude),
+    pH: toCell(item.ph),
+    'Temp (°C)': toCell(item.temperature),
+    'TDS (ppm)': toCell(item.tds)
+  };
+};
+
+// Convert the JSON endpoint payload into the legacy BuoyData shape
+export const parseReadingsJson = (payload: unknown, page: number): BuoyDataPage => {
+  const body = payload as Partial<JsonReadingsResponse> | null;
+  if (!body || typeof body !== 'object' || !Array.isArray(body.data)) {
+    throw new DataFormatError('Unexpected JSON response from buoy data source');
+  }
+
+  const buoyData: BuoyData[] = body.data.map(parseJsonReading);
+
+  return {
+    data: buoyData,
+    totalPages: typeof body.total_pages === 'number' ? body.total_pages : 1,
+    currentPage: typeof body.page === 'number' ? body.page : page
+  };
+};
+
+// Format a date as YYYY-MM-DD HH:MM:SS in server (Philippine) time for the JSON endpoint
+const formatQueryDate = (date: Date): string => {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  const server = toServerClock(date.getTime());
+  return `${server.getUTCFullYear()}-${pad(server.getUTCMonth() + 1)}-${pad(server.getUTCDate())} ${pad(server.getUTCHours())}:${pad(server.getUTCMinutes())}:${pad(server.getUTCSeconds())}`;
+};
+
+// Adapter that scrapes the dashboard.php HTML table (legacy fallback)
+export class HtmlBuoyDataSource implements BuoyDataSource {
+  readonly name: BuoyDataSourceType = 'html';
+  readonly supportsServerFilters = false;
+
+  constructor(private readonly url: string, private readonly timeout: number = REQUEST_TIMEOUT) {}
+
+  async fetchPage(query: BuoyDataQuery, signal?: AbortSignal): Promise<BuoyDataPage> {
+    const response = await axios.get(`${this.url}?page=${query.page}`, {
+      timeout: this.timeout,
+      responseType: 'text',
+      signal,
+    });
+
+    const parsed = parseDashboardHtml(String(response.data), query.page);
+    return {
+      ...parsed,
+      data: applyClientFilters(parsed.data, query),
+    };
+  }
+}
+
+// Adapter for the typed JSON readings endpoint with server-side paging and filters
+export class JsonBuoyDataSource implements BuoyDataSource {
+  readonly name: BuoyDataSourceType = 'json';
+  readonly supportsServerFilters = true;
+
+  constructor(private readonly url: string, private readonly timeout: number = REQUEST_TIMEOUT) {}
+
+  async fetchPage(query: BuoyDataQuery, signal?: AbortSignal): Promise<BuoyDataPage> {
+    const params: Record<string, string | number> = { page: query.page };
+    if (query.pageSize) params.per_page = query.pageSize;
+    if (query.buoyFilter) params.buoy = query.buoyFilter;
+    if (query.dateFilter) params.range = query.dateFilter;
+    if (query.from) params.from = formatQueryDate(query.from);
+    if (query.to) params.to = formatQueryDate(query.to);
+
+    const response = await axios.get(this.url, {
+      params,
+      timeout: this.timeout,
+      headers: { Accept: 'application/json' },
+      signal,
+    });
+
+    return parseReadingsJson(response.data, query.page);
+  }
+
+  // ?view=latest returns the newest reading of every buoy
+  async fetchLatestPerBuoy(signal?: AbortSignal): Promise<BuoyData[]> {
+    const response = await axios.get(this.url, {
+      params: { view: 'latest' },
+      timeout: this.timeout,
+      headers: { Accept: 'application/json' },
+      signal,
+    });
+
+    return parseReadingsJson(response.data, 1).data;
+  }
+
+  // ?view=months returns the distinct months that have readings
+  async fetchDistinctMonths(signal?: AbortSignal): Promise<string[]> {
+    const response = await axios.get(this.url, {
+      params: { view: 'months' },
+      timeout: this.timeout,
+      headers: { Accept: 'application/json' },
+      signal,
+    });
+
+    const body = response.data as Partial<JsonMonthsResponse> | null;
+    if (!body || !Array.isArray(body.months)) {
+      throw new DataFormatError('Unexpected JSON response from buoy data source');
+    }
+    return body.months.filter(month => /^\d{4}-\d{2}$/.test(month));
+  }
+}
+
+// Resolve configuration from Expo public environment variables
+export const getDataSourceConfig = (): BuoyDataSourceConfig => {
+  const type = process.env.EXPO_PUBLIC_BUOY_DATA_SOURCE;
+  return {
+    ...DEFAULT_DATA_SOURCE_CONFIG,
+    type: type === 'json' || type === 'html' ? type : DEFAULT_DATA_SOURCE_CONFIG.type,
+    jsonUrl: process.env.EXPO_PUBLIC_BUOY_JSON_URL || DEFAULT_DATA_SOURCE_CONFIG.jsonUrl,
+  };
+};
+
+// Build the adapter selected by configuration
+export const createBuoyDataSource = (config: BuoyDataSourceConfig = getDataSourceConfig()): BuoyDataSource => {
+  switch (config.type) {
+    case 'json':
+      return new JsonBuoyDataSource(config.jsonUrl, config.timeout);
+    case 'html':
+    default:
+      return new HtmlBuoyDataSource(config.htmlUrl, config.timeout);
+  }
+};
+
+// HTML scraper used when the configured source fails
+export const createFallbackDataSource = (config: BuoyDataSourceConfig = getDataSourceConfig()): BuoyDataSource | null => {
+  return config.type === 'html' ? null : new HtmlBuoyDataSource(config.htmlUrl, config.timeout);
+};
@@ -0,0 +1,187 @@
+import { BuoyData } from './buoyService';
+import { ReadingQuality } from './qualityControl';
+
+// Normalized, numeric buoy reading produced once at the service boundary
+export interface BuoyReading {
+  id: number;
+  buoyId: number | null; // Numeric buoy number, e.g. 1 for "Buoy 1"
+  buoy: string; // Display label, e.g. "Buoy 1"
+  timestamp: number | null; // Milliseconds since epoch (UTC), null if the date could not be parsed
+  latitude: number | null;
+  longitude: number | null;
+  pH: number | null;
+  temperature: number | null;
+  tds: number | null;
+  qc?: ReadingQuality; // Set by withQualityFlags(); absent means not assessed
+}
+
+// The server occasionally emits bogus years (e.g. 2065, 2068) - reject anything outside this window
+export const MIN_VALID_YEAR = 2020;
+export const getMaxValidYear = (): number => new Date().getFullYear() + 1;
+
+// The server and the receiver record readings in Philippine time (UTC+8, no DST)
+export const SERVER_UTC_OFFSET_MS = 8 * 60 * 60 * 1000;
+
+// Date whose UTC getters give the server's wall-clock time for a timestamp
+export const toServerClock = (timestamp: number): Date => new Date(timestamp + SERVER_UTC_OFFSET_MS);
+
+// Timestamp of a wall-clock time on the server's clock; month is 0-11 and out-of-range fields roll over like Date.UTC
+export const fromServerClock = (year: number, month: number, day: number = 1, hours: number = 0, minutes: number = 0): number =>
+  Date.UTC(year, month, day, hours, minutes) - SERVER_UTC_OFFSET_MS;
+
+// Start of the server's calendar day containing a timestamp
+export const startOfServerDay = (timestamp: number): number => {
+  const date = toServerClock(timestamp);
+  return fromServerClock(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate());
+};
+
+// toLocaleString on the server's clock, so labels read the same on every phone
+export const formatServerTime = (timestamp: number, options: Intl.DateTimeFormatOptions): string =>
+  toServerClock(timestamp).toLocaleString('en-US', { ...options, timeZone: 'UTC' });
+
+// Parse "HH:MM[:SS]" (optionally with AM/PM), "HH MM" or "HHMM" into hours and minutes
+const parseTime = (timeStr: string): { hours: number; minutes: number; seconds: number } => {
+  let hours = 0, minutes = 0, seconds = 0;
+  let time = timeStr.trim();
+
+  const meridiemMatch = time.match(/\s*(AM|PM)$/i);
+  const meridiem = meridiemMatch ? meridiemMatch[1].toUpperCase() : null;
+  if (meridiemMatch) {
+    time = time.slice(0, meridiemMatch.index).trim();
+  }
+
+  if (time.includes(':')) {
+    const timeParts = time.split(':');
+    hours = parseInt(timeParts[0]) || 0;
+    minutes = parseInt(timeParts[1]) || 0;
+    seconds = parseInt(timeParts[2]) || 0;
+  } else if (time.includes(' ')) {
+    const timeParts = time.split(' ');
+    hours = parseInt(timeParts[0]) || 0;
+    minutes = parseInt(timeParts[1]) || 0;
+  } else if (time) {
+    const timeNum = parseInt(time);
+    if (!isNaN(timeNum) && timeNum >= 0 && timeNum <= 2359) {
+      hours = Math.floor(timeNum / 100);
+      minutes = timeNum % 100;
+    }
+  }
+
+  if (meridiem === 'PM' && hours < 12) hours += 12;
+  if (meridiem === 'AM' && hours === 12) hours = 0;
+
+  return { hours, minutes, seconds };
+};
+
+/**
+ * Parse the date/time pair emitted by the server into an epoch timestamp.
+ * Understands MM/DD/YYYY and YYYY-MM-DD dates. The values are Philippine
+ * time whatever the device's time zone, as in the ingestion function.
+ * Returns null for unparseable or out-of-range dates.
+ */
+export const parseBuoyDateTime = (date: string, time: string = ''): number | null => {
+  const dateStr = (date || '').trim();
+  if (!dateStr) return null;
+
+  let year: number, month: number, day: number;
+
+  if (dateStr.includes('/')) {
+    // Format: MM/DD/YYYY
+    const parts = dateStr.split('/');
+    if (parts.length !== 3) return null;
+    month = parseInt(parts[0]);
+    day = parseInt(parts[1]);
+    year = parseInt(parts[2]);
+  } else if (/^\d{4}-\d{1,2}-\d{1,2}/.test(dateStr)) {
+    // Format: YYYY-MM-DD (optionally followed by a time)
+    const parts = dateStr.slice(0, 10).split('-');
+    year = parseInt(parts[0]);
+    month = parseInt(parts[1]);
+    day = parseInt(parts[2]);
+    if (!time && dateStr.length > 10) {
+      time = dateStr.slice(11);
+    }
+  } else {
+    return null;
+  }
+
+  if (isNaN(year) || isNaN(month) || isNaN(day)) return null;
+  if (month < 1 || month > 12 || day < 1 || day > 31) return null;
+  if (year < MIN_VALID_YEAR || year > getMaxValidYear()) return null;
+
+  const { hours, minutes, seconds } = parseTime(time || '');
+  const wallClock = new Date(Date.UTC(year, month - 1, day, hours, minutes, seconds));
+
+  // Reject rollovers such as 02/31
+  if (wallClock.getUTCMonth() !== month - 1 || wallClock.getUTCDate() !== day) return null;
+
+  return wallClock.getTime() - SERVER_UTC_OFFSET_MS;
+};
+
+// Parse a numeric sensor value, returning null for empty or non-numeric input
+export const parseNumeric = (value: string | number | null | undefined): number | null => {
+  if (value === null || value === undefined) return null;
+  const num = typeof value === 'number' ? value : parseFloat(String(value).replace(/,/g, '').trim());
+  return Number.isFinite(num) ? num : null;
+};
+
+// Extract the numeric buoy id from a "Buoy X" label
+export const parseBuoyId = (buoyName: string): number | null => {
+  const match = (buoyName || '').trim().match(/Buoy\s*(\d+)/i);
+  return match ? parseInt(match[1]) : null;
+};
+
+// Convert the legacy string-typed BuoyData shape into a BuoyReading
+export const toBuoyReading = (data: BuoyData): BuoyReading => {
+  return {
+    id: parseInt(data.ID) || 0,
+    buoyId: parseBuoyId(data.Buoy),
+    buoy: (data.Buoy || '').trim(),
+    timestamp: parseBuoyDateTime(data.Date, data.Time),
+    latitude: parseNumeric(data.Latitude),
+    longitude: parseNumeric(data.Longitude),
+    pH: parseNumeric(data.pH),
+    temperature: parseNumeric(data['Temp (°C)']),
+    tds: parseNumeric(data['TDS (ppm)']),
+  };
+};
+
+export const toBuoyReadings = (data: BuoyData[]): BuoyReading[] => data.map(toBuoyReading);
+
+// Convert a BuoyReading back to the legacy shape (for CSV export and the offline cache), in server time
+export const fromBuoyReading = (reading: BuoyReading): BuoyData => {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  const date = reading.timestamp !== null ? toServerClock(reading.timestamp) : null;
+  const toCell = (value: number | null) => (value === null ? '' : String(value));
+
+  return {
+    ID: String(reading.id),
+    Buoy: reading.buoy,
+    Date: date ? `${date.getUTCFullYear()}-${pad(date.getUTCMonth() + 1)}-${pad(date.getUTCDate())}` : '',
+    Time: date ? `${pad(date.getUTCHours())}:${pad(date.getUTCMinutes())}:${pad(date.getUTCSeconds())}` : '',
+    Latitude: toCell(reading.latitude),
+    Longitude: toCell(reading.longitude),
+    pH: toCell(reading.pH),
+    'Temp (°C)': toCell(reading.temperature),
+    'TDS (ppm)': toCell(reading.tds),
+  };
+};
+
+// Month label used by filters, e.g. "Aug 2025", in server time
+export const formatMonthYear = (timestamp: number): string => {
+  return formatServerTime(timestamp, { month: 'short', year: 'numeric' });
+};
+
+// Sort readings newest first; readings without a timestamp go last
+export const compareReadingsNewestFirst = (a: BuoyReading, b: BuoyReading): number => {
+  if (a.timestamp === b.timestamp) return 0;
+  if (a.timestamp === null) return 1;
+  if (b.timestamp === null) return -1;
+  return b.timestamp - a.timestamp;
+};
+
+// Whether a reading has a location that can be plotted on a map
+export const hasValidLocation = (reading: BuoyReading): boolean => {
+  return reading.latitude !== null && reading.longitude !== null &&
+    reading.latitude !== 0 && reading.longitude !== 0;
+};
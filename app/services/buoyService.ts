@@ -1,5 +1,14 @@
 import axios from 'axios';
 import { isOnline } from './networkService';
+import { BuoyDataPage, BuoyDataQuery, createBuoyDataSource, createFallbackDataSource, getDataSourceConfig } from './buoyDataSource';
+import { BuoyReading, toBuoyReadings, parseBuoyDateTime, parseBuoyId, formatMonthYear, fromServerClock } from './buoyReading';
+import { readingStore, ReadingQuery } from './readingStore';
+import { withQualityFlags } from './qualityControl';
+import { OfflineError, createAbortError, isAbortError } from './apiErrors';
+import { retryWithPolicy, DEFAULT_RETRY_POLICY, RetryPolicy } from './retryPolicy';
+
+export type { ReadingQuery } from './readingStore';
+export { isAbortError } from './apiErrors';
 
 export interface BuoyData {
   ID: string;
@@ -15,47 +24,230 @@ export interface BuoyData {
 
 export interface BuoyResponse {
   data: BuoyData[];
+  readings: BuoyReading[]; // Normalized copy of `data`, with QC flags
   totalPages: number;
   currentPage: number;
 }
 
-// Function to clean HTML tags from text
-const cleanHtmlTags = (text: string): string => {
-  return text.replace(/<[^>]*>/g, '').trim();
+// Compare two raw rows by their parsed timestamp, newest first
+const compareNewestFirst = (a: BuoyData, b: BuoyData): number => {
+  return (parseBuoyDateTime(b.Date, b.Time) ?? 0) - (parseBuoyDateTime(a.Date, a.Time) ?? 0);
+};
+
+const throwIfAborted = (signal?: AbortSignal): void => {
+  if (signal?.aborted) {
+    throw createAbortError();
+  }
+};
+
+// Settle with `promise`, or reject as soon as the signal aborts (calling onAbort first)
+const raceWithSignal = <T>(promise: Promise<T>, signal?: AbortSignal, onAbort?: () => void): Promise<T> => {
+  if (!signal) {
+    return promise;
+  }
+  if (signal.aborted) {
+    onAbort?.();
+    return Promise.reject(createAbortError());
+  }
+  return new Promise<T>((resolve, reject) => {
+    const handleAbort = () => {
+      onAbort?.();
+      reject(createAbortError());
+    };
+    signal.addEventListener('abort', handleAbort, { once: true });
+    promise.then(
+      value => {
+        signal.removeEventListener('abort', handleAbort);
+        resolve(value);
+      },
+      error => {
+        signal.removeEventListener('abort', handleAbort);
+        reject(error);
+      }
+    );
+  });
+};
+
+const API_BASE_URL = 'https://dorsu.edu.ph/buoy/dashboard.php';
+
+// Data source adapter selected through configuration (see buoyDataSource.ts)
+const dataSourceConfig = getDataSourceConfig();
+const dataSource = createBuoyDataSource(dataSourceConfig);
+const fallbackDataSource = createFallbackDataSource(dataSourceConfig);
+
+// Retry policy applied to every data source request (see retryPolicy.ts)
+let retryPolicy: RetryPolicy = DEFAULT_RETRY_POLICY;
+
+export const setRetryPolicy = (policy: RetryPolicy): void => {
+  retryPolicy = policy;
 };
 
-// Retry mechanism for API calls
-const retryApiCall = async <T>(
-  apiCall: () => Promise<T>,
-  maxRetries: number = 3,
-  delay: number = 1000
+// Shared query layer: concurrent callers of the same query share one request,
+// results are cached for QUERY_CACHE_TTL_MS and subscribers hear about new data
+const QUERY_CACHE_TTL_MS = 30000; // 30 seconds
+
+export interface BuoyDataUpdate {
+  latestId: number; // Highest reading ID seen so far
+  updatedAt: number;
+}
+
+type BuoyDataListener = (update: BuoyDataUpdate) => void | Promise<void>;
+
+interface InFlightQuery {
+  promise: Promise<unknown>;
+  controller: AbortController;
+  waiters: number; // Callers still interested in the result
+}
+
+const queryCache = new Map<string, { value: unknown; fetchedAt: number }>();
+const inFlightQueries = new Map<string, InFlightQuery>();
+const buoyDataListeners: BuoyDataListener[] = [];
+let latestKnownId = 0;
+let refreshInProgress = false;
+
+// The underlying request is only aborted once every caller sharing it has aborted
+const sharedQuery = <T>(
+  key: string,
+  fetcher: (signal: AbortSignal) => Promise<T>,
+  signal?: AbortSignal,
+  ttl: number = QUERY_CACHE_TTL_MS
 ): Promise<T> => {
-  let lastError: Error;
-  
-  for (let attempt = 1; attempt <= maxRetries; attempt++) {
-    try {
-      return await apiCall();
-    } catch (error) {
-      lastError = error as Error;
-      console.log(`API call attempt ${attempt} failed:`, error);
-      
-      if (attempt < maxRetries) {
-        await new Promise(resolve => setTimeout(resolve, delay * attempt));
+  const cached = queryCache.get(key);
+  if (cached && Date.now() - cached.fetchedAt < ttl) {
+    return Promise.resolve(cached.value as T);
+  }
+
+  let inFlight = inFlightQueries.get(key);
+  if (!inFlight || inFlight.controller.signal.aborted) {
+    const controller = new AbortController();
+    const promise = fetcher(controller.signal)
+      .then(value => {
+        queryCache.set(key, { value, fetchedAt: Date.now() });
+        return value;
+      })
+      .finally(() => {
+        // A newer request may have taken the key after this one was aborted
+        if (inFlightQueries.get(key) === created) {
+          inFlightQueries.delete(key);
+        }
+      });
+    // Callers that abort get their own rejection; avoid an unhandled one here
+    promise.catch(() => {});
+    const created: InFlightQuery = { promise, controller, waiters: 0 };
+    inFlight = created;
+    inFlightQueries.set(key, created);
+  }
+
+  const entry = inFlight;
+  entry.waiters++;
+  return raceWithSignal(entry.promise as Promise<T>, signal, () => {
+    entry.waiters--;
+    if (entry.waiters === 0) {
+      // Later callers start a fresh request instead of joining the aborted one
+      entry.controller.abort();
+      if (inFlightQueries.get(key) === entry) {
+        inFlightQueries.delete(key);
       }
     }
+  });
+};
+
+// Drop cached query results so the next call goes to the network
+export const invalidateBuoyCache = (): void => {
+  queryCache.clear();
+};
+
+// Subscribe to new-data events; returns an unsubscribe function
+export const subscribeToBuoyData = (listener: BuoyDataListener): (() => void) => {
+  buoyDataListeners.push(listener);
+  return () => {
+    const index = buoyDataListeners.indexOf(listener);
+    if (index > -1) {
+      buoyDataListeners.splice(index, 1);
+    }
+  };
+};
+
+// Resolves once every listener has finished reloading
+const notifyBuoyDataListeners = async (): Promise<void> => {
+  const update: BuoyDataUpdate = { latestId: latestKnownId, updatedAt: Date.now() };
+  const results = await Promise.allSettled(buoyDataListeners.map(async listener => listener(update)));
+  results.forEach(result => {
+    if (result.status === 'rejected') {
+      console.error('Error in buoy data listener:', result.reason);
+    }
+  });
+};
+
+// Newer readings shift every page, so a new highest ID invalidates all cached queries
+const recordLatestId = (rows: BuoyData[]): void => {
+  const highestId = rows.reduce((max, row) => Math.max(max, parseInt(row.ID) || 0), 0);
+  if (highestId <= latestKnownId) {
+    return;
+  }
+
+  const hadData = latestKnownId > 0;
+  latestKnownId = highestId;
+  invalidateBuoyCache();
+  // refreshBuoyData notifies on its own once the refresh completes
+  if (hadData && !refreshInProgress) {
+    if (__DEV__) console.log(`🔔 New buoy data available (latest ID ${highestId})`);
+    // Listeners (alerts, heartbeat, charts) read the store, so write the rows first
+    readingStore.upsertRows(rows)
+      .catch(error => console.error('Error storing new readings:', error))
+      .then(() => notifyBuoyDataListeners());
   }
-  
-  throw lastError!;
 };
 
-const API_BASE_URL = 'https://dorsu.edu.ph/buoy/dashboard.php';
+/**
+ * Refetch the newest page, store it and tell every subscribed screen to reload.
+ * Subscribers run only after the store has the new rows, so alert and
+ * heartbeat checks see them. Resolves after all subscribers have reloaded,
+ * so callers can keep their refresh spinner up until every tab is current.
+ */
+export const refreshBuoyData = async (signal?: AbortSignal): Promise<void> => {
+  refreshInProgress = true;
+  invalidateBuoyCache();
+  try {
+    const response = await fetchBuoyData(1, undefined, undefined, signal);
+    // More than a page of new readings is filled in by the next store sync
+    await readingStore.upsertRows(response.data);
+  } catch (error) {
+    if (isAbortError(error)) {
+      throw error;
+    }
+    console.error('⚠️ Refresh failed, subscribers will fall back to stored data:', error);
+  } finally {
+    refreshInProgress = false;
+  }
+  await notifyBuoyDataListeners();
+};
+
+/**
+ * Store readings pushed over the realtime channel and tell every subscribed
+ * screen to reload. Pushes we already have (e.g. replayed after a reconnect)
+ * are ignored.
+ */
+export const ingestPushedReadings = async (rows: BuoyData[]): Promise<void> => {
+  const added = await readingStore.upsertRows(rows);
+  const highestId = rows.reduce((max, row) => Math.max(max, parseInt(row.ID) || 0), 0);
+  if (added === 0 && highestId <= latestKnownId) {
+    return;
+  }
+
+  latestKnownId = Math.max(latestKnownId, highestId);
+  invalidateBuoyCache();
+  if (__DEV__) console.log(`📡 ${rows.length} reading(s) pushed (latest ID ${latestKnownId})`);
+  await notifyBuoyDataListeners();
+};
 
 // Test function to check API directly
-export const testApiConnection = async (): Promise<void> => {
+export const testApiConnection = async (signal?: AbortSignal): Promise<void> => {
   try {
     console.log('🧪 Testing API connection...');
     const response = await axios.get(`${API_BASE_URL}?page=1`, {
       timeout: 10000,
+      signal,
     });
     console.log('✅ API Response Status:', response.status);
     console.log('📄 Response Data Length:', response.data.length);
@@ -65,339 +257,319 @@ export const testApiConnection = async (): Promise<void> => {
   }
 };
 
-export const fetchBuoyData = async (page: number = 1, buoyFilter?: string, dateFilter?: string): Promise<BuoyResponse> => {
+// Fetch one page from the configured data source, falling back to the HTML scraper on failure
+const fetchPageFromSource = async (query: BuoyDataQuery, signal?: AbortSignal): Promise<BuoyDataPage> => {
+  // Check network connectivity first
+  const online = await isOnline();
+  if (!online) {
+    throw new OfflineError();
+  }
+  throwIfAborted(signal);
+
   try {
-    console.log(`🌐 Fetching data from API: ${API_BASE_URL}?page=${page}`);
-    
-    // Check network connectivity first
-    const online = await isOnline();
-    if (!online) {
-      throw new Error('No internet connection available');
+    return await retryWithPolicy(() => dataSource.fetchPage(query, signal), retryPolicy, signal);
+  } catch (error) {
+    if (!fallbackDataSource || isAbortError(error)) {
+      throw error;
     }
+    if (__DEV__) console.log(`⚠️ ${dataSource.name} data source failed, falling back to ${fallbackDataSource.name}:`, error);
+    return await retryWithPolicy(() => fallbackDataSource!.fetchPage(query, signal), retryPolicy, signal);
+  }
+};
 
-    const response = await retryApiCall(() => 
-      axios.get(`${API_BASE_URL}?page=${page}`, {
-        timeout: 10000, // 10 second timeout
-      })
-    );
-    
-    console.log(`📡 API Response status: ${response.status}`);
-    console.log(`📄 Response data length: ${response.data.length} characters`);
-    
-    // Parse the HTML response to extract table data
-    const htmlContent = response.data;
-    
-    // Extract table rows using regex
-    const tableRowRegex = /<tr[^>]*>.*?<\/tr>/gs;
-    const rows = htmlContent.match(tableRowRegex) || [];
-    
-    console.log(`🔍 Found ${rows.length} table rows in HTML`);
-    
-    let buoyData: BuoyData[] = [];
-    
-    rows.forEach((row: string, index: number) => {
-      // Skip header row
-      if (index === 0) {
-        console.log('📋 Header row:', row.substring(0, 200) + '...');
-        return;
-      }
-      
-      // Extract cell data
-      const cellRegex = /<td[^>]*>(.*?)<\/td>/gs;
-      const cells = [...row.matchAll(cellRegex)].map(match => match[1].trim());
+export const fetchBuoyData = async (page: number = 1, buoyFilter?: string, dateFilter?: string, signal?: AbortSignal): Promise<BuoyResponse> => {
+  try {
+    return await sharedQuery(`page:${page}:${buoyFilter ?? ''}:${dateFilter ?? ''}`, async sharedSignal => {
+      console.log(`🌐 Fetching page ${page} from ${dataSource.name} data source`);
+
+      const response = await fetchPageFromSource({ page, buoyFilter, dateFilter }, sharedSignal);
       
-      console.log(`📊 Row ${index}: Found ${cells.length} cells`);
+      console.log(`🎯 Final result: ${response.data.length} buoy records parsed`);
+      recordLatestId(response.data);
       
-      if (cells.length >= 9) {
-        const parsedData = {
-          ID: cleanHtmlTags(cells[0]),
-          Buoy: cleanHtmlTags(cells[1]),
-          Date: cleanHtmlTags(cells[2]),
-          Time: cleanHtmlTags(cells[3]),
-          Latitude: cleanHtmlTags(cells[4]),
-          Longitude: cleanHtmlTags(cells[5]),
-          pH: cleanHtmlTags(cells[6]),
-          'Temp (°C)': cleanHtmlTags(cells[7]),
-          'TDS (ppm)': cleanHtmlTags(cells[8])
-        };
-        
-        console.log(`✅ Parsed data row ${index}:`, parsedData);
-        console.log(`🕐 Raw time data: "${parsedData.Time}"`);
-        buoyData.push(parsedData);
-      } else {
-        console.log(`⚠️ Row ${index} has insufficient cells (${cells.length}/9):`, cells);
-      }
-    });
-    
-    // Apply filters
-    if (buoyFilter) {
-      buoyData = buoyData.filter(data => {
-        const buoyName = data.Buoy.trim();
-        const match = buoyName.match(/Buoy\s*(\d+)/i);
-        return match && match[1] === buoyFilter;
-      });
+      return {
+        ...response,
+        readings: withQualityFlags(toBuoyReadings(response.data))
+      };
+    }, signal);
+  } catch (error) {
+    if (!isAbortError(error)) {
+      console.error('❌ Error fetching buoy data:', error);
     }
-    
-    if (dateFilter) {
-      const now = new Date();
-      buoyData = buoyData.filter(data => {
-        const dataDate = new Date(data.Date);
-        
-        switch (dateFilter) {
-          case 'today':
-            return dataDate.toDateString() === now.toDateString();
-          case 'week':
-            const weekAgo = new Date(now.getTime() - 7 * 24 * 60 * 60 * 1000);
-            return dataDate >= weekAgo;
-          case 'month':
-            const monthAgo = new Date(now.getTime() - 30 * 24 * 60 * 60 * 1000);
-            return dataDate >= monthAgo;
-          default:
-            return true;
+    throw error;
+  }
+};
+
+/**
+ * Bring the on-device reading store up to date (only rows newer than the last
+ * synced ID after the first crawl). The sync is shared by every caller, so
+ * aborting only stops waiting for it; the pages already fetched are kept.
+ */
+export const syncReadingStore = async (force: boolean = false, maxPages: number = 50, signal?: AbortSignal): Promise<number> => {
+  return raceWithSignal(readingStore.sync(page => fetchBuoyData(page), { force, maxPages }), signal);
+};
+
+// When the reading store last finished a sync with the server (epoch ms), 0 if never
+export const getLastStoreSyncTime = async (): Promise<number> => {
+  return readingStore.getLastSyncTime();
+};
+
+// Sync the store, but keep serving stored history when the network is unavailable.
+// Returns false if the sync failed.
+const syncReadingStoreSafely = async (maxPages?: number, signal?: AbortSignal): Promise<boolean> => {
+  try {
+    await syncReadingStore(false, maxPages, signal);
+    return true;
+  } catch (error) {
+    if (isAbortError(error)) {
+      throw error;
+    }
+    console.error('⚠️ Reading store sync failed, using stored data:', error);
+    return false;
+  }
+};
+
+// Readings already on the device, without touching the network
+export const getStoredReadings = async (query: ReadingQuery = {}): Promise<BuoyReading[]> => {
+  return withQualityFlags(await readingStore.query(query));
+};
+
+// Number of stored readings matching a query, without loading them
+export const countStoredReadings = async (query: ReadingQuery = {}): Promise<number> => {
+  return readingStore.count(query);
+};
+
+// Downsampled view of a long stored range (see readingStore.queryOverviewRows). Only
+// single-reading QC tests apply, since neighbouring readings in it were not consecutive.
+export const getStoredReadingsOverview = async (query: ReadingQuery, buckets: number): Promise<BuoyReading[]> => {
+  return withQualityFlags(await readingStore.queryOverview(query, buckets), Date.now(), false);
+};
+
+// Newest stored reading of every buoy, ordered by buoy number, without touching the network
+export const getStoredLatestReadings = async (): Promise<BuoyReading[]> => {
+  return toBuoyReadings(await readingStore.latestPerBuoy());
+};
+
+// One page of stored rows, newest first (used by the Data tab when offline)
+export const getStoredBuoyDataPage = async (page: number = 1, pageSize: number = 20): Promise<Omit<BuoyResponse, 'readings'>> => {
+  const total = await readingStore.count();
+  const data = await readingStore.queryRows({ limit: pageSize, offset: (page - 1) * pageSize });
+  return {
+    data,
+    totalPages: Math.max(1, Math.ceil(total / pageSize)),
+    currentPage: page
+  };
+};
+
+/**
+ * Query raw rows by buoy and time range, newest first. Sources that filter on
+ * the server are paged with the filters applied; otherwise the query is
+ * answered from the on-device reading store.
+ */
+export const queryBuoyData = async (query: ReadingQuery = {}, maxPages: number = 50, signal?: AbortSignal): Promise<BuoyData[]> => {
+  if (dataSource.supportsServerFilters) {
+    try {
+      return await sharedQuery(`query:${JSON.stringify(query)}:${maxPages}`, async sharedSignal => {
+        const rows: BuoyData[] = [];
+        let page = 1;
+
+        while (page <= maxPages) {
+          const response = await fetchPageFromSource({
+            page,
+            buoyFilter: query.buoyId !== undefined ? String(query.buoyId) : undefined,
+            from: query.from !== undefined ? new Date(query.from) : undefined,
+            to: query.to !== undefined ? new Date(query.to) : undefined,
+          }, sharedSignal);
+          rows.push(...response.data);
+
+          if (response.data.length === 0 || page >= response.totalPages) break;
+          if (query.limit !== undefined && rows.length >= query.limit) break;
+          page++;
         }
+
+        const sorted = rows.sort(compareNewestFirst);
+        return query.limit !== undefined ? sorted.slice(0, query.limit) : sorted;
+      }, signal);
+    } catch (error) {
+      if (isAbortError(error)) {
+        throw error;
+      }
+      console.error('⚠️ Server-side query failed, using stored data:', error);
+      return readingStore.queryRows(query);
+    }
+  }
+
+  await syncReadingStoreSafely(maxPages, signal);
+  return readingStore.queryRows(query);
+};
+
+// Same as queryBuoyData, normalized into numeric readings with QC flags
+export const queryBuoyReadings = async (query: ReadingQuery = {}, maxPages: number = 50, signal?: AbortSignal): Promise<BuoyReading[]> => {
+  const data = await queryBuoyData(query, maxPages, signal);
+  return withQualityFlags(toBuoyReadings(data));
+};
+
+// Latest row of every buoy, ordered by buoy number
+export const getLatestBuoyDataPerBuoy = async (signal?: AbortSignal): Promise<BuoyData[]> => {
+  if (dataSource.fetchLatestPerBuoy) {
+    try {
+      const latest = await sharedQuery(
+        'latest-per-buoy',
+        sharedSignal => retryWithPolicy(() => dataSource.fetchLatestPerBuoy!(sharedSignal), retryPolicy, sharedSignal),
+        signal
+      );
+      return [...latest].sort((a, b) => (parseBuoyId(a.Buoy) ?? 0) - (parseBuoyId(b.Buoy) ?? 0));
+    } catch (error) {
+      if (isAbortError(error)) {
+        throw error;
+      }
+      console.error('⚠️ Latest-per-buoy query failed, using stored data:', error);
+    }
+  }
+
+  await syncReadingStoreSafely(undefined, signal);
+  return readingStore.latestPerBuoy();
+};
+
+// Distinct "Aug 2025" style months and years that have readings, newest first
+export const getDistinctMonths = async (signal?: AbortSignal): Promise<{ months: string[]; years: string[] }> => {
+  if (dataSource.fetchDistinctMonths) {
+    try {
+      const keys = await sharedQuery(
+        'months',
+        sharedSignal => retryWithPolicy(() => dataSource.fetchDistinctMonths!(sharedSignal), retryPolicy, sharedSignal),
+        signal
+      );
+      const months: string[] = [];
+      const years: string[] = [];
+      [...keys].sort().reverse().forEach(key => {
+        const [year, month] = key.split('-').map(part => parseInt(part));
+        const label = formatMonthYear(fromServerClock(year, month - 1));
+        if (!months.includes(label)) months.push(label);
+        if (!years.includes(String(year))) years.push(String(year));
       });
+      return { months, years };
+    } catch (error) {
+      if (isAbortError(error)) {
+        throw error;
+      }
+      console.error('⚠️ Distinct months query failed, using stored data:', error);
     }
-    
-    // Extract pagination info
-    const paginationRegex = /page=(\d+)/g;
-    const pageMatches = [...htmlContent.matchAll(paginationRegex)];
-    const totalPages = pageMatches.length > 0 ? Math.max(...pageMatches.map(m => parseInt(m[1]))) : 1;
-    
-    console.log(`🎯 Final result: ${buoyData.length} buoy records parsed`);
-    console.log('📊 Sample parsed data:', buoyData.slice(0, 2));
-    
-    return {
-      data: buoyData,
-      totalPages,
-      currentPage: page
-    };
-  } catch (error) {
-    console.error('❌ Error fetching buoy data:', error);
-    throw error;
   }
+
+  await syncReadingStoreSafely(undefined, signal);
+  return readingStore.distinctMonths();
 };
 
-export const getLatestBuoyData = async (): Promise<BuoyData | null> => {
+export const getLatestBuoyData = async (signal?: AbortSignal): Promise<BuoyData | null> => {
   try {
-    const response = await fetchBuoyData(1);
+    const response = await fetchBuoyData(1, undefined, undefined, signal);
     return response.data.length > 0 ? response.data[0] : null;
   } catch (error) {
+    if (isAbortError(error)) {
+      throw error;
+    }
     console.error('Error fetching latest buoy data:', error);
     return null;
   }
 };
 
-export const getLatestBuoyDataForGraph = async (count: number = 20): Promise<BuoyData[]> => {
+// Bring the store up to date before reading from it. If the sync fails, stored
+// readings are still served unless there are none, in which case the error is
+// passed on so the screen can explain what went wrong.
+const syncReadingStoreForRead = async (signal?: AbortSignal): Promise<void> => {
   try {
-    console.log('🔍 Starting to fetch buoy data for graph...');
-    
-    // Limit count to prevent performance issues
-    const maxCount = Math.min(count, 50);
-    const allData: BuoyData[] = [];
-    let page = 1;
-    
-    // Fetch data from multiple pages until we have enough data points
-    while (allData.length < maxCount && page <= 10) { // Increased to 10 pages max for more data
-      console.log(`📄 Fetching page ${page}...`);
-      const response = await fetchBuoyData(page);
-      console.log(`📊 Page ${page} returned ${response.data.length} records`);
-      
-      if (response.data.length > 0) {
-        console.log('📋 Sample data from page:', response.data[0]);
-      }
-      
-      allData.push(...response.data);
-      
-      if (response.data.length === 0) {
-        console.log('🛑 No more data found, stopping...');
-        break; // No more data
-      }
-      page++;
-    }
-    
-    console.log(`✅ Total data fetched: ${allData.length} records`);
-    console.log('📈 Returning data for graph:', allData.slice(0, maxCount).length, 'records');
-    
-    // Return the latest 'maxCount' data points
-    return allData.slice(0, maxCount);
+    await syncReadingStore(false, undefined, signal);
   } catch (error) {
-    console.error('❌ Error fetching buoy data for graph:', error);
-    return [];
+    if (isAbortError(error)) {
+      throw error;
+    }
+    console.error('❌ Error syncing buoy data, using stored data:', error);
+    if ((await readingStore.count()) === 0) {
+      throw error;
+    }
   }
 };
 
-export const getAvailableBuoyNumbers = async (): Promise<number[]> => {
+/**
+ * Newest readings for a chart, from the on-device store after bringing it up
+ * to date. How many is up to the caller; long ranges go through
+ * useChartReadings, which downsamples them.
+ */
+export const getLatestReadingsForGraph = async (count: number = 20, signal?: AbortSignal): Promise<BuoyReading[]> => {
+  await syncReadingStoreForRead(signal);
+  return getStoredReadings({ limit: count });
+};
+
+export const getAvailableBuoyNumbers = async (signal?: AbortSignal): Promise<number[]> => {
   try {
-    const allData: BuoyData[] = [];
-    let page = 1;
-    
-    // Fetch data from multiple pages to get all available buoys
-    while (true) { // Fetch all available pages
-      const response = await fetchBuoyData(page);
-      allData.push(...response.data);
-      
-      if (response.data.length === 0) break; // No more data
-      page++;
-    }
-    
-    console.log('Total data fetched:', allData.length);
-    console.log('Unique buoy names:', [...new Set(allData.map(d => d.Buoy))]);
-    
-    // Extract unique buoy numbers
-    const buoyNumbers = new Set<number>();
-    
-    allData.forEach(data => {
-      const buoyName = data.Buoy.trim();
-      // Extract number from "Buoy X" format
-      const match = buoyName.match(/Buoy\s*(\d+)/i);
-      if (match) {
-        buoyNumbers.add(parseInt(match[1]));
-      }
-    });
-    
-    // Convert to array and sort
-    const result = Array.from(buoyNumbers).sort((a, b) => a - b);
+    const latest = await getLatestBuoyDataPerBuoy(signal);
+    const result = latest
+      .map(data => parseBuoyId(data.Buoy))
+      .filter((buoyNumber): buoyNumber is number => buoyNumber !== null);
     console.log('Available buoy numbers found:', result);
-    console.log('Sample buoy names from data:', allData.slice(0, 5).map(d => d.Buoy));
     return result;
   } catch (error) {
+    if (isAbortError(error)) {
+      throw error;
+    }
     console.error('Error fetching available buoy numbers:', error);
     return [];
   }
 };
 
-export const getLatestBuoyDataForMultipleBuoys = async (buoyCount: number = 1): Promise<BuoyData[]> => {
+export const getLatestBuoyDataForMultipleBuoys = async (buoyCount: number = 1, signal?: AbortSignal): Promise<BuoyData[]> => {
   try {
-    const allData: BuoyData[] = [];
-    let page = 1;
-    
-    // Fetch data from multiple pages to get enough data for all buoys
-    while (allData.length < buoyCount * 10) { // Fetch more data to ensure we have latest for each buoy
-      const response = await fetchBuoyData(page);
-      allData.push(...response.data);
-      
-      if (response.data.length === 0) break; // No more data
-      page++;
-    }
-    
-    // Group data by buoy and get the latest entry for each
-    const buoyMap = new Map<string, BuoyData>();
-    
-    allData.forEach(data => {
-      const buoyName = data.Buoy;
-      if (!buoyMap.has(buoyName) || new Date(`${data.Date} ${data.Time}`) > new Date(`${buoyMap.get(buoyName)!.Date} ${buoyMap.get(buoyName)!.Time}`)) {
-        buoyMap.set(buoyName, data);
-      }
-    });
-    
-    // Convert map to array and sort by buoy name
-    const latestBuoyData = Array.from(buoyMap.values())
-      .sort((a, b) => a.Buoy.localeCompare(b.Buoy))
-      .slice(0, buoyCount);
-    
-    return latestBuoyData;
+    const latest = await getLatestBuoyDataPerBuoy(signal);
+    return latest.slice(0, buoyCount);
   } catch (error) {
+    if (isAbortError(error)) {
+      throw error;
+    }
     console.error('Error fetching latest buoy data for multiple buoys:', error);
     return [];
   }
 };
 
-export const getLatestBuoyDataForSpecificBuoy = async (buoyNumber: number): Promise<BuoyData | null> => {
+export const getLatestBuoyDataForSpecificBuoy = async (buoyNumber: number, signal?: AbortSignal): Promise<BuoyData | null> => {
   try {
-    const allData: BuoyData[] = [];
-    let page = 1;
-    
-    // Fetch data from multiple pages to get enough data
-    while (true) { // Fetch all available pages to ensure we get the buoy data
-      const response = await fetchBuoyData(page);
-      allData.push(...response.data);
-      
-      if (response.data.length === 0) break; // No more data
-      page++;
-    }
-    
-    // Filter data for the specific buoy and get the latest entry
-    const buoyData = allData.filter(data => {
-      const buoyName = data.Buoy.trim();
-      const match = buoyName.match(/Buoy\s*(\d+)/i);
-      return match && parseInt(match[1]) === buoyNumber;
-    });
-    
+    const buoyData = await queryBuoyData({ buoyId: buoyNumber, limit: 1 }, 50, signal);
     console.log(`Looking for Buoy ${buoyNumber}, found ${buoyData.length} entries`);
-    if (buoyData.length > 0) {
-      console.log('Sample buoy data:', buoyData[0]);
-    }
-    
-    if (buoyData.length === 0) {
-      return null;
-    }
-    
-    // Get the latest entry for this buoy
-    const latestData = buoyData.reduce((latest, current) => {
-      const latestDate = new Date(`${latest.Date} ${latest.Time}`);
-      const currentDate = new Date(`${current.Date} ${current.Time}`);
-      return currentDate > latestDate ? current : latest;
-    });
-    
-    return latestData;
+    return buoyData.length > 0 ? buoyData[0] : null;
   } catch (error) {
+    if (isAbortError(error)) {
+      throw error;
+    }
     console.error('Error fetching latest buoy data for specific buoy:', error);
     return null;
   }
 };
 
-export const getAllBuoyData = async (maxPages: number = 50): Promise<BuoyData[]> => {
+export const getAllBuoyData = async (maxPages: number = 50, signal?: AbortSignal): Promise<BuoyData[]> => {
   try {
-    const allData: BuoyData[] = [];
-    let page = 1;
-    let hasMoreData = true;
-    
     console.log('Starting to fetch all buoy data...');
-    
-    // Fetch all available pages with a safety limit
-    while (hasMoreData && page <= maxPages) { // Add safety limit to prevent infinite loops
-      const response = await fetchBuoyData(page);
-      
-      if (response.data.length === 0) {
-        hasMoreData = false;
-        console.log(`No more data found at page ${page}`);
-      } else {
-        allData.push(...response.data);
-        console.log(`Fetched ${response.data.length} records from page ${page}`);
-        page++;
-      }
-    }
-    
-    console.log(`Total data fetched: ${allData.length} records`);
-    
-    // Sort by date and time (newest first)
-    const sortedData = allData.sort((a, b) => {
-      const dateA = new Date(`${a.Date} ${a.Time}`);
-      const dateB = new Date(`${b.Date} ${b.Time}`);
-      return dateB.getTime() - dateA.getTime();
-    });
-    
-    return sortedData;
+
+    // Only rows newer than the last sync are downloaded; the rest comes from the store
+    await syncReadingStoreSafely(maxPages, signal);
+    const allData = await readingStore.queryRows();
+
+    console.log(`Total data available: ${allData.length} records`);
+    return allData;
   } catch (error) {
+    if (isAbortError(error)) {
+      throw error;
+    }
     console.error('Error fetching all buoy data:', error);
     return [];
   }
 };
 
-export const getAllBuoyDataForCSV = async (maxPages: number = 50): Promise<string> => {
+// Every stored row as CSV, newest first - the same readings the graphs use
+export const getAllBuoyDataForCSV = async (signal?: AbortSignal): Promise<string> => {
   try {
-    const allData: BuoyData[] = [];
-    let page = 1;
-    
-    // Fetch data from all pages with safety limit
-    while (page <= maxPages) {
-      const response = await fetchBuoyData(page);
-      allData.push(...response.data);
-      
-      if (response.data.length === 0) break; // No more data
-      page++;
-    }
-    
+    await syncReadingStoreForRead(signal);
+    const allData = await readingStore.queryRows();
+
     // Convert to CSV format
     const csvHeaders = 'ID,Buoy,Date,Time,Latitude,Longitude,pH,Temp (°C),TDS (ppm)\n';
     const csvRows = allData.map(item => 
@@ -406,92 +578,24 @@ export const getAllBuoyDataForCSV = async (maxPages: number = 50): Promise<strin
     
     return csvHeaders + csvRows;
   } catch (error) {
-    console.error('Error fetching all buoy data for CSV:', error);
+    if (!isAbortError(error)) {
+      console.error('Error fetching all buoy data for CSV:', error);
+    }
     throw error;
   }
 };
 
-export const getAvailableMonthsFromAPI = async (maxPages: number = 50): Promise<{ months: string[]; years: string[] }> => {
+export const getAvailableMonthsFromAPI = async (signal?: AbortSignal): Promise<{ months: string[]; years: string[] }> => {
   try {
-    console.log('🔍 Fetching available months and years from API...');
-    const allData: BuoyData[] = [];
-    let page = 1;
-    
-    // Fetch data from all pages with safety limit
-    while (page <= maxPages) {
-      const response = await fetchBuoyData(page);
-      allData.push(...response.data);
-      
-      if (response.data.length === 0) break; // No more data
-      page++;
-    }
-    
-    console.log(`📊 Total records fetched: ${allData.length}`);
-    
-    // Extract unique months and years
-    const months = new Set<string>();
-    const years = new Set<string>();
-    
-    allData.forEach(item => {
-      try {
-        const dateStr = item.Date.trim();
-        const timeStr = item.Time.trim();
-        
-        // Handle different date formats more carefully
-        let date;
-        if (dateStr.includes('/')) {
-          // Format: MM/DD/YYYY or DD/MM/YYYY
-          const parts = dateStr.split('/');
-          if (parts.length === 3) {
-            // Assume MM/DD/YYYY format
-            const month = parseInt(parts[0]);
-            const day = parseInt(parts[1]);
-            const year = parseInt(parts[2]);
-            
-            // Validate reasonable date ranges
-            if (month >= 1 && month <= 12 && day >= 1 && day <= 31 && year >= 2020 && year <= 2030) {
-              date = new Date(year, month - 1, day);
-            }
-          }
-        } else if (dateStr.includes('-')) {
-          // Format: YYYY-MM-DD
-          date = new Date(dateStr);
-        } else {
-          // Try parsing as is
-          date = new Date(`${dateStr} ${timeStr}`);
-        }
-        
-        if (date && !isNaN(date.getTime()) && date.getFullYear() >= 2020 && date.getFullYear() <= 2030) {
-          const monthYear = date.toLocaleDateString('en-US', { month: 'short', year: 'numeric' });
-          const year = date.getFullYear().toString();
-          
-          months.add(monthYear);
-          years.add(year);
-        } else {
-          console.warn('Invalid or out-of-range date:', dateStr, timeStr, date);
-        }
-      } catch (error) {
-        console.warn('Error parsing date:', item.Date, item.Time, error);
-      }
-    });
-    
-    // Convert to arrays and sort
-    const sortedMonths = Array.from(months).sort((a, b) => {
-      const dateA = new Date(a);
-      const dateB = new Date(b);
-      return dateB.getTime() - dateA.getTime(); // Newest first
-    });
-    
-    const sortedYears = Array.from(years).sort((a, b) => parseInt(b) - parseInt(a)); // Newest first
-    
-    console.log('📅 Available months:', sortedMonths);
-    console.log('📅 Available years:', sortedYears);
-    
-    return {
-      months: sortedMonths,
-      years: sortedYears
-    };
+    console.log('🔍 Fetching available months and years...');
+    const result = await getDistinctMonths(signal);
+    console.log('📅 Available months:', result.months);
+    console.log('📅 Available years:', result.years);
+    return result;
   } catch (error) {
+    if (isAbortError(error)) {
+      throw error;
+    }
     console.error('❌ Error fetching available months from API:', error);
     return { months: [], years: [] };
   }
@@ -0,0 +1,177 @@
+import { formatServerTime, fromServerClock, toServerClock } from './buoyReading';
+
+/**
+ * Time range shared by the Graph and Data tabs, so picking a range on one
+ * shows the same readings on the other. A range is kept as what the user
+ * chose (a preset, a month, a year or explicit dates) rather than as
+ * timestamps, so "Last 24 hours" can be labelled as such and re-resolved
+ * against the current time. Days, weeks, months and years are calendar
+ * periods on the buoys' clock (Philippine time, see buoyReading.ts), so
+ * "Today" and "Aug 2025" cover the same readings on every phone.
+ */
+
+export type RangePreset = '6h' | '24h' | '7d' | '30d' | '90d' | '1y' | 'today' | 'week' | 'month';
+
+export type DateRange =
+  | { kind: 'all' }
+  | { kind: 'preset'; preset: RangePreset }
+  | { kind: 'month'; year: number; month: number } // month 0-11, server time
+  | { kind: 'year'; year: number }
+  | { kind: 'custom'; from?: number; to?: number }; // Epoch ms, inclusive; open-ended when undefined
+
+export interface ResolvedRange {
+  from?: number;
+  to?: number;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+export const ALL_TIME: DateRange = { kind: 'all' };
+
+// Trailing windows ending now
+const RELATIVE_PRESET_MS: Partial<Record<RangePreset, number>> = {
+  '6h': 6 * HOUR_MS,
+  '24h': DAY_MS,
+  '7d': 7 * DAY_MS,
+  '30d': 30 * DAY_MS,
+  '90d': 90 * DAY_MS,
+  '1y': 365 * DAY_MS,
+};
+
+export const RANGE_PRESET_LABELS: Record<RangePreset, string> = {
+  '6h': 'Last 6 Hours',
+  '24h': 'Last 24 Hours',
+  '7d': 'Last 7 Days',
+  '30d': 'Last 30 Days',
+  '90d': 'Last 90 Days',
+  '1y': 'Last Year',
+  today: 'Today',
+  week: 'This Week',
+  month: 'This Month',
+};
+
+// Order shown in the picker: trailing windows, then calendar periods
+export const RANGE_PRESETS: RangePreset[] = ['6h', '24h', '7d', '30d', '90d', '1y', 'today', 'week', 'month'];
+
+// Short month names as formatMonthYear writes them ("Aug 2025")
+const MONTH_NAMES = Array.from({ length: 12 }, (_, month) =>
+  formatServerTime(fromServerClock(2000, month), { month: 'short' })
+);
+
+const monthWindow = (year: number, month: number): ResolvedRange => ({
+  from: fromServerClock(year, month),
+  to: fromServerClock(year, month + 1) - 1,
+});
+
+/**
+ * Time window of a range. Presets are resolved against `now`; trailing
+ * windows are left open at the end so readings arriving later still fall
+ * inside them.
+ */
+export const resolveDateRange = (range: DateRange, now: Date = new Date()): ResolvedRange => {
+  switch (range.kind) {
+    case 'preset': {
+      const today = toServerClock(now.getTime());
+      const [year, month, day] = [today.getUTCFullYear(), today.getUTCMonth(), today.getUTCDate()];
+      switch (range.preset) {
+        case 'today':
+          return { from: fromServerClock(year, month, day), to: fromServerClock(year, month, day + 1) - 1 };
+        case 'week':
+          return { from: fromServerClock(year, month, day - today.getUTCDay()) };
+        case 'month':
+          return monthWindow(year, month);
+        default:
+          return { from: now.getTime() - RELATIVE_PRESET_MS[range.preset]! };
+      }
+    }
+    case 'month':
+      return monthWindow(range.year, range.month);
+    case 'year':
+      return { from: fromServerClock(range.year, 0), to: fromServerClock(range.year + 1, 0) - 1 };
+    case 'custom':
+      return { from: range.from, to: range.to };
+    case 'all':
+    default:
+      return {};
+  }
+};
+
+// "Aug 3, 3:00 PM – Aug 4, 9:30 AM" style label for explicit times
+export const formatRangeLabel = (from?: number, to?: number): string => {
+  const format = (timestamp: number) =>
+    formatServerTime(timestamp, { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' });
+  if (from !== undefined && to !== undefined) return `${format(from)} – ${format(to)}`;
+  if (from !== undefined) return `Since ${format(from)}`;
+  if (to !== undefined) return `Until ${format(to)}`;
+  return 'Custom Range';
+};
+
+export const describeDateRange = (range: DateRange): string => {
+  switch (range.kind) {
+    case 'preset':
+      return RANGE_PRESET_LABELS[range.preset];
+    case 'month':
+      return `${MONTH_NAMES[range.month]} ${range.year}`;
+    case 'year':
+      return String(range.year);
+    case 'custom':
+      return formatRangeLabel(range.from, range.to);
+    case 'all':
+    default:
+      return 'All Time';
+  }
+};
+
+// Month range for a label from getDistinctMonths ("Aug 2025"); null if it isn't one
+export const parseMonthLabel = (label: string): DateRange | null => {
+  const [name, year] = label.trim().split(/\s+/);
+  const month = MONTH_NAMES.indexOf(name);
+  if (month === -1 || !/^\d{4}$/.test(year ?? '')) return null;
+  return { kind: 'month', year: parseInt(year), month };
+};
+
+export const isSameDateRange = (a: DateRange, b: DateRange): boolean => JSON.stringify(a) === JSON.stringify(b);
+
+class DateRangeService {
+  private static instance: DateRangeService;
+  private range: DateRange = ALL_TIME;
+  private listeners: ((range: DateRange) => void)[] = [];
+
+  static getInstance(): DateRangeService {
+    if (!DateRangeService.instance) {
+      DateRangeService.instance = new DateRangeService();
+    }
+    return DateRangeService.instance;
+  }
+
+  getRange(): DateRange {
+    return this.range;
+  }
+
+  setRange(range: DateRange): void {
+    // Picking a preset again moves its window up to now, so only other ranges are skipped when unchanged
+    if (range.kind !== 'preset' && isSameDateRange(range, this.range)) return;
+    this.range = range;
+    this.listeners.forEach(listener => listener(range));
+  }
+
+  // Subscribe to range changes
+  subscribe(listener: (range: DateRange) => void): () => void {
+    this.listeners.push(listener);
+    return () => {
+      const index = this.listeners.indexOf(listener);
+      if (index > -1) {
+        this.listeners.splice(index, 1);
+      }
+    };
+  }
+}
+
+// Export singleton instance
+export const dateRangeService = DateRangeService.getInstance();
+
+// Export convenience functions
+export const getDateRange = () => dateRangeService.getRange();
+export const setDateRange = (range: DateRange) => dateRangeService.setRange(range);
+export const subscribeToDateRange = (listener: (range: DateRange) => void) => dateRangeService.subscribe(listener);
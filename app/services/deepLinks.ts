@@ -0,0 +1,91 @@
+import * as Linking from 'expo-linking';
+import { parseBuoyId } from './buoyReading';
+
+/**
+ * Deep links into the app. Notifications carry plain data (buoy, parameter,
+ * reading time); these helpers turn it into a URL on the app's scheme, which
+ * MainNavigator's linking config routes to the right tab and parameters.
+ *
+ *   graph?buoy=2&parameter=pH&from=<ms>&to=<ms>  Graph tab, filtered
+ *   map?buoy=2                                    Map tab, centred on the buoy
+ *   alerts?key=<alert key>                        Alerts tab, that alert expanded
+ */
+
+export type LinkParameter = 'pH' | 'temperature' | 'tds';
+
+export interface GraphLink {
+  buoy?: number;
+  parameter?: LinkParameter;
+  from?: number; // Timestamps in ms
+  to?: number;
+}
+
+// Graph window around an alert: enough lead-up to see the trend
+const ALERT_WINDOW_BEFORE_MS = 6 * 60 * 60 * 1000;
+const ALERT_WINDOW_AFTER_MS = 60 * 60 * 1000;
+
+const LINK_PARAMETERS: LinkParameter[] = ['pH', 'temperature', 'tds'];
+
+export const createGraphLink = (link: GraphLink = {}): string => {
+  const queryParams: Record<string, string> = {};
+  if (link.buoy !== undefined) queryParams.buoy = String(link.buoy);
+  if (link.parameter) queryParams.parameter = link.parameter;
+  if (link.from !== undefined) queryParams.from = String(link.from);
+  if (link.to !== undefined) queryParams.to = String(link.to);
+  return Linking.createURL('graph', { queryParams });
+};
+
+export const createMapLink = (buoy: number): string => {
+  return Linking.createURL('map', { queryParams: { buoy: String(buoy) } });
+};
+
+export const createAlertsLink = (alertKey?: string): string => {
+  return Linking.createURL('alerts', alertKey ? { queryParams: { key: alertKey } } : undefined);
+};
+
+const asNumber = (value: unknown): number | null => {
+  const number = typeof value === 'string' ? Number(value) : value;
+  return typeof number === 'number' && Number.isFinite(number) ? number : null;
+};
+
+/**
+ * Where tapping a notification should go, from its data. Works for local
+ * notifications and for pushes from send-alert-pushes, which carry the same
+ * fields. Returns null for notifications that just open the app.
+ */
+export const linkForNotificationData = (data: Record<string, unknown> | null | undefined): string | null => {
+  if (!data) return null;
+  if (typeof data.url === 'string') return data.url;
+
+  const buoyId = asNumber(data.buoyId);
+
+  // Water-quality alert or anomaly: the parameter around the time it happened
+  if ((typeof data.alertKey === 'string' || data.type === 'anomaly') && buoyId !== null) {
+    const timestamp = asNumber(data.timestamp);
+    const parameter = LINK_PARAMETERS.find(item => item === data.parameter);
+    return createGraphLink({
+      buoy: buoyId,
+      parameter,
+      from: timestamp !== null ? timestamp - ALERT_WINDOW_BEFORE_MS : undefined,
+      to: timestamp !== null ? timestamp + ALERT_WINDOW_AFTER_MS : undefined,
+    });
+  }
+
+  // Buoy went offline or came back: where it was last seen
+  if ((data.type === 'buoy-offline' || data.type === 'buoy-online') && buoyId !== null) {
+    return createMapLink(buoyId);
+  }
+
+  if (data.type === 'digest') {
+    return data.hasAlerts ? createAlertsLink() : createGraphLink();
+  }
+
+  // New data: the buoy's latest readings
+  const buoyData = data.buoyData as { Buoy?: string } | undefined;
+  if (buoyData?.Buoy) {
+    const buoy = parseBuoyId(buoyData.Buoy);
+    return createGraphLink(buoy !== null ? { buoy } : {});
+  }
+
+  return null;
+};
@@ -0,0 +1,199 @@
+import { BuoyReading } from './buoyReading';
+import { SensorParameter } from './qualityControl';
+
+/**
+ * Downsampling for charts. A phone can't usefully draw more points than it
+ * has pixels, so long ranges are reduced to a bounded number of readings
+ * before rendering, keeping the shape and the peaks:
+ *
+ * - Largest-Triangle-Three-Buckets (LTTB) for a single series: from each
+ *   bucket it keeps the reading that forms the largest triangle with its
+ *   neighbours, which favours peaks and turning points.
+ * - Min/max bucketing for several series at once: from each time bucket it
+ *   keeps the first and last reading and the lowest and highest value of each
+ *   parameter, so no series loses its extremes. The store uses the same rule
+ *   in SQL for overviews (see readingStore.queryOverview).
+ *
+ * Both work on readings sorted oldest first and return a subset in the same order.
+ */
+
+export const SENSOR_PARAMETERS: SensorParameter[] = ['pH', 'temperature', 'tds'];
+
+type ValueOf<T> = (item: T) => number | null;
+
+export const hasTimestamp = <T extends { timestamp: number | null }>(item: T): item is T & { timestamp: number } => {
+  return item.timestamp !== null;
+};
+
+// Index of the first item with timestamp >= time; `items` must be sorted oldest first
+export const lowerBound = <T extends { timestamp: number | null }>(items: T[], time: number): number => {
+  let low = 0;
+  let high = items.length;
+  while (low < high) {
+    const middle = (low + high) >> 1;
+    if ((items[middle].timestamp ?? -Infinity) < time) low = middle + 1;
+    else high = middle;
+  }
+  return low;
+};
+
+/**
+ * Items in [from, to] plus one on each side, so lines run on to the edge of
+ * the view instead of stopping at the last point inside it.
+ */
+export const sliceTimeWindow = <T extends { timestamp: number | null }>(items: T[], from: number, to: number): T[] => {
+  const start = Math.max(0, lowerBound(items, from) - 1);
+  const end = Math.min(items.length, lowerBound(items, to + 1) + 1);
+  return items.slice(start, end);
+};
+
+/**
+ * LTTB over `items`, keeping about `threshold` of them. Items whose value is
+ * null are not scored, but the first of each run of them is kept so the
+ * chart still shows the gap, unless the gap is too short to see at this
+ * resolution (narrower than one bucket).
+ */
+export const lttb = <T extends { timestamp: number | null }>(
+  items: T[],
+  threshold: number,
+  valueOf: ValueOf<T>,
+  keep: (item: T) => boolean = () => false
+): T[] => {
+  if (items.length <= threshold || threshold < 3) return items;
+
+  const timed = items.filter(hasTimestamp);
+  const minGapMs = timed.length > 1 ? (timed[timed.length - 1].timestamp - timed[0].timestamp) / threshold : 0;
+
+  const scored: { item: T; x: number; y: number }[] = [];
+  const gaps: T[] = [];
+  let gapStart: T | null = null;
+  items.forEach(item => {
+    const y = valueOf(item);
+    if (y === null || item.timestamp === null) {
+      if (!gapStart) gapStart = item;
+      return;
+    }
+    // The gap runs from the last value before it to this one
+    if (gapStart) {
+      const before = scored[scored.length - 1];
+      if (!before || item.timestamp - before.x > minGapMs) gaps.push(gapStart);
+      gapStart = null;
+    }
+    scored.push({ item, x: item.timestamp, y });
+  });
+  if (gapStart) gaps.push(gapStart);
+
+  const selected = new Set<T>(gaps);
+  items.forEach(item => {
+    if (keep(item)) selected.add(item);
+  });
+
+  if (scored.length <= threshold) {
+    scored.forEach(point => selected.add(point.item));
+  } else {
+    // First and last are always kept; the rest are split into threshold - 2 buckets
+    const bucketSize = (scored.length - 2) / (threshold - 2);
+    let previous = scored[0];
+    selected.add(previous.item);
+    for (let bucket = 0; bucket < threshold - 2; bucket++) {
+      const start = Math.floor(bucket * bucketSize) + 1;
+      const end = Math.min(Math.floor((bucket + 1) * bucketSize) + 1, scored.length - 1);
+
+      // Average of the next bucket is the third corner of the triangle
+      const nextStart = end;
+      const nextEnd = Math.min(Math.floor((bucket + 2) * bucketSize) + 1, scored.length);
+      let averageX = 0;
+      let averageY = 0;
+      for (let i = nextStart; i < nextEnd; i++) {
+        averageX += scored[i].x;
+        averageY += scored[i].y;
+      }
+      const nextCount = Math.max(nextEnd - nextStart, 1);
+      averageX /= nextCount;
+      averageY /= nextCount;
+
+      let largestArea = -1;
+      let chosen = scored[start];
+      for (let i = start; i < end; i++) {
+        const area = Math.abs(
+          (previous.x - averageX) * (scored[i].y - previous.y) -
+          (previous.x - scored[i].x) * (averageY - previous.y)
+        );
+        if (area > largestArea) {
+          largestArea = area;
+          chosen = scored[i];
+        }
+      }
+      selected.add(chosen.item);
+      previous = chosen;
+    }
+    selected.add(scored[scored.length - 1].item);
+  }
+
+  return items.filter(item => selected.has(item));
+};
+
+/**
+ * Min/max bucketing over readings from any number of buoys: `buckets` equal
+ * time buckets per buoy, keeping the first and last reading of each and the
+ * lowest and highest value of each parameter. At most 2 + 2 × parameters
+ * readings per bucket and buoy.
+ */
+export const minMaxBuckets = (
+  readings: BuoyReading[],
+  buckets: number,
+  parameters: SensorParameter[] = SENSOR_PARAMETERS,
+  keep: (reading: BuoyReading) => boolean = () => false
+): BuoyReading[] => {
+  const timed = readings.filter(hasTimestamp);
+  if (timed.length === 0 || buckets < 1) return [];
+  const from = timed[0].timestamp;
+  const span = timed[timed.length - 1].timestamp - from + 1;
+
+  const picks = new Map<string, BuoyReading[]>(); // "buoy:bucket" -> [first, last, low/high per parameter]
+  const selected = new Set<BuoyReading>();
+  timed.forEach(reading => {
+    if (keep(reading)) selected.add(reading);
+    const bucket = Math.min(buckets - 1, Math.floor(((reading.timestamp - from) * buckets) / span));
+    const key = `${reading.buoyId ?? reading.buoy}:${bucket}`;
+    const current = picks.get(key);
+    if (!current) {
+      picks.set(key, Array(2 + parameters.length * 2).fill(reading));
+      return;
+    }
+    current[1] = reading;
+    parameters.forEach((parameter, index) => {
+      const value = reading[parameter];
+      if (value === null) return;
+      const low = current[2 + index * 2][parameter];
+      const high = current[3 + index * 2][parameter];
+      if (low === null || value < low) current[2 + index * 2] = reading;
+      if (high === null || value > high) current[3 + index * 2] = reading;
+    });
+  });
+
+  picks.forEach(bucket => bucket.forEach(reading => selected.add(reading)));
+  return timed.filter(reading => selected.has(reading));
+};
+
+/**
+ * Bounded set of readings to draw for the given parameters: LTTB on the one
+ * series when there is one, min/max bucketing when several share the chart.
+ * Readings matched by `keep` (e.g. anomalies, the inspected reading) are never dropped.
+ */
+export const downsampleReadings = (
+  readings: BuoyReading[],
+  maxPoints: number,
+  parameters: SensorParameter[] = SENSOR_PARAMETERS,
+  keep?: (reading: BuoyReading) => boolean
+): BuoyReading[] => {
+  if (readings.length <= maxPoints) return readings;
+  if (parameters.length === 1) {
+    const [parameter] = parameters;
+    return lttb(readings, maxPoints, reading => reading[parameter], keep);
+  }
+  // Buckets are per buoy, so share the points out between them
+  const buoys = new Set(readings.map(reading => reading.buoyId ?? reading.buoy)).size;
+  const perBucket = (2 + parameters.length * 2) * Math.max(buoys, 1);
+  return minMaxBuckets(readings, Math.max(1, Math.floor(maxPoints / perBucket)), parameters, keep);
+};
@@ -0,0 +1,267 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { getLastStoreSyncTime, getStoredLatestReadings, getStoredReadings, subscribeToBuoyData } from './buoyService';
+import { settingsService } from './settingsService';
+import { notificationService } from './notificationService';
+import { learnInterval } from './reportingInterval';
+
+/**
+ * Per-buoy heartbeat monitor. Each buoy's reporting cadence is learned from
+ * its recent readings; a buoy is "late" once it misses a couple of reports
+ * and "offline" once it has been silent longer than the configured window.
+ */
+
+export type BuoyStatus = 'online' | 'late' | 'offline';
+
+export interface BuoyHeartbeat {
+  buoyId: number;
+  buoy: string;
+  status: BuoyStatus;
+  lastSeen: number; // Timestamp of the newest reading
+  expectedIntervalMs: number;
+  silentForMs: number;
+}
+
+// Persisted so a restart neither repeats nor misses an offline/recovery notification
+interface HeartbeatState {
+  status: BuoyStatus;
+  lastSeen: number;
+}
+
+const STORAGE_KEY = 'buoyHeartbeatState';
+const CHECK_INTERVAL_MS = 60 * 1000;
+const CADENCE_SAMPLE_SIZE = 25; // Recent readings used to learn the reporting interval
+const LATE_FACTOR = 2; // Late after missing about one report
+
+export const BUOY_STATUS_COLORS: Record<BuoyStatus, string> = {
+  online: '#10b981',
+  late: '#f59e0b',
+  offline: '#ef4444',
+};
+
+export const BUOY_STATUS_LABELS: Record<BuoyStatus, string> = {
+  online: 'Online',
+  late: 'Late',
+  offline: 'Offline',
+};
+
+// e.g. "45m", "2h 15m", "3d 4h"
+export const formatDuration = (ms: number): string => {
+  const minutes = Math.max(0, Math.round(ms / 60000));
+  if (minutes < 60) return `${minutes}m`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return minutes % 60 ? `${hours}h ${minutes % 60}m` : `${hours}h`;
+  const days = Math.floor(hours / 24);
+  return hours % 24 ? `${days}d ${hours % 24}h` : `${days}d`;
+};
+
+export const classifyHeartbeat = (silentForMs: number, expectedIntervalMs: number, offlineAfterMs: number): BuoyStatus => {
+  if (silentForMs > offlineAfterMs) return 'offline';
+  if (silentForMs > expectedIntervalMs * LATE_FACTOR) return 'late';
+  return 'online';
+};
+
+class HeartbeatService {
+  private static instance: HeartbeatService;
+  private heartbeats: BuoyHeartbeat[] = [];
+  private states: Record<number, HeartbeatState> | null = null;
+  private intervals = new Map<number, number>(); // Learned cadence per buoy
+  private listeners: ((heartbeats: BuoyHeartbeat[]) => void)[] = [];
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private unsubscribers: (() => void)[] = [];
+  private checking: Promise<BuoyHeartbeat[]> | null = null;
+  private checkAgain = false;
+  private relearnPending = false;
+  private readonly sessionStart = Date.now();
+
+  private constructor() {}
+
+  public static getInstance(): HeartbeatService {
+    if (!HeartbeatService.instance) {
+      HeartbeatService.instance = new HeartbeatService();
+    }
+    return HeartbeatService.instance;
+  }
+
+  getHeartbeats(): BuoyHeartbeat[] {
+    return this.heartbeats.map(heartbeat => ({ ...heartbeat }));
+  }
+
+  getHeartbeat(buoyId: number): BuoyHeartbeat | null {
+    const heartbeat = this.heartbeats.find(item => item.buoyId === buoyId);
+    return heartbeat ? { ...heartbeat } : null;
+  }
+
+  // Silence builds up without any event, so check on a timer as well as on new data
+  start(): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => {
+      this.check();
+    }, CHECK_INTERVAL_MS);
+    this.unsubscribers = [
+      subscribeToBuoyData(() => {
+        this.check(true);
+      }),
+      settingsService.subscribe(() => {
+        this.check();
+      }),
+    ];
+    this.check(true);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    this.unsubscribers.forEach(unsubscribe => unsubscribe());
+    this.unsubscribers = [];
+  }
+
+  private async loadStates(): Promise<Record<number, HeartbeatState>> {
+    if (!this.states) {
+      try {
+        const saved = await AsyncStorage.getItem(STORAGE_KEY);
+        this.states = saved ? JSON.parse(saved) : {};
+      } catch (error) {
+        console.error('Error loading heartbeat state:', error);
+        this.states = {};
+      }
+    }
+    return this.states as Record<number, HeartbeatState>;
+  }
+
+  /**
+   * Reclassify every buoy from the stored readings and notify on transitions
+   * into and out of "offline". `relearn` refreshes the learned cadence, which
+   * only changes when new readings arrive. Until the store has synced this
+   * session its newest readings may be hours old, so statuses are shown but
+   * neither notified nor saved; the saved states are then compared with the
+   * synced store.
+   */
+  check(relearn: boolean = false): Promise<BuoyHeartbeat[]> {
+    this.relearnPending = this.relearnPending || relearn;
+    if (this.checking) {
+      // New data may have landed after this run read the store; go round once more
+      this.checkAgain = true;
+      return this.checking;
+    }
+
+    this.checking = (async () => {
+      try {
+        do {
+          this.checkAgain = false;
+          const shouldRelearn = this.relearnPending;
+          this.relearnPending = false;
+          await this.checkOnce(shouldRelearn);
+        } while (this.checkAgain);
+      } catch (error) {
+        console.error('Error checking buoy heartbeats:', error);
+      } finally {
+        this.checking = null;
+      }
+      return this.getHeartbeats();
+    })();
+    return this.checking;
+  }
+
+  private async checkOnce(relearn: boolean, now: number = Date.now()): Promise<BuoyHeartbeat[]> {
+    const states = await this.loadStates();
+    const synced = (await getLastStoreSyncTime()) >= this.sessionStart;
+    const offlineAfterMs = settingsService.getBuoyOfflineMs();
+    const latest = (await getStoredLatestReadings())
+      .filter(reading => reading.buoyId !== null && reading.timestamp !== null);
+
+    const heartbeats: BuoyHeartbeat[] = [];
+    for (const reading of latest) {
+      const buoyId = reading.buoyId as number;
+      const lastSeen = reading.timestamp as number;
+
+      if (relearn || !this.intervals.has(buoyId)) {
+        const recent = await getStoredReadings({ buoyId, limit: CADENCE_SAMPLE_SIZE });
+        this.intervals.set(buoyId, learnInterval(
+          recent.map(item => item.timestamp).filter((timestamp): timestamp is number => timestamp !== null)
+        ));
+      }
+      const expectedIntervalMs = this.intervals.get(buoyId) as number;
+      const silentForMs = Math.max(0, now - lastSeen);
+      const status = classifyHeartbeat(silentForMs, expectedIntervalMs, offlineAfterMs);
+      heartbeats.push({ buoyId, buoy: reading.buoy, status, lastSeen, expectedIntervalMs, silentForMs });
+
+      if (!synced) continue;
+
+      // The first sighting of a buoy only sets the baseline
+      const previous = states[buoyId];
+      if (previous) {
+        if (status === 'offline' && previous.status !== 'offline') {
+          await this.notifyOffline(reading.buoy, buoyId, silentForMs, expectedIntervalMs);
+        } else if (status !== 'offline' && previous.status === 'offline') {
+          await this.notifyRecovered(reading.buoy, buoyId, previous.lastSeen, lastSeen);
+        }
+      }
+      states[buoyId] = { status, lastSeen };
+    }
+
+    if (synced) {
+      try {
+        await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(states));
+      } catch (error) {
+        console.error('Error saving heartbeat state:', error);
+      }
+    }
+
+    this.heartbeats = heartbeats;
+    this.notifyListeners();
+    return this.getHeartbeats();
+  }
+
+  private async notifyOffline(buoy: string, buoyId: number, silentForMs: number, expectedIntervalMs: number): Promise<void> {
+    if (__DEV__) console.log(`📴 ${buoy} offline (silent for ${formatDuration(silentForMs)})`);
+    await notificationService.sendBuoyStatusNotification(
+      `${buoy} is offline`,
+      `No data for ${formatDuration(silentForMs)} (usually reports every ${formatDuration(expectedIntervalMs)}). Its GSM link may be down.`,
+      { type: 'buoy-offline', buoyId }
+    );
+  }
+
+  // The outage runs from the last reading before it to the first reading after it
+  private async notifyRecovered(buoy: string, buoyId: number, previousLastSeen: number, lastSeen: number): Promise<void> {
+    const sinceOutage = await getStoredReadings({ buoyId, from: previousLastSeen + 1 });
+    const firstBack = sinceOutage.length > 0 ? sinceOutage[sinceOutage.length - 1].timestamp ?? lastSeen : lastSeen;
+    const outageMs = firstBack - previousLastSeen;
+
+    if (__DEV__) console.log(`📶 ${buoy} back online after ${formatDuration(outageMs)}`);
+    await notificationService.sendBuoyStatusNotification(
+      `${buoy} is back online`,
+      `Reporting again after a ${formatDuration(outageMs)} outage.`,
+      { type: 'buoy-online', buoyId }
+    );
+  }
+
+  // Subscribe to heartbeat changes
+  subscribe(listener: (heartbeats: BuoyHeartbeat[]) => void): () => void {
+    this.listeners.push(listener);
+    return () => {
+      const index = this.listeners.indexOf(listener);
+      if (index > -1) {
+        this.listeners.splice(index, 1);
+      }
+    };
+  }
+
+  private notifyListeners(): void {
+    const heartbeats = this.getHeartbeats();
+    this.listeners.forEach(listener => listener(heartbeats));
+  }
+}
+
+// Export singleton instance
+export const heartbeatService = HeartbeatService.getInstance();
+
+// Export convenience functions
+export const startHeartbeatMonitoring = () => heartbeatService.start();
+export const stopHeartbeatMonitoring = () => heartbeatService.stop();
+export const checkBuoyHeartbeats = () => heartbeatService.check(true);
+export const getBuoyHeartbeats = () => heartbeatService.getHeartbeats();
+export const getBuoyHeartbeat = (buoyId: number) => heartbeatService.getHeartbeat(buoyId);
+export const subscribeToBuoyHeartbeats = (listener: (heartbeats: BuoyHeartbeat[]) => void) =>
+  heartbeatService.subscribe(listener);
@@ -0,0 +1,91 @@
+import * as Notifications from 'expo-notifications';
+import * as TaskManager from 'expo-task-manager';
+import { Platform } from 'react-native';
+import { alertHistoryService } from './alertHistoryService';
+import { ALERT_NOTIFICATION_CATEGORY } from './notificationService';
+
+/**
+ * "Acknowledge" and "Snooze 1h" buttons on alert notifications. Neither opens
+ * the app: when it is running the response listener handles them, and when it
+ * has been killed the OS starts this task in the background instead.
+ */
+
+const NOTIFICATION_ACTION_TASK = 'aquanet-notification-actions';
+const ACKNOWLEDGE_ACTION = 'acknowledge';
+const SNOOZE_ACTION = 'snooze-1h';
+const SNOOZE_MS = 60 * 60 * 1000;
+
+const isNotificationResponse = (payload: unknown): payload is Notifications.NotificationResponse => {
+  return typeof payload === 'object' && payload !== null && 'actionIdentifier' in payload && 'notification' in payload;
+};
+
+// Returns true if the response was one of our actions (and not a plain tap)
+export const handleNotificationAction = async (response: Notifications.NotificationResponse): Promise<boolean> => {
+  const { actionIdentifier, notification } = response;
+  if (actionIdentifier !== ACKNOWLEDGE_ACTION && actionIdentifier !== SNOOZE_ACTION) {
+    return false;
+  }
+
+  // One alert, or every alert in a digest
+  const data = notification.request.content.data;
+  const alertKeys = typeof data?.alertKey === 'string'
+    ? [data.alertKey]
+    : Array.isArray(data?.alertKeys) ? data.alertKeys.filter((key): key is string => typeof key === 'string') : [];
+  if (alertKeys.length === 0) return true;
+
+  try {
+    for (const alertKey of alertKeys) {
+      if (actionIdentifier === ACKNOWLEDGE_ACTION) {
+        await alertHistoryService.acknowledge(alertKey, await alertHistoryService.getActorName());
+        if (__DEV__) console.log(`✅ Alert acknowledged from notification: ${alertKey}`);
+      } else {
+        await alertHistoryService.snooze(alertKey, SNOOZE_MS);
+        if (__DEV__) console.log(`😴 Alert snoozed for 1h from notification: ${alertKey}`);
+      }
+    }
+    await Notifications.dismissNotificationAsync(notification.request.identifier);
+  } catch (error) {
+    console.error('Error handling notification action:', error);
+  }
+  return true;
+};
+
+// Must be defined at startup (imported from index.ts) so the OS can run it without the UI
+TaskManager.defineTask<Notifications.NotificationTaskPayload>(NOTIFICATION_ACTION_TASK, async ({ data, error }) => {
+  if (error) {
+    console.error('Notification action task error:', error);
+    return;
+  }
+  if (isNotificationResponse(data)) {
+    await handleNotificationAction(data);
+  }
+});
+
+let actionsReady: Promise<void> | null = null;
+
+// Register the alert category and the background handler once per launch
+export const setupNotificationActions = (): Promise<void> => {
+  if (!actionsReady) {
+    actionsReady = (async () => {
+      if (Platform.OS === 'web') return;
+      try {
+        await Notifications.setNotificationCategoryAsync(ALERT_NOTIFICATION_CATEGORY, [
+          {
+            identifier: ACKNOWLEDGE_ACTION,
+            buttonTitle: 'Acknowledge',
+            options: { opensAppToForeground: false },
+          },
+          {
+            identifier: SNOOZE_ACTION,
+            buttonTitle: 'Snooze 1h',
+            options: { opensAppToForeground: false },
+          },
+        ]);
+        await Notifications.registerTaskAsync(NOTIFICATION_ACTION_TASK);
+      } catch (error) {
+        console.error('Error setting up notification actions:', error);
+      }
+    })();
+  }
+  return actionsReady;
+};
@@ -1,7 +1,150 @@
 import * as Notifications from 'expo-notifications';
 import { Platform } from 'react-native';
+import AsyncStorage from '@react-native-async-storage/async-storage';
 import { settingsService } from './settingsService';
 import { BuoyData } from './buoyService';
+import { parseBuoyId } from './buoyReading';
+import { createAlertsLink, createGraphLink, linkForNotificationData } from './deepLinks';
+
+export type NotificationSeverity = 'info' | 'warning' | 'critical';
+
+export interface AlertNotificationContent {
+  title: string;
+  body: string;
+  severity: NotificationSeverity;
+  parameter: string; // Label used in digests, e.g. "pH alert"
+  data: Record<string, unknown>;
+}
+
+// One thing worth telling the user about; several are summarized into a digest
+export interface DigestEvent {
+  kind: 'data' | 'alert' | 'anomaly' | 'status' | 'error';
+  severity: NotificationSeverity;
+  title: string;
+  body: string;
+  data: Record<string, unknown>;
+  buoy?: string; // Data events
+  parameter?: string; // Alert and anomaly events
+  online?: boolean; // Status events
+  categoryIdentifier?: string; // Action buttons, see notificationActions.ts
+}
+
+// Events waiting for the digest scheduled at deliverAt
+interface DigestQueue {
+  events: DigestEvent[];
+  deliverAt: number;
+}
+
+// Android channels, one per severity, so users can set sound and vibration for each
+export const NOTIFICATION_CHANNELS: Record<NotificationSeverity, string> = {
+  info: 'buoy-info',
+  warning: 'buoy-warning',
+  critical: 'buoy-critical',
+};
+
+// Alert notifications carry Acknowledge / Snooze buttons (registered in notificationActions.ts)
+export const ALERT_NOTIFICATION_CATEGORY = 'water-alert';
+
+const SEVERITY_RANK: Record<NotificationSeverity, number> = { info: 0, warning: 1, critical: 2 };
+const LEGACY_CHANNELS = ['buoy-data', 'buoy-alerts']; // Replaced by the per-severity channels
+
+const DIGEST_STORAGE_KEY = 'notificationDigest';
+const DIGEST_NOTIFICATION_ID = 'buoy-digest';
+const MAX_DIGEST_EVENTS = 100; // Enough to count; older ones are dropped from the summary
+
+const plural = (count: number, word: string): string => `${count} ${word}${count === 1 ? '' : 's'}`;
+
+// Is the given time inside quiet hours? Handles windows that run past midnight.
+export const isQuietTime = (time: number): boolean => {
+  const { quietHoursEnabled, quietHoursStart, quietHoursEnd } = settingsService.getSettings();
+  if (!quietHoursEnabled || quietHoursStart === quietHoursEnd) return false;
+  const hour = new Date(time).getHours();
+  return quietHoursStart < quietHoursEnd
+    ? hour >= quietHoursStart && hour < quietHoursEnd
+    : hour >= quietHoursStart || hour < quietHoursEnd;
+};
+
+// The next time quiet hours end after the given time
+const quietHoursEndAfter = (time: number): number => {
+  const end = new Date(time);
+  end.setHours(settingsService.getSettings().quietHoursEnd, 0, 0, 0);
+  if (end.getTime() <= time) end.setDate(end.getDate() + 1);
+  return end.getTime();
+};
+
+// e.g. "3 buoys updated, 1 pH alert, 2 unusual readings, 1 buoy offline"
+export const summarizeDigest = (events: DigestEvent[]): string => {
+  const parts: string[] = [];
+
+  const buoys = new Set(events.filter(event => event.kind === 'data' && event.buoy).map(event => event.buoy));
+  if (buoys.size > 0) parts.push(`${plural(buoys.size, 'buoy')} updated`);
+  else if (events.some(event => event.kind === 'data')) parts.push('Data refreshed');
+
+  const alertCounts = new Map<string, number>();
+  events.filter(event => event.kind === 'alert').forEach(event => {
+    const parameter = event.parameter ?? 'water quality';
+    alertCounts.set(parameter, (alertCounts.get(parameter) ?? 0) + 1);
+  });
+  alertCounts.forEach((count, parameter) => parts.push(plural(count, `${parameter} alert`)));
+
+  const anomalies = events.filter(event => event.kind === 'anomaly').length;
+  if (anomalies > 0) parts.push(plural(anomalies, 'unusual reading'));
+
+  const offline = events.filter(event => event.kind === 'status' && !event.online).length;
+  const online = events.filter(event => event.kind === 'status' && event.online).length;
+  if (offline > 0) parts.push(`${plural(offline, 'buoy')} offline`);
+  if (online > 0) parts.push(`${plural(online, 'buoy')} back online`);
+
+  if (events.some(event => event.kind === 'error')) parts.push('connection problems');
+
+  return parts.join(', ');
+};
+
+// The buoy an event is about, if any
+const eventBuoyId = (event: DigestEvent): number | null => {
+  if (typeof event.data.buoyId === 'number') return event.data.buoyId;
+  const buoyData = event.data.buoyData as { Buoy?: string } | undefined;
+  return parseBuoyId(event.buoy ?? buoyData?.Buoy ?? '');
+};
+
+/**
+ * A single event is shown as itself; several become one summary. Tapping a
+ * summary opens the alert list when it holds alerts, otherwise the buoy when
+ * every event is about the same one. Alerts in it keep their Acknowledge and
+ * Snooze buttons, which then apply to all of them.
+ */
+export const buildDigest = (events: DigestEvent[]): DigestEvent => {
+  if (events.length === 1) return events[0];
+  const severity = events.reduce<NotificationSeverity>(
+    (highest, event) => (SEVERITY_RANK[event.severity] > SEVERITY_RANK[highest] ? event.severity : highest),
+    'info'
+  );
+  const alertKeys = events
+    .filter(event => event.kind === 'alert')
+    .map(event => event.data.alertKey)
+    .filter((key): key is string => typeof key === 'string');
+  const hasAlerts = events.some(event => event.kind === 'alert');
+  const buoyIds = new Set(events.map(eventBuoyId));
+  const [buoyId] = [...buoyIds];
+
+  let url: string;
+  if (hasAlerts) {
+    url = createAlertsLink(alertKeys.length === 1 ? alertKeys[0] : undefined);
+  } else if (buoyIds.size === 1 && buoyId !== null) {
+    url = linkForNotificationData(events[events.length - 1].data) ?? createGraphLink({ buoy: buoyId });
+  } else {
+    url = createGraphLink();
+  }
+
+  return {
+    kind: hasAlerts ? 'alert' : 'data',
+    severity,
+    title: hasAlerts ? 'Water Quality Alerts' : 'Buoy Updates',
+    body: summarizeDigest(events),
+    data: { type: 'digest', count: events.length, hasAlerts, url, ...(alertKeys.length > 0 ? { alertKeys } : {}) },
+    categoryIdentifier: alertKeys.length > 0 ? ALERT_NOTIFICATION_CATEGORY : undefined,
+  };
+};
 
 // Configure notification behavior
 Notifications.setNotificationHandler({
@@ -16,8 +159,9 @@ Notifications.setNotificationHandler({
 
 class NotificationService {
   private static instance: NotificationService;
-  private lastNotificationTime: number = 0;
-  private readonly NOTIFICATION_COOLDOWN = 30000; // 30 seconds cooldown between notifications
+  private queue: DigestQueue | null | undefined = undefined; // Loaded lazily from storage
+  private queueing: Promise<void> = Promise.resolve(); // Serializes queue updates
+  private channelsReady = false;
 
   private constructor() {}
 
@@ -45,14 +189,32 @@ class NotificationService {
       }
 
       // Configure for Android
-      if (Platform.OS === 'android') {
-        await Notifications.setNotificationChannelAsync('buoy-data', {
-          name: 'Buoy Data Updates',
+      if (Platform.OS === 'android' && !this.channelsReady) {
+        await Notifications.setNotificationChannelAsync(NOTIFICATION_CHANNELS.info, {
+          name: 'Buoy Updates',
+          description: 'New data, digests and informational alerts',
+          importance: Notifications.AndroidImportance.DEFAULT,
+          sound: 'default',
+        });
+        await Notifications.setNotificationChannelAsync(NOTIFICATION_CHANNELS.warning, {
+          name: 'Warnings',
+          description: 'Warning alerts and buoys going offline',
           importance: Notifications.AndroidImportance.HIGH,
           vibrationPattern: [0, 250, 250, 250],
-          lightColor: '#FF231F7C',
+          lightColor: '#FFF59E0B',
           sound: 'default',
         });
+        await Notifications.setNotificationChannelAsync(NOTIFICATION_CHANNELS.critical, {
+          name: 'Critical Alerts',
+          description: 'Critical water-quality alerts; delivered during quiet hours',
+          importance: Notifications.AndroidImportance.MAX,
+          vibrationPattern: [0, 500, 250, 500],
+          lightColor: '#FFEF4444',
+          sound: 'default',
+          bypassDnd: true,
+        });
+        await Promise.all(LEGACY_CHANNELS.map(channel => Notifications.deleteNotificationChannelAsync(channel)));
+        this.channelsReady = true;
       }
 
       return true;
@@ -67,153 +229,192 @@ class NotificationService {
     return settingsService.isNotificationsEnabled();
   }
 
-  // Send notification for new buoy data
-  async sendNewDataNotification(buoyData: BuoyData): Promise<void> {
-    if (!this.isNotificationsEnabled()) {
-      return; // Don't send notifications if disabled in settings
-    }
-
-    // Check cooldown to prevent spam
-    const now = Date.now();
-    if (now - this.lastNotificationTime < this.NOTIFICATION_COOLDOWN) {
-      return;
-    }
+  private async deliver(
+    content: { title: string; body: string; data: Record<string, unknown>; severity: NotificationSeverity; categoryIdentifier?: string },
+    deliverAt: number | null = null,
+    identifier?: string
+  ): Promise<void> {
+    const channelId = NOTIFICATION_CHANNELS[content.severity];
+    const trigger: Notifications.NotificationTriggerInput = deliverAt !== null
+      ? { type: Notifications.SchedulableTriggerInputTypes.DATE, date: deliverAt, channelId }
+      : Platform.OS === 'android' ? { channelId } : null;
+
+    await Notifications.scheduleNotificationAsync({
+      identifier,
+      content: {
+        title: content.title,
+        body: content.body,
+        data: { ...content.data, severity: content.severity },
+        categoryIdentifier: content.categoryIdentifier,
+        sound: 'default',
+        priority: content.severity === 'critical'
+          ? Notifications.AndroidNotificationPriority.MAX
+          : content.severity === 'warning'
+            ? Notifications.AndroidNotificationPriority.HIGH
+            : Notifications.AndroidNotificationPriority.DEFAULT,
+      },
+      trigger,
+    });
+  }
 
-    try {
-      // Request permissions if not already granted
-      const hasPermission = await this.requestPermissions();
-      if (!hasPermission) {
-        return;
+  private async loadQueue(): Promise<DigestQueue | null> {
+    if (this.queue === undefined) {
+      try {
+        const saved = await AsyncStorage.getItem(DIGEST_STORAGE_KEY);
+        this.queue = saved ? JSON.parse(saved) : null;
+      } catch (error) {
+        console.error('Error loading notification digest:', error);
+        this.queue = null;
       }
+    }
+    return this.queue ?? null;
+  }
 
-      // Format the notification message
-      const buoyName = buoyData.Buoy;
-      const temperature = buoyData['Temp (°C)'];
-      const ph = buoyData.pH;
-      const tds = buoyData['TDS (ppm)'];
-
-      const message = `New data from ${buoyName}: ${temperature}°C, pH ${ph}, TDS ${tds} ppm`;
+  // When a digest started now should go out: after the window, and never during quiet hours
+  private digestDeliveryTime(now: number): number {
+    const windowEnd = now + settingsService.getSettings().notificationDigestMinutes * 60 * 1000;
+    return isQuietTime(windowEnd) ? quietHoursEndAfter(windowEnd) : windowEnd;
+  }
 
-      // Send the notification
-      await Notifications.scheduleNotificationAsync({
-        content: {
-          title: 'New Buoy Data Available',
-          body: message,
-          data: { buoyData },
-          sound: 'default',
-        },
-        trigger: null, // Send immediately
-      });
+  /**
+   * Send an event now or fold it into the pending digest. Critical events
+   * always go out immediately; everything else waits for the digest window
+   * and for quiet hours to end. The digest is a scheduled notification that
+   * is rescheduled with a new summary each time an event joins it, so it is
+   * delivered even if the app is closed in the meantime.
+   */
+  private notify(event: DigestEvent): Promise<void> {
+    const run = this.queueing.then(async () => {
+      if (!this.isNotificationsEnabled()) return;
+
+      try {
+        const hasPermission = await this.requestPermissions();
+        if (!hasPermission) return;
+
+        const now = Date.now();
+        const immediate = event.severity === 'critical' ||
+          (settingsService.getSettings().notificationDigestMinutes === 0 && !isQuietTime(now));
+        if (immediate) {
+          await this.deliver(event);
+          console.log(`Notification sent: ${event.title}`);
+          return;
+        }
+
+        const pending = await this.loadQueue();
+        // A digest whose time has passed was already delivered by the OS
+        const queue: DigestQueue = pending && pending.deliverAt > now
+          ? pending
+          : { events: [], deliverAt: this.digestDeliveryTime(now) };
+        queue.events = [...queue.events, event].slice(-MAX_DIGEST_EVENTS);
+
+        await Notifications.cancelScheduledNotificationAsync(DIGEST_NOTIFICATION_ID);
+        await this.deliver(buildDigest(queue.events), queue.deliverAt, DIGEST_NOTIFICATION_ID);
+
+        this.queue = queue;
+        await AsyncStorage.setItem(DIGEST_STORAGE_KEY, JSON.stringify(queue));
+        if (__DEV__) console.log(`Notification digest: ${queue.events.length} events, due ${new Date(queue.deliverAt).toLocaleTimeString()}`);
+      } catch (error) {
+        console.error('Error sending notification:', error);
+      }
+    });
+    this.queueing = run;
+    return run;
+  }
 
-      this.lastNotificationTime = now;
-      console.log('Notification sent for new buoy data');
-    } catch (error) {
-      console.error('Error sending notification:', error);
-    }
+  // Send notification for new buoy data
+  async sendNewDataNotification(buoyData: BuoyData): Promise<void> {
+    const buoyName = buoyData.Buoy;
+    const temperature = buoyData['Temp (°C)'];
+    const ph = buoyData.pH;
+    const tds = buoyData['TDS (ppm)'];
+
+    await this.notify({
+      kind: 'data',
+      severity: 'info',
+      title: 'New Buoy Data Available',
+      body: `New data from ${buoyName}: ${temperature}°C, pH ${ph}, TDS ${tds} ppm`,
+      data: { buoyData },
+      buoy: buoyName,
+    });
   }
 
-  // Send notification for multiple buoys
+  // Send notification for multiple buoys; each buoy counts once in the digest
   async sendMultipleBuoysNotification(buoyDataArray: BuoyData[]): Promise<void> {
-    if (!this.isNotificationsEnabled() || buoyDataArray.length === 0) {
-      return;
+    const latestPerBuoy = new Map<string, BuoyData>();
+    buoyDataArray.forEach(buoyData => {
+      if (!latestPerBuoy.has(buoyData.Buoy)) latestPerBuoy.set(buoyData.Buoy, buoyData);
+    });
+    for (const buoyData of latestPerBuoy.values()) {
+      await this.sendNewDataNotification(buoyData);
     }
+  }
 
-    // Check cooldown
-    const now = Date.now();
-    if (now - this.lastNotificationTime < this.NOTIFICATION_COOLDOWN) {
-      return;
-    }
-
-    try {
-      const hasPermission = await this.requestPermissions();
-      if (!hasPermission) {
-        return;
-      }
-
-      const buoyCount = buoyDataArray.length;
-      const message = `New data from ${buoyCount} buoy${buoyCount > 1 ? 's' : ''} available`;
+  // Send a water-quality alert; critical alerts bypass the digest and quiet hours
+  async sendAlertNotification(alert: AlertNotificationContent): Promise<void> {
+    await this.notify({
+      kind: 'alert',
+      severity: alert.severity,
+      title: alert.title,
+      body: alert.body,
+      data: alert.data,
+      parameter: alert.parameter,
+      categoryIdentifier: ALERT_NOTIFICATION_CATEGORY,
+    });
+  }
 
-      await Notifications.scheduleNotificationAsync({
-        content: {
-          title: 'Multiple Buoy Updates',
-          body: message,
-          data: { buoyDataArray },
-          sound: 'default',
-        },
-        trigger: null,
-      });
+  // Send an anomaly found by the detector; never critical, so it always waits for the digest
+  async sendAnomalyNotification(title: string, body: string, parameter: string, data: Record<string, unknown>): Promise<void> {
+    await this.notify({
+      kind: 'anomaly',
+      severity: 'warning',
+      title,
+      body,
+      data,
+      parameter,
+    });
+  }
 
-      this.lastNotificationTime = now;
-      console.log(`Notification sent for ${buoyCount} buoys`);
-    } catch (error) {
-      console.error('Error sending multiple buoys notification:', error);
-    }
+  // Send a buoy offline / back online notification
+  async sendBuoyStatusNotification(title: string, body: string, data: Record<string, unknown>): Promise<void> {
+    const online = data.type === 'buoy-online';
+    await this.notify({
+      kind: 'status',
+      severity: online ? 'info' : 'warning',
+      title,
+      body,
+      data,
+      online,
+    });
   }
 
   // Send notification for data refresh
   async sendDataRefreshNotification(): Promise<void> {
-    if (!this.isNotificationsEnabled()) {
-      return;
-    }
-
-    const now = Date.now();
-    if (now - this.lastNotificationTime < this.NOTIFICATION_COOLDOWN) {
-      return;
-    }
-
-    try {
-      const hasPermission = await this.requestPermissions();
-      if (!hasPermission) {
-        return;
-      }
-
-      await Notifications.scheduleNotificationAsync({
-        content: {
-          title: 'Buoy Data Refreshed',
-          body: 'Latest buoy data has been updated',
-          sound: 'default',
-        },
-        trigger: null,
-      });
-
-      this.lastNotificationTime = now;
-      console.log('Data refresh notification sent');
-    } catch (error) {
-      console.error('Error sending refresh notification:', error);
-    }
+    await this.notify({
+      kind: 'data',
+      severity: 'info',
+      title: 'Buoy Data Refreshed',
+      body: 'Latest buoy data has been updated',
+      data: {},
+    });
   }
 
   // Send notification for connection issues
   async sendConnectionErrorNotification(): Promise<void> {
-    if (!this.isNotificationsEnabled()) {
-      return;
-    }
-
-    try {
-      const hasPermission = await this.requestPermissions();
-      if (!hasPermission) {
-        return;
-      }
-
-      await Notifications.scheduleNotificationAsync({
-        content: {
-          title: 'Connection Error',
-          body: 'Unable to fetch buoy data. Please check your connection.',
-          sound: 'default',
-        },
-        trigger: null,
-      });
-
-      console.log('Connection error notification sent');
-    } catch (error) {
-      console.error('Error sending connection error notification:', error);
-    }
+    await this.notify({
+      kind: 'error',
+      severity: 'info',
+      title: 'Connection Error',
+      body: 'Unable to fetch buoy data. Please check your connection.',
+      data: {},
+    });
   }
 
   // Cancel all notifications
   async cancelAllNotifications(): Promise<void> {
     try {
       await Notifications.cancelAllScheduledNotificationsAsync();
+      this.queue = null;
+      await AsyncStorage.removeItem(DIGEST_STORAGE_KEY);
       console.log('All notifications cancelled');
     } catch (error) {
       console.error('Error cancelling notifications:', error);
@@ -247,6 +448,11 @@ export const notificationService = NotificationService.getInstance();
 export const requestNotificationPermissions = () => notificationService.requestPermissions();
 export const sendNewDataNotification = (buoyData: BuoyData) => notificationService.sendNewDataNotification(buoyData);
 export const sendMultipleBuoysNotification = (buoyDataArray: BuoyData[]) => notificationService.sendMultipleBuoysNotification(buoyDataArray);
+export const sendAlertNotification = (alert: AlertNotificationContent) => notificationService.sendAlertNotification(alert);
+export const sendAnomalyNotification = (title: string, body: string, parameter: string, data: Record<string, unknown>) =>
+  notificationService.sendAnomalyNotification(title, body, parameter, data);
+export const sendBuoyStatusNotification = (title: string, body: string, data: Record<string, unknown>) =>
+  notificationService.sendBuoyStatusNotification(title, body, data);
 export const sendDataRefreshNotification = () => notificationService.sendDataRefreshNotification();
 export const sendConnectionErrorNotification = () => notificationService.sendConnectionErrorNotification();
 export const cancelAllNotifications = () => notificationService.cancelAllNotifications();
@@ -1,17 +1,11 @@
-import AsyncStorage from '@react-native-async-storage/async-storage';
 import { BuoyData } from './buoyService';
 import { settingsService } from './settingsService';
+import { readingStore, ReadingQuery } from './readingStore';
 
-const OFFLINE_CACHE_KEY = 'offline_buoy_data';
-const OFFLINE_CACHE_TIMESTAMP_KEY = 'offline_cache_timestamp';
-const CACHE_EXPIRY_HOURS = 24; // Cache expires after 24 hours
-
-export interface OfflineCache {
-  data: BuoyData[];
-  timestamp: number;
-  buoyCount: number;
-}
+const APPROX_ROW_BYTES = 200; // Rough on-disk size of one stored reading
 
+// Offline access to readings, backed by the on-device reading store (see readingStore.ts).
+// Stored history is governed by the retention settings instead of a fixed expiry.
 class OfflineService {
   private static instance: OfflineService;
 
@@ -36,48 +30,27 @@ class OfflineService {
     }
 
     try {
-      const cache: OfflineCache = {
-        data,
-        timestamp: Date.now(),
-        buoyCount: data.length,
-      };
-
-      await AsyncStorage.setItem(OFFLINE_CACHE_KEY, JSON.stringify(cache));
-      await AsyncStorage.setItem(OFFLINE_CACHE_TIMESTAMP_KEY, Date.now().toString());
-      
-      console.log(`Cached ${data.length} buoy data points for offline use`);
+      const added = await readingStore.upsertRows(data);
+      console.log(`Cached ${added} new buoy data points for offline use`);
     } catch (error) {
       console.error('Error caching buoy data:', error);
     }
   }
 
-  // Get cached buoy data
-  async getCachedBuoyData(): Promise<BuoyData[] | null> {
+  // Get cached buoy data, newest first
+  async getCachedBuoyData(query: ReadingQuery = {}): Promise<BuoyData[] | null> {
     if (!this.isOfflineModeEnabled()) {
       return null; // Don't use cache if offline mode is disabled
     }
 
     try {
-      const cachedData = await AsyncStorage.getItem(OFFLINE_CACHE_KEY);
-      const timestamp = await AsyncStorage.getItem(OFFLINE_CACHE_TIMESTAMP_KEY);
-
-      if (!cachedData || !timestamp) {
+      const data = await readingStore.queryRows(query);
+      if (data.length === 0) {
         return null;
       }
 
-      const cache: OfflineCache = JSON.parse(cachedData);
-      const cacheAge = Date.now() - parseInt(timestamp);
-      const cacheAgeHours = cacheAge / (1000 * 60 * 60);
-
-      // Check if cache is expired
-      if (cacheAgeHours > CACHE_EXPIRY_HOURS) {
-        console.log('Offline cache expired, clearing...');
-        await this.clearCache();
-        return null;
-      }
-
-      console.log(`Retrieved ${cache.data.length} cached buoy data points`);
-      return cache.data;
+      console.log(`Retrieved ${data.length} cached buoy data points`);
+      return data;
     } catch (error) {
       console.error('Error retrieving cached buoy data:', error);
       return null;
@@ -87,15 +60,13 @@ class OfflineService {
   // Get cache info
   async getCacheInfo(): Promise<{ hasCache: boolean; dataPoints: number; age: string } | null> {
     try {
-      const cachedData = await AsyncStorage.getItem(OFFLINE_CACHE_KEY);
-      const timestamp = await AsyncStorage.getItem(OFFLINE_CACHE_TIMESTAMP_KEY);
+      const stats = await readingStore.getStats();
 
-      if (!cachedData || !timestamp) {
-        return { hasCache: false, dataPoints: 0, age: '' };
+      if (stats.count === 0 || stats.lastSyncTime === 0) {
+        return { hasCache: stats.count > 0, dataPoints: stats.count, age: '' };
       }
 
-      const cache: OfflineCache = JSON.parse(cachedData);
-      const cacheAge = Date.now() - parseInt(timestamp);
+      const cacheAge = Date.now() - stats.lastSyncTime;
       const cacheAgeHours = Math.floor(cacheAge / (1000 * 60 * 60));
       const cacheAgeMinutes = Math.floor((cacheAge % (1000 * 60 * 60)) / (1000 * 60));
 
@@ -108,7 +79,7 @@ class OfflineService {
 
       return {
         hasCache: true,
-        dataPoints: cache.data.length,
+        dataPoints: stats.count,
         age: ageString,
       };
     } catch (error) {
@@ -120,8 +91,7 @@ class OfflineService {
   // Clear cached data
   async clearCache(): Promise<void> {
     try {
-      await AsyncStorage.removeItem(OFFLINE_CACHE_KEY);
-      await AsyncStorage.removeItem(OFFLINE_CACHE_TIMESTAMP_KEY);
+      await readingStore.clear();
       console.log('Offline cache cleared');
     } catch (error) {
       console.error('Error clearing cache:', error);
@@ -141,11 +111,8 @@ class OfflineService {
   // Get cache size in bytes (approximate)
   async getCacheSize(): Promise<number> {
     try {
-      const cachedData = await AsyncStorage.getItem(OFFLINE_CACHE_KEY);
-      if (cachedData) {
-        return new Blob([cachedData]).size;
-      }
-      return 0;
+      const stats = await readingStore.getStats();
+      return stats.count * APPROX_ROW_BYTES;
     } catch (error) {
       console.error('Error getting cache size:', error);
       return 0;
@@ -158,7 +125,7 @@ export const offlineService = OfflineService.getInstance();
 
 // Export convenience functions
 export const cacheBuoyData = (data: BuoyData[]) => offlineService.cacheBuoyData(data);
-export const getCachedBuoyData = () => offlineService.getCachedBuoyData();
+export const getCachedBuoyData = (query?: ReadingQuery) => offlineService.getCachedBuoyData(query);
 export const getCacheInfo = () => offlineService.getCacheInfo();
 export const clearCache = () => offlineService.clearCache();
 export const isCacheAvailable = () => offlineService.isCacheAvailable();
@@ -0,0 +1,280 @@
+import * as Notifications from 'expo-notifications';
+import Constants from 'expo-constants';
+import { Platform } from 'react-native';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { supabase } from './authService';
+import { notificationService } from './notificationService';
+import { AlertRule, getAlertRules, subscribeToAlertRules } from './alertService';
+import { hashAlertRules } from '../../supabase/functions/_shared/alertEvaluation';
+
+/**
+ * Server-side push registration. The phone's Expo push token, the buoys the
+ * user subscribes to and a copy of their alert rules are stored in Supabase;
+ * the send-alert-pushes edge function evaluates the rules on new readings and
+ * pushes alerts even when the phone has not synced for hours.
+ */
+
+export interface PushState {
+  token: string | null; // null until registered
+  userId: string | null;
+  subscribedBuoyIds: number[];
+  uploadedRulesHash: string | null; // hashAlertRules() of the rules last stored in Supabase
+}
+
+interface BuoyCoverage {
+  lastRecordedAt: number;
+  rulesHash: string; // Rules the push job evaluated
+}
+
+// Cached so the background task can tell which buoys the server already covers
+const STORAGE_KEY = 'pushRegistration';
+const COVERAGE_CACHE_MS = 60 * 1000;
+// The server job runs every minute, so a buoy it evaluates is never far behind the phone
+const COVERAGE_WINDOW_MS = 60 * 60 * 1000;
+
+const EMPTY_STATE: PushState = { token: null, userId: null, subscribedBuoyIds: [], uploadedRulesHash: null };
+
+class PushService {
+  private static instance: PushService;
+  private state: PushState = EMPTY_STATE;
+  private loaded: Promise<void> | null = null;
+  private listeners: ((state: PushState) => void)[] = [];
+  private unsubscribeFromRules: (() => void) | null = null;
+  private coverage: { fetchedAt: number; userId: string; buoys: Map<number, BuoyCoverage> } | null = null;
+
+  private constructor() {}
+
+  public static getInstance(): PushService {
+    if (!PushService.instance) {
+      PushService.instance = new PushService();
+    }
+    return PushService.instance;
+  }
+
+  private load(): Promise<void> {
+    if (!this.loaded) {
+      this.loaded = (async () => {
+        try {
+          const saved = await AsyncStorage.getItem(STORAGE_KEY);
+          if (saved) this.state = JSON.parse(saved);
+        } catch (error) {
+          console.error('Error loading push registration:', error);
+        }
+      })();
+    }
+    return this.loaded;
+  }
+
+  private async setState(state: PushState): Promise<void> {
+    this.state = state;
+    try {
+      await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(state));
+    } catch (error) {
+      console.error('Error saving push registration:', error);
+    }
+    this.notifyListeners();
+  }
+
+  async getState(): Promise<PushState> {
+    await this.load();
+    return { ...this.state, subscribedBuoyIds: [...this.state.subscribedBuoyIds] };
+  }
+
+  // Buoys the push job has evaluated this user's rules on and pushed for (push_buoy_coverage)
+  private async loadCoverage(userId: string): Promise<Map<number, BuoyCoverage>> {
+    if (this.coverage && this.coverage.userId === userId && Date.now() - this.coverage.fetchedAt < COVERAGE_CACHE_MS) {
+      return this.coverage.buoys;
+    }
+    try {
+      const { data, error } = await supabase
+        .from('push_buoy_coverage')
+        .select('buoy_id, rules_hash, last_recorded_at')
+        .eq('user_id', userId);
+      if (error) throw error;
+      this.coverage = {
+        fetchedAt: Date.now(),
+        userId,
+        buoys: new Map((data ?? []).map(row => [
+          row.buoy_id as number,
+          { lastRecordedAt: Date.parse(row.last_recorded_at), rulesHash: row.rules_hash as string },
+        ])),
+      };
+    } catch (error) {
+      // Without confirmation from the server, local alerts keep firing
+      console.error('Error loading push coverage:', error);
+      this.coverage = null;
+      return new Map();
+    }
+    return this.coverage.buoys;
+  }
+
+  /**
+   * True when the server will push this alert, so a local one would arrive
+   * twice: this device is registered and subscribed to the buoy, the rules on
+   * the phone were uploaded, and the push job has recently evaluated those
+   * same rules on readings of that buoy and pushed for them.
+   */
+  async coversAlert(buoyId: number, timestamp: number): Promise<boolean> {
+    await this.load();
+    const { token, userId, subscribedBuoyIds, uploadedRulesHash } = this.state;
+    if (token === null || userId === null || !subscribedBuoyIds.includes(buoyId)) return false;
+
+    const rules = await getAlertRules();
+    const rulesHash = hashAlertRules(rules);
+    if (uploadedRulesHash !== rulesHash) {
+      // The last upload failed; alert locally and try again
+      this.uploadRules(rules);
+      return false;
+    }
+    const coverage = (await this.loadCoverage(userId)).get(buoyId);
+    return coverage !== undefined &&
+      coverage.rulesHash === rulesHash &&
+      coverage.lastRecordedAt >= timestamp - COVERAGE_WINDOW_MS;
+  }
+
+  private async getExpoPushToken(): Promise<string | null> {
+    if (Platform.OS === 'web') return null;
+    const projectId = Constants.expoConfig?.extra?.eas?.projectId ?? Constants.easConfig?.projectId;
+    if (!projectId) {
+      if (__DEV__) console.log('No EAS project ID; push notifications are unavailable');
+      return null;
+    }
+    try {
+      const { data } = await Notifications.getExpoPushTokenAsync({ projectId });
+      return data;
+    } catch (error) {
+      // Simulators and devices without Play services cannot get a token
+      console.error('Error getting Expo push token:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Store this device's push token against the signed-in user, pull their
+   * buoy subscriptions and keep the server's copy of the alert rules current.
+   */
+  async register(userId: string): Promise<boolean> {
+    await this.load();
+    try {
+      const hasPermission = await notificationService.requestPermissions();
+      if (!hasPermission) return false;
+
+      const token = await this.getExpoPushToken();
+      if (!token) return false;
+
+      const { error } = await supabase.from('push_tokens').upsert({
+        token,
+        user_id: userId,
+        platform: Platform.OS,
+        updated_at: new Date().toISOString(),
+      });
+      if (error) throw error;
+
+      const { data: subscriptions, error: subscriptionError } = await supabase
+        .from('push_subscriptions')
+        .select('buoy_id')
+        .eq('user_id', userId);
+      if (subscriptionError) throw subscriptionError;
+
+      await this.setState({
+        token,
+        userId,
+        subscribedBuoyIds: (subscriptions ?? []).map(row => row.buoy_id as number).sort((a, b) => a - b),
+        uploadedRulesHash: this.state.userId === userId ? this.state.uploadedRulesHash : null,
+      });
+
+      await this.uploadRules(await getAlertRules());
+      if (!this.unsubscribeFromRules) {
+        this.unsubscribeFromRules = subscribeToAlertRules(rules => {
+          this.uploadRules(rules);
+        });
+      }
+
+      if (__DEV__) console.log('📲 Registered for push notifications');
+      return true;
+    } catch (error) {
+      console.error('Error registering for push notifications:', error);
+      return false;
+    }
+  }
+
+  // Remove this device's token, e.g. on sign-out, so pushes stop reaching it
+  async unregister(): Promise<void> {
+    await this.load();
+    this.unsubscribeFromRules?.();
+    this.unsubscribeFromRules = null;
+
+    const { token } = this.state;
+    if (token) {
+      const { error } = await supabase.from('push_tokens').delete().eq('token', token);
+      if (error) console.error('Error removing push token:', error);
+    }
+    await this.setState(EMPTY_STATE);
+  }
+
+  async setBuoySubscribed(buoyId: number, subscribed: boolean): Promise<void> {
+    await this.load();
+    const { userId } = this.state;
+    if (!userId) {
+      throw new Error('Push notifications are not set up on this device');
+    }
+
+    const { error } = subscribed
+      ? await supabase.from('push_subscriptions').upsert({ user_id: userId, buoy_id: buoyId })
+      : await supabase.from('push_subscriptions').delete().eq('user_id', userId).eq('buoy_id', buoyId);
+    if (error) throw error;
+
+    const others = this.state.subscribedBuoyIds.filter(id => id !== buoyId);
+    await this.setState({
+      ...this.state,
+      subscribedBuoyIds: subscribed ? [...others, buoyId].sort((a, b) => a - b) : others,
+    });
+  }
+
+  // Keep the server's copy of the rules current. Until an upload succeeds the
+  // hashes differ and coversAlert leaves every alert to the phone.
+  private async uploadRules(rules: AlertRule[]): Promise<void> {
+    const { userId } = this.state;
+    if (!userId) return;
+    try {
+      const { error } = await supabase.from('user_alert_rules').upsert({
+        user_id: userId,
+        rules,
+        updated_at: new Date().toISOString(),
+      });
+      if (error) throw error;
+      if (this.state.userId === userId) {
+        await this.setState({ ...this.state, uploadedRulesHash: hashAlertRules(rules) });
+      }
+    } catch (error) {
+      console.error('Error uploading alert rules:', error);
+    }
+  }
+
+  // Subscribe to registration changes
+  subscribe(listener: (state: PushState) => void): () => void {
+    this.listeners.push(listener);
+    return () => {
+      const index = this.listeners.indexOf(listener);
+      if (index > -1) {
+        this.listeners.splice(index, 1);
+      }
+    };
+  }
+
+  private notifyListeners(): void {
+    const state = { ...this.state, subscribedBuoyIds: [...this.state.subscribedBuoyIds] };
+    this.listeners.forEach(listener => listener(state));
+  }
+}
+
+// Export singleton instance
+export const pushService = PushService.getInstance();
+
+// Export convenience functions
+export const registerForPushNotifications = (userId: string) => pushService.register(userId);
+export const unregisterFromPushNotifications = () => pushService.unregister();
+export const getPushState = () => pushService.getState();
+export const setBuoyPushSubscription = (buoyId: number, subscribed: boolean) =>
+  pushService.setBuoySubscribed(buoyId, subscribed);
+export const subscribeToPushState = (listener: (state: PushState) => void) => pushService.subscribe(listener);
@@ -0,0 +1,321 @@
+import { BuoyReading } from './buoyReading';
+import { NEIGHBOUR_MAX_GAP_MS } from '../../supabase/functions/_shared/alertEvaluation';
+
+/**
+ * Automated quality control for buoy readings, loosely following the IOOS
+ * QARTOD conventions: every parameter of every reading gets a flag and the
+ * reading as a whole takes the worst one.
+ */
+
+// good = passed every test, suspect = questionable, bad = should not be used, missing = not reported
+export type QcFlag = 'good' | 'suspect' | 'bad' | 'missing';
+export type QcParameter = 'pH' | 'temperature' | 'tds' | 'position' | 'timestamp';
+export type QcTest = 'range' | 'spike' | 'flatline' | 'gps_jump' | 'stale';
+export type SensorParameter = 'pH' | 'temperature' | 'tds';
+
+export interface QcIssue {
+  parameter: QcParameter;
+  test: QcTest;
+  flag: 'suspect' | 'bad';
+  message: string;
+}
+
+export interface ReadingQuality {
+  flag: QcFlag; // Worst parameter flag; 'missing' only if nothing was reported
+  parameters: Record<QcParameter, QcFlag>;
+  issues: QcIssue[];
+}
+
+interface SensorThresholds {
+  label: string;
+  unit: string;
+  sensorRange: [number, number]; // Outside = bad (what the sensor can physically report)
+  expectedRange: [number, number]; // Outside = suspect (plausible for coastal Philippine waters)
+  spikeSuspect: number;
+  spikeBad: number;
+  flatlineTolerance: number; // Changes smaller than this count as "no change"
+}
+
+export const QC_THRESHOLDS = {
+  sensors: {
+    pH: {
+      label: 'pH', unit: '',
+      sensorRange: [0, 14], expectedRange: [6.0, 9.5],
+      spikeSuspect: 0.5, spikeBad: 1.5, flatlineTolerance: 0.001,
+    },
+    temperature: {
+      label: 'Temperature', unit: '°C',
+      sensorRange: [-10, 50], expectedRange: [20, 35],
+      spikeSuspect: 2, spikeBad: 5, flatlineTolerance: 0.01,
+    },
+    // Seawater is ~30000-35000 ppm; the lower bound leaves room for river plumes after heavy rain.
+    // The sensor range matches the receiver firmware and the ingestion function (SENSOR_LIMITS).
+    tds: {
+      label: 'TDS', unit: ' ppm',
+      sensorRange: [0, 50000], expectedRange: [15000, 40000],
+      spikeSuspect: 2000, spikeBad: 5000, flatlineTolerance: 1,
+    },
+  } as Record<SensorParameter, SensorThresholds>,
+  flatlineSuspectCount: 4, // Identical consecutive readings, including this one
+  flatlineBadCount: 8,
+  neighbourMaxGapMs: NEIGHBOUR_MAX_GAP_MS, // Readings further apart are not compared for spikes (shared with alert rates)
+  gpsSuspectSpeed: 1.5, // m/s - faster than a moored buoy should drift
+  gpsBadSpeed: 5,
+  futureToleranceMs: 10 * 60 * 1000,
+};
+
+const SENSOR_PARAMETERS: SensorParameter[] = ['pH', 'temperature', 'tds'];
+const FLAG_SEVERITY: Record<QcFlag, number> = { missing: 0, good: 1, suspect: 2, bad: 3 };
+
+export const QC_FLAG_COLORS: Record<QcFlag, string> = {
+  good: '#22c55e',
+  suspect: '#f59e0b',
+  bad: '#ef4444',
+  missing: '#94a3b8',
+};
+
+export const QC_FLAG_LABELS: Record<QcFlag, string> = {
+  good: 'Good',
+  suspect: 'Suspect',
+  bad: 'Bad',
+  missing: 'Missing',
+};
+
+const worstFlag = (a: QcFlag, b: QcFlag): QcFlag => (FLAG_SEVERITY[b] > FLAG_SEVERITY[a] ? b : a);
+
+const sensorValue = (reading: BuoyReading, parameter: SensorParameter): number | null => {
+  // The receiver reports 0,0,0 when a buoy has no sensor board
+  if (reading.pH === 0 && reading.temperature === 0 && reading.tds === 0) {
+    return null;
+  }
+  return reading[parameter];
+};
+
+// Great-circle distance in metres
+const distanceMeters = (lat1: number, lon1: number, lat2: number, lon2: number): number => {
+  const toRad = (deg: number) => (deg * Math.PI) / 180;
+  const dLat = toRad(lat2 - lat1);
+  const dLon = toRad(lon2 - lon1);
+  const a = Math.sin(dLat / 2) ** 2 + Math.cos(toRad(lat1)) * Math.cos(toRad(lat2)) * Math.sin(dLon / 2) ** 2;
+  return 6371000 * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+};
+
+const hasValidPosition = (reading: BuoyReading): boolean => {
+  const { latitude, longitude } = reading;
+  return latitude !== null && longitude !== null &&
+    !(latitude === 0 && longitude === 0) &&
+    latitude >= -90 && latitude <= 90 && longitude >= -180 && longitude <= 180;
+};
+
+const formatValue = (value: number, thresholds: SensorThresholds): string => {
+  return `${Number(value.toFixed(2))}${thresholds.unit}`;
+};
+
+class QualityAssessment {
+  readonly parameters: Record<QcParameter, QcFlag> = {
+    pH: 'good', temperature: 'good', tds: 'good', position: 'good', timestamp: 'good',
+  };
+  readonly issues: QcIssue[] = [];
+
+  flag(parameter: QcParameter, test: QcTest, flag: 'suspect' | 'bad', message: string): void {
+    this.parameters[parameter] = worstFlag(this.parameters[parameter], flag);
+    this.issues.push({ parameter, test, flag, message });
+  }
+
+  toQuality(): ReadingQuality {
+    const flags = Object.values(this.parameters);
+    const overall = flags.reduce<QcFlag>((worst, flag) => worstFlag(worst, flag), 'missing');
+    return { flag: overall, parameters: { ...this.parameters }, issues: this.issues };
+  }
+}
+
+// Range checks that need only the reading itself
+const checkReading = (reading: BuoyReading, qa: QualityAssessment, now: number): void => {
+  SENSOR_PARAMETERS.forEach(parameter => {
+    const value = sensorValue(reading, parameter);
+    const thresholds = QC_THRESHOLDS.sensors[parameter];
+    if (value === null) {
+      qa.parameters[parameter] = 'missing';
+      return;
+    }
+    const [sensorMin, sensorMax] = thresholds.sensorRange;
+    const [expectedMin, expectedMax] = thresholds.expectedRange;
+    if (value < sensorMin || value > sensorMax) {
+      qa.flag(parameter, 'range', 'bad', `${thresholds.label} ${formatValue(value, thresholds)} is outside the sensor range (${sensorMin}–${sensorMax})`);
+    } else if (value < expectedMin || value > expectedMax) {
+      qa.flag(parameter, 'range', 'suspect', `${thresholds.label} ${formatValue(value, thresholds)} is outside the expected range (${expectedMin}–${expectedMax})`);
+    }
+  });
+
+  if (reading.latitude === null && reading.longitude === null) {
+    qa.parameters.position = 'missing';
+  } else if (!hasValidPosition(reading)) {
+    qa.flag('position', 'range', 'bad', `Invalid GPS position (${reading.latitude}, ${reading.longitude})`);
+  }
+
+  if (reading.timestamp === null) {
+    qa.flag('timestamp', 'stale', 'bad', 'Date/time could not be read');
+  } else if (reading.timestamp > now + QC_THRESHOLDS.futureToleranceMs) {
+    qa.flag('timestamp', 'stale', 'bad', 'Timestamp is in the future');
+  }
+};
+
+// Tests comparing a reading with the ones before and after it from the same buoy.
+// Values that already failed the range test are skipped so they cannot drag their neighbours down.
+const checkSeries = (series: BuoyReading[], assessments: Map<BuoyReading, QualityAssessment>): void => {
+  SENSOR_PARAMETERS.forEach(parameter => {
+    const thresholds = QC_THRESHOLDS.sensors[parameter];
+    const usable = series
+      .map(reading => ({ reading, value: sensorValue(reading, parameter) }))
+      .filter((entry): entry is { reading: BuoyReading; value: number } =>
+        entry.value !== null && assessments.get(entry.reading)!.parameters[parameter] !== 'bad'
+      );
+    let runLength = 0;
+
+    usable.forEach(({ reading, value }, index) => {
+      const qa = assessments.get(reading)!;
+
+      // Flatline: the sensor keeps reporting the same value
+      const previous = index > 0 ? usable[index - 1].value : null;
+      runLength = previous !== null && Math.abs(value - previous) < thresholds.flatlineTolerance ? runLength + 1 : 1;
+      if (runLength >= QC_THRESHOLDS.flatlineBadCount) {
+        qa.flag(parameter, 'flatline', 'bad', `${thresholds.label} has not changed for ${runLength} readings (stuck sensor)`);
+      } else if (runLength >= QC_THRESHOLDS.flatlineSuspectCount) {
+        qa.flag(parameter, 'flatline', 'suspect', `${thresholds.label} has not changed for ${runLength} readings`);
+      }
+
+      // Spike: far from the average of both neighbours (QARTOD spike test)
+      if (index === 0 || index === usable.length - 1) return;
+      const before = usable[index - 1];
+      const after = usable[index + 1];
+      if (
+        before.reading.timestamp === null || after.reading.timestamp === null || reading.timestamp === null ||
+        reading.timestamp - before.reading.timestamp > QC_THRESHOLDS.neighbourMaxGapMs ||
+        after.reading.timestamp - reading.timestamp > QC_THRESHOLDS.neighbourMaxGapMs
+      ) {
+        return;
+      }
+      const spike = Math.abs(value - (before.value + after.value) / 2) - Math.abs(after.value - before.value) / 2;
+      if (spike > thresholds.spikeBad) {
+        qa.flag(parameter, 'spike', 'bad', `${thresholds.label} spikes by ${formatValue(spike, thresholds)} from its neighbours`);
+      } else if (spike > thresholds.spikeSuspect) {
+        qa.flag(parameter, 'spike', 'suspect', `${thresholds.label} spikes by ${formatValue(spike, thresholds)} from its neighbours`);
+      }
+    });
+  });
+
+  let lastTimed: BuoyReading | null = null;
+  let lastFix: BuoyReading | null = null;
+  series.forEach(reading => {
+    if (reading.timestamp === null) return;
+    const qa = assessments.get(reading)!;
+
+    // Stale: the logger repeated an old timestamp
+    if (lastTimed && lastTimed.timestamp! >= reading.timestamp) {
+      qa.flag('timestamp', 'stale', 'suspect', 'Timestamp is not newer than the previous reading from this buoy');
+      return;
+    }
+    lastTimed = reading;
+
+    // GPS jump: implied speed since the last good fix is too high for a moored buoy
+    if (!hasValidPosition(reading)) return;
+    if (lastFix) {
+      const meters = distanceMeters(lastFix.latitude!, lastFix.longitude!, reading.latitude!, reading.longitude!);
+      const seconds = Math.max((reading.timestamp - lastFix.timestamp!) / 1000, 1);
+      const speed = meters / seconds;
+      if (speed > QC_THRESHOLDS.gpsBadSpeed) {
+        qa.flag('position', 'gps_jump', 'bad', `Position jumped ${Math.round(meters)} m since the previous reading`);
+      } else if (speed > QC_THRESHOLDS.gpsSuspectSpeed) {
+        qa.flag('position', 'gps_jump', 'suspect', `Position moved ${Math.round(meters)} m since the previous reading`);
+      }
+    }
+    // A glitched fix should not become the reference for the next one
+    if (qa.parameters.position !== 'bad') {
+      lastFix = reading;
+    }
+  });
+};
+
+/**
+ * Run every QC test over a set of readings. Neighbour-based tests (spike,
+ * flatline, GPS jump, stale timestamp) compare readings from the same buoy in
+ * ID order, so pass as much context as you have. Results line up with the input.
+ * Pass `neighbourTests = false` for a sparse subset (e.g. a downsampled
+ * overview), where the readings next to each other were not consecutive.
+ */
+export const assessReadingQuality = (
+  readings: BuoyReading[],
+  now: number = Date.now(),
+  neighbourTests: boolean = true
+): ReadingQuality[] => {
+  const assessments = new Map<BuoyReading, QualityAssessment>();
+  const byBuoy = new Map<string, BuoyReading[]>();
+
+  readings.forEach(reading => {
+    const qa = new QualityAssessment();
+    checkReading(reading, qa, now);
+    assessments.set(reading, qa);
+
+    const key = reading.buoyId !== null ? String(reading.buoyId) : reading.buoy;
+    const series = byBuoy.get(key) || [];
+    series.push(reading);
+    byBuoy.set(key, series);
+  });
+
+  // IDs follow insertion order, which is the order the receiver saw them
+  if (neighbourTests) {
+    byBuoy.forEach(series => {
+      checkSeries([...series].sort((a, b) => a.id - b.id), assessments);
+    });
+  }
+
+  return readings.map(reading => assessments.get(reading)!.toQuality());
+};
+
+// Copy of `readings` with the `qc` field filled in
+export const withQualityFlags = (
+  readings: BuoyReading[],
+  now: number = Date.now(),
+  neighbourTests: boolean = true
+): BuoyReading[] => {
+  const qualities = assessReadingQuality(readings, now, neighbourTests);
+  return readings.map((reading, index) => ({ ...reading, qc: qualities[index] }));
+};
+
+// Flag for one parameter; readings that were never assessed count as good
+export const getParameterFlag = (reading: BuoyReading, parameter: QcParameter): QcFlag => {
+  return reading.qc?.parameters[parameter] ?? 'good';
+};
+
+// Value for statistics and indices: null if it is missing or failed QC
+export const getUsableValue = (reading: BuoyReading, parameter: SensorParameter): number | null => {
+  if (getParameterFlag(reading, parameter) === 'bad') return null;
+  return sensorValue(reading, parameter);
+};
+
+// Whether a value should be left out when flagged values are hidden
+export const isFlaggedValue = (reading: BuoyReading, parameter: QcParameter): boolean => {
+  const flag = getParameterFlag(reading, parameter);
+  return flag === 'suspect' || flag === 'bad';
+};
+
+// Copy of a reading with every value flagged bad set to null (for statistics and reports)
+export const withoutBadValues = (reading: BuoyReading): BuoyReading => {
+  const isBad = (parameter: QcParameter) => getParameterFlag(reading, parameter) === 'bad';
+  return {
+    ...reading,
+    pH: isBad('pH') ? null : reading.pH,
+    temperature: isBad('temperature') ? null : reading.temperature,
+    tds: isBad('tds') ? null : reading.tds,
+    latitude: isBad('position') ? null : reading.latitude,
+    longitude: isBad('position') ? null : reading.longitude,
+  };
+};
+
+// One line per issue, for alerts and reports
+export const describeQuality = (quality: ReadingQuality): string => {
+  if (quality.issues.length === 0) {
+    return 'All quality checks passed';
+  }
+  return quality.issues.map(issue => `${QC_FLAG_LABELS[issue.flag]}: ${issue.message}`).join('\n');
+};
@@ -0,0 +1,555 @@
+import * as SQLite from 'expo-sqlite';
+import { BuoyData, BuoyResponse } from './buoyService';
+import { BuoyReading, SERVER_UTC_OFFSET_MS, toBuoyReading, compareReadingsNewestFirst, formatMonthYear, toServerClock } from './buoyReading';
+import { settingsService } from './settingsService';
+import { minMaxBuckets } from './downsampling';
+
+const DATABASE_NAME = 'buoy_readings.db';
+const SYNC_FRESHNESS_MS = 30000; // Skip the network if synced within the last 30 seconds
+const DEFAULT_MAX_PAGES = 50;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface ReadingQuery {
+  buoyId?: number;
+  from?: number; // Epoch ms, inclusive
+  to?: number; // Epoch ms, inclusive
+  limit?: number;
+  offset?: number;
+}
+
+export interface RetentionPolicy {
+  maxAgeDays: number; // 0 = keep everything
+  maxReadings: number; // 0 = no size limit
+}
+
+export interface ReadingStoreStats {
+  count: number;
+  oldest: number | null;
+  newest: number | null;
+  lastSyncedId: number;
+  lastSyncTime: number;
+}
+
+interface SyncState {
+  lastSyncedId: number;
+  historyComplete: boolean;
+  lastSyncTime: number;
+  backfillPage: number; // Next page for the history backfill
+  backfillOldestId: number; // Lowest ID the backfill has stored, 0 before it starts
+}
+
+interface StoredRow {
+  row: BuoyData;
+  reading: BuoyReading;
+}
+
+const INITIAL_SYNC_STATE: SyncState = {
+  lastSyncedId: 0,
+  historyComplete: false,
+  lastSyncTime: 0,
+  backfillPage: 1,
+  backfillOldestId: 0,
+};
+
+const SCHEMA = `
+  PRAGMA journal_mode = WAL;
+  CREATE TABLE IF NOT EXISTS readings (
+    id INTEGER PRIMARY KEY NOT NULL,
+    buoy_id INTEGER,
+    timestamp INTEGER,
+    ph REAL,
+    temperature REAL,
+    tds REAL,
+    latitude REAL,
+    longitude REAL,
+    raw TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS idx_readings_timestamp ON readings (timestamp);
+  CREATE INDEX IF NOT EXISTS idx_readings_buoy_timestamp ON readings (buoy_id, timestamp);
+  CREATE TABLE IF NOT EXISTS sync_state (
+    key TEXT PRIMARY KEY NOT NULL,
+    value TEXT NOT NULL
+  );
+`;
+
+/**
+ * On-device time-series store for buoy readings, keyed by reading ID.
+ * Backed by SQLite; if the database cannot be opened (e.g. on web without the
+ * wasm build) readings are kept in memory for the session instead.
+ */
+class ReadingStore {
+  private static instance: ReadingStore;
+  private db: SQLite.SQLiteDatabase | null = null;
+  private memory = new Map<number, StoredRow>();
+  private syncState: SyncState = { ...INITIAL_SYNC_STATE };
+  private openPromise: Promise<void> | null = null;
+  private syncPromise: Promise<number> | null = null;
+
+  private constructor() {}
+
+  public static getInstance(): ReadingStore {
+    if (!ReadingStore.instance) {
+      ReadingStore.instance = new ReadingStore();
+    }
+    return ReadingStore.instance;
+  }
+
+  // Open the database and load the sync state (once)
+  async open(): Promise<void> {
+    if (!this.openPromise) {
+      this.openPromise = this.openDatabase();
+    }
+    return this.openPromise;
+  }
+
+  private async openDatabase(): Promise<void> {
+    try {
+      const db = await SQLite.openDatabaseAsync(DATABASE_NAME);
+      await db.execAsync(SCHEMA);
+      const saved = await db.getFirstAsync<{ value: string }>('SELECT value FROM sync_state WHERE key = ?', 'sync');
+      if (saved) {
+        this.syncState = { ...INITIAL_SYNC_STATE, ...JSON.parse(saved.value) };
+      }
+      this.db = db;
+      if (__DEV__) console.log('🗄️ Reading store opened');
+    } catch (error) {
+      console.error('⚠️ Could not open reading store, keeping readings in memory:', error);
+      this.db = null;
+    }
+  }
+
+  private async saveSyncState(): Promise<void> {
+    if (!this.db) return;
+    try {
+      await this.db.runAsync(
+        'INSERT OR REPLACE INTO sync_state (key, value) VALUES (?, ?)',
+        'sync',
+        JSON.stringify(this.syncState)
+      );
+    } catch (error) {
+      console.error('Error saving reading store sync state:', error);
+    }
+  }
+
+  // Insert rows that are not stored yet; returns the number of new rows
+  async upsertRows(rows: BuoyData[]): Promise<number> {
+    await this.open();
+    const valid = rows
+      .map(row => ({ row, reading: toBuoyReading(row) }))
+      .filter(entry => entry.reading.id > 0);
+    if (valid.length === 0) return 0;
+
+    if (!this.db) {
+      let added = 0;
+      valid.forEach(entry => {
+        if (!this.memory.has(entry.reading.id)) {
+          this.memory.set(entry.reading.id, entry);
+          added++;
+        }
+      });
+      return added;
+    }
+
+    const db = this.db;
+    let added = 0;
+    await db.withTransactionAsync(async () => {
+      for (const { row, reading } of valid) {
+        const result = await db.runAsync(
+          `INSERT OR IGNORE INTO readings (id, buoy_id, timestamp, ph, temperature, tds, latitude, longitude, raw)
+           VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+          reading.id,
+          reading.buoyId,
+          reading.timestamp,
+          reading.pH,
+          reading.temperature,
+          reading.tds,
+          reading.latitude,
+          reading.longitude,
+          JSON.stringify(row)
+        );
+        added += result.changes;
+      }
+    });
+    return added;
+  }
+
+  /**
+   * Pull readings from the server. Each sync first takes the rows with an ID
+   * above the last synced ID, stopping at the first page that contains an
+   * older one, then continues the history backfill for up to `maxPages` more
+   * pages from where the previous sync left off. Concurrent callers share the
+   * same in-flight sync.
+   */
+  async sync(fetchPage: (page: number) => Promise<BuoyResponse>, options: { force?: boolean; maxPages?: number } = {}): Promise<number> {
+    await this.open();
+
+    if (!options.force && Date.now() - this.syncState.lastSyncTime < SYNC_FRESHNESS_MS) {
+      return 0;
+    }
+
+    if (!this.syncPromise) {
+      this.syncPromise = this.runSync(fetchPage, options.maxPages ?? DEFAULT_MAX_PAGES)
+        .finally(() => {
+          this.syncPromise = null;
+        });
+    }
+    return this.syncPromise;
+  }
+
+  private async runSync(fetchPage: (page: number) => Promise<BuoyResponse>, maxPages: number): Promise<number> {
+    const lastSyncedId = this.syncState.lastSyncedId;
+    let highestId = lastSyncedId;
+    let added = 0;
+    let pages = 0;
+
+    const store = async (rows: BuoyData[]) => {
+      added += await this.upsertRows(rows);
+      rows.forEach(row => {
+        highestId = Math.max(highestId, parseInt(row.ID) || 0);
+      });
+    };
+
+    // Readings that arrived since the last sync
+    if (lastSyncedId > 0) {
+      if (__DEV__) console.log(`🗄️ Reading store: syncing readings after ID ${lastSyncedId}`);
+      for (let page = 1; page <= maxPages; page++) {
+        const response = await fetchPage(page);
+        pages++;
+        const newer = response.data.filter(row => (parseInt(row.ID) || 0) > lastSyncedId);
+        await store(newer);
+        if (newer.length < response.data.length || page >= response.totalPages) break;
+      }
+    }
+
+    // Older history, resumed from the saved cursor. New readings shift rows onto
+    // later pages, so the saved page is at or before where the backfill stopped;
+    // rows at or above the oldest backfilled ID are skipped.
+    if (!this.syncState.historyComplete) {
+      let page = this.syncState.backfillPage;
+      if (__DEV__) console.log(`🗄️ Reading store: backfilling history from page ${page}`);
+      for (let step = 0; step < maxPages; step++, page++) {
+        const response = await fetchPage(page);
+        pages++;
+        const oldestId = this.syncState.backfillOldestId;
+        const older = oldestId > 0
+          ? response.data.filter(row => (parseInt(row.ID) || 0) < oldestId)
+          : response.data;
+        await store(older);
+        older.forEach(row => {
+          const id = parseInt(row.ID) || 0;
+          if (id > 0 && (this.syncState.backfillOldestId === 0 || id < this.syncState.backfillOldestId)) {
+            this.syncState.backfillOldestId = id;
+          }
+        });
+        this.syncState.backfillPage = page + 1;
+
+        if (response.data.length === 0 || page >= response.totalPages) {
+          this.syncState.historyComplete = true;
+          break;
+        }
+      }
+    }
+
+    this.syncState.lastSyncedId = highestId;
+    this.syncState.lastSyncTime = Date.now();
+    await this.saveSyncState();
+    await this.applyRetention();
+
+    if (__DEV__) console.log(`🗄️ Reading store: added ${added} readings from ${pages} page(s)${this.syncState.historyComplete ? '' : ', backfill continues next sync'}`);
+    return added;
+  }
+
+  // When the last sync finished (epoch ms), 0 if the store has never synced
+  async getLastSyncTime(): Promise<number> {
+    await this.open();
+    return this.syncState.lastSyncTime;
+  }
+
+  // Retention configured in settings
+  getRetentionPolicy(): RetentionPolicy {
+    const settings = settingsService.getSettings();
+    return {
+      maxAgeDays: settings.historyRetentionDays,
+      maxReadings: settings.historyMaxReadings,
+    };
+  }
+
+  // Drop readings older than the retention window, then the oldest beyond the size cap
+  async applyRetention(policy: RetentionPolicy = this.getRetentionPolicy()): Promise<number> {
+    await this.open();
+    const cutoff = policy.maxAgeDays > 0 ? Date.now() - policy.maxAgeDays * DAY_MS : null;
+
+    if (!this.db) {
+      const before = this.memory.size;
+      if (cutoff !== null) {
+        this.memory.forEach((entry, id) => {
+          if (entry.reading.timestamp !== null && entry.reading.timestamp < cutoff) {
+            this.memory.delete(id);
+          }
+        });
+      }
+      if (policy.maxReadings > 0 && this.memory.size > policy.maxReadings) {
+        this.sortedMemory().slice(policy.maxReadings).forEach(entry => this.memory.delete(entry.reading.id));
+      }
+      return before - this.memory.size;
+    }
+
+    let removed = 0;
+    if (cutoff !== null) {
+      const result = await this.db.runAsync('DELETE FROM readings WHERE timestamp < ?', cutoff);
+      removed += result.changes;
+    }
+    if (policy.maxReadings > 0) {
+      const result = await this.db.runAsync(
+        `DELETE FROM readings WHERE id NOT IN (
+           SELECT id FROM readings ORDER BY timestamp DESC, id DESC LIMIT ?
+         )`,
+        policy.maxReadings
+      );
+      removed += result.changes;
+    }
+    if (removed > 0) {
+      if (__DEV__) console.log(`🧹 Reading store: removed ${removed} readings past retention`);
+    }
+    return removed;
+  }
+
+  private sortedMemory(): StoredRow[] {
+    return Array.from(this.memory.values())
+      .sort((a, b) => compareReadingsNewestFirst(a.reading, b.reading) || b.reading.id - a.reading.id);
+  }
+
+  private buildWhere(query: ReadingQuery): { clause: string; params: (number | string)[] } {
+    const conditions: string[] = [];
+    const params: (number | string)[] = [];
+    if (query.buoyId !== undefined) {
+      conditions.push('buoy_id = ?');
+      params.push(query.buoyId);
+    }
+    if (query.from !== undefined) {
+      conditions.push('timestamp >= ?');
+      params.push(query.from);
+    }
+    if (query.to !== undefined) {
+      conditions.push('timestamp <= ?');
+      params.push(query.to);
+    }
+    return {
+      clause: conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '',
+      params,
+    };
+  }
+
+  private matches(reading: BuoyReading, query: ReadingQuery): boolean {
+    if (query.buoyId !== undefined && reading.buoyId !== query.buoyId) return false;
+    if (query.from !== undefined || query.to !== undefined) {
+      if (reading.timestamp === null) return false;
+      if (query.from !== undefined && reading.timestamp < query.from) return false;
+      if (query.to !== undefined && reading.timestamp > query.to) return false;
+    }
+    return true;
+  }
+
+  // Raw rows matching the query, newest first
+  async queryRows(query: ReadingQuery = {}): Promise<BuoyData[]> {
+    await this.open();
+    const offset = query.offset ?? 0;
+
+    if (!this.db) {
+      const matching = this.sortedMemory().filter(entry => this.matches(entry.reading, query));
+      const end = query.limit !== undefined ? offset + query.limit : undefined;
+      return matching.slice(offset, end).map(entry => entry.row);
+    }
+
+    const { clause, params } = this.buildWhere(query);
+    const rows = await this.db.getAllAsync<{ raw: string }>(
+      `SELECT raw FROM readings ${clause} ORDER BY timestamp DESC, id DESC LIMIT ? OFFSET ?`,
+      ...params,
+      query.limit ?? -1,
+      offset
+    );
+    return rows.map(row => JSON.parse(row.raw) as BuoyData);
+  }
+
+  // Normalized readings matching the query, newest first
+  async query(query: ReadingQuery = {}): Promise<BuoyReading[]> {
+    const rows = await this.queryRows(query);
+    return rows.map(toBuoyReading);
+  }
+
+  /**
+   * Overview of a long range without loading all of it: the readings split
+   * into `buckets` equal time buckets per buoy, keeping the first and last
+   * reading of each and the lowest and highest pH, temperature and TDS.
+   * Same rule as minMaxBuckets in downsampling.ts. Newest first, like query().
+   */
+  async queryOverviewRows(query: ReadingQuery, buckets: number): Promise<BuoyData[]> {
+    await this.open();
+
+    if (!this.db) {
+      const matching = this.sortedMemory().filter(entry => this.matches(entry.reading, query)).reverse();
+      const rows = new Map(matching.map(entry => [entry.reading, entry.row]));
+      return minMaxBuckets(matching.map(entry => entry.reading), buckets)
+        .reverse()
+        .map(reading => rows.get(reading)!);
+    }
+
+    const { clause, params } = this.buildWhere(query);
+    const extent = await this.db.getFirstAsync<{ oldest: number | null; newest: number | null }>(
+      `SELECT MIN(timestamp) AS oldest, MAX(timestamp) AS newest FROM readings ${clause}`,
+      ...params
+    );
+    if (!extent || extent.oldest === null || extent.newest === null) return [];
+
+    // NULLs sort first in SQLite, so they are pushed to the end when looking for the lowest value
+    const rank = (order: string) => `ROW_NUMBER() OVER (PARTITION BY buoy_id, bucket ORDER BY ${order})`;
+    const rows = await this.db.getAllAsync<{ raw: string }>(
+      `SELECT raw FROM (
+         SELECT raw, timestamp, id,
+           ${rank('timestamp, id')} AS first_rank,
+           ${rank('timestamp DESC, id DESC')} AS last_rank,
+           ${rank('ph IS NULL, ph')} AS ph_low,
+           ${rank('ph DESC')} AS ph_high,
+           ${rank('temperature IS NULL, temperature')} AS temperature_low,
+           ${rank('temperature DESC')} AS temperature_high,
+           ${rank('tds IS NULL, tds')} AS tds_low,
+           ${rank('tds DESC')} AS tds_high
+         FROM (
+           SELECT raw, timestamp, id, buoy_id, ph, temperature, tds,
+             ((timestamp - ?) * ?) / ? AS bucket
+           FROM readings ${clause ? `${clause} AND` : 'WHERE'} timestamp IS NOT NULL
+         )
+       )
+       WHERE first_rank = 1 OR last_rank = 1 OR ph_low = 1 OR ph_high = 1
+         OR temperature_low = 1 OR temperature_high = 1 OR tds_low = 1 OR tds_high = 1
+       ORDER BY timestamp DESC, id DESC`,
+      extent.oldest,
+      buckets,
+      extent.newest - extent.oldest + 1,
+      ...params
+    );
+    return rows.map(row => JSON.parse(row.raw) as BuoyData);
+  }
+
+  async queryOverview(query: ReadingQuery, buckets: number): Promise<BuoyReading[]> {
+    const rows = await this.queryOverviewRows(query, buckets);
+    return rows.map(toBuoyReading);
+  }
+
+  async count(query: ReadingQuery = {}): Promise<number> {
+    await this.open();
+    if (!this.db) {
+      return Array.from(this.memory.values()).filter(entry => this.matches(entry.reading, query)).length;
+    }
+    const { clause, params } = this.buildWhere(query);
+    const result = await this.db.getFirstAsync<{ count: number }>(`SELECT COUNT(*) AS count FROM readings ${clause}`, ...params);
+    return result?.count ?? 0;
+  }
+
+  // Latest row for each buoy, ordered by buoy number
+  async latestPerBuoy(): Promise<BuoyData[]> {
+    await this.open();
+
+    if (!this.db) {
+      const latest = new Map<number, BuoyData>();
+      this.sortedMemory().forEach(entry => {
+        const { buoyId, timestamp } = entry.reading;
+        if (buoyId !== null && timestamp !== null && !latest.has(buoyId)) {
+          latest.set(buoyId, entry.row);
+        }
+      });
+      return Array.from(latest.entries()).sort((a, b) => a[0] - b[0]).map(([, row]) => row);
+    }
+
+    const rows = await this.db.getAllAsync<{ raw: string }>(
+      `SELECT r.raw FROM readings r
+       JOIN (
+         SELECT buoy_id, MAX(timestamp) AS latest FROM readings
+         WHERE buoy_id IS NOT NULL AND timestamp IS NOT NULL
+         GROUP BY buoy_id
+       ) l ON r.buoy_id = l.buoy_id AND r.timestamp = l.latest
+       GROUP BY r.buoy_id
+       ORDER BY r.buoy_id`
+    );
+    return rows.map(row => JSON.parse(row.raw) as BuoyData);
+  }
+
+  // Distinct "Aug 2025" style months and years, newest first
+  async distinctMonths(): Promise<{ months: string[]; years: string[] }> {
+    await this.open();
+
+    let timestamps: number[];
+    if (!this.db) {
+      timestamps = this.sortedMemory()
+        .map(entry => entry.reading.timestamp)
+        .filter((timestamp): timestamp is number => timestamp !== null);
+    } else {
+      // One representative timestamp per month (on the server's clock) keeps the result small
+      const rows = await this.db.getAllAsync<{ timestamp: number }>(
+        `SELECT MAX(timestamp) AS timestamp FROM readings
+         WHERE timestamp IS NOT NULL
+         GROUP BY strftime('%Y-%m', timestamp / 1000, 'unixepoch', '+${SERVER_UTC_OFFSET_MS / 1000} seconds')
+         ORDER BY timestamp DESC`
+      );
+      timestamps = rows.map(row => row.timestamp);
+    }
+
+    const months: string[] = [];
+    const years: string[] = [];
+    timestamps.forEach(timestamp => {
+      const month = formatMonthYear(timestamp);
+      const year = toServerClock(timestamp).getUTCFullYear().toString();
+      if (!months.includes(month)) months.push(month);
+      if (!years.includes(year)) years.push(year);
+    });
+    return { months, years };
+  }
+
+  async getStats(): Promise<ReadingStoreStats> {
+    await this.open();
+    const { lastSyncedId, lastSyncTime } = this.syncState;
+
+    if (!this.db) {
+      let oldest: number | null = null;
+      let newest: number | null = null;
+      this.memory.forEach(({ reading }) => {
+        if (reading.timestamp === null) return;
+        if (oldest === null || reading.timestamp < oldest) oldest = reading.timestamp;
+        if (newest === null || reading.timestamp > newest) newest = reading.timestamp;
+      });
+      return {
+        count: this.memory.size,
+        oldest,
+        newest,
+        lastSyncedId,
+        lastSyncTime,
+      };
+    }
+
+    const result = await this.db.getFirstAsync<{ count: number; oldest: number | null; newest: number | null }>(
+      'SELECT COUNT(*) AS count, MIN(timestamp) AS oldest, MAX(timestamp) AS newest FROM readings'
+    );
+    return {
+      count: result?.count ?? 0,
+      oldest: result?.oldest ?? null,
+      newest: result?.newest ?? null,
+      lastSyncedId,
+      lastSyncTime,
+    };
+  }
+
+  async clear(): Promise<void> {
+    await this.open();
+    this.memory.clear();
+    this.syncState = { ...INITIAL_SYNC_STATE };
+    if (!this.db) return;
+    try {
+      await this.db.execAsync('DELETE FROM readings; DELETE FROM sync_state;');
+    } catch (error) {
+      console.error('Error clearing reading store:', error);
+    }
+  }
+}
+
+// Export singleton instance
+export const readingStore = ReadingStore.getInstance();
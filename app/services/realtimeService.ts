@@ -0,0 +1,235 @@
+import { AppState, AppStateStatus } from 'react-native';
+import { JsonReading, parseJsonReading } from './buoyDataSource';
+import { ingestPushedReadings, refreshBuoyData } from './buoyService';
+import { addNetworkListener } from './networkService';
+
+// disabled = no realtime URL configured, so screens keep polling
+export type RealtimeStatus = 'disabled' | 'connecting' | 'connected' | 'disconnected';
+
+// Messages sent by the realtime server
+type RealtimeMessage =
+  | { type: 'reading'; reading: JsonReading }
+  | { type: 'ping' };
+
+const RECONNECT_BASE_DELAY = 1000;
+const RECONNECT_MAX_DELAY = 60000;
+const HEARTBEAT_TIMEOUT = 60000; // Server pings every 25s; silence this long means the channel is dead
+
+// Realtime channel for new readings, with reconnect and catch-up after drops
+class RealtimeService {
+  private static instance: RealtimeService;
+  private url = process.env.EXPO_PUBLIC_BUOY_REALTIME_URL || '';
+  private socket: WebSocket | null = null;
+  private status: RealtimeStatus = 'disabled';
+  private listeners: ((status: RealtimeStatus) => void)[] = [];
+  private started = false;
+  private reconnectAttempt = 0;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private heartbeatTimer: ReturnType<typeof setTimeout> | null = null;
+  private hasConnectedBefore = false;
+  private removeAppStateListener: (() => void) | null = null;
+  private removeNetworkListener: (() => void) | null = null;
+
+  static getInstance(): RealtimeService {
+    if (!RealtimeService.instance) {
+      RealtimeService.instance = new RealtimeService();
+    }
+    return RealtimeService.instance;
+  }
+
+  // Connect and keep the channel up while the app is in the foreground
+  start(): void {
+    if (this.started) return;
+    if (!this.url) {
+      if (__DEV__) console.log('📡 No realtime URL configured, using polling only');
+      this.setStatus('disabled');
+      return;
+    }
+
+    this.started = true;
+    const appStateSubscription = AppState.addEventListener('change', this.handleAppStateChange);
+    this.removeAppStateListener = () => appStateSubscription.remove();
+    // Reconnect straight away when the network comes back instead of waiting out the backoff
+    this.removeNetworkListener = addNetworkListener(state => {
+      if (state.isConnected && this.status === 'disconnected') {
+        this.reconnectAttempt = 0;
+        this.connect();
+      }
+    });
+    this.connect();
+  }
+
+  stop(): void {
+    this.started = false;
+    this.removeAppStateListener?.();
+    this.removeAppStateListener = null;
+    this.removeNetworkListener?.();
+    this.removeNetworkListener = null;
+    this.disconnect();
+    this.setStatus(this.url ? 'disconnected' : 'disabled');
+  }
+
+  getStatus(): RealtimeStatus {
+    return this.status;
+  }
+
+  isConnected(): boolean {
+    return this.status === 'connected';
+  }
+
+  // Subscribe to connection status changes
+  subscribe(listener: (status: RealtimeStatus) => void): () => void {
+    this.listeners.push(listener);
+    return () => {
+      const index = this.listeners.indexOf(listener);
+      if (index > -1) {
+        this.listeners.splice(index, 1);
+      }
+    };
+  }
+
+  private setStatus(status: RealtimeStatus): void {
+    if (this.status === status) return;
+    this.status = status;
+    this.listeners.forEach(listener => listener(status));
+  }
+
+  private connect(): void {
+    this.disconnect();
+    this.setStatus('connecting');
+
+    let socket: WebSocket;
+    try {
+      socket = new WebSocket(this.url);
+    } catch (error) {
+      console.error('Error opening realtime channel:', error);
+      this.scheduleReconnect();
+      return;
+    }
+    this.socket = socket;
+
+    socket.onopen = () => {
+      if (__DEV__) console.log('📡 Realtime channel connected');
+      const isReconnect = this.hasConnectedBefore;
+      this.hasConnectedBefore = true;
+      this.reconnectAttempt = 0;
+      this.resetHeartbeat();
+      this.setStatus('connected');
+      // Pick up anything inserted while the channel was down
+      if (isReconnect) {
+        refreshBuoyData().catch(error => console.error('Error catching up after reconnect:', error));
+      }
+    };
+
+    socket.onmessage = event => {
+      this.resetHeartbeat();
+      this.handleMessage(event.data);
+    };
+
+    socket.onerror = () => {
+      if (__DEV__) console.log('⚠️ Realtime channel error');
+    };
+
+    socket.onclose = () => {
+      if (this.socket !== socket) return;
+      if (__DEV__) console.log('📡 Realtime channel closed, falling back to polling');
+      this.socket = null;
+      this.clearHeartbeat();
+      this.setStatus('disconnected');
+      this.scheduleReconnect();
+    };
+  }
+
+  private disconnect(): void {
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    this.clearHeartbeat();
+    const socket = this.socket;
+    this.socket = null;
+    if (socket) {
+      socket.onopen = null;
+      socket.onmessage = null;
+      socket.onerror = null;
+      socket.onclose = null;
+      socket.close();
+    }
+  }
+
+  private scheduleReconnect(): void {
+    if (!this.started || AppState.currentState !== 'active') return;
+
+    const exponential = Math.min(RECONNECT_BASE_DELAY * Math.pow(2, this.reconnectAttempt), RECONNECT_MAX_DELAY);
+    const delay = Math.round(exponential * (0.5 + 0.5 * Math.random()));
+    this.reconnectAttempt++;
+    if (__DEV__) console.log(`📡 Reconnecting realtime channel in ${delay}ms`);
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.connect();
+    }, delay);
+  }
+
+  private resetHeartbeat(): void {
+    this.clearHeartbeat();
+    this.heartbeatTimer = setTimeout(() => {
+      if (__DEV__) console.log('⚠️ Realtime channel went quiet, reconnecting');
+      this.socket?.close();
+      // onclose is not guaranteed on a half-open connection
+      this.socket = null;
+      this.setStatus('disconnected');
+      this.scheduleReconnect();
+    }, HEARTBEAT_TIMEOUT);
+  }
+
+  private clearHeartbeat(): void {
+    if (this.heartbeatTimer) {
+      clearTimeout(this.heartbeatTimer);
+      this.heartbeatTimer = null;
+    }
+  }
+
+  private async handleMessage(data: unknown): Promise<void> {
+    let message: RealtimeMessage;
+    try {
+      message = JSON.parse(String(data));
+    } catch (error) {
+      console.error('Ignoring malformed realtime message:', data);
+      return;
+    }
+
+    if (message.type !== 'reading' || !message.reading) {
+      return;
+    }
+
+    try {
+      await ingestPushedReadings([parseJsonReading(message.reading)]);
+    } catch (error) {
+      console.error('Error handling pushed reading:', error);
+    }
+  }
+
+  // Close the socket in the background to save battery, reconnect on return
+  private handleAppStateChange = (state: AppStateStatus): void => {
+    if (!this.started) return;
+    if (state === 'active') {
+      if (this.status !== 'connected' && this.status !== 'connecting') {
+        this.reconnectAttempt = 0;
+        this.connect();
+      }
+    } else if (state === 'background') {
+      this.disconnect();
+      this.setStatus('disconnected');
+    }
+  };
+}
+
+// Export singleton instance
+export const realtimeService = RealtimeService.getInstance();
+
+// Export convenience functions
+export const startRealtime = () => realtimeService.start();
+export const stopRealtime = () => realtimeService.stop();
+export const isRealtimeConnected = () => realtimeService.isConnected();
+export const subscribeToRealtimeStatus = (listener: (status: RealtimeStatus) => void) =>
+  realtimeService.subscribe(listener);
@@ -0,0 +1,21 @@
+/**
+ * A buoy's usual reporting cadence, learned from its own readings. The
+ * heartbeat monitor uses it to tell when a buoy is late, statistics to count
+ * the reports a period should have, and buoy comparison to size its buckets.
+ */
+
+const DEFAULT_INTERVAL_MS = 30 * 60 * 1000;
+const MIN_INTERVAL_MS = 60 * 1000;
+const MAX_INTERVAL_MS = 6 * 60 * 60 * 1000;
+
+// Median gap between consecutive readings (newest first), ignoring duplicates
+export const learnInterval = (timestamps: number[]): number => {
+  const gaps = timestamps
+    .slice(1)
+    .map((timestamp, index) => timestamps[index] - timestamp)
+    .filter(gap => gap > 0)
+    .sort((a, b) => a - b);
+  if (gaps.length < 3) return DEFAULT_INTERVAL_MS;
+  const median = gaps[Math.floor(gaps.length / 2)];
+  return Math.min(MAX_INTERVAL_MS, Math.max(MIN_INTERVAL_MS, median));
+};
@@ -0,0 +1,89 @@
+import { BuoyApiError, classifyError, createAbortError, isAbortError } from './apiErrors';
+
+export interface RetryPolicy {
+  maxAttempts: number; // Including the first try
+  baseDelayMs: number; // Delay before the second attempt, doubled for each one after
+  maxDelayMs: number; // Upper bound for any single wait, including Retry-After
+  jitter: number; // 0 = fixed delays, 1 = anywhere between 0 and the computed delay
+  shouldRetry: (error: BuoyApiError, attempt: number) => boolean;
+}
+
+// Retry transient failures (network, timeout, 5xx/408/429) up to three times
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 3,
+  baseDelayMs: 1000,
+  maxDelayMs: 30000,
+  jitter: 0.5,
+  shouldRetry: error => error.retryable,
+};
+
+// Single attempt, e.g. for background checks that run again soon anyway
+export const NO_RETRY_POLICY: RetryPolicy = {
+  ...DEFAULT_RETRY_POLICY,
+  maxAttempts: 1,
+};
+
+// How long to wait after a failed attempt (1-based)
+export const getRetryDelay = (policy: RetryPolicy, attempt: number, error: BuoyApiError, random: () => number = Math.random): number => {
+  // The server knows best when it will be back
+  if (error.retryAfterMs !== undefined) {
+    return Math.min(error.retryAfterMs, policy.maxDelayMs);
+  }
+
+  const exponential = Math.min(policy.baseDelayMs * Math.pow(2, attempt - 1), policy.maxDelayMs);
+  const jitter = Math.min(Math.max(policy.jitter, 0), 1);
+  return Math.round(exponential * (1 - jitter + jitter * random()));
+};
+
+// Wait for `ms`, rejecting early if the signal aborts
+export const abortableDelay = (ms: number, signal?: AbortSignal): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(createAbortError());
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(createAbortError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+};
+
+/**
+ * Run `apiCall` under a retry policy. Failures are classified first; only
+ * those the policy accepts are retried, and the last classified error is
+ * thrown. Aborting the signal stops further attempts and the backoff wait.
+ */
+export const retryWithPolicy = async <T>(
+  apiCall: () => Promise<T>,
+  policy: RetryPolicy = DEFAULT_RETRY_POLICY,
+  signal?: AbortSignal
+): Promise<T> => {
+  for (let attempt = 1; ; attempt++) {
+    if (signal?.aborted) {
+      throw createAbortError();
+    }
+
+    try {
+      return await apiCall();
+    } catch (rawError) {
+      const error = classifyError(rawError);
+      if (isAbortError(error) || !(error instanceof BuoyApiError)) {
+        throw error;
+      }
+
+      if (attempt >= policy.maxAttempts || !policy.shouldRetry(error, attempt)) {
+        throw error;
+      }
+
+      const delay = getRetryDelay(policy, attempt, error);
+      console.log(`API call attempt ${attempt} failed (${error.kind}), retrying in ${delay}ms:`, error.message);
+      await abortableDelay(delay, signal);
+    }
+  }
+};
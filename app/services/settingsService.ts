@@ -1,4 +1,6 @@
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import { DEFAULT_WATER_QUALITY_STANDARD, WaterQualityStandardId } from './waterQuality';
+import { AnomalyConfig, AnomalyMethod, DEFAULT_ANOMALY_CONFIG } from './anomalyDetection';
 
 // Settings interface
 export interface AppSettings {
@@ -7,6 +9,21 @@ export interface AppSettings {
   dataRetentionPoints: number;
   offlineMode: boolean;
   notificationsEnabled: boolean;
+  historyRetentionDays: number; // Readings kept on device, 0 = keep everything
+  historyMaxReadings: number; // Size cap for the on-device store, 0 = no limit
+  buoyOfflineMinutes: number; // Silence after which a buoy counts as offline
+  backgroundSyncEnabled: boolean; // Sync and evaluate alerts while the app is closed
+  notificationDigestMinutes: number; // Non-critical notifications are batched over this window, 0 = send each one
+  quietHoursEnabled: boolean; // Only critical alerts are delivered during quiet hours
+  quietHoursStart: number; // Hour of day, 0-23
+  quietHoursEnd: number; // Hour of day, 0-23
+  waterQualityStandard: WaterQualityStandardId; // Standard the Water Quality Index is rated against
+  anomalyDetectionEnabled: boolean; // Flag unusual readings on graphs
+  anomalyNotificationsEnabled: boolean; // Also notify about new anomalies
+  anomalyMethod: AnomalyMethod; // Robust (median / Qn) or classic z-score
+  anomalyThreshold: number; // Score beyond which a reading is flagged
+  anomalyWindowSize: number; // Previous readings forming the baseline
+  anomalySeasonalTemperature: boolean; // Allow for the daily temperature cycle
 }
 
 // Default settings
@@ -16,8 +33,31 @@ export const DEFAULT_SETTINGS: AppSettings = {
   dataRetentionPoints: 20,
   offlineMode: false,
   notificationsEnabled: true,
+  historyRetentionDays: 180,
+  historyMaxReadings: 50000,
+  buoyOfflineMinutes: 120,
+  backgroundSyncEnabled: true,
+  notificationDigestMinutes: 5,
+  quietHoursEnabled: false,
+  quietHoursStart: 22,
+  quietHoursEnd: 6,
+  waterQualityStandard: DEFAULT_WATER_QUALITY_STANDARD,
+  anomalyDetectionEnabled: true,
+  anomalyNotificationsEnabled: false,
+  anomalyMethod: DEFAULT_ANOMALY_CONFIG.method,
+  anomalyThreshold: DEFAULT_ANOMALY_CONFIG.threshold,
+  anomalyWindowSize: DEFAULT_ANOMALY_CONFIG.windowSize,
+  anomalySeasonalTemperature: DEFAULT_ANOMALY_CONFIG.seasonalTemperature,
 };
 
+export const anomalyConfigFrom = (settings: AppSettings): AnomalyConfig => ({
+  ...DEFAULT_ANOMALY_CONFIG,
+  method: settings.anomalyMethod,
+  threshold: settings.anomalyThreshold,
+  windowSize: settings.anomalyWindowSize,
+  seasonalTemperature: settings.anomalySeasonalTemperature,
+});
+
 // Settings service class
 class SettingsService {
   private static instance: SettingsService;
@@ -39,6 +79,8 @@ class SettingsService {
       const savedSettings = await AsyncStorage.getItem('appSettings');
       if (savedSettings) {
         this.settings = { ...DEFAULT_SETTINGS, ...JSON.parse(savedSettings) };
+        // Anything but z-score is the robust method, including ids saved by earlier builds
+        if (this.settings.anomalyMethod !== 'zscore') this.settings.anomalyMethod = 'robust';
       }
       return this.settings;
     } catch (error) {
@@ -99,6 +141,15 @@ class SettingsService {
     return this.settings.notificationsEnabled;
   }
 
+  getBuoyOfflineMs(): number {
+    return this.settings.buoyOfflineMinutes * 60 * 1000;
+  }
+
+  // Detector configuration from the user's anomaly settings
+  getAnomalyConfig(): AnomalyConfig {
+    return anomalyConfigFrom(this.settings);
+  }
+
   // Subscribe to settings changes
   subscribe(listener: (settings: AppSettings) => void): () => void {
     this.listeners.push(listener);
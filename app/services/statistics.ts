@@ -0,0 +1,299 @@
+import { BuoyReading, formatMonthYear, formatServerTime, fromServerClock, toServerClock } from './buoyReading';
+import { getStoredReadings } from './buoyService';
+import { SensorParameter, getUsableValue } from './qualityControl';
+import { learnInterval } from './reportingInterval';
+
+/**
+ * Summary statistics for one parameter over any set of buoys and time window.
+ * Cards, charts and reports all go through here so their numbers agree.
+ * Values that are missing or failed QC are left out; completeness compares
+ * the values that remain with the number of reports each buoy should have
+ * sent at its usual cadence.
+ */
+
+export type StatisticsParameter = SensorParameter;
+export type AggregationPeriod = 'day' | 'week' | 'month';
+
+export interface StatisticsQuery {
+  parameter: StatisticsParameter;
+  buoyIds?: number[]; // Every buoy when omitted
+  from?: number; // Epoch ms, inclusive; the first reading when omitted
+  to?: number; // Epoch ms, inclusive; the last reading when omitted
+}
+
+export interface StatisticExtreme {
+  value: number;
+  timestamp: number;
+  buoy: string;
+}
+
+export interface ParameterStatistics {
+  parameter: StatisticsParameter;
+  count: number; // Usable values
+  mean: number | null; // null fields mean there were no usable values
+  median: number | null;
+  min: StatisticExtreme | null;
+  max: StatisticExtreme | null;
+  stdDev: number | null; // Sample standard deviation, 0 for a single value
+  p10: number | null;
+  p90: number | null;
+  expectedCount: number; // Reports due in the window at each buoy's cadence
+  completeness: number | null; // count / expectedCount, capped at 1; null if nothing was expected
+}
+
+export interface PeriodStatistics {
+  period: AggregationPeriod;
+  start: number; // Epoch ms, start of the day, week (Sunday) or month in server time
+  end: number; // Exclusive
+  label: string;
+  readingCount: number; // Readings in the period, usable or not
+  statistics: ParameterStatistics;
+}
+
+export interface PeriodSummary {
+  period: AggregationPeriod;
+  start: number;
+  end: number;
+  label: string;
+  readingCount: number;
+  statistics: Record<StatisticsParameter, ParameterStatistics>;
+}
+
+interface UsableValue {
+  value: number;
+  timestamp: number;
+  buoy: string;
+}
+
+const STATISTICS_PARAMETERS: StatisticsParameter[] = ['pH', 'temperature', 'tds'];
+
+const buoyKey = (reading: BuoyReading): string => (reading.buoyId !== null ? String(reading.buoyId) : reading.buoy);
+
+const inQuery = (reading: BuoyReading, query: StatisticsQuery): boolean => {
+  if (reading.timestamp === null) return false;
+  if (query.buoyIds && (reading.buoyId === null || !query.buoyIds.includes(reading.buoyId))) return false;
+  if (query.from !== undefined && reading.timestamp < query.from) return false;
+  if (query.to !== undefined && reading.timestamp > query.to) return false;
+  return true;
+};
+
+// Linear interpolation between closest ranks; `sorted` must be ascending
+export const percentile = (sorted: number[], p: number): number | null => {
+  if (sorted.length === 0) return null;
+  const rank = (sorted.length - 1) * Math.min(1, Math.max(0, p / 100));
+  const lower = Math.floor(rank);
+  const upper = Math.ceil(rank);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower);
+};
+
+// Reporting interval of every buoy in the set, learned from its own timestamps
+const learnIntervals = (readings: BuoyReading[]): Map<string, number> => {
+  const timestamps = new Map<string, number[]>();
+  readings.forEach(reading => {
+    if (reading.timestamp === null) return;
+    const key = buoyKey(reading);
+    if (!timestamps.has(key)) timestamps.set(key, []);
+    timestamps.get(key)!.push(reading.timestamp);
+  });
+  const intervals = new Map<string, number>();
+  timestamps.forEach((values, key) => {
+    intervals.set(key, learnInterval([...values].sort((a, b) => b - a)));
+  });
+  return intervals;
+};
+
+const summarize = (
+  parameter: StatisticsParameter,
+  values: UsableValue[],
+  window: { from: number; to: number } | null,
+  intervals: Map<string, number>
+): ParameterStatistics => {
+  let expectedCount = 0;
+  if (window && window.to >= window.from) {
+    intervals.forEach(interval => {
+      expectedCount += Math.floor((window.to - window.from) / interval) + 1;
+    });
+  }
+  const completeness = expectedCount > 0 ? Math.min(1, values.length / expectedCount) : null;
+
+  if (values.length === 0) {
+    return {
+      parameter, count: 0, mean: null, median: null, min: null, max: null,
+      stdDev: null, p10: null, p90: null, expectedCount, completeness,
+    };
+  }
+
+  const sorted = values.map(entry => entry.value).sort((a, b) => a - b);
+  const mean = sorted.reduce((sum, value) => sum + value, 0) / sorted.length;
+  const variance = sorted.length > 1
+    ? sorted.reduce((sum, value) => sum + (value - mean) ** 2, 0) / (sorted.length - 1)
+    : 0;
+  // Earliest occurrence wins a tie
+  const min = values.reduce((best, entry) => (entry.value < best.value || (entry.value === best.value && entry.timestamp < best.timestamp) ? entry : best));
+  const max = values.reduce((best, entry) => (entry.value > best.value || (entry.value === best.value && entry.timestamp < best.timestamp) ? entry : best));
+
+  return {
+    parameter,
+    count: sorted.length,
+    mean,
+    median: percentile(sorted, 50),
+    min: { ...min },
+    max: { ...max },
+    stdDev: Math.sqrt(variance),
+    p10: percentile(sorted, 10),
+    p90: percentile(sorted, 90),
+    expectedCount,
+    completeness,
+  };
+};
+
+const usableValues = (readings: BuoyReading[], parameter: StatisticsParameter): UsableValue[] => {
+  const values: UsableValue[] = [];
+  readings.forEach(reading => {
+    const value = getUsableValue(reading, parameter);
+    if (value !== null && reading.timestamp !== null) {
+      values.push({ value, timestamp: reading.timestamp, buoy: reading.buoy });
+    }
+  });
+  return values;
+};
+
+// Window the query covers, falling back to the span of the readings themselves
+const queryWindow = (readings: BuoyReading[], query: StatisticsQuery): { from: number; to: number } | null => {
+  // A loop rather than Math.min(...) so years of readings don't overflow the call stack
+  let oldest = Infinity;
+  let newest = -Infinity;
+  readings.forEach(reading => {
+    if (reading.timestamp === null) return;
+    if (reading.timestamp < oldest) oldest = reading.timestamp;
+    if (reading.timestamp > newest) newest = reading.timestamp;
+  });
+  if (oldest === Infinity && (query.from === undefined || query.to === undefined)) return null;
+  return {
+    from: query.from ?? oldest,
+    to: query.to ?? newest,
+  };
+};
+
+// Statistics for readings already in memory
+export const computeStatistics = (readings: BuoyReading[], query: StatisticsQuery): ParameterStatistics => {
+  const selected = readings.filter(reading => inQuery(reading, query));
+  return summarize(query.parameter, usableValues(selected, query.parameter), queryWindow(selected, query), learnIntervals(selected));
+};
+
+// Every parameter at once, e.g. for a card or a report table
+export const summarizeParameters = (
+  readings: BuoyReading[],
+  query: Omit<StatisticsQuery, 'parameter'>
+): Record<StatisticsParameter, ParameterStatistics> => {
+  return {
+    pH: computeStatistics(readings, { ...query, parameter: 'pH' }),
+    temperature: computeStatistics(readings, { ...query, parameter: 'temperature' }),
+    tds: computeStatistics(readings, { ...query, parameter: 'tds' }),
+  };
+};
+
+// Periods are calendar days, weeks and months on the server's clock, like the shared date range
+const periodStart = (timestamp: number, period: AggregationPeriod): number => {
+  const date = toServerClock(timestamp);
+  const [year, month, day] = [date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()];
+  if (period === 'week') return fromServerClock(year, month, day - date.getUTCDay());
+  if (period === 'month') return fromServerClock(year, month);
+  return fromServerClock(year, month, day);
+};
+
+const nextPeriodStart = (start: number, period: AggregationPeriod): number => {
+  const date = toServerClock(start);
+  const [year, month, day] = [date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()];
+  if (period === 'month') return fromServerClock(year, month + 1);
+  return fromServerClock(year, month, day + (period === 'week' ? 7 : 1));
+};
+
+const periodLabel = (start: number, period: AggregationPeriod): string => {
+  if (period === 'month') return formatMonthYear(start);
+  const day = formatServerTime(start, { month: 'short', day: 'numeric', year: 'numeric' });
+  return period === 'week' ? `Week of ${day}` : day;
+};
+
+// Statistics per day, week or month, oldest first; periods without readings are skipped
+export const aggregateStatistics = (readings: BuoyReading[], query: StatisticsQuery, period: AggregationPeriod): PeriodStatistics[] => {
+  const selected = readings.filter(reading => inQuery(reading, query));
+  const window = queryWindow(selected, query);
+  if (!window) return [];
+  // Cadence comes from the whole window so short periods still get a stable estimate
+  const intervals = learnIntervals(selected);
+
+  const buckets = new Map<number, BuoyReading[]>();
+  selected.forEach(reading => {
+    const start = periodStart(reading.timestamp!, period);
+    if (!buckets.has(start)) buckets.set(start, []);
+    buckets.get(start)!.push(reading);
+  });
+
+  return Array.from(buckets.keys())
+    .sort((a, b) => a - b)
+    .map(startMs => {
+      const end = nextPeriodStart(startMs, period);
+      // Partial first and last periods only expect reports inside the window
+      const bucketWindow = { from: Math.max(startMs, window.from), to: Math.min(end - 1, window.to) };
+      const bucketReadings = buckets.get(startMs)!;
+      return {
+        period,
+        start: startMs,
+        end,
+        label: periodLabel(startMs, period),
+        readingCount: bucketReadings.length,
+        statistics: summarize(query.parameter, usableValues(bucketReadings, query.parameter), bucketWindow, intervals),
+      };
+    });
+};
+
+// Every parameter per period, for charts and tables that show them side by side
+export const summarizeByPeriod = (
+  readings: BuoyReading[],
+  query: Omit<StatisticsQuery, 'parameter'>,
+  period: AggregationPeriod
+): PeriodSummary[] => {
+  // Periods depend only on the readings selected, so the three lists line up
+  const [pH, temperature, tds] = STATISTICS_PARAMETERS.map(parameter => aggregateStatistics(readings, { ...query, parameter }, period));
+  return pH.map((entry, index) => ({
+    period,
+    start: entry.start,
+    end: entry.end,
+    label: entry.label,
+    readingCount: entry.readingCount,
+    statistics: { pH: entry.statistics, temperature: temperature[index].statistics, tds: tds[index].statistics },
+  }));
+};
+
+// Stored readings for the query; other buoys are filtered out afterwards
+const loadReadings = async (query: Omit<StatisticsQuery, 'parameter'>): Promise<BuoyReading[]> => {
+  const { from, to, buoyIds } = query;
+  if (buoyIds && buoyIds.length === 1) {
+    return getStoredReadings({ buoyId: buoyIds[0], from, to });
+  }
+  return getStoredReadings({ from, to });
+};
+
+// Statistics straight from the on-device history
+export const getStatistics = async (query: StatisticsQuery): Promise<ParameterStatistics> => {
+  return computeStatistics(await loadReadings(query), query);
+};
+
+export const getParameterSummary = async (query: Omit<StatisticsQuery, 'parameter'>): Promise<Record<StatisticsParameter, ParameterStatistics>> => {
+  return summarizeParameters(await loadReadings(query), query);
+};
+
+export const getAggregatedStatistics = async (query: StatisticsQuery, period: AggregationPeriod): Promise<PeriodStatistics[]> => {
+  return aggregateStatistics(await loadReadings(query), query, period);
+};
+
+// e.g. "7.82", "1,204"; '—' when there is no value
+export const formatStatistic = (value: number | null, decimals: number = 2): string => {
+  if (value === null || !Number.isFinite(value)) return '—';
+  return value.toLocaleString('en-US', { minimumFractionDigits: decimals, maximumFractionDigits: decimals });
+};
+
+export const formatCompleteness = (completeness: number | null): string => {
+  return completeness === null ? '—' : `${Math.round(completeness * 100)}%`;
+};
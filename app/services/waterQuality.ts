@@ -0,0 +1,207 @@
+import { BuoyReading } from './buoyReading';
+import { getUsableValue } from './qualityControl';
+
+/**
+ * Water Quality Index (WQI): a single 0–100 score per reading, rated against
+ * a selectable standard. Each measured parameter gets a sub-index of 100
+ * inside the standard's limits, falling linearly to 0 as the value moves
+ * `tolerance` beyond them. The WQI is the weighted mean of the sub-indices
+ * that are available, banded into the CCME WQI categories.
+ */
+
+export type WqiParameter = 'pH' | 'temperature' | 'tds';
+export type WaterQualityStandardId = 'general' | 'denr-sb' | 'denr-sc' | 'aquaculture';
+export type WqiCategory = 'excellent' | 'good' | 'fair' | 'marginal' | 'poor';
+
+interface ParameterLimit {
+  min?: number;
+  max?: number;
+  tolerance: number; // Distance beyond the limit at which the sub-index reaches 0
+}
+
+export interface WaterQualityStandard {
+  id: WaterQualityStandardId;
+  label: string;
+  citation: string; // Shown in reports next to the WQI
+  limits: Partial<Record<WqiParameter, ParameterLimit>>; // Parameters the standard does not cover are left out
+}
+
+export interface WqiResult {
+  score: number; // 0-100
+  category: WqiCategory;
+  subIndices: Partial<Record<WqiParameter, number>>;
+  limiting: WqiParameter | null; // Parameter with the lowest sub-index
+}
+
+export interface WqiSummary {
+  score: number; // Mean WQI over the readings that could be scored
+  category: WqiCategory;
+  min: number;
+  max: number;
+  count: number;
+}
+
+export const WATER_QUALITY_STANDARDS: Record<WaterQualityStandardId, WaterQualityStandard> = {
+  // The general TDS limit is a freshwater value; the DENR marine classes set none, so seawater TDS is not rated against them
+  general: {
+    id: 'general',
+    label: 'General Guidelines (Freshwater)',
+    citation: 'General freshwater guidelines: pH 6.5–8.5, temperature 20–30 °C, TDS ≤ 500 mg/L',
+    limits: {
+      pH: { min: 6.5, max: 8.5, tolerance: 1 },
+      temperature: { min: 20, max: 30, tolerance: 10 },
+      tds: { max: 500, tolerance: 1000 },
+    },
+  },
+  'denr-sb': {
+    id: 'denr-sb',
+    label: 'DENR Class SB',
+    citation: 'DENR DAO 2016-08 marine Class SB (fishery water, recreational): pH 7.0–8.5, temperature 26–30 °C',
+    limits: {
+      pH: { min: 7.0, max: 8.5, tolerance: 1 },
+      temperature: { min: 26, max: 30, tolerance: 5 },
+    },
+  },
+  'denr-sc': {
+    id: 'denr-sc',
+    label: 'DENR Class SC',
+    citation: 'DENR DAO 2016-08 marine Class SC (fishery water, commercial and sustenance fishing): pH 6.5–8.5, temperature 25–31 °C',
+    limits: {
+      pH: { min: 6.5, max: 8.5, tolerance: 1 },
+      temperature: { min: 25, max: 31, tolerance: 5 },
+    },
+  },
+  aquaculture: {
+    id: 'aquaculture',
+    label: 'Aquaculture (Mariculture)',
+    citation: 'Tropical mariculture guidelines (milkfish, grouper, seaweed): pH 7.5–8.5, temperature 26–32 °C, TDS 25,000–36,000 mg/L (salinity 25–36 ppt)',
+    limits: {
+      pH: { min: 7.5, max: 8.5, tolerance: 1 },
+      temperature: { min: 26, max: 32, tolerance: 5 },
+      tds: { min: 25000, max: 36000, tolerance: 10000 },
+    },
+  },
+};
+
+// The buoys sit in seawater, so a marine class is the default
+export const DEFAULT_WATER_QUALITY_STANDARD: WaterQualityStandardId = 'denr-sc';
+
+// pH swings harm aquatic life fastest, so it counts a little more
+const PARAMETER_WEIGHTS: Record<WqiParameter, number> = {
+  pH: 0.4,
+  temperature: 0.3,
+  tds: 0.3,
+};
+
+const WQI_PARAMETERS: WqiParameter[] = ['pH', 'temperature', 'tds'];
+
+export const WQI_PARAMETER_LABELS: Record<WqiParameter, string> = {
+  pH: 'pH',
+  temperature: 'Temperature',
+  tds: 'TDS',
+};
+
+export const WQI_CATEGORY_LABELS: Record<WqiCategory, string> = {
+  excellent: 'Excellent',
+  good: 'Good',
+  fair: 'Fair',
+  marginal: 'Marginal',
+  poor: 'Poor',
+};
+
+export const WQI_CATEGORY_COLORS: Record<WqiCategory, string> = {
+  excellent: '#16a34a',
+  good: '#22c55e',
+  fair: '#eab308',
+  marginal: '#f59e0b',
+  poor: '#ef4444',
+};
+
+export const WQI_UNRATED_COLOR = '#94a3b8';
+
+export const getWaterQualityStandard = (id: WaterQualityStandardId): WaterQualityStandard => {
+  return WATER_QUALITY_STANDARDS[id] ?? WATER_QUALITY_STANDARDS[DEFAULT_WATER_QUALITY_STANDARD];
+};
+
+// CCME WQI bands
+export const getWqiCategory = (score: number): WqiCategory => {
+  if (score >= 95) return 'excellent';
+  if (score >= 80) return 'good';
+  if (score >= 65) return 'fair';
+  if (score >= 45) return 'marginal';
+  return 'poor';
+};
+
+// Sub-index for one value, or null if the standard does not cover the parameter
+export const parameterSubIndex = (value: number, parameter: WqiParameter, standard: WaterQualityStandard): number | null => {
+  const limit = standard.limits[parameter];
+  if (!limit) return null;
+  let excursion = 0;
+  if (limit.min !== undefined && value < limit.min) excursion = limit.min - value;
+  if (limit.max !== undefined && value > limit.max) excursion = value - limit.max;
+  return Math.max(0, 100 * (1 - excursion / limit.tolerance));
+};
+
+// Category for a single parameter value (e.g. a monthly average), null if not rated
+export const rateParameter = (value: number, parameter: WqiParameter, standard: WaterQualityStandard): WqiCategory | null => {
+  const subIndex = parameterSubIndex(value, parameter, standard);
+  return subIndex === null ? null : getWqiCategory(subIndex);
+};
+
+// WQI of one reading, or null if none of the standard's parameters were measured
+export const computeWqi = (reading: BuoyReading, standard: WaterQualityStandard): WqiResult | null => {
+  const subIndices: Partial<Record<WqiParameter, number>> = {};
+  let weightedSum = 0;
+  let totalWeight = 0;
+  let limiting: WqiParameter | null = null;
+
+  WQI_PARAMETERS.forEach(parameter => {
+    // Values that are missing or failed QC do not count towards the index
+    const value = getUsableValue(reading, parameter);
+    if (value === null) return;
+    const subIndex = parameterSubIndex(value, parameter, standard);
+    if (subIndex === null) return;
+    subIndices[parameter] = subIndex;
+    weightedSum += subIndex * PARAMETER_WEIGHTS[parameter];
+    totalWeight += PARAMETER_WEIGHTS[parameter];
+    if (limiting === null || subIndex < subIndices[limiting]!) limiting = parameter;
+  });
+
+  if (totalWeight === 0) return null;
+  const score = weightedSum / totalWeight;
+  return { score, category: getWqiCategory(score), subIndices, limiting };
+};
+
+// WQI of each reading in order, null where a reading could not be scored
+export const computeWqiSeries = (readings: BuoyReading[], standard: WaterQualityStandard): (number | null)[] => {
+  return readings.map(reading => computeWqi(reading, standard)?.score ?? null);
+};
+
+// Mean WQI over a period, or null if no reading could be scored
+export const summarizeWqi = (readings: BuoyReading[], standard: WaterQualityStandard): WqiSummary | null => {
+  const scores = computeWqiSeries(readings, standard).filter((score): score is number => score !== null);
+  if (scores.length === 0) return null;
+  const score = scores.reduce((sum, value) => sum + value, 0) / scores.length;
+  return {
+    score,
+    category: getWqiCategory(score),
+    min: scores.reduce((min, value) => Math.min(min, value)),
+    max: scores.reduce((max, value) => Math.max(max, value)),
+    count: scores.length,
+  };
+};
+
+// Mean WQI per buoy label, sorted by buoy
+export const summarizeWqiByBuoy = (readings: BuoyReading[], standard: WaterQualityStandard): { buoy: string; summary: WqiSummary }[] => {
+  const byBuoy = new Map<string, BuoyReading[]>();
+  readings.forEach(reading => {
+    if (!byBuoy.has(reading.buoy)) byBuoy.set(reading.buoy, []);
+    byBuoy.get(reading.buoy)!.push(reading);
+  });
+  return Array.from(byBuoy.entries())
+    .sort(([a], [b]) => a.localeCompare(b, undefined, { numeric: true }))
+    .map(([buoy, buoyReadings]) => ({ buoy, summary: summarizeWqi(buoyReadings, standard) }))
+    .filter((entry): entry is { buoy: string; summary: WqiSummary } => entry.summary !== null);
+};
+
+export const formatWqi = (score: number): string => Math.round(score).toString();
@@ -0,0 +1,125 @@
+import { AlertRule, AlertSample, evaluateAlertRule, hashAlertRules } from '../alertEvaluation';
+import { ServerReading, evaluateRuleSeries } from '../alertRules';
+
+const HOUR_MS = 60 * 60 * 1000;
+const START = Date.parse('2025-08-14T00:00:00Z');
+
+const rule = (overrides: Partial<AlertRule> = {}): AlertRule => ({
+  id: 'rule',
+  buoyId: null,
+  parameter: 'pH',
+  condition: 'below',
+  threshold: 7.0,
+  sustainedReadings: 1,
+  hysteresis: 0.2,
+  severity: 'warning',
+  enabled: true,
+  ...overrides,
+});
+
+// Hourly values with reading IDs from 1; null is a missing or bad value
+const hourly = (values: (number | null)[], firstHour: number = 0): AlertSample[] =>
+  values.map((value, index) => ({ readingId: firstHour + index + 1, timestamp: START + (firstHour + index) * HOUR_MS, value }));
+
+const firedIds = (alertRule: AlertRule, samples: AlertSample[]) => evaluateAlertRule(alertRule, samples, null).fired.map(match => match.readingId);
+
+describe('evaluateAlertRule', () => {
+  it('fires when the value crosses the threshold and not again while it stays past it', () => {
+    expect(firedIds(rule(), hourly([7.4, 7.1, 6.9, 6.8, 6.7]))).toEqual([3]);
+    expect(firedIds(rule({ condition: 'above', threshold: 9 }), hourly([8.8, 9.0, 9.1]))).toEqual([3]);
+  });
+
+  it('only clears once the value is back past the hysteresis band', () => {
+    // 7.1 is back above 7.0 but inside the 0.2 band, so dipping again does not re-fire
+    expect(firedIds(rule(), hourly([6.9, 7.1, 6.9, 7.2, 6.9]))).toEqual([1, 5]);
+  });
+
+  it('needs the sustained number of consecutive readings', () => {
+    const sustained = rule({ sustainedReadings: 3 });
+
+    expect(firedIds(sustained, hourly([6.9, 6.9, 7.1, 6.9, 6.9, 6.9]))).toEqual([6]);
+  });
+
+  it('starts a sustained streak over after a gap in the readings', () => {
+    const sustained = rule({ sustainedReadings: 2 });
+    // Eight hours without data between the first matching reading and the next
+    const samples = [...hourly([6.9]), ...hourly([6.9, 6.9], 9)];
+
+    expect(firedIds(sustained, samples)).toEqual([11]);
+  });
+
+  it('fires on the rate of change per hour and needs a recent previous reading', () => {
+    const rate = rule({ parameter: 'temperature', condition: 'rate', threshold: 2, hysteresis: 0.5 });
+    const samples = [...hourly([29, 29.5, 32, 32.2]), ...hourly([20], 12)];
+
+    const { fired } = evaluateAlertRule(rate, samples, null);
+
+    // The 12 °C drop comes after an 8-hour gap, so it has no rate
+    expect(fired).toHaveLength(1);
+    expect(fired[0]).toMatchObject({ readingId: 3, value: 32, change: 2.5, rate: 2.5 });
+  });
+
+  it('works through out-of-order readings by timestamp', () => {
+    const ordered = hourly([7.4, 6.9, 7.3, 6.8]);
+    const shuffled = [ordered[3], ordered[1], ordered[0], ordered[2]];
+
+    expect(firedIds(rule(), shuffled)).toEqual(firedIds(rule(), ordered));
+    expect(firedIds(rule(), shuffled)).toEqual([2, 4]);
+  });
+
+  it('skips a late reading older than one already evaluated', () => {
+    const first = evaluateAlertRule(rule(), hourly([7.4, 7.3, 7.3]), null);
+    const late = { readingId: 4, timestamp: START + 1.5 * HOUR_MS, value: 6.0 };
+
+    const second = evaluateAlertRule(rule(), [late, ...hourly([7.2], 3)], first.state);
+
+    expect(second.fired).toEqual([]);
+    expect(second.state).toMatchObject({ lastValue: 7.2, lastValueTime: START + 3 * HOUR_MS });
+  });
+
+  it('carries state between runs without modifying it', () => {
+    const first = evaluateAlertRule(rule(), hourly([6.9]), null);
+    const before = { ...first.state };
+
+    const second = evaluateAlertRule(rule(), hourly([6.8, 7.3, 6.9], 1), first.state);
+
+    expect(first.state).toEqual(before);
+    expect(second.fired.map(match => match.readingId)).toEqual([4]);
+  });
+
+  it('ignores missing values', () => {
+    expect(firedIds(rule({ sustainedReadings: 2 }), hourly([6.9, null, 6.9]))).toEqual([3]);
+  });
+});
+
+describe('evaluateRuleSeries', () => {
+  const row = (id: number, hour: number, ph: number): ServerReading => ({
+    id, buoy_id: 1, recorded_at: new Date(START + hour * HOUR_MS).toISOString(), ph, tds: 32000, temperature: 29,
+  });
+
+  it('evaluates rows in timestamp order, not ID order, like the app', () => {
+    // Row 3 arrived late with the oldest timestamp
+    const rows = [row(1, 1, 7.4), row(2, 2, 6.9), row(3, 0, 6.9)];
+
+    const { fired, state } = evaluateRuleSeries(rule({ sustainedReadings: 2 }), 1, rows, null);
+
+    expect(fired).toEqual([]);
+    expect(state).toMatchObject({ lastTimestamp: START + 2 * HOUR_MS, streak: 1 });
+  });
+
+  it('starts over when the rule was edited', () => {
+    const { state } = evaluateRuleSeries(rule(), 1, [row(1, 0, 6.9)], null);
+
+    expect(evaluateRuleSeries(rule(), 1, [row(2, 1, 6.8)], state).fired).toEqual([]);
+    expect(evaluateRuleSeries(rule({ threshold: 6.95 }), 1, [row(2, 1, 6.8)], state).fired).toHaveLength(1);
+  });
+});
+
+describe('hashAlertRules', () => {
+  it('is stable for the same rules and changes with any evaluated field', () => {
+    expect(hashAlertRules([rule()])).toBe(hashAlertRules([rule()]));
+    expect(hashAlertRules([rule({ threshold: 6.9 })])).not.toBe(hashAlertRules([rule()]));
+    expect(hashAlertRules([rule({ enabled: false })])).not.toBe(hashAlertRules([rule()]));
+    expect(hashAlertRules([])).not.toBe(hashAlertRules([rule()]));
+  });
+});
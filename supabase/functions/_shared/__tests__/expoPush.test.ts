@@ -0,0 +1,110 @@
+import { EXPO_PUSH_URL, ExpoPushMessage, ExpoPushTicket, isExpoPushToken, sendExpoPushes } from '../expoPush';
+
+const message = (index: number): ExpoPushMessage => ({
+  to: `ExponentPushToken[device-${index}]`,
+  title: 'Warning: Buoy 1 pH',
+  body: 'pH 6.90 (limit 7)',
+});
+
+const invalidTicket: ExpoPushTicket = {
+  status: 'error',
+  message: '"ExponentPushToken[device-1]" is not a registered push notification recipient',
+  details: { error: 'DeviceNotRegistered' },
+};
+
+// A push endpoint that answers each request with `respond(batch)`
+const endpoint = (respond: (batch: ExpoPushMessage[]) => { status?: number; tickets?: ExpoPushTicket[] }) => {
+  return jest.fn(async (_url: string, init: { body: string }) => {
+    const { status = 200, tickets = [] } = respond(JSON.parse(init.body));
+    return {
+      ok: status >= 200 && status < 300,
+      status,
+      json: async () => ({ data: tickets }),
+    };
+  });
+};
+
+const allOk = (batch: ExpoPushMessage[]) => ({ tickets: batch.map((_, index): ExpoPushTicket => ({ status: 'ok', id: `ticket-${index}` })) });
+
+beforeEach(() => {
+  jest.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => jest.restoreAllMocks());
+
+describe('sendExpoPushes', () => {
+  it('posts to Expo in batches of 100', async () => {
+    const fetch = endpoint(allOk);
+    const messages = Array.from({ length: 250 }, (_, index) => message(index));
+
+    const result = await sendExpoPushes(messages, { fetch: fetch as unknown as typeof globalThis.fetch });
+
+    expect(result).toEqual({ sent: 250, failed: 0, invalidTokens: [] });
+    expect(fetch.mock.calls.map(([, init]) => JSON.parse(init.body).length)).toEqual([100, 100, 50]);
+    expect(fetch.mock.calls[0][0]).toBe(EXPO_PUSH_URL);
+  });
+
+  it('sends to a stub endpoint with the access token when given', async () => {
+    const fetch = endpoint(allOk);
+
+    await sendExpoPushes([message(0)], { endpoint: 'http://localhost:8787', accessToken: 'secret', fetch: fetch as any });
+
+    const [url, init] = fetch.mock.calls[0] as unknown as [string, { headers: Record<string, string> }];
+    expect(url).toBe('http://localhost:8787');
+    expect(init.headers.Authorization).toBe('Bearer secret');
+  });
+
+  it('traces DeviceNotRegistered tickets back to their tokens', async () => {
+    const fetch = endpoint(batch => ({
+      tickets: batch.map((_, index): ExpoPushTicket => (index === 1 ? invalidTicket : { status: 'ok', id: `ticket-${index}` })),
+    }));
+
+    const result = await sendExpoPushes([message(0), message(1), message(2)], { fetch: fetch as any });
+
+    expect(result).toEqual({ sent: 2, failed: 1, invalidTokens: ['ExponentPushToken[device-1]'] });
+  });
+
+  it('counts other ticket errors and missing tickets as failed without removing the token', async () => {
+    const fetch = endpoint(() => ({
+      tickets: [
+        { status: 'ok', id: 'ticket-0' },
+        { status: 'error', message: 'Rate exceeded', details: { error: 'MessageRateExceeded' } },
+      ],
+    }));
+
+    const result = await sendExpoPushes([message(0), message(1), message(2)], { fetch: fetch as any });
+
+    expect(result).toEqual({ sent: 1, failed: 2, invalidTokens: [] });
+  });
+
+  it('fails only the batch the endpoint rejected and carries on with the rest', async () => {
+    let request = 0;
+    const fetch = endpoint(batch => (++request === 1 ? { status: 503 } : allOk(batch)));
+    const messages = Array.from({ length: 150 }, (_, index) => message(index));
+
+    const result = await sendExpoPushes(messages, { fetch: fetch as any });
+
+    expect(result).toEqual({ sent: 50, failed: 100, invalidTokens: [] });
+  });
+
+  it('counts a batch that could not be sent at all as failed', async () => {
+    const fetch = jest.fn(() => Promise.reject(new TypeError('fetch failed')));
+
+    await expect(sendExpoPushes([message(0), message(1)], { fetch: fetch as any })).resolves.toEqual({ sent: 0, failed: 2, invalidTokens: [] });
+  });
+
+  it('sends nothing for no messages', async () => {
+    const fetch = endpoint(allOk);
+
+    await expect(sendExpoPushes([], { fetch: fetch as any })).resolves.toEqual({ sent: 0, failed: 0, invalidTokens: [] });
+    expect(fetch).not.toHaveBeenCalled();
+  });
+});
+
+describe('isExpoPushToken', () => {
+  it('accepts both token prefixes and nothing else', () => {
+    expect(isExpoPushToken('ExponentPushToken[abc]')).toBe(true);
+    expect(isExpoPushToken('ExpoPushToken[abc]')).toBe(true);
+    expect(isExpoPushToken('abc')).toBe(false);
+  });
+});
@@ -0,0 +1,79 @@
+import { ServerReading, evaluateRuleSeries } from '../alertRules';
+import { FLATLINE_BAD_COUNT, QC_SENSOR_THRESHOLDS, withoutBadValues } from '../qualityControl';
+import { BuoyReading } from '../../../../app/services/buoyReading';
+import { QC_THRESHOLDS, withQualityFlags, withoutBadValues as appWithoutBadValues } from '../../../../app/services/qualityControl';
+
+const HOUR_MS = 60 * 60 * 1000;
+const START = Date.parse('2025-08-14T00:00:00Z');
+
+// Hourly readings from one buoy with a pH spike, a TDS value past the sensor range and a stuck temperature sensor
+const series: ServerReading[] = Array.from({ length: 14 }, (_, index) => ({
+  id: 500 + index,
+  buoy_id: 1,
+  recorded_at: new Date(START + index * HOUR_MS).toISOString(),
+  ph: index === 4 ? 10.9 : 8.1 + (index % 3) * 0.05,
+  tds: index === 7 ? 52000 : 32000 + (index % 4) * 200,
+  temperature: index >= 3 ? 28.4 : 29 + index * 0.2,
+}));
+
+const toAppReading = (reading: ServerReading): BuoyReading => ({
+  id: reading.id,
+  buoyId: reading.buoy_id,
+  buoy: `Buoy ${reading.buoy_id}`,
+  timestamp: Date.parse(reading.recorded_at),
+  latitude: 7.07,
+  longitude: 125.61,
+  pH: reading.ph,
+  temperature: reading.temperature,
+  tds: reading.tds,
+});
+
+describe('server quality control', () => {
+  it('uses the app thresholds', () => {
+    (['pH', 'temperature', 'tds'] as const).forEach(parameter => {
+      const app = QC_THRESHOLDS.sensors[parameter];
+      expect(QC_SENSOR_THRESHOLDS[parameter]).toEqual({
+        sensorRange: app.sensorRange,
+        spikeBad: app.spikeBad,
+        flatlineTolerance: app.flatlineTolerance,
+      });
+    });
+    expect(FLATLINE_BAD_COUNT).toBe(QC_THRESHOLDS.flatlineBadCount);
+  });
+
+  it('removes the same values as the app', () => {
+    const server = withoutBadValues(series);
+    const app = withQualityFlags(series.map(toAppReading), START + 48 * HOUR_MS).map(appWithoutBadValues);
+
+    expect(server.map(reading => [reading.ph, reading.tds, reading.temperature]))
+      .toEqual(app.map(reading => [reading.pH, reading.tds, reading.temperature]));
+    expect(server[4].ph).toBeNull();
+    expect(server[7].tds).toBeNull();
+    expect(server[13].temperature).toBeNull();
+  });
+
+  it('returns the readings oldest first without changing the input', () => {
+    const shuffled = [series[2], series[0], series[1]];
+    const result = withoutBadValues(shuffled);
+
+    expect(result.map(reading => reading.id)).toEqual([500, 501, 502]);
+    expect(shuffled[0].id).toBe(502);
+  });
+
+  it('keeps a pH spike from firing a push', () => {
+    const rule = {
+      id: 'ph-high',
+      buoyId: null,
+      parameter: 'pH' as const,
+      condition: 'above' as const,
+      threshold: 9,
+      sustainedReadings: 1,
+      hysteresis: 0.2,
+      severity: 'warning' as const,
+      enabled: true,
+    };
+
+    expect(evaluateRuleSeries(rule, 1, series, null).fired).toHaveLength(1);
+    expect(evaluateRuleSeries(rule, 1, withoutBadValues(series), null).fired).toHaveLength(0);
+  });
+});
@@ -0,0 +1,111 @@
+import fs from 'fs';
+import path from 'path';
+import { QuarantineReason, SENSOR_LIMITS, parseReceiverPayload, validateReceiverPayload } from '../readingValidation';
+
+interface SmsCase {
+  description: string;
+  sms: string;
+  reasons: QuarantineReason[]; // Empty when the reading should be accepted
+}
+
+// SMS messages as the buoys send them to the receiver
+const SMS_CASES: SmsCase[] = JSON.parse(fs.readFileSync(path.join(__dirname, 'fixtures', 'sms-messages.json'), 'utf8'));
+
+const NOW = Date.parse('2025-08-15T08:00:00+08:00');
+
+// convertToPHT() in buoyreceiver_improved.ino: "YYYY-MM-DDTHH:MM:SSZ" to Philippine date and time
+const toPhilippineTime = (dateTime: string): { date: string; time: string } => {
+  const local = new Date(Date.parse(dateTime) + 8 * 60 * 60 * 1000).toISOString();
+  return { date: local.slice(0, 10), time: local.slice(11, 19) };
+};
+
+// processSMS() and sendToAPIWithRetry(): split the SMS by its comma count and
+// build the JSON body the receiver posts, every field as a string
+const receiverBody = (sms: string): string => {
+  const parts = sms.split(',');
+  let fields: Record<string, string>;
+  switch (parts.length - 1) {
+    case 3: {
+      const [buoy_id, dateTime, latitude, longitude] = parts;
+      fields = { buoy_id, ...toPhilippineTime(dateTime), latitude, longitude, ph: '', tds: '', temperature: '' };
+      break;
+    }
+    case 4: {
+      const [buoy_id, , dateTime, latitude, longitude] = parts;
+      fields = { buoy_id, ...toPhilippineTime(dateTime), latitude, longitude, ph: '', tds: '', temperature: '' };
+      break;
+    }
+    case 6: {
+      const [buoy_id, dateTime, latitude, longitude, ph, tds, temperature] = parts;
+      fields = { buoy_id, ...toPhilippineTime(dateTime), latitude, longitude, ph, tds, temperature };
+      break;
+    }
+    case 7: {
+      const [buoy_id, date, time, latitude, longitude, ph, tds, temperature] = parts;
+      fields = { buoy_id, date, time, latitude, longitude, ph, tds, temperature };
+      break;
+    }
+    default:
+      throw new Error(`Unsupported SMS format: ${sms}`);
+  }
+  const order = ['buoy_id', 'date', 'time', 'latitude', 'longitude', 'ph', 'tds', 'temperature'];
+  return `{${order.map(key => `"${key}":"${fields[key]}"`).join(',')}}`;
+};
+
+const ingest = (sms: string) => {
+  const payload = parseReceiverPayload(JSON.parse(receiverBody(sms)));
+  if (!payload) throw new Error(`Payload rejected as malformed: ${sms}`);
+  return validateReceiverPayload(payload, NOW);
+};
+
+describe('validateReceiverPayload replaying receiver SMS', () => {
+  it.each(SMS_CASES.map(testCase => [testCase.description, testCase] as const))('%s', (_description, testCase) => {
+    const result = ingest(testCase.sms);
+    if (testCase.reasons.length === 0) {
+      expect(result).toMatchObject({ valid: true });
+    } else {
+      expect(result).toEqual({ valid: false, reasons: testCase.reasons });
+    }
+  });
+
+  it('accepts seawater TDS up to the firmware limit', () => {
+    expect(SENSOR_LIMITS.tds.max).toBe(50000);
+    expect(ingest('1,2025-08-14,10:30:00,7.0731,125.6128,8.12,31250,29.4')).toEqual({
+      valid: true,
+      reading: {
+        buoyId: 1,
+        recordedAt: '2025-08-14T10:30:00+08:00',
+        latitude: 7.0731,
+        longitude: 125.6128,
+        ph: 8.12,
+        tds: 31250,
+        temperature: 29.4,
+      },
+    });
+  });
+
+  it('stores UTC timestamps from the buoy in Philippine time', () => {
+    const result = ingest('3,2025-08-13T18:45:10Z,7.0655,125.6049,8.05,33400,28.6');
+    expect(result.valid && result.reading.recordedAt).toBe('2025-08-14T02:45:10+08:00');
+  });
+
+  it('stores position-only and no-sensor-board messages without sensor values', () => {
+    for (const sms of ['1,2025-08-14T03:00:00Z,7.0731,125.6128', '3,2025-08-14,11:00:00,7.0655,125.6049,0,0,0']) {
+      const result = ingest(sms);
+      expect(result.valid && result.reading).toMatchObject({ ph: null, tds: null, temperature: null });
+    }
+  });
+});
+
+describe('parseReceiverPayload', () => {
+  it('accepts numbers as well as strings', () => {
+    expect(parseReceiverPayload({ buoy_id: 1, date: '2025-08-14', time: '10:30:00', latitude: 7.07, longitude: 125.61, ph: 8.1, tds: 31000, temperature: 29 }))
+      .toMatchObject({ buoy_id: '1', tds: '31000' });
+  });
+
+  it('rejects bodies that are not a payload object', () => {
+    expect(parseReceiverPayload(null)).toBeNull();
+    expect(parseReceiverPayload([])).toBeNull();
+    expect(parseReceiverPayload({ buoy_id: { id: 1 } })).toBeNull();
+  });
+});
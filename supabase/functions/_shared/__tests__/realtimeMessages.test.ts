@@ -0,0 +1,53 @@
+import { PING_MESSAGE, readingMessage, toRealtimeReading } from '../realtimeMessages';
+import { parseJsonReading } from '../../../../app/services/buoyDataSource';
+import { toBuoyReading } from '../../../../app/services/buoyReading';
+
+const row = {
+  id: 812,
+  buoy_id: 2,
+  recorded_at: '2025-08-13T17:30:05+00:00', // 01:30:05 on Aug 14 in the Philippines
+  latitude: 7.0802,
+  longitude: 125.6211,
+  ph: 7.98,
+  tds: 30980,
+  temperature: 29.1,
+};
+
+describe('toRealtimeReading', () => {
+  it('writes the reading time as Philippine date and time', () => {
+    expect(toRealtimeReading(row)).toEqual({
+      id: 812,
+      buoy: 2,
+      date: '2025-08-14',
+      time: '01:30:05',
+      latitude: 7.0802,
+      longitude: 125.6211,
+      ph: 7.98,
+      temperature: 29.1,
+      tds: 30980,
+    });
+  });
+
+  it('keeps missing sensor values as null', () => {
+    expect(toRealtimeReading({ ...row, ph: null, tds: null, temperature: null })).toMatchObject({
+      ph: null,
+      tds: null,
+      temperature: null,
+    });
+  });
+});
+
+describe('realtime messages', () => {
+  it('are read by the app as the same reading the database stored', () => {
+    const message = JSON.parse(readingMessage(row));
+    expect(message.type).toBe('reading');
+
+    const reading = toBuoyReading(parseJsonReading(message.reading));
+    expect(reading).toMatchObject({ id: 812, buoyId: 2, buoy: 'Buoy 2', pH: 7.98, tds: 30980, temperature: 29.1 });
+    expect(reading.timestamp).toBe(Date.parse(row.recorded_at));
+  });
+
+  it('include the keep-alive ping the app expects', () => {
+    expect(JSON.parse(PING_MESSAGE)).toEqual({ type: 'ping' });
+  });
+});
@@ -0,0 +1,129 @@
+// Alert rule state machine shared by the app (app/services/alertService.ts)
+// and the push function (send-alert-pushes), so a push and a local alert fire
+// on the same reading. It has no imports, so Metro bundles it into the app and
+// Deno runs it as is.
+
+export type AlertParameter = 'pH' | 'temperature' | 'tds';
+export type AlertCondition = 'above' | 'below' | 'rate';
+export type AlertSeverity = 'info' | 'warning' | 'critical';
+
+// Stored in AsyncStorage by the app and uploaded to user_alert_rules
+export interface AlertRule {
+  id: string;
+  buoyId: number | null; // null = every buoy
+  parameter: AlertParameter;
+  condition: AlertCondition;
+  threshold: number; // Value for above/below, change per hour for rate
+  sustainedReadings: number; // Consecutive matching readings needed before firing
+  hysteresis: number; // How far back past the threshold the value must go to clear
+  severity: AlertSeverity;
+  enabled: boolean;
+}
+
+// One reading's value of the rule's parameter; null when missing or flagged bad
+export interface AlertSample {
+  readingId: number;
+  timestamp: number;
+  value: number | null;
+}
+
+// Per rule and buoy, persisted between evaluations
+export interface AlertRuleState {
+  active: boolean;
+  streak: number;
+  lastTimestamp: number; // Newest reading already evaluated; readings at or before it are skipped
+  lastValue: number | null;
+  lastValueTime: number | null;
+}
+
+export interface AlertMatch {
+  readingId: number;
+  timestamp: number;
+  value: number; // The reading's value (for rate rules too)
+  rate: number | null; // Change per hour since the previous reading
+  change: number | null; // Change since the previous reading
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Readings further apart are not compared: no rate, no spike test, and a sustained streak starts over
+export const NEIGHBOUR_MAX_GAP_MS = 6 * 60 * 60 * 1000;
+
+export const createAlertRuleState = (): AlertRuleState => ({
+  active: false, streak: 0, lastTimestamp: 0, lastValue: null, lastValueTime: null,
+});
+
+/**
+ * Step one rule's state machine through a buoy's readings. Readings are taken
+ * in timestamp order whatever order they arrive in, and any reading at or
+ * before the newest one already evaluated is skipped, so a late reading can
+ * neither fire an alert nor move the rate baseline back. Returns the alerts
+ * that fired and the new state; `previous` is not modified.
+ */
+export const evaluateAlertRule = (
+  rule: AlertRule,
+  samples: AlertSample[],
+  previous: AlertRuleState | null
+): { fired: AlertMatch[]; state: AlertRuleState } => {
+  const state: AlertRuleState = previous ? { ...previous } : createAlertRuleState();
+  const fired: AlertMatch[] = [];
+  const ordered = [...samples].sort((a, b) => a.timestamp - b.timestamp || a.readingId - b.readingId);
+
+  ordered.forEach(({ readingId, timestamp, value }) => {
+    if (timestamp <= state.lastTimestamp) return;
+    state.lastTimestamp = timestamp;
+    if (value === null) return;
+
+    const hasPrevious = state.lastValue !== null && state.lastValueTime !== null &&
+      timestamp - state.lastValueTime <= NEIGHBOUR_MAX_GAP_MS;
+    const change = hasPrevious ? value - (state.lastValue as number) : null;
+    const hours = hasPrevious ? (timestamp - (state.lastValueTime as number)) / HOUR_MS : 0;
+    const rate = change !== null && hours > 0 ? change / hours : null;
+    state.lastValue = value;
+    state.lastValueTime = timestamp;
+
+    // Rate rules need a previous reading; without one they cannot match or clear
+    const measured = rule.condition === 'rate' ? (rate === null ? null : Math.abs(rate)) : value;
+    if (measured === null) return;
+
+    if (state.active) {
+      const cleared = rule.condition === 'below'
+        ? measured >= rule.threshold + rule.hysteresis
+        : measured <= rule.threshold - rule.hysteresis;
+      if (cleared) {
+        state.active = false;
+        state.streak = 0;
+      }
+      return;
+    }
+
+    const matches = rule.condition === 'below' ? measured < rule.threshold : measured > rule.threshold;
+    // Readings either side of an outage are not consecutive
+    const streak = hasPrevious ? state.streak : 0;
+    state.streak = matches ? streak + 1 : 0;
+    if (state.streak >= Math.max(1, rule.sustainedReadings)) {
+      state.active = true;
+      fired.push({ readingId, timestamp, value, rate, change });
+    }
+  });
+
+  return { fired, state };
+};
+
+/**
+ * Fingerprint of a rule set. The push job records it with the buoys it covered
+ * for a user (push_buoy_coverage), and a phone only leaves alerts to the
+ * server while it matches the rules on the phone.
+ */
+export const hashAlertRules = (rules: AlertRule[]): string => {
+  const text = JSON.stringify(rules.map(rule => [
+    rule.id, rule.buoyId, rule.parameter, rule.condition, rule.threshold,
+    rule.sustainedReadings, rule.hysteresis, rule.severity, rule.enabled,
+  ]));
+  // 32-bit FNV-1a
+  let hash = 0x811c9dc5;
+  for (let index = 0; index < text.length; index++) {
+    hash = Math.imul(hash ^ text.charCodeAt(index), 0x01000193) >>> 0;
+  }
+  return `${rules.length}:${hash.toString(16).padStart(8, '0')}`;
+};
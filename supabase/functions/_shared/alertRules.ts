@@ -0,0 +1,136 @@
+// Alert rule evaluation for server-side pushes (supabase/functions/send-alert-pushes).
+// The state machine itself is shared with the app (alertEvaluation.ts), so a
+// push fires on the same reading a phone evaluating the rule locally would
+// have fired on.
+import {
+  AlertCondition,
+  AlertParameter,
+  AlertRule,
+  AlertRuleState,
+  AlertSeverity,
+  evaluateAlertRule,
+} from './alertEvaluation.ts';
+
+export type { AlertCondition, AlertParameter, AlertRule, AlertSeverity } from './alertEvaluation.ts';
+
+// A row of buoy_readings
+export interface ServerReading {
+  id: number;
+  buoy_id: number;
+  recorded_at: string;
+  ph: number | null;
+  tds: number | null;
+  temperature: number | null;
+}
+
+// Per user, rule and buoy; stored in push_alert_state
+export interface RuleState extends AlertRuleState {
+  ruleHash: string; // State is reset when the rule is edited
+}
+
+export interface AlertEvent {
+  rule: AlertRule;
+  buoyId: number;
+  readingId: number;
+  timestamp: number;
+  value: number;
+  rate: number | null;
+  change: number | null;
+}
+
+export const PARAMETER_COLUMNS: Record<AlertParameter, 'ph' | 'temperature' | 'tds'> = {
+  pH: 'ph',
+  temperature: 'temperature',
+  tds: 'tds',
+};
+
+const PARAMETER_LABELS: Record<AlertParameter, string> = {
+  pH: 'pH',
+  temperature: 'Temperature',
+  tds: 'TDS',
+};
+
+const PARAMETER_UNITS: Record<AlertParameter, string> = {
+  pH: '',
+  temperature: '°C',
+  tds: ' ppm',
+};
+
+const SEVERITY_LABELS: Record<AlertSeverity, string> = {
+  info: 'Info',
+  warning: 'Warning',
+  critical: 'Critical',
+};
+
+export const PARAMETERS: AlertParameter[] = ['pH', 'temperature', 'tds'];
+const CONDITIONS: AlertCondition[] = ['above', 'below', 'rate'];
+const SEVERITIES: AlertSeverity[] = ['info', 'warning', 'critical'];
+
+// Rules come from the phone as JSON; drop anything that is not a usable rule
+export const parseAlertRules = (value: unknown): AlertRule[] => {
+  if (!Array.isArray(value)) return [];
+  return value.filter((rule): rule is AlertRule =>
+    typeof rule === 'object' && rule !== null &&
+    typeof rule.id === 'string' &&
+    (rule.buoyId === null || Number.isInteger(rule.buoyId)) &&
+    PARAMETERS.includes(rule.parameter) &&
+    CONDITIONS.includes(rule.condition) &&
+    Number.isFinite(rule.threshold) &&
+    Number.isFinite(rule.sustainedReadings) &&
+    Number.isFinite(rule.hysteresis) &&
+    SEVERITIES.includes(rule.severity) &&
+    typeof rule.enabled === 'boolean'
+  );
+};
+
+export const hashAlertRule = (rule: AlertRule): string => {
+  return [rule.buoyId, rule.parameter, rule.condition, rule.threshold, rule.sustainedReadings, rule.hysteresis].join('|');
+};
+
+// Same format as alertEventKey() in app/services/alertHistoryService.ts
+export const alertEventKey = (event: AlertEvent): string => {
+  const { rule } = event;
+  return `${event.buoyId}:${rule.parameter}:${rule.condition}:${rule.threshold}:${event.readingId}`;
+};
+
+const formatNumber = (value: number, parameter: AlertParameter): string => {
+  return value.toFixed(parameter === 'tds' ? 0 : parameter === 'pH' ? 2 : 1);
+};
+
+export const formatAlertTitle = (event: AlertEvent): string => {
+  return `${SEVERITY_LABELS[event.rule.severity]}: Buoy ${event.buoyId} ${PARAMETER_LABELS[event.rule.parameter]}`;
+};
+
+export const formatAlertMessage = (event: AlertEvent): string => {
+  const { rule } = event;
+  const unit = PARAMETER_UNITS[rule.parameter];
+  const value = `${PARAMETER_LABELS[rule.parameter]} ${formatNumber(event.value, rule.parameter)}${unit}`;
+  const limit = rule.condition === 'rate' && event.rate !== null
+    ? `${formatNumber(Math.abs(event.rate), rule.parameter)}${unit}/h, limit ${rule.threshold}${unit}/h`
+    : `limit ${rule.threshold}${unit}`;
+  if (event.change === null) return `${value} (${limit})`;
+  const arrow = event.change > 0 ? '↑' : event.change < 0 ? '↓' : '→';
+  const sign = event.change > 0 ? '+' : '';
+  return `${value} (${limit}) - ${arrow} ${sign}${formatNumber(event.change, rule.parameter)}${unit} since last reading`;
+};
+
+// Step one rule's state machine through a buoy's new readings (see evaluateAlertRule).
+// The state passed in is not modified.
+export const evaluateRuleSeries = (
+  rule: AlertRule,
+  buoyId: number,
+  readings: ServerReading[],
+  previous: RuleState | null
+): { fired: AlertEvent[]; state: RuleState } => {
+  const ruleHash = hashAlertRule(rule);
+  const column = PARAMETER_COLUMNS[rule.parameter];
+  const { fired, state } = evaluateAlertRule(
+    rule,
+    readings.map(reading => ({ readingId: reading.id, timestamp: Date.parse(reading.recorded_at), value: reading[column] })),
+    previous && previous.ruleHash === ruleHash ? previous : null
+  );
+  return {
+    fired: fired.map(match => ({ rule, buoyId, ...match })),
+    state: { ...state, ruleHash },
+  };
+};
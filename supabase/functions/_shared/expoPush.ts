@@ -0,0 +1,86 @@
+// Sending through Expo's push API (https://docs.expo.dev/push-notifications/sending-notifications/).
+// The endpoint and fetch are injectable so the send path can run against a
+// stub server (see supabase/scripts/expo-push-stub.ts) instead of Expo.
+
+export const EXPO_PUSH_URL = 'https://exp.host/--/api/v2/push/send';
+const MAX_MESSAGES_PER_REQUEST = 100; // Expo's limit
+
+export interface ExpoPushMessage {
+  to: string;
+  title: string;
+  body: string;
+  data?: Record<string, unknown>;
+  sound?: 'default' | null;
+  priority?: 'default' | 'normal' | 'high';
+  channelId?: string; // Android notification channel
+}
+
+export type ExpoPushTicket =
+  | { status: 'ok'; id: string }
+  | { status: 'error'; message: string; details?: { error?: string } };
+
+export interface ExpoPushOptions {
+  endpoint?: string;
+  accessToken?: string; // Only needed if enhanced push security is on for the Expo project
+  fetch?: typeof fetch;
+}
+
+export interface ExpoPushResult {
+  sent: number;
+  failed: number;
+  invalidTokens: string[]; // Uninstalled apps or revoked tokens; delete these
+}
+
+export const isExpoPushToken = (token: string): boolean => {
+  return /^(ExponentPushToken|ExpoPushToken)\[[^\]]+\]$/.test(token);
+};
+
+/**
+ * Send messages in batches of 100. Tickets come back in the same order as the
+ * messages, which is how a DeviceNotRegistered error is traced to its token.
+ * A failed batch counts as failed and does not stop the rest.
+ */
+export const sendExpoPushes = async (
+  messages: ExpoPushMessage[],
+  options: ExpoPushOptions = {}
+): Promise<ExpoPushResult> => {
+  const endpoint = options.endpoint ?? EXPO_PUSH_URL;
+  const doFetch = options.fetch ?? fetch;
+  const result: ExpoPushResult = { sent: 0, failed: 0, invalidTokens: [] };
+
+  for (let start = 0; start < messages.length; start += MAX_MESSAGES_PER_REQUEST) {
+    const batch = messages.slice(start, start + MAX_MESSAGES_PER_REQUEST);
+    const headers: Record<string, string> = {
+      'Accept': 'application/json',
+      'Content-Type': 'application/json',
+    };
+    if (options.accessToken) {
+      headers['Authorization'] = `Bearer ${options.accessToken}`;
+    }
+
+    try {
+      const response = await doFetch(endpoint, { method: 'POST', headers, body: JSON.stringify(batch) });
+      if (!response.ok) {
+        throw new Error(`Push endpoint returned ${response.status}`);
+      }
+      const { data } = await response.json() as { data: ExpoPushTicket[] };
+
+      batch.forEach((message, index) => {
+        const ticket = data?.[index];
+        if (ticket?.status === 'ok') {
+          result.sent++;
+          return;
+        }
+        result.failed++;
+        if (ticket?.details?.error === 'DeviceNotRegistered') {
+          result.invalidTokens.push(message.to);
+        }
+      });
+    } catch (error) {
+      console.error('Error sending push batch:', error);
+      result.failed += batch.length;
+    }
+  }
+
+  return result;
+};
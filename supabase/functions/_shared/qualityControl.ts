@@ -0,0 +1,73 @@
+// Quality control for server-side alert evaluation. Ports the tests from
+// app/services/qualityControl.ts that can flag a sensor value bad (sensor
+// range, spike, flatline), so a push skips the same values a local alert
+// skips (withoutBadValues in the app).
+import { NEIGHBOUR_MAX_GAP_MS } from './alertEvaluation.ts';
+import { AlertParameter, PARAMETERS, PARAMETER_COLUMNS, ServerReading } from './alertRules.ts';
+
+interface SensorThresholds {
+  sensorRange: [number, number];
+  spikeBad: number;
+  flatlineTolerance: number;
+}
+
+// Same values as QC_THRESHOLDS in the app
+export const QC_SENSOR_THRESHOLDS: Record<AlertParameter, SensorThresholds> = {
+  pH: { sensorRange: [0, 14], spikeBad: 1.5, flatlineTolerance: 0.001 },
+  temperature: { sensorRange: [-10, 50], spikeBad: 5, flatlineTolerance: 0.01 },
+  tds: { sensorRange: [0, 50000], spikeBad: 5000, flatlineTolerance: 1 },
+};
+export const FLATLINE_BAD_COUNT = 8;
+
+// Earlier readings of a buoy to evaluate along with new ones, so the first
+// new readings get the full flatline and spike tests
+export const QC_CONTEXT_READINGS = FLATLINE_BAD_COUNT;
+
+/**
+ * Copy of one buoy's readings, oldest first, with every sensor value that
+ * fails QC set to null. Values outside the sensor range are left out of the
+ * neighbour tests, as in the app.
+ */
+export const withoutBadValues = (series: ServerReading[]): ServerReading[] => {
+  const sorted = [...series].sort((a, b) => a.id - b.id);
+  const cleaned = sorted.map(reading => ({ ...reading }));
+
+  PARAMETERS.forEach(parameter => {
+    const column = PARAMETER_COLUMNS[parameter];
+    const { sensorRange: [min, max], spikeBad, flatlineTolerance } = QC_SENSOR_THRESHOLDS[parameter];
+    const bad = new Set<number>();
+    const usable: { index: number; value: number; timestamp: number }[] = [];
+
+    sorted.forEach((reading, index) => {
+      const value = reading[column];
+      if (value === null) return;
+      if (value < min || value > max) {
+        bad.add(index);
+        return;
+      }
+      usable.push({ index, value, timestamp: Date.parse(reading.recorded_at) });
+    });
+
+    let runLength = 0;
+    usable.forEach((entry, position) => {
+      const previous = position > 0 ? usable[position - 1].value : null;
+      runLength = previous !== null && Math.abs(entry.value - previous) < flatlineTolerance ? runLength + 1 : 1;
+      if (runLength >= FLATLINE_BAD_COUNT) bad.add(entry.index);
+
+      if (position === 0 || position === usable.length - 1) return;
+      const before = usable[position - 1];
+      const after = usable[position + 1];
+      if (entry.timestamp - before.timestamp > NEIGHBOUR_MAX_GAP_MS || after.timestamp - entry.timestamp > NEIGHBOUR_MAX_GAP_MS) {
+        return;
+      }
+      const spike = Math.abs(entry.value - (before.value + after.value) / 2) - Math.abs(after.value - before.value) / 2;
+      if (spike > spikeBad) bad.add(entry.index);
+    });
+
+    bad.forEach(index => {
+      cleaned[index][column] = null;
+    });
+  });
+
+  return cleaned;
+};
@@ -0,0 +1,170 @@
+// Validation for readings posted by the ESP32 receiver (buoyreceiver_improved.ino).
+// Mirrors the firmware checks so bad data is caught even if a receiver skips them.
+
+// JSON body sent by sendToAPIWithRetry(); the firmware sends every field as a string
+export interface ReceiverPayload {
+  buoy_id: string;
+  date: string; // YYYY-MM-DD, Philippine time
+  time: string; // HH:MM:SS, Philippine time
+  latitude: string;
+  longitude: string;
+  ph: string;
+  tds: string;
+  temperature: string;
+}
+
+// A reading that passed every check, ready to insert
+export interface ValidatedReading {
+  buoyId: number;
+  recordedAt: string; // ISO 8601 with the +08:00 offset
+  latitude: number;
+  longitude: number;
+  ph: number | null; // null for position-only messages
+  tds: number | null;
+  temperature: number | null;
+}
+
+export type QuarantineReason =
+  | 'malformed_payload'
+  | 'invalid_buoy_id'
+  | 'invalid_date'
+  | 'invalid_time'
+  | 'future_timestamp'
+  | 'invalid_gps'
+  | 'ph_out_of_range'
+  | 'tds_out_of_range'
+  | 'temperature_out_of_range';
+
+export type ValidationResult =
+  | { valid: true; reading: ValidatedReading }
+  | { valid: false; reasons: QuarantineReason[] };
+
+// Sensor limits shared with the firmware's validateSensorReading()
+export const SENSOR_LIMITS = {
+  ph: { min: 0, max: 14 },
+  tds: { min: 0, max: 50000 }, // ppm; seawater reads 30000-40000
+  temperature: { min: -10, max: 50 }, // °C
+} as const;
+
+const PHILIPPINE_OFFSET = '+08:00';
+const MIN_YEAR = 2020;
+const MAX_CLOCK_SKEW_MS = 10 * 60 * 1000; // Receiver clocks drift; allow a little
+
+const PAYLOAD_FIELDS: (keyof ReceiverPayload)[] = [
+  'buoy_id', 'date', 'time', 'latitude', 'longitude', 'ph', 'tds', 'temperature',
+];
+
+// Parse a numeric field; empty means "not sent", anything unparseable is NaN (fails every range check)
+const parseField = (value: string): number | null => {
+  const text = value.trim();
+  if (text === '') return null;
+  return /^[-+]?\d+(\.\d+)?$/.test(text) ? parseFloat(text) : NaN;
+};
+
+const inRange = (value: number | null, limits: { min: number; max: number }): boolean => {
+  return value === null || (value >= limits.min && value <= limits.max);
+};
+
+// Narrow an unknown JSON body to the receiver payload shape (numbers are accepted too)
+export const parseReceiverPayload = (body: unknown): ReceiverPayload | null => {
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    return null;
+  }
+
+  const record = body as Record<string, unknown>;
+  const payload: Partial<ReceiverPayload> = {};
+  for (const field of PAYLOAD_FIELDS) {
+    const value = record[field];
+    if (value === undefined || value === null) {
+      payload[field] = '';
+    } else if (typeof value === 'string' || typeof value === 'number') {
+      payload[field] = String(value);
+    } else {
+      return null;
+    }
+  }
+  return payload as ReceiverPayload;
+};
+
+const isValidDate = (date: string): boolean => {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(date);
+  if (!match) return false;
+  const [year, month, day] = [parseInt(match[1]), parseInt(match[2]), parseInt(match[3])];
+  if (year < MIN_YEAR || month < 1 || month > 12 || day < 1) return false;
+  // Day 0 of the next month is the last day of this one
+  return day <= new Date(Date.UTC(year, month, 0)).getUTCDate();
+};
+
+const isValidTime = (time: string): boolean => {
+  const match = /^(\d{2}):(\d{2}):(\d{2})$/.exec(time);
+  if (!match) return false;
+  return parseInt(match[1]) < 24 && parseInt(match[2]) < 60 && parseInt(match[3]) < 60;
+};
+
+/**
+ * Check a receiver payload against the firmware rules. Every failed check is
+ * reported so quarantined rows say everything that was wrong with them.
+ */
+export const validateReceiverPayload = (payload: ReceiverPayload, now: number = Date.now()): ValidationResult => {
+  const reasons: QuarantineReason[] = [];
+
+  const buoyId = /^\d+$/.test(payload.buoy_id.trim()) ? parseInt(payload.buoy_id.trim()) : NaN;
+  if (!(buoyId > 0)) reasons.push('invalid_buoy_id');
+
+  const date = payload.date.trim();
+  const time = payload.time.trim();
+  const dateValid = isValidDate(date);
+  const timeValid = isValidTime(time);
+  if (!dateValid) reasons.push('invalid_date');
+  if (!timeValid) reasons.push('invalid_time');
+
+  const recordedAt = `${date}T${time}${PHILIPPINE_OFFSET}`;
+  if (dateValid && timeValid && Date.parse(recordedAt) > now + MAX_CLOCK_SKEW_MS) {
+    reasons.push('future_timestamp');
+  }
+
+  const latitude = parseField(payload.latitude);
+  const longitude = parseField(payload.longitude);
+  if (
+    latitude === null || longitude === null || isNaN(latitude) || isNaN(longitude) ||
+    latitude < -90 || latitude > 90 || longitude < -180 || longitude > 180
+  ) {
+    reasons.push('invalid_gps');
+  }
+
+  let ph = parseField(payload.ph);
+  let tds = parseField(payload.tds);
+  let temperature = parseField(payload.temperature);
+  // The firmware sends 0,0,0 when a buoy has no sensor board
+  if (ph === 0 && tds === 0 && temperature === 0) {
+    ph = tds = temperature = null;
+  }
+  if (!inRange(ph, SENSOR_LIMITS.ph)) reasons.push('ph_out_of_range');
+  if (!inRange(tds, SENSOR_LIMITS.tds)) reasons.push('tds_out_of_range');
+  if (!inRange(temperature, SENSOR_LIMITS.temperature)) reasons.push('temperature_out_of_range');
+
+  if (reasons.length > 0) {
+    return { valid: false, reasons };
+  }
+
+  return {
+    valid: true,
+    reading: {
+      buoyId,
+      recordedAt,
+      latitude: latitude as number,
+      longitude: longitude as number,
+      ph,
+      tds,
+      temperature,
+    },
+  };
+};
+
+// SHA-256 hex digest of a receiver API key; only hashes are stored
+export const hashApiKey = async (apiKey: string): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(apiKey));
+  return Array.from(new Uint8Array(digest))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('');
+};
@@ -0,0 +1,51 @@
+// Messages for the app's live-update channel (app/services/realtimeService.ts),
+// built from buoy_readings rows by supabase/functions/realtime-readings.
+
+// A row of buoy_readings as Supabase Realtime delivers it
+export interface BuoyReadingRow {
+  id: number;
+  buoy_id: number;
+  recorded_at: string; // ISO 8601; Realtime sends timestamptz in UTC
+  latitude: number;
+  longitude: number;
+  ph: number | null;
+  tds: number | null;
+  temperature: number | null;
+}
+
+// Same fields as a JSON endpoint row (JsonReading in app/services/buoyDataSource.ts)
+export interface RealtimeReading {
+  id: number;
+  buoy: number;
+  date: string; // YYYY-MM-DD, Philippine time
+  time: string; // HH:MM:SS, Philippine time
+  latitude: number;
+  longitude: number;
+  ph: number | null;
+  temperature: number | null;
+  tds: number | null;
+}
+
+const PHILIPPINE_OFFSET_MS = 8 * 60 * 60 * 1000;
+
+export const PING_MESSAGE = JSON.stringify({ type: 'ping' });
+
+// The app reads dates and times as Philippine time, the way the receivers send them
+export const toRealtimeReading = (row: BuoyReadingRow): RealtimeReading => {
+  const local = new Date(new Date(row.recorded_at).getTime() + PHILIPPINE_OFFSET_MS).toISOString();
+  return {
+    id: row.id,
+    buoy: row.buoy_id,
+    date: local.slice(0, 10),
+    time: local.slice(11, 19),
+    latitude: row.latitude,
+    longitude: row.longitude,
+    ph: row.ph,
+    temperature: row.temperature,
+    tds: row.tds,
+  };
+};
+
+export const readingMessage = (row: BuoyReadingRow): string => {
+  return JSON.stringify({ type: 'reading', reading: toRealtimeReading(row) });
+};
@@ -0,0 +1,130 @@
+// Supabase Edge Function: accepts readings from the ESP32 receivers.
+// Valid readings go to buoy_readings, invalid ones to quarantined_readings with
+// the reasons they failed. Deploy with `supabase functions deploy ingest-reading --no-verify-jwt`
+// (receivers authenticate with their own API key, not a Supabase session).
+import { createClient, SupabaseClient } from 'npm:@supabase/supabase-js@2';
+import {
+  QuarantineReason,
+  hashApiKey,
+  parseReceiverPayload,
+  validateReceiverPayload,
+} from '../_shared/readingValidation.ts';
+
+const UNIQUE_VIOLATION = '23505';
+
+const jsonResponse = (status: number, body: Record<string, unknown>): Response => {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+};
+
+// Receivers send `X-Api-Key: <key>`; `Authorization: Bearer <key>` also works
+const readApiKey = (req: Request): string | null => {
+  const header = req.headers.get('x-api-key');
+  if (header) return header.trim();
+  const authorization = req.headers.get('authorization');
+  const match = authorization ? /^Bearer\s+(.+)$/i.exec(authorization) : null;
+  return match ? match[1].trim() : null;
+};
+
+// Look up an active receiver by API key hash
+const findReceiver = async (supabase: SupabaseClient, apiKey: string): Promise<{ id: string; name: string } | null> => {
+  const { data, error } = await supabase
+    .from('receiver_api_keys')
+    .select('id, receiver_name')
+    .eq('key_hash', await hashApiKey(apiKey))
+    .eq('active', true)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data ? { id: data.id, name: data.receiver_name } : null;
+};
+
+const quarantine = async (
+  supabase: SupabaseClient,
+  receiverId: string,
+  payload: unknown,
+  reasons: QuarantineReason[]
+): Promise<Response> => {
+  const { error } = await supabase.from('quarantined_readings').insert({
+    receiver_id: receiverId,
+    payload,
+    reasons,
+  });
+  if (error) throw error;
+
+  console.log(`🚫 Quarantined reading from receiver ${receiverId}: ${reasons.join(', ')}`);
+  // 200 so the firmware does not retry a reading that will never pass
+  return jsonResponse(200, { status: 'quarantined', reasons });
+};
+
+Deno.serve(async req => {
+  if (req.method !== 'POST') {
+    return jsonResponse(405, { error: 'Method not allowed' });
+  }
+
+  const supabase = createClient(
+    Deno.env.get('SUPABASE_URL') ?? '',
+    Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+  );
+
+  try {
+    const apiKey = readApiKey(req);
+    const receiver = apiKey ? await findReceiver(supabase, apiKey) : null;
+    if (!receiver) {
+      return jsonResponse(401, { error: 'Invalid or missing API key' });
+    }
+
+    const text = await req.text();
+    let body: unknown;
+    try {
+      body = JSON.parse(text);
+    } catch {
+      return quarantine(supabase, receiver.id, { raw: text }, ['malformed_payload']);
+    }
+
+    const payload = parseReceiverPayload(body);
+    if (!payload) {
+      return quarantine(supabase, receiver.id, body, ['malformed_payload']);
+    }
+
+    const result = validateReceiverPayload(payload);
+    if (!result.valid) {
+      return quarantine(supabase, receiver.id, body, result.reasons);
+    }
+
+    const { reading } = result;
+    const { data, error } = await supabase
+      .from('buoy_readings')
+      .insert({
+        buoy_id: reading.buoyId,
+        recorded_at: reading.recordedAt,
+        latitude: reading.latitude,
+        longitude: reading.longitude,
+        ph: reading.ph,
+        tds: reading.tds,
+        temperature: reading.temperature,
+        receiver_id: receiver.id,
+      })
+      .select('id')
+      .single();
+
+    // Receivers retry on timeouts, so the same buoy+timestamp can arrive twice
+    if (error?.code === UNIQUE_VIOLATION) {
+      return jsonResponse(200, { status: 'duplicate' });
+    }
+    if (error) throw error;
+
+    await supabase
+      .from('receiver_api_keys')
+      .update({ last_used_at: new Date().toISOString() })
+      .eq('id', receiver.id);
+
+    console.log(`✅ Reading ${data.id} from buoy ${reading.buoyId} via ${receiver.name}`);
+    return jsonResponse(201, { status: 'accepted', id: data.id });
+  } catch (error) {
+    console.error('Error ingesting reading:', error);
+    return jsonResponse(500, { error: 'Internal error' });
+  }
+});
@@ -0,0 +1,51 @@
+// Supabase Edge Function: WebSocket channel for the app's live updates.
+// Relays readings that ingest-reading inserts into buoy_readings, received
+// through Supabase Realtime, in the format app/services/realtimeService.ts
+// expects. Deploy with `supabase functions deploy realtime-readings --no-verify-jwt`
+// (React Native WebSockets cannot send an Authorization header).
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import { BuoyReadingRow, PING_MESSAGE, readingMessage } from '../_shared/realtimeMessages.ts';
+
+const PING_INTERVAL_MS = 25000; // The app treats 60s of silence as a dead channel
+
+Deno.serve(req => {
+  if (req.headers.get('upgrade')?.toLowerCase() !== 'websocket') {
+    return new Response(JSON.stringify({ error: 'Expected a WebSocket upgrade' }), {
+      status: 426,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  const { socket, response } = Deno.upgradeWebSocket(req);
+  const supabase = createClient(
+    Deno.env.get('SUPABASE_URL') ?? '',
+    Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+  );
+  let pingTimer: number | undefined;
+
+  const channel = supabase
+    .channel(`buoy-readings-${crypto.randomUUID()}`)
+    .on('postgres_changes', { event: 'INSERT', schema: 'public', table: 'buoy_readings' }, payload => {
+      if (socket.readyState === WebSocket.OPEN) {
+        socket.send(readingMessage(payload.new as BuoyReadingRow));
+      }
+    });
+
+  socket.onopen = () => {
+    channel.subscribe(status => {
+      // The app reconnects with backoff and catches up on what it missed
+      if (status === 'CHANNEL_ERROR' || status === 'TIMED_OUT') {
+        console.error(`Realtime subscription failed: ${status}`);
+        socket.close(1011, 'Realtime subscription failed');
+      }
+    });
+    pingTimer = setInterval(() => socket.send(PING_MESSAGE), PING_INTERVAL_MS);
+  };
+
+  socket.onclose = () => {
+    clearInterval(pingTimer);
+    supabase.removeChannel(channel);
+  };
+
+  return response;
+});
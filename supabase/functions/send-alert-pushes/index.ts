@@ -0,0 +1,302 @@
+// Supabase Edge Function: evaluates every subscriber's alert rules on readings
+// ingested since the last run and sends pushes through Expo's push API.
+// Run it every minute from pg_cron (see PUSH_NOTIFICATIONS_SETUP.md). Set
+// PUSH_ENDPOINT to send to a stub server instead of Expo, or POST
+// {"dryRun": true} to get the messages back without sending or saving anything.
+import { createClient, SupabaseClient } from 'npm:@supabase/supabase-js@2';
+import {
+  AlertEvent,
+  RuleState,
+  ServerReading,
+  alertEventKey,
+  evaluateRuleSeries,
+  formatAlertMessage,
+  formatAlertTitle,
+  parseAlertRules,
+} from '../_shared/alertRules.ts';
+import { hashAlertRules } from '../_shared/alertEvaluation.ts';
+import { ExpoPushMessage, sendExpoPushes } from '../_shared/expoPush.ts';
+import { QC_CONTEXT_READINGS, withoutBadValues } from '../_shared/qualityControl.ts';
+
+const MAX_READINGS_PER_RUN = 1000; // The next run picks up the rest
+const APPROVED_ROLES = [0, 1, 3]; // Admin, researcher, approved user
+
+interface StateRow {
+  user_id: string;
+  rule_id: string;
+  buoy_id: number;
+  state: RuleState;
+}
+
+interface CoverageRow {
+  user_id: string;
+  buoy_id: number;
+  rules_hash: string;
+  last_recorded_at: string;
+}
+
+const jsonResponse = (status: number, body: Record<string, unknown>): Response => {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+};
+
+const readDryRun = async (req: Request): Promise<boolean> => {
+  try {
+    const body = await req.json();
+    return body?.dryRun === true;
+  } catch {
+    return false; // No body
+  }
+};
+
+// Readings after the cursor, oldest first. The first run starts at the newest
+// reading so history is never pushed.
+const loadNewReadings = async (supabase: SupabaseClient): Promise<ServerReading[] | null> => {
+  const { data: job, error: jobError } = await supabase
+    .from('push_job_state')
+    .select('last_reading_id')
+    .eq('id', 1)
+    .maybeSingle();
+  if (jobError) throw jobError;
+
+  if (!job) {
+    const { data: newest, error } = await supabase
+      .from('buoy_readings')
+      .select('id')
+      .order('id', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+    if (error) throw error;
+    await saveCursor(supabase, newest?.id ?? 0);
+    return null;
+  }
+
+  const { data, error } = await supabase
+    .from('buoy_readings')
+    .select('id, buoy_id, recorded_at, ph, tds, temperature')
+    .gt('id', job.last_reading_id)
+    .order('id', { ascending: true })
+    .limit(MAX_READINGS_PER_RUN);
+  if (error) throw error;
+  return data ?? [];
+};
+
+const saveCursor = async (supabase: SupabaseClient, lastReadingId: number): Promise<void> => {
+  const { error } = await supabase
+    .from('push_job_state')
+    .upsert({ id: 1, last_reading_id: lastReadingId, updated_at: new Date().toISOString() });
+  if (error) throw error;
+};
+
+/**
+ * Record, per user, the newest reading of each buoy the job evaluated their
+ * rules on and pushed for, with the hash of those rules. A phone only skips a
+ * local alert when this matches its own rules, so an alert is never lost when
+ * the job is not running or has an outdated copy of the rules.
+ */
+const saveCoverage = async (supabase: SupabaseClient, rows: CoverageRow[]): Promise<void> => {
+  if (rows.length === 0) return;
+  const updatedAt = new Date().toISOString();
+  const { error } = await supabase
+    .from('push_buoy_coverage')
+    .upsert(rows.map(row => ({ ...row, updated_at: updatedAt })));
+  if (error) throw error;
+};
+
+// recorded_at of each buoy's newest reading
+const newestRecordedAt = (readings: ServerReading[]): Map<number, string> => {
+  const newest = new Map<number, string>();
+  readings.forEach(reading => {
+    const current = newest.get(reading.buoy_id);
+    if (current === undefined || Date.parse(reading.recorded_at) > Date.parse(current)) {
+      newest.set(reading.buoy_id, reading.recorded_at);
+    }
+  });
+  return newest;
+};
+
+// Each buoy's new readings with bad values removed. The readings before them
+// are tested too, so the flatline and spike tests see the same neighbours the
+// app does.
+const withQualityControl = async (supabase: SupabaseClient, readings: ServerReading[]): Promise<Map<number, ServerReading[]>> => {
+  const firstNewId = readings[0].id;
+  const cleaned = new Map<number, ServerReading[]>();
+  for (const [buoyId, series] of groupBy(readings, reading => reading.buoy_id)) {
+    const { data: context, error } = await supabase
+      .from('buoy_readings')
+      .select('id, buoy_id, recorded_at, ph, tds, temperature')
+      .eq('buoy_id', buoyId)
+      .lt('id', firstNewId)
+      .order('id', { ascending: false })
+      .limit(QC_CONTEXT_READINGS);
+    if (error) throw error;
+    cleaned.set(buoyId, withoutBadValues([...(context ?? []), ...series]).filter(reading => reading.id >= firstNewId));
+  }
+  return cleaned;
+};
+
+const groupBy = <T, K>(items: T[], keyOf: (item: T) => K): Map<K, T[]> => {
+  const groups = new Map<K, T[]>();
+  items.forEach(item => {
+    const key = keyOf(item);
+    const group = groups.get(key) ?? [];
+    group.push(item);
+    groups.set(key, group);
+  });
+  return groups;
+};
+
+const toMessages = (event: AlertEvent, tokens: string[]): ExpoPushMessage[] => {
+  return tokens.map(token => ({
+    to: token,
+    title: formatAlertTitle(event),
+    body: formatAlertMessage(event),
+    data: {
+      alertKey: alertEventKey(event),
+      ruleId: event.rule.id,
+      buoyId: event.buoyId,
+      readingId: event.readingId,
+      parameter: event.rule.parameter,
+      timestamp: event.timestamp, // The app deep-links to the graph around this time
+      severity: event.rule.severity,
+      source: 'push',
+    },
+    sound: 'default',
+    priority: 'high',
+    channelId: `buoy-${event.rule.severity}`, // NOTIFICATION_CHANNELS in app/services/notificationService.ts
+  }));
+};
+
+Deno.serve(async req => {
+  if (req.method !== 'POST') {
+    return jsonResponse(405, { error: 'Method not allowed' });
+  }
+
+  const supabase = createClient(
+    Deno.env.get('SUPABASE_URL') ?? '',
+    Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+  );
+  const dryRun = await readDryRun(req);
+
+  try {
+    const readings = await loadNewReadings(supabase);
+    if (!readings) {
+      return jsonResponse(200, { status: 'initialized' });
+    }
+    if (readings.length === 0) {
+      return jsonResponse(200, { status: 'ok', readings: 0, alerts: 0, sent: 0 });
+    }
+    const lastReadingId = readings[readings.length - 1].id;
+    const buoyIds = [...new Set(readings.map(reading => reading.buoy_id))];
+
+    // Only approved users with at least one device subscribed to these buoys
+    const { data: subscriptions, error: subscriptionError } = await supabase
+      .from('push_subscriptions')
+      .select('user_id, buoy_id')
+      .in('buoy_id', buoyIds);
+    if (subscriptionError) throw subscriptionError;
+    const subscribedUsers = [...new Set((subscriptions ?? []).map(row => row.user_id as string))];
+
+    // Nobody to push to, so no buoy is covered and phones keep alerting locally
+    if (subscribedUsers.length === 0) {
+      if (!dryRun) {
+        await saveCursor(supabase, lastReadingId);
+      }
+      return jsonResponse(200, { status: 'ok', readings: readings.length, alerts: 0, sent: 0 });
+    }
+
+    const [profiles, tokens, rules, states] = await Promise.all([
+      supabase.from('user_profiles').select('id').in('id', subscribedUsers).in('role', APPROVED_ROLES),
+      supabase.from('push_tokens').select('user_id, token').in('user_id', subscribedUsers),
+      supabase.from('user_alert_rules').select('user_id, rules').in('user_id', subscribedUsers),
+      supabase.from('push_alert_state').select('user_id, rule_id, buoy_id, state').in('user_id', subscribedUsers).in('buoy_id', buoyIds),
+    ]);
+    for (const { error } of [profiles, tokens, rules, states]) {
+      if (error) throw error;
+    }
+
+    const approved = new Set((profiles.data ?? []).map(row => row.id as string));
+    const tokensByUser = groupBy(tokens.data ?? [], row => row.user_id as string);
+    const rulesByUser = new Map((rules.data ?? []).map(row => [row.user_id as string, parseAlertRules(row.rules)]));
+    const stateByKey = new Map(((states.data ?? []) as StateRow[]).map(row => [`${row.user_id}:${row.rule_id}:${row.buoy_id}`, row.state]));
+    const buoysByUser = groupBy(subscriptions ?? [], row => row.user_id as string);
+    const readingsByBuoy = await withQualityControl(supabase, readings);
+    const newestByBuoy = newestRecordedAt(readings);
+
+    const messages: ExpoPushMessage[] = [];
+    const updatedStates: StateRow[] = [];
+    const coverage: CoverageRow[] = [];
+    let alerts = 0;
+
+    approved.forEach(userId => {
+      const userTokens = (tokensByUser.get(userId) ?? []).map(row => row.token as string);
+      if (userTokens.length === 0) return;
+      const userBuoys = (buoysByUser.get(userId) ?? []).map(row => row.buoy_id as number);
+      const userRules = rulesByUser.get(userId) ?? [];
+      const rulesHash = hashAlertRules(userRules);
+      userBuoys.forEach(buoyId => {
+        const lastRecordedAt = newestByBuoy.get(buoyId);
+        // Without the user's rules on the server, their phones stay in charge
+        if (lastRecordedAt !== undefined && rulesByUser.has(userId)) {
+          coverage.push({ user_id: userId, buoy_id: buoyId, rules_hash: rulesHash, last_recorded_at: lastRecordedAt });
+        }
+      });
+
+      userRules.filter(rule => rule.enabled).forEach(rule => {
+        userBuoys.forEach(buoyId => {
+          if (rule.buoyId !== null && rule.buoyId !== buoyId) return;
+          const series = readingsByBuoy.get(buoyId);
+          if (!series) return;
+
+          const key = `${userId}:${rule.id}:${buoyId}`;
+          const { fired, state } = evaluateRuleSeries(rule, buoyId, series, stateByKey.get(key) ?? null);
+          updatedStates.push({ user_id: userId, rule_id: rule.id, buoy_id: buoyId, state });
+          fired.forEach(event => {
+            alerts++;
+            messages.push(...toMessages(event, userTokens));
+          });
+        });
+      });
+    });
+
+    if (dryRun) {
+      return jsonResponse(200, { status: 'dry-run', readings: readings.length, alerts, messages });
+    }
+
+    const pushResult = await sendExpoPushes(messages, {
+      endpoint: Deno.env.get('PUSH_ENDPOINT') || undefined,
+      accessToken: Deno.env.get('EXPO_ACCESS_TOKEN') || undefined,
+    });
+
+    if (pushResult.invalidTokens.length > 0) {
+      await supabase.from('push_tokens').delete().in('token', pushResult.invalidTokens);
+      console.log(`🧹 Removed ${pushResult.invalidTokens.length} unregistered push tokens`);
+    }
+    if (updatedStates.length > 0) {
+      const { error } = await supabase
+        .from('push_alert_state')
+        .upsert(updatedStates.map(row => ({ ...row, updated_at: new Date().toISOString() })));
+      if (error) throw error;
+    }
+    // Failures other than uninstalled apps leave these buoys to the phones' local alerts
+    if (pushResult.failed === pushResult.invalidTokens.length) {
+      await saveCoverage(supabase, coverage);
+    }
+    await saveCursor(supabase, lastReadingId);
+
+    console.log(`📨 ${readings.length} readings, ${alerts} alerts, ${pushResult.sent} pushes sent, ${pushResult.failed} failed`);
+    return jsonResponse(200, {
+      status: 'ok',
+      readings: readings.length,
+      alerts,
+      sent: pushResult.sent,
+      failed: pushResult.failed,
+      removedTokens: pushResult.invalidTokens.length,
+    });
+  } catch (error) {
+    console.error('Error sending alert pushes:', error);
+    return jsonResponse(500, { error: 'Internal error' });
+  }
+});
@@ -0,0 +1,36 @@
+// Stand-in for Expo's push API, for trying send-alert-pushes without real devices.
+// Run with `deno run --allow-net supabase/scripts/expo-push-stub.ts` and set
+// PUSH_ENDPOINT=http://host.docker.internal:8787 for the function (or
+// http://localhost:8787 when calling sendExpoPushes() directly).
+//
+// Every message is logged and accepted, except tokens containing
+// "Unregistered", which get a DeviceNotRegistered error like an uninstalled app.
+import type { ExpoPushMessage, ExpoPushTicket } from '../functions/_shared/expoPush.ts';
+
+const PORT = Number(Deno.env.get('PORT') ?? 8787);
+let nextTicket = 1;
+
+Deno.serve({ port: PORT }, async req => {
+  if (req.method !== 'POST') {
+    return new Response('Method not allowed', { status: 405 });
+  }
+
+  const messages = await req.json() as ExpoPushMessage[];
+  const data: ExpoPushTicket[] = messages.map(message => {
+    console.log(`📬 ${message.to}: ${message.title} - ${message.body}`);
+    if (message.to.includes('Unregistered')) {
+      return {
+        status: 'error',
+        message: `"${message.to}" is not a registered push notification recipient`,
+        details: { error: 'DeviceNotRegistered' },
+      };
+    }
+    return { status: 'ok', id: `stub-${nextTicket++}` };
+  });
+
+  return new Response(JSON.stringify({ data }), {
+    headers: { 'Content-Type': 'application/json' },
+  });
+});
+
+console.log(`Expo push stub listening on http://localhost:${PORT}`);
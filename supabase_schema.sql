@@ -95,3 +95,234 @@ CREATE INDEX idx_user_profiles_role ON public.user_profiles(role);
 GRANT USAGE ON SCHEMA public TO anon, authenticated;
 GRANT ALL ON public.user_profiles TO authenticated;
 GRANT SELECT ON public.user_profiles TO anon;
+
+-- ============================================================================
+-- Reading ingestion (supabase/functions/ingest-reading)
+-- ============================================================================
+
+-- One row per receiver; only the SHA-256 hash of its API key is stored
+CREATE TABLE public.receiver_api_keys (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    receiver_name TEXT NOT NULL,
+    key_hash TEXT UNIQUE NOT NULL,
+    active BOOLEAN DEFAULT TRUE,
+    last_used_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Validated readings; buoy + timestamp is unique so receiver retries are not stored twice
+CREATE TABLE public.buoy_readings (
+    id BIGSERIAL PRIMARY KEY,
+    buoy_id INTEGER NOT NULL,
+    recorded_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    latitude DOUBLE PRECISION NOT NULL CHECK (latitude BETWEEN -90 AND 90),
+    longitude DOUBLE PRECISION NOT NULL CHECK (longitude BETWEEN -180 AND 180),
+    ph REAL CHECK (ph BETWEEN 0 AND 14),
+    tds REAL CHECK (tds BETWEEN 0 AND 50000),
+    temperature REAL CHECK (temperature BETWEEN -10 AND 50),
+    receiver_id UUID REFERENCES public.receiver_api_keys(id),
+    received_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE (buoy_id, recorded_at)
+);
+
+-- Payloads that failed validation, kept for review instead of being dropped
+CREATE TABLE public.quarantined_readings (
+    id BIGSERIAL PRIMARY KEY,
+    receiver_id UUID REFERENCES public.receiver_api_keys(id),
+    payload JSONB NOT NULL,
+    reasons TEXT[] NOT NULL,
+    received_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX idx_buoy_readings_recorded_at ON public.buoy_readings(recorded_at DESC);
+CREATE INDEX idx_quarantined_readings_received_at ON public.quarantined_readings(received_at DESC);
+
+-- The edge function uses the service role; app users can only read
+ALTER TABLE public.receiver_api_keys ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.buoy_readings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.quarantined_readings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view readings" ON public.buoy_readings
+    FOR SELECT TO authenticated USING (true);
+
+CREATE POLICY "Admins can view quarantined readings" ON public.quarantined_readings
+    FOR SELECT USING (
+        EXISTS (
+            SELECT 1 FROM public.user_profiles
+            WHERE id = auth.uid() AND role = 0
+        )
+    );
+
+GRANT SELECT ON public.buoy_readings TO authenticated;
+GRANT SELECT ON public.quarantined_readings TO authenticated;
+
+-- New readings are relayed to the app by supabase/functions/realtime-readings
+ALTER PUBLICATION supabase_realtime ADD TABLE public.buoy_readings;
+
+-- ============================================================================
+-- Team alert log (app/services/alertHistoryService.ts)
+-- ============================================================================
+
+-- One row per fired alert; event_key is built by the app from buoy, rule and
+-- reading, so the same alert fired on several phones is stored once
+CREATE TABLE public.alert_events (
+    event_key TEXT PRIMARY KEY,
+    buoy_id INTEGER NOT NULL,
+    parameter TEXT NOT NULL CHECK (parameter IN ('pH', 'temperature', 'tds')),
+    rule_description TEXT NOT NULL,
+    severity TEXT NOT NULL CHECK (severity IN ('info', 'warning', 'critical')),
+    value REAL NOT NULL,
+    message TEXT NOT NULL,
+    reading_id BIGINT,
+    occurred_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    created_by UUID REFERENCES auth.users(id) DEFAULT auth.uid(),
+    acknowledged_by UUID REFERENCES auth.users(id),
+    acknowledged_by_name TEXT,
+    acknowledged_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Comment IDs are generated on the phone so offline comments are not posted twice
+CREATE TABLE public.alert_comments (
+    id TEXT PRIMARY KEY,
+    event_key TEXT NOT NULL REFERENCES public.alert_events(event_key) ON DELETE CASCADE,
+    author_id UUID REFERENCES auth.users(id) DEFAULT auth.uid(),
+    author_name TEXT NOT NULL,
+    body TEXT NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX idx_alert_events_occurred_at ON public.alert_events(occurred_at DESC);
+CREATE INDEX idx_alert_comments_event_key ON public.alert_comments(event_key);
+
+ALTER TABLE public.alert_events ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.alert_comments ENABLE ROW LEVEL SECURITY;
+
+-- Approved users (admin, researcher, approved user) share the alert log
+CREATE POLICY "Approved users can view alerts" ON public.alert_events
+    FOR SELECT USING (
+        EXISTS (
+            SELECT 1 FROM public.user_profiles
+            WHERE id = auth.uid() AND role IN (0, 1, 3)
+        )
+    );
+
+CREATE POLICY "Approved users can log alerts" ON public.alert_events
+    FOR INSERT WITH CHECK (
+        created_by = auth.uid() AND EXISTS (
+            SELECT 1 FROM public.user_profiles
+            WHERE id = auth.uid() AND role IN (0, 1, 3)
+        )
+    );
+
+CREATE POLICY "Approved users can acknowledge alerts" ON public.alert_events
+    FOR UPDATE USING (
+        EXISTS (
+            SELECT 1 FROM public.user_profiles
+            WHERE id = auth.uid() AND role IN (0, 1, 3)
+        )
+    ) WITH CHECK (acknowledged_by = auth.uid());
+
+CREATE POLICY "Approved users can view alert comments" ON public.alert_comments
+    FOR SELECT USING (
+        EXISTS (
+            SELECT 1 FROM public.user_profiles
+            WHERE id = auth.uid() AND role IN (0, 1, 3)
+        )
+    );
+
+CREATE POLICY "Approved users can comment on alerts" ON public.alert_comments
+    FOR INSERT WITH CHECK (
+        author_id = auth.uid() AND EXISTS (
+            SELECT 1 FROM public.user_profiles
+            WHERE id = auth.uid() AND role IN (0, 1, 3)
+        )
+    );
+
+GRANT SELECT, INSERT, UPDATE ON public.alert_events TO authenticated;
+GRANT SELECT, INSERT ON public.alert_comments TO authenticated;
+
+-- ============================================================================
+-- Push notifications (supabase/functions/send-alert-pushes)
+-- ============================================================================
+
+-- One row per device; a user signed in on two phones has two tokens
+CREATE TABLE public.push_tokens (
+    token TEXT PRIMARY KEY, -- ExponentPushToken[...]
+    user_id UUID NOT NULL REFERENCES public.user_profiles(id) ON DELETE CASCADE,
+    platform TEXT CHECK (platform IN ('ios', 'android')),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Buoys a user wants pushes for
+CREATE TABLE public.push_subscriptions (
+    user_id UUID NOT NULL REFERENCES public.user_profiles(id) ON DELETE CASCADE,
+    buoy_id INTEGER NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    PRIMARY KEY (user_id, buoy_id)
+);
+
+-- Copy of each user's alert rules (the same JSON the app keeps on the phone)
+CREATE TABLE public.user_alert_rules (
+    user_id UUID PRIMARY KEY REFERENCES public.user_profiles(id) ON DELETE CASCADE,
+    rules JSONB NOT NULL DEFAULT '[]'::jsonb,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Server-side rule state (streak, active, last value) per user, rule and buoy
+CREATE TABLE public.push_alert_state (
+    user_id UUID NOT NULL REFERENCES public.user_profiles(id) ON DELETE CASCADE,
+    rule_id TEXT NOT NULL,
+    buoy_id INTEGER NOT NULL,
+    state JSONB NOT NULL,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    PRIMARY KEY (user_id, rule_id, buoy_id)
+);
+
+-- Newest buoy_readings.id the job has evaluated; a single row
+CREATE TABLE public.push_job_state (
+    id INTEGER PRIMARY KEY CHECK (id = 1),
+    last_reading_id BIGINT NOT NULL,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Per user, the newest reading of each subscribed buoy the job has evaluated
+-- their rules on and pushed for, and the hash of those rules (hashAlertRules).
+-- Phones only skip local alerts for buoys covered recently with their own rules.
+CREATE TABLE public.push_buoy_coverage (
+    user_id UUID NOT NULL REFERENCES public.user_profiles(id) ON DELETE CASCADE,
+    buoy_id INTEGER NOT NULL,
+    rules_hash TEXT NOT NULL,
+    last_recorded_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    PRIMARY KEY (user_id, buoy_id)
+);
+
+CREATE INDEX idx_push_tokens_user_id ON public.push_tokens(user_id);
+CREATE INDEX idx_push_subscriptions_buoy_id ON public.push_subscriptions(buoy_id);
+
+ALTER TABLE public.push_tokens ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.push_subscriptions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.user_alert_rules ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.push_alert_state ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.push_job_state ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.push_buoy_coverage ENABLE ROW LEVEL SECURITY;
+
+-- Users manage their own devices, subscriptions and rules; the job uses the service role
+CREATE POLICY "Users can manage own push tokens" ON public.push_tokens
+    FOR ALL USING (auth.uid() = user_id) WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can manage own push subscriptions" ON public.push_subscriptions
+    FOR ALL USING (auth.uid() = user_id) WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can manage own alert rules" ON public.user_alert_rules
+    FOR ALL USING (auth.uid() = user_id) WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can view own push coverage" ON public.push_buoy_coverage
+    FOR SELECT USING (auth.uid() = user_id);
+
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.push_tokens TO authenticated;
+GRANT SELECT, INSERT, DELETE ON public.push_subscriptions TO authenticated;
+GRANT SELECT, INSERT, UPDATE ON public.user_alert_rules TO authenticated;
+GRANT SELECT ON public.push_buoy_coverage TO authenticated;